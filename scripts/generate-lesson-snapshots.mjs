@@ -0,0 +1,18 @@
+// Regenerate src/data/lesson-snapshots.ts from the lesson setup scripts.
+// Runs the app's own TypeScript modules through Vite, on an in-memory IndexedDB.
+import 'fake-indexeddb/auto';
+import { writeFile } from 'node:fs/promises';
+import { runnerImport } from 'vite';
+
+// LightningFS checks navigator.locks, which older Node versions don't define
+globalThis.navigator ??= {};
+
+const OUTPUT = 'src/data/lesson-snapshots.ts';
+
+const { module: generator } = await runnerImport('./src/lib/lessonSetup/snapshot-generator.ts', { configFile: false });
+const { module: snapshotUtils } = await runnerImport('./src/lib/repoSnapshot/snapshot-utils.ts', { configFile: false });
+
+const snapshots = await generator.generateLessonSnapshots();
+const source = snapshotUtils.formatSnapshotModule('LESSON_SNAPSHOTS', snapshots, 'scripts/generate-lesson-snapshots.mjs');
+await writeFile(OUTPUT, source);
+console.log(`Wrote ${Object.keys(snapshots).length} lesson snapshots to ${OUTPUT}`);
@@ -1,8 +1,11 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Allotment } from 'allotment';
 import 'allotment/dist/style.css';
 import { Terminal } from './components/Terminal/Terminal';
 import { FileTree } from './components/FileTree/FileTree';
+import { CommitGraph } from './components/CommitGraph/CommitGraph';
+import { ThreeAreas } from './components/ThreeAreas/ThreeAreas';
+import { ObjectExplorer } from './components/ObjectExplorer/ObjectExplorer';
 import { FileViewer } from './components/FileViewer/FileViewer';
 import { Instructions } from './components/Instructions/Instructions';
 import { ResumePrompt } from './components/ResumePrompt/ResumePrompt';
@@ -12,8 +15,23 @@ import { CWD } from './lib/config';
 import { lessons } from './data/lessons';
 import { useLessonProgress, type StoredProgress } from './hooks/useLessonProgress';
 import { useFileTree } from './hooks/useFileTree';
+import { useCommitGraph } from './hooks/useCommitGraph';
+import { useThreeAreas } from './hooks/useThreeAreas';
+import { useObjectExplorer } from './hooks/useObjectExplorer';
 import { useTerminalLayout } from './hooks/useTerminalLayout';
+import { useSandboxHistory } from './hooks/useSandboxHistory';
+import { useEditor } from './hooks/useEditor';
+import { isHistoryCommand } from './lib/sandboxHistory';
+import { parseCommandLine } from './lib/commands';
 import { loadProgress, clearProgress } from './lib/storage';
+import { initializeFs, resetFs, flushFs } from './lib/fs';
+import { clearGitStateHash } from './lib/gitStateHash';
+import { resetWorkingDirectory } from './lib/workingDirectory';
+import {
+  restoreGitStateBaseline,
+  checkSandboxAgainstProgress,
+  type SandboxCheck,
+} from './lib/sandboxPersistence';
 import './styles/variables.css';
 import styles from './App.module.css';
 
@@ -31,14 +49,52 @@ function App() {
     clearSelection,
   } = useFileTree();
 
+  const { graph, refreshCommitGraph } = useCommitGraph();
+  const { files: areaFiles, changedAreas, refreshThreeAreas } = useThreeAreas();
+
+  const {
+    objects,
+    refs,
+    indexEntries,
+    selectedObject,
+    canGoBack,
+    refreshObjectExplorer,
+    selectObject,
+    goBack,
+    clearObjectSelection,
+  } = useObjectExplorer();
+
+  const { canUndo, canRedo, refreshSandboxHistory, undo, redo } = useSandboxHistory();
+
+  // The sidebar explorer shows either the working tree or the inside of .git
+  const [explorerMode, setExplorerMode] = useState<'files' | 'objects'>('files');
+
+  // Refresh every view of the repository after something may have changed it
+  const refreshViews = useCallback(async () => {
+    await refreshFileTree();
+    await refreshCommitGraph();
+    await refreshThreeAreas();
+    await refreshObjectExplorer();
+    refreshSandboxHistory();
+  }, [refreshFileTree, refreshCommitGraph, refreshThreeAreas, refreshObjectExplorer, refreshSandboxHistory]);
+
   const {
     isTerminalExpanded,
     isTerminalFullscreen,
     handleTerminalExpandToggle,
     handleTerminalFullscreenToggle,
     handleVerticalSizeChange,
+    collapseTerminal,
   } = useTerminalLayout();
 
+  // Commands like a bare `git commit` open a file in the editor and wait for it
+  const openForEditing = useCallback((path: string) => {
+    setExplorerMode('files');
+    collapseTerminal();
+    handleFileSelect(path);
+  }, [collapseTerminal, handleFileSelect]);
+  const { editingPath, finishEdit } = useEditor(openForEditing);
+
   const {
     currentLesson,
     currentExerciseIndex,
@@ -52,6 +108,7 @@ function App() {
     resetProgress,
     skipToLesson,
     resumeFromSaved,
+    restoreProgress,
     lessonIndex,
     totalLessons,
   } = useLessonProgress(lessons);
@@ -59,19 +116,35 @@ function App() {
   // Resume prompt state
   const [showResumePrompt, setShowResumePrompt] = useState(false);
   const [savedProgress, setSavedProgress] = useState<StoredProgress | null>(null);
+  const [sandboxCheck, setSandboxCheck] = useState<SandboxCheck>('match');
 
   // Get current exercise for various checks
   const currentExercise = currentLesson?.exercises[currentExerciseIndex] ?? null;
-  const isEditingAllowed = currentExercise?.allowEditing ?? false;
+  const isEditingRequested = editingPath !== null && selectedFile === editingPath;
+  const isEditingAllowed = (currentExercise?.allowEditing ?? false) || isEditingRequested;
 
-  // Check for saved progress on mount
+  // Initialize the filesystem once, for the terminal and every view, then
+  // check for saved progress and whether the repository kept from the
+  // last visit still matches it
   useEffect(() => {
-    loadProgress().then(saved => {
-      if (saved && saved.lessonIndex > 0) {
+    restoreGitStateBaseline();
+    Promise.all([loadProgress(), initializeFs()]).then(async ([saved]) => {
+      await refreshViews();
+      if (saved && (saved.lessonIndex > 0 || saved.completedExercises.length > 0)) {
+        setSandboxCheck(await checkSandboxAgainstProgress(saved, lessons));
         setSavedProgress(saved);
         setShowResumePrompt(true);
       }
     });
+  }, [refreshViews]);
+
+  // Make sure the latest filesystem changes reach IndexedDB before the page goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushFs();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
   }, []);
 
   // Update completion system with current exercise for lesson-aware suggestions
@@ -91,25 +164,36 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isLessonComplete, lessonIndex, totalLessons, goToNextLesson]);
 
+  // Saving or cancelling a file a command opened lets the command carry on,
+  // and the command refreshes the views once it's done
+  const handleFinishEdit = useCallback(async (save: boolean) => {
+    if (save) await saveFile();
+    finishEdit();
+    clearSelection();
+  }, [saveFile, finishEdit, clearSelection]);
+
   // Cmd+S (Mac) or Ctrl+S (Windows/Linux) to save current file
   useEffect(() => {
     const handleKeyDown = async (e: KeyboardEvent) => {
-      if (e.key === 's' && (e.metaKey || e.ctrlKey) && selectedFile && isDirty && isEditingAllowed) {
+      if (e.key === 's' && (e.metaKey || e.ctrlKey) && isEditingRequested) {
+        e.preventDefault();
+        await handleFinishEdit(true);
+      } else if (e.key === 's' && (e.metaKey || e.ctrlKey) && selectedFile && isDirty && isEditingAllowed) {
         e.preventDefault();
         await saveFile();
-        await refreshFileTree();
+        await refreshViews();
         await checkCurrentExercise('');
         await checkStateIntegrity();
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedFile, isDirty, isEditingAllowed, saveFile, refreshFileTree, checkCurrentExercise, checkStateIntegrity]);
+  }, [selectedFile, isDirty, isEditingAllowed, isEditingRequested, handleFinishEdit, saveFile, refreshViews, checkCurrentExercise, checkStateIntegrity]);
 
   const handleSave = async () => {
     if (isDirty) {
       await saveFile();
-      await refreshFileTree();
+      await refreshViews();
       await checkCurrentExercise('');
       await checkStateIntegrity();
     }
@@ -118,32 +202,51 @@ function App() {
   const handleSelectLesson = async (lessonId: string) => {
     const success = await skipToLesson(lessonId);
     if (success) {
-      await refreshFileTree();
+      await refreshViews();
       clearSelection();
+      clearObjectSelection();
     }
   };
 
+  // Pick up exactly where the learner left off, files and all
   const handleResume = async () => {
+    if (savedProgress) {
+      restoreProgress(savedProgress);
+      await refreshViews();
+    }
+    setShowResumePrompt(false);
+  };
+
+  // Rebuild the saved lesson's starting state, keeping completed exercises
+  const handleRebuild = async () => {
     if (savedProgress) {
       await resumeFromSaved(savedProgress);
-      await refreshFileTree();
+      await refreshViews();
     }
     setShowResumePrompt(false);
   };
 
   const handleStartFresh = async () => {
     await clearProgress();
+    await resetFs();
+    clearGitStateHash();
+    resetWorkingDirectory();
+    await refreshViews();
     setShowResumePrompt(false);
   };
 
   const handleCommand = async (command: string) => {
     const result = await executeCommand(command);
-    await refreshFileTree();
+    await refreshViews();
 
     // Reset lesson progress when environment is reset
     if (command.trim() === 'reset') {
       resetProgress();
       clearSelection();
+      clearObjectSelection();
+    } else if (isHistoryCommand(parseCommandLine(command.trim())[0])) {
+      // Undo/redo restore lesson progress along with the sandbox
+      clearObjectSelection();
     } else {
       // Check if current exercise is completed after each command
       await checkCurrentExercise(command);
@@ -154,6 +257,20 @@ function App() {
     return result;
   };
 
+  const handleUndo = async () => {
+    if (await undo()) {
+      await refreshViews();
+      clearObjectSelection();
+    }
+  };
+
+  const handleRedo = async () => {
+    if (await redo()) {
+      await refreshViews();
+      clearObjectSelection();
+    }
+  };
+
   // Get the title of the saved lesson for display
   const savedLessonTitle = savedProgress
     ? lessons.find(l => l.id === savedProgress.lessonId)?.title ?? 'Unknown Lesson'
@@ -165,25 +282,67 @@ function App() {
         <ResumePrompt
           savedProgress={savedProgress}
           lessonTitle={savedLessonTitle}
+          sandboxCheck={sandboxCheck}
           onResume={handleResume}
+          onRebuild={handleRebuild}
           onStartFresh={handleStartFresh}
         />
       )}
       <Allotment>
-        {/* File Tree Sidebar */}
+        {/* Sidebar: File Tree + Commit Graph */}
         {!isTerminalFullscreen && (
           <Allotment.Pane preferredSize={250} minSize={150} maxSize={400}>
             <div className={styles.sidebar}>
-              <div className={styles.sidebarHeader}>
-                Explorer
-              </div>
-              <div className={styles.sidebarContent}>
-                <FileTree
-                  files={files}
-                  onFileSelect={handleFileSelect}
-                  selectedPath={selectedFile || undefined}
-                />
-              </div>
+              <Allotment vertical>
+                <Allotment.Pane minSize={100}>
+                  <div className={styles.sidebarSection}>
+                    <div className={`${styles.sidebarHeader} ${styles.sidebarTabs}`}>
+                      <button
+                        className={explorerMode === 'files' ? styles.sidebarTabActive : styles.sidebarTab}
+                        onClick={() => setExplorerMode('files')}
+                      >
+                        Explorer
+                      </button>
+                      <button
+                        className={explorerMode === 'objects' ? styles.sidebarTabActive : styles.sidebarTab}
+                        onClick={() => setExplorerMode('objects')}
+                        title="Browse the objects, refs and index inside .git"
+                      >
+                        .git
+                      </button>
+                    </div>
+                    <div className={styles.sidebarContent}>
+                      {explorerMode === 'files' ? (
+                        <FileTree
+                          files={files}
+                          onFileSelect={handleFileSelect}
+                          selectedPath={selectedFile || undefined}
+                        />
+                      ) : (
+                        <ObjectExplorer
+                          objects={objects}
+                          refs={refs}
+                          indexEntries={indexEntries}
+                          selectedOid={selectedObject?.oid}
+                          onObjectSelect={selectObject}
+                        />
+                      )}
+                    </div>
+                  </div>
+                </Allotment.Pane>
+
+                {/* Commit Graph */}
+                <Allotment.Pane minSize={100}>
+                  <div className={styles.sidebarSection}>
+                    <div className={styles.sidebarHeader}>
+                      Commit Graph
+                    </div>
+                    <div className={styles.sidebarContent}>
+                      <CommitGraph graph={graph} />
+                    </div>
+                  </div>
+                </Allotment.Pane>
+              </Allotment>
             </div>
           </Allotment.Pane>
         )}
@@ -200,14 +359,57 @@ function App() {
                 {!isTerminalExpanded && (
                   <Allotment.Pane>
                     <div className={styles.editorPanel}>
-                      {selectedFile ? (
+                      {explorerMode === 'objects' ? (
+                        selectedObject ? (
+                          <>
+                            <div className={styles.editorHeader}>
+                              {canGoBack && (
+                                <button className={styles.backBtn} onClick={goBack} title="Back to the previous object">
+                                  ←
+                                </button>
+                              )}
+                              <span className={styles.editorFilename}>
+                                {selectedObject.type} {selectedObject.oid}
+                              </span>
+                              <span className={styles.objectSize}>{selectedObject.size} bytes</span>
+                            </div>
+                            <div className={styles.editorContent}>
+                              <FileViewer
+                                content={selectedObject.content}
+                                onWordClick={selectObject}
+                              />
+                            </div>
+                          </>
+                        ) : (
+                          <div className={styles.editorPlaceholder}>
+                            Select an object to see what git stored - click any object id to follow it
+                          </div>
+                        )
+                      ) : selectedFile ? (
                         <>
                           <div className={styles.editorHeader}>
                             <span className={styles.editorFilename}>
                               {selectedFile.replace(`${CWD}/`, '')}
                               {isDirty && isEditingAllowed && <span className={styles.unsavedIndicator}>●</span>}
                             </span>
-                            {isDirty && isEditingAllowed && (
+                            {isEditingRequested ? (
+                              <div className={styles.editActions}>
+                                <button
+                                  className={styles.editActionBtn}
+                                  onClick={() => handleFinishEdit(false)}
+                                  title="Close without saving"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  className={styles.editActionBtnPrimary}
+                                  onClick={() => handleFinishEdit(true)}
+                                  title="Save and close, so the command can continue (Cmd+S / Ctrl+S)"
+                                >
+                                  Save &amp; Close
+                                </button>
+                              </div>
+                            ) : isDirty && isEditingAllowed && (
                               <button
                                 className={styles.saveBtn}
                                 onClick={handleSave}
@@ -238,12 +440,48 @@ function App() {
                   </Allotment.Pane>
                 )}
 
+                {/* Three-Area Panel: working tree, index and HEAD side by side */}
+                {!isTerminalExpanded && (
+                  <Allotment.Pane preferredSize={200} minSize={80}>
+                    <div className={styles.areasPanel}>
+                      <div className={styles.terminalHeader}>
+                        <span className={styles.terminalTitle}>Working Tree · Index · HEAD</span>
+                      </div>
+                      <div className={styles.areasContent}>
+                        <ThreeAreas files={areaFiles} changedAreas={changedAreas} />
+                      </div>
+                    </div>
+                  </Allotment.Pane>
+                )}
+
                 {/* Terminal Panel */}
                 <Allotment.Pane preferredSize={isTerminalExpanded ? undefined : 250} minSize={100} maxSize={isTerminalExpanded ? undefined : 500}>
                   <div className={styles.terminalPanel}>
                     <div className={styles.terminalHeader}>
                       <span className={styles.terminalTitle}>Terminal</span>
                       <div className={styles.terminalHeaderButtons}>
+                        <button
+                          className={styles.terminalExpandBtn}
+                          onClick={handleUndo}
+                          disabled={!canUndo}
+                          title="Undo the last command (undo)"
+                        >
+                          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                            <polyline points="1,2 1,5 4,5" />
+                            <path d="M1 5 A5 5 0 1 1 3 10" />
+                          </svg>
+                        </button>
+                        <button
+                          className={styles.terminalExpandBtn}
+                          onClick={handleRedo}
+                          disabled={!canRedo}
+                          title="Redo the last undone command (redo)"
+                        >
+                          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                            <polyline points="11,2 11,5 8,5" />
+                            <path d="M11 5 A5 5 0 1 0 9 10" />
+                          </svg>
+                        </button>
                         {!isTerminalFullscreen && (
                           <button
                             className={styles.terminalExpandBtn}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import styles from './CommitGraph.module.css';
+import type { GraphEdge, GraphLayout, RefLabel } from '../../lib/commitGraph';
+
+interface CommitGraphProps {
+  graph: GraphLayout | null;
+}
+
+const ROW_HEIGHT = 28;
+const LANE_WIDTH = 16;
+const PADDING = 8;
+const NODE_RADIUS = 4;
+
+const LANE_COLORS = [
+  'var(--color-info)',
+  'var(--color-success)',
+  'var(--color-warning)',
+  '#c586c0',
+  '#ce9178',
+  '#4fc1ff',
+];
+
+function laneColor(lane: number): string {
+  return LANE_COLORS[lane % LANE_COLORS.length];
+}
+
+function laneX(lane: number): number {
+  return PADDING + lane * LANE_WIDTH + LANE_WIDTH / 2;
+}
+
+function rowY(row: number): number {
+  return row * ROW_HEIGHT + ROW_HEIGHT / 2;
+}
+
+/**
+ * Path for an edge from a child down to its parent.
+ * Merge edges branch out right below the child; first-parent edges
+ * stay in the child's lane and join the parent's lane just above it.
+ */
+function edgePath(edge: GraphEdge): string {
+  const x1 = laneX(edge.fromLane);
+  const y1 = rowY(edge.fromRow);
+  const x2 = laneX(edge.toLane);
+  const y2 = rowY(edge.toRow);
+  if (x1 === x2) {
+    return `M ${x1} ${y1} L ${x2} ${y2}`;
+  }
+  if (edge.merge) {
+    const bend = y1 + ROW_HEIGHT;
+    return `M ${x1} ${y1} C ${x1} ${bend}, ${x2} ${y1}, ${x2} ${bend} L ${x2} ${y2}`;
+  }
+  const bend = y2 - ROW_HEIGHT;
+  return `M ${x1} ${y1} L ${x1} ${bend} C ${x1} ${y2}, ${x2} ${bend}, ${x2} ${y2}`;
+}
+
+function RefBadge({ label }: { label: RefLabel }) {
+  const classes = [
+    styles.badge,
+    styles[`badge-${label.type}`],
+    label.current ? styles.badgeCurrent : '',
+  ].filter(Boolean).join(' ');
+  return (
+    <span className={classes}>
+      {label.current ? `HEAD → ${label.name}` : label.name}
+    </span>
+  );
+}
+
+export function CommitGraph({ graph }: CommitGraphProps) {
+  const [selectedOid, setSelectedOid] = useState<string | null>(null);
+
+  if (!graph) {
+    return <div className={styles.placeholder}>Run git init to start a repository</div>;
+  }
+  if (graph.nodes.length === 0) {
+    return <div className={styles.placeholder}>No commits yet</div>;
+  }
+
+  const selected = graph.nodes.find((n) => n.commit.oid === selectedOid)?.commit;
+  const graphWidth = PADDING * 2 + graph.laneCount * LANE_WIDTH;
+  const graphHeight = graph.nodes.length * ROW_HEIGHT;
+
+  return (
+    <div className={styles.graph}>
+      <svg
+        className={styles.svg}
+        width={graphWidth}
+        height={graphHeight}
+        role="img"
+        aria-label="Commit graph"
+      >
+        {graph.edges.map((edge) => (
+          <path
+            key={`${edge.from}-${edge.to}`}
+            d={edgePath(edge)}
+            stroke={laneColor(edge.merge ? edge.toLane : edge.fromLane)}
+            strokeWidth={2}
+            fill="none"
+          />
+        ))}
+        {graph.nodes.map((node) => (
+          <circle
+            key={node.commit.oid}
+            cx={laneX(node.lane)}
+            cy={rowY(node.row)}
+            r={node.commit.parents.length > 1 ? NODE_RADIUS + 1 : NODE_RADIUS}
+            fill={node.commit.parents.length > 1 ? 'var(--color-bg-secondary)' : laneColor(node.lane)}
+            stroke={laneColor(node.lane)}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <div className={styles.rows} style={{ paddingLeft: `${graphWidth}px` }}>
+        {graph.nodes.map(({ commit, labels }) => {
+          const isSelected = selectedOid === commit.oid;
+          const rowClasses = [
+            styles.row,
+            isSelected ? styles.rowSelected : '',
+          ].filter(Boolean).join(' ');
+          return (
+            <div
+              key={commit.oid}
+              className={rowClasses}
+              style={{ height: `${ROW_HEIGHT}px` }}
+              onClick={() => setSelectedOid(isSelected ? null : commit.oid)}
+            >
+              <span className={styles.oid}>{commit.oid.slice(0, 7)}</span>
+              {labels.map((label) => (
+                <RefBadge key={`${label.type}-${label.name}`} label={label} />
+              ))}
+              <span className={styles.message}>{commit.message.split('\n')[0]}</span>
+            </div>
+          );
+        })}
+      </div>
+      {selected && (
+        <dl className={styles.details}>
+          <dt>commit</dt>
+          <dd className={styles.oid}>{selected.oid}</dd>
+          {selected.parents.length > 0 && (
+            <>
+              <dt>{selected.parents.length > 1 ? 'parents' : 'parent'}</dt>
+              <dd className={styles.oid}>{selected.parents.map((p) => p.slice(0, 7)).join(' ')}</dd>
+            </>
+          )}
+          <dt>author</dt>
+          <dd>{selected.author}</dd>
+          <dt>message</dt>
+          <dd className={styles.fullMessage}>{selected.message}</dd>
+        </dl>
+      )}
+    </div>
+  );
+}
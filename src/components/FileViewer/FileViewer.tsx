@@ -1,4 +1,5 @@
-import Editor from '@monaco-editor/react';
+import { useEffect, useRef } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
 
 interface FileViewerProps {
   content: string;
@@ -6,6 +7,7 @@ interface FileViewerProps {
   path?: string;
   onChange?: (value: string | undefined) => void;
   readOnly?: boolean;
+  onWordClick?: (word: string) => void;
 }
 
 function getLanguageFromPath(path: string): string {
@@ -31,15 +33,32 @@ function getLanguageFromPath(path: string): string {
   return languageMap[ext || ''] || 'plaintext';
 }
 
-export function FileViewer({ content, language, path, onChange, readOnly = true }: FileViewerProps) {
+export function FileViewer({ content, language, path, onChange, readOnly = true, onWordClick }: FileViewerProps) {
   const detectedLanguage = language || (path ? getLanguageFromPath(path) : 'plaintext');
 
+  // The editor is only mounted once, so read the latest callback through a ref
+  const onWordClickRef = useRef(onWordClick);
+  useEffect(() => {
+    onWordClickRef.current = onWordClick;
+  }, [onWordClick]);
+
+  const handleMount: OnMount = (editor) => {
+    editor.onMouseDown((e) => {
+      const position = e.target.position;
+      const word = position ? editor.getModel()?.getWordAtPosition(position) : null;
+      if (word) {
+        onWordClickRef.current?.(word.word);
+      }
+    });
+  };
+
   return (
     <Editor
       height="100%"
       language={detectedLanguage}
       value={content}
       onChange={onChange}
+      onMount={handleMount}
       theme="vs-dark"
       options={{
         readOnly,
@@ -0,0 +1,71 @@
+import styles from './ObjectExplorer.module.css';
+import type { IndexEntry } from '../../lib/gitIndex/index-utils';
+import type { ObjectSummary, RefSummary } from '../../lib/objectDb';
+
+interface ObjectExplorerProps {
+  objects: ObjectSummary[];
+  refs: RefSummary[];
+  indexEntries: IndexEntry[];
+  selectedOid?: string;
+  onObjectSelect: (oid: string) => void;
+}
+
+interface OidLinkProps {
+  oid: string;
+  onObjectSelect: (oid: string) => void;
+}
+
+function OidLink({ oid, onObjectSelect }: OidLinkProps) {
+  return (
+    <button className={styles.oid} onClick={() => onObjectSelect(oid)} title={oid}>
+      {oid.slice(0, 7)}
+    </button>
+  );
+}
+
+export function ObjectExplorer({ objects, refs, indexEntries, selectedOid, onObjectSelect }: ObjectExplorerProps) {
+  if (refs.length === 0) {
+    return <div className={styles.placeholder}>Run git init to create .git</div>;
+  }
+
+  return (
+    <div className={styles.explorer}>
+      <div className={styles.sectionTitle}>Refs</div>
+      {refs.map((ref) => (
+        <div key={ref.name} className={styles.item}>
+          <span className={styles.name}>{ref.name}</span>
+          {ref.symbolic && <span className={styles.symbolic}>→ {ref.symbolic}</span>}
+          {ref.oid ? (
+            <OidLink oid={ref.oid} onObjectSelect={onObjectSelect} />
+          ) : (
+            <span className={styles.muted}>no commits</span>
+          )}
+        </div>
+      ))}
+
+      <div className={styles.sectionTitle}>Index ({indexEntries.length})</div>
+      {indexEntries.map((entry) => (
+        <div key={`${entry.path}:${entry.stage}`} className={styles.item}>
+          <OidLink oid={entry.oid} onObjectSelect={onObjectSelect} />
+          {entry.stage > 0 && <span className={styles.muted}>stage {entry.stage}</span>}
+          <span className={styles.name}>{entry.path}</span>
+        </div>
+      ))}
+
+      <div className={styles.sectionTitle}>Objects ({objects.length})</div>
+      {objects.map((object) => {
+        const itemClasses = [
+          styles.item,
+          styles.objectItem,
+          object.oid === selectedOid ? styles.itemSelected : '',
+        ].filter(Boolean).join(' ');
+        return (
+          <div key={object.oid} className={itemClasses} onClick={() => onObjectSelect(object.oid)}>
+            <span className={`${styles.type} ${styles[`type-${object.type}`]}`}>{object.type}</span>
+            <span className={styles.fullOid}>{object.oid}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
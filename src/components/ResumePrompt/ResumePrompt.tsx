@@ -1,21 +1,27 @@
 import type { StoredProgress } from '../../hooks/useLessonProgress';
+import { describeSandboxCheck, type SandboxCheck } from '../../lib/sandboxPersistence';
 import styles from './ResumePrompt.module.css';
 
 interface ResumePromptProps {
   savedProgress: StoredProgress;
   lessonTitle: string;
+  sandboxCheck: SandboxCheck;
   onResume: () => void;
+  onRebuild: () => void;
   onStartFresh: () => void;
 }
 
 export function ResumePrompt({
   savedProgress,
   lessonTitle,
+  sandboxCheck,
   onResume,
+  onRebuild,
   onStartFresh,
 }: ResumePromptProps) {
   const exerciseCount = savedProgress.completedExercises.length;
   const exerciseText = exerciseCount === 1 ? 'exercise' : 'exercises';
+  const isMismatch = sandboxCheck !== 'match';
 
   return (
     <div className={styles.overlay}>
@@ -38,13 +44,25 @@ export function ResumePrompt({
             </div>
           )}
         </div>
+        <p className={isMismatch ? styles.mismatch : styles.description}>
+          {describeSandboxCheck(sandboxCheck)}
+          {isMismatch && ' Keep your files as they are, or rebuild the start of this lesson.'}
+        </p>
         <div className={styles.actions}>
           <button
             className={`${styles.button} ${styles.buttonPrimary}`}
-            onClick={onResume}
+            onClick={isMismatch ? onRebuild : onResume}
           >
-            Resume Progress
+            {isMismatch ? 'Rebuild Lesson Start' : 'Resume Progress'}
           </button>
+          {isMismatch && (
+            <button
+              className={`${styles.button} ${styles.buttonSecondary}`}
+              onClick={onResume}
+            >
+              Keep My Files
+            </button>
+          )}
           <button
             className={`${styles.button} ${styles.buttonSecondary}`}
             onClick={onStartFresh}
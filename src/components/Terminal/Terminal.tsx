@@ -3,9 +3,10 @@ import { Terminal as XTerm } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import { getCompletions } from '../../lib/completion/index';
-import type { CommandResult } from '../../lib/commands/types';
+import type { ShellResult } from '../../lib/commands/types';
 import { findPrevWordBoundary, findNextWordBoundary } from './utils/word-navigation';
 import { buildLineOutput } from './utils/line-output';
+import { getCurrentDir, formatPrompt } from '../../lib/workingDirectory';
 import { isMacPlatform, getShortcutHint, shouldShowHint, shouldPrioritizeAdvanceHint } from './utils/shortcut-hint';
 import { cycleIndex } from './utils/completion-cycling';
 import { computeGhostText } from './utils/ghost-text';
@@ -13,11 +14,16 @@ import '@xterm/xterm/css/xterm.css';
 import styles from './Terminal.module.css';
 
 interface TerminalProps {
-  onCommand?: (command: string) => Promise<CommandResult>;
+  onCommand?: (command: string) => Promise<ShellResult>;
   canAdvanceLesson?: boolean;
   lessonId?: string;
 }
 
+// The prompt shows the current directory, so it's rebuilt each time it's written
+function prompt(): string {
+  return formatPrompt(getCurrentDir());
+}
+
 export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProps) {
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
@@ -180,7 +186,7 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
       // Clear screen and redraw
       term.write('\x1b[2J\x1b[H');
       term.write(welcomeMessage + '\r\n\r\n');
-      term.write('$ ');
+      term.write(prompt());
     };
 
     // Store clearTerminal in ref so it can be called from outside this effect
@@ -201,7 +207,7 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
         term.write('\r\n');        // Move to suggestions line
         term.write('\x1b[2K');     // Clear it
         term.write('\x1b[A');      // Move back up to command line
-        term.write('\r$ ');        // Reposition
+        term.write('\r' + prompt());  // Reposition
         term.write(currentLine);
         // Restore cursor position
         const moveBack = currentLine.length - cursorPos;
@@ -222,7 +228,8 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
         cursorPos,
         prevLineLength,
         ghostText,
-        useGhostCursor ? ghostCursorState : undefined
+        useGhostCursor ? ghostCursorState : undefined,
+        prompt()
       );
       term.write(output);
       prevLineLength = newPrevLength;
@@ -337,9 +344,9 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
       // Use single atomic write to prevent cursor flicker
       const clearLength = Math.max(currentLine.length, prevLineLength);
       const suggestionsLine = renderSuggestionsLine(suggestions, activeIndex);
-      const output = '\r$ ' + ' '.repeat(clearLength) + '\r$ ' + currentLine +
+      const output = '\r' + prompt() + ' '.repeat(clearLength) + '\r' + prompt() + currentLine +
         '\r\n' + suggestionsLine +
-        '\x1b[A' + `\r$ ${currentLine}`;
+        '\x1b[A' + `\r${prompt()}${currentLine}`;
       term.write(output);
       prevLineLength = currentLine.length;
     };
@@ -349,16 +356,16 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
       // Use single atomic write to prevent cursor flicker
       const clearLength = Math.max(currentLine.length, prevLineLength);
       const suggestionsLine = renderSuggestionsLine(suggestions, activeIndex);
-      const output = '\r$ ' + ' '.repeat(clearLength) + '\r$ ' + currentLine +
+      const output = '\r' + prompt() + ' '.repeat(clearLength) + '\r' + prompt() + currentLine +
         '\r\n' + '\x1b[2K' + suggestionsLine +
-        '\x1b[A' + `\r$ ${currentLine}`;
+        '\x1b[A' + `\r${prompt()}${currentLine}`;
       term.write(output);
       prevLineLength = currentLine.length;
     };
 
     // Welcome message (dimmed)
     term.write(welcomeMessage + '\r\n\r\n');
-    term.write('$ ');
+    term.write(prompt());
     // Delay initial ghost text fetch to allow other effects (like setCurrentExercise) to run first
     setTimeout(fetchGhostText, 0);
 
@@ -389,15 +396,15 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
         if (cmd && onCommandRef.current) {
           onCommandRef.current(cmd).then((result) => {
             writeOutput(term, result.output);
-            term.write('$ ');
+            term.write(prompt());
             fetchGhostText();
           }).catch((err) => {
             writeOutput(term, `Error: ${err.message}`);
-            term.write('$ ');
+            term.write(prompt());
             fetchGhostText();
           });
         } else {
-          term.write('$ ');
+          term.write(prompt());
           fetchGhostText();
         }
       } else if (domEvent.key === 'Backspace') {
@@ -546,7 +553,7 @@ export function Terminal({ onCommand, canAdvanceLesson, lessonId }: TerminalProp
         clearGhostText();
         term.write('\x1b[2J\x1b[H');
         term.write(welcomeMessage + '\r\n\r\n');
-        term.write('$ ' + currentLine);
+        term.write(prompt() + currentLine);
         // Restore cursor position
         const moveBack = currentLine.length - cursorPos;
         if (moveBack > 0) {
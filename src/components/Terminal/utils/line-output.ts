@@ -6,6 +6,7 @@
  *   - 'on': First ghost char shown with reverse video (block cursor effect)
  *   - 'off': First ghost char shown in dim (grey)
  *   - undefined: No custom cursor handling (native cursor used)
+ * @param prompt - The prompt written before the command line
  */
 export function buildLineOutput(
   currentLine: string,
@@ -13,11 +14,12 @@ export function buildLineOutput(
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   _prevLineLength: number,
   ghostText: string = '',
-  ghostCursorState?: 'on' | 'off'
+  ghostCursorState?: 'on' | 'off',
+  prompt: string = '$ '
 ): { output: string; newPrevLength: number } {
   // Use ANSI escape sequence to clear line instead of space padding
   // \r moves cursor to start, \x1b[2K clears entire line
-  let output = '\r\x1b[2K$ ' + currentLine;
+  let output = '\r\x1b[2K' + prompt + currentLine;
 
   // Add ghost text in grey after the current line (at cursor position)
   if (ghostText) {
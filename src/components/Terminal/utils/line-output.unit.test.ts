@@ -35,6 +35,11 @@ describe('buildLineOutput', () => {
     expect(result.output).toContain('$ hello');
   });
 
+  it('should use a custom prompt when given', () => {
+    const result = buildLineOutput('ls', 2, 0, '', undefined, '/repo/src $ ');
+    expect(result.output).toBe('\r\x1b[2K/repo/src $ ls');
+  });
+
   it('should return new prevLineLength equal to current line length', () => {
     const result = buildLineOutput('hello', 5, 100);
     expect(result.newPrevLength).toBe(5);
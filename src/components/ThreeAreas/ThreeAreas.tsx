@@ -0,0 +1,109 @@
+import styles from './ThreeAreas.module.css';
+import { AREA_NAMES, describeChange, type AreaFile, type AreaName } from '../../lib/threeAreas';
+
+interface ThreeAreasProps {
+  files: AreaFile[] | null;
+  changedAreas: Set<string>;
+}
+
+const AREA_TITLES: Record<AreaName, string> = {
+  workdir: 'Working Directory',
+  index: 'Staging Area (Index)',
+  head: 'Repository (HEAD)',
+};
+
+// The command that copies content from one area to the next
+const AREA_TRANSITIONS: Partial<Record<AreaName, string>> = {
+  workdir: 'git add',
+  index: 'git commit',
+};
+
+// Only preview the start of long files
+const MAX_PREVIEW_LINES = 8;
+
+function preview(content: string): string {
+  const lines = content.split('\n');
+  if (lines.length <= MAX_PREVIEW_LINES) {
+    return content;
+  }
+  return [...lines.slice(0, MAX_PREVIEW_LINES), `… ${lines.length - MAX_PREVIEW_LINES} more lines`].join('\n');
+}
+
+/**
+ * Whether an area's content differs from the next area to its right,
+ * i.e. whether the transition out of it would change something.
+ */
+function differsFromNext(file: AreaFile, area: AreaName): boolean {
+  if (area === 'workdir') return file.state.unstaged;
+  if (area === 'index') return file.state.staged;
+  return false;
+}
+
+interface AreaCellProps {
+  file: AreaFile;
+  area: AreaName;
+  changed: boolean;
+}
+
+function AreaCell({ file, area, changed }: AreaCellProps) {
+  const content = file.contents[area];
+  const cellClasses = [
+    styles.cell,
+    content === null ? styles.cellAbsent : '',
+    differsFromNext(file, area) ? styles.cellPending : '',
+    changed ? styles.cellChanged : '',
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className={cellClasses}>
+      {content === null ? (
+        <span className={styles.absent}>not present</span>
+      ) : (
+        <pre className={styles.content}>{content === '' ? ' ' : preview(content)}</pre>
+      )}
+    </div>
+  );
+}
+
+export function ThreeAreas({ files, changedAreas }: ThreeAreasProps) {
+  if (!files) {
+    return <div className={styles.placeholder}>Run git init to start a repository</div>;
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.grid}>
+        <div className={styles.headerCell}>File</div>
+        {AREA_NAMES.map((area) => (
+          <div key={area} className={styles.headerCell}>
+            {AREA_TITLES[area]}
+            {AREA_TRANSITIONS[area] && (
+              <span className={styles.transition}>{AREA_TRANSITIONS[area]} →</span>
+            )}
+          </div>
+        ))}
+
+        {files.map((file) => (
+          <div key={file.filepath} className={styles.row}>
+            <div className={styles.fileCell}>
+              <span className={styles.filepath}>{file.filepath}</span>
+              <span className={styles.state}>{describeChange(file.state)}</span>
+            </div>
+            {/* Keyed by content so the highlight animation replays on every change */}
+            {AREA_NAMES.map((area) => (
+              <AreaCell
+                key={`${area}:${file.contents[area]}`}
+                file={file}
+                area={area}
+                changed={changedAreas.has(`${file.filepath}:${area}`)}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      {files.length === 0 && (
+        <div className={styles.placeholder}>No files yet</div>
+      )}
+    </div>
+  );
+}
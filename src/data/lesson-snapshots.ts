@@ -0,0 +1,11 @@
+// Generated by scripts/generate-lesson-snapshots.mjs - do not edit by hand.
+import type { RepoSnapshot } from '../lib/repoSnapshot';
+
+export const LESSON_SNAPSHOTS: Record<string, RepoSnapshot> = {
+  'lesson-1': {"version":1,"directories":["/repo"],"files":{}},
+  'lesson-2': {"version":1,"directories":["/repo","/repo/.git","/repo/.git/hooks","/repo/.git/info","/repo/.git/objects","/repo/.git/objects/info","/repo/.git/objects/pack","/repo/.git/refs","/repo/.git/refs/heads","/repo/.git/refs/tags"],"files":{"/repo/.git/HEAD":"cmVmOiByZWZzL2hlYWRzL21hc3Rlcgo=","/repo/.git/config":"W2NvcmVdCglyZXBvc2l0b3J5Zm9ybWF0dmVyc2lvbiA9IDAKCWZpbGVtb2RlID0gZmFsc2UKCWJhcmUgPSBmYWxzZQoJbG9nYWxscmVmdXBkYXRlcyA9IHRydWUKCXN5bWxpbmtzID0gZmFsc2UKCWlnbm9yZWNhc2UgPSB0cnVlCg=="}},
+  'lesson-3': {"version":1,"directories":["/repo","/repo/.git","/repo/.git/hooks","/repo/.git/info","/repo/.git/objects","/repo/.git/objects/e6","/repo/.git/objects/info","/repo/.git/objects/pack","/repo/.git/refs","/repo/.git/refs/heads","/repo/.git/refs/tags"],"files":{"/repo/.git/HEAD":"cmVmOiByZWZzL2hlYWRzL21hc3Rlcgo=","/repo/.git/config":"W2NvcmVdCglyZXBvc2l0b3J5Zm9ybWF0dmVyc2lvbiA9IDAKCWZpbGVtb2RlID0gZmFsc2UKCWJhcmUgPSBmYWxzZQoJbG9nYWxscmVmdXBkYXRlcyA9IHRydWUKCXN5bWxpbmtzID0gZmFsc2UKCWlnbm9yZWNhc2UgPSB0cnVlCg==","/repo/.git/index":"RElSQwAAAAIAAAABZZIAgAAAAABlkgCAAAAAAAAAAAEAAAANAACBpAAAAAEAAAABAAAAAOad4puy0dZDS4sprnda2MLkjFORAAlSRUFETUUubWQAHafw4eHiU0dYwTAUg254malOME0=","/repo/.git/objects/e6/9de29bb2d1d6434b8b29ae775ad8c2e48c5391":"eJxLyslPUjBgAAAJsAHw","/repo/README.md":""}},
+  'lesson-4': {"version":1,"directories":["/repo","/repo/.git","/repo/.git/hooks","/repo/.git/info","/repo/.git/logs","/repo/.git/logs/refs","/repo/.git/logs/refs/heads","/repo/.git/objects","/repo/.git/objects/55","/repo/.git/objects/e6","/repo/.git/objects/f9","/repo/.git/objects/info","/repo/.git/objects/pack","/repo/.git/refs","/repo/.git/refs/heads","/repo/.git/refs/tags"],"files":{"/repo/.git/HEAD":"cmVmOiByZWZzL2hlYWRzL21hc3Rlcgo=","/repo/.git/config":"W2NvcmVdCglyZXBvc2l0b3J5Zm9ybWF0dmVyc2lvbiA9IDAKCWZpbGVtb2RlID0gZmFsc2UKCWJhcmUgPSBmYWxzZQoJbG9nYWxscmVmdXBkYXRlcyA9IHRydWUKCXN5bWxpbmtzID0gZmFsc2UKCWlnbm9yZWNhc2UgPSB0cnVlCg==","/repo/.git/index":"RElSQwAAAAIAAAABZZIAgAAAAABlkgCAAAAAAAAAAAEAAAANAACBpAAAAAEAAAABAAAAAOad4puy0dZDS4sprnda2MLkjFORAAlSRUFETUUubWQAHafw4eHiU0dYwTAUg254malOME0=","/repo/.git/logs/HEAD":"MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCA1NWVkNDdmN2VjZGY2ZGVmYTcxMzkwYWFiZGI4MDVmMWUwMDViYjg2IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWNvbW1pdCAoaW5pdGlhbCk6IEluaXRpYWwgY29tbWl0Cg==","/repo/.git/logs/refs/heads/master":"MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCA1NWVkNDdmN2VjZGY2ZGVmYTcxMzkwYWFiZGI4MDVmMWUwMDViYjg2IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWJyYW5jaDogQ3JlYXRlZCBmcm9tIEhFQUQK","/repo/.git/objects/55/ed47f7ecdf6defa71390aabdb805f1e005bb86":"eJydjUEKwjAQAD3nFXsXZDdNmhREvIngJzbpFgNNI2EFny/YH3iby8zkVmtRoEgH7SKwTIMMTEze+iX5NBFanDmO4lwkzDGwnUPKht/6bB1uReEh3DfpcF53uMqH62uVU271AhTQ4RgsIhwREU3+LVX+ks19K1p4hb1ivir4OuE=","/repo/.git/objects/e6/9de29bb2d1d6434b8b29ae775ad8c2e48c5391":"eJxLyslPUjBgAAAJsAHw","/repo/.git/objects/f9/3e3a1a1525fb5b91020da86e44810c87a2d7bc":"eJwrKUpNVTA2ZzA0MDAzMVEIcnV08XXVy01heDb30exNF685e3drriuPunHoSU/wRABVxhI/","/repo/.git/refs/heads/master":"NTVlZDQ3ZjdlY2RmNmRlZmE3MTM5MGFhYmRiODA1ZjFlMDA1YmI4Ngo=","/repo/README.md":""}},
+  'lesson-5': {"version":1,"directories":["/repo","/repo/.git","/repo/.git/hooks","/repo/.git/info","/repo/.git/logs","/repo/.git/logs/refs","/repo/.git/logs/refs/heads","/repo/.git/objects","/repo/.git/objects/0c","/repo/.git/objects/3c","/repo/.git/objects/55","/repo/.git/objects/b5","/repo/.git/objects/e6","/repo/.git/objects/f9","/repo/.git/objects/info","/repo/.git/objects/pack","/repo/.git/refs","/repo/.git/refs/heads","/repo/.git/refs/tags"],"files":{"/repo/.git/HEAD":"cmVmOiByZWZzL2hlYWRzL21hc3Rlcgo=","/repo/.git/config":"W2NvcmVdCglyZXBvc2l0b3J5Zm9ybWF0dmVyc2lvbiA9IDAKCWZpbGVtb2RlID0gZmFsc2UKCWJhcmUgPSBmYWxzZQoJbG9nYWxscmVmdXBkYXRlcyA9IHRydWUKCXN5bWxpbmtzID0gZmFsc2UKCWlnbm9yZWNhc2UgPSB0cnVlCg==","/repo/.git/index":"RElSQwAAAAIAAAABZZIAgAAAAABlkgCAAAAAAAAAAAEAAAANAACBpAAAAAEAAAABAAAADAwKEfUlX2ZyZM1C6xhVcn/TO2FMAAlSRUFETUUubWQAmTGtFpKw4d6doTf7RIUj89jHyg8=","/repo/.git/logs/HEAD":"MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCA1NWVkNDdmN2VjZGY2ZGVmYTcxMzkwYWFiZGI4MDVmMWUwMDViYjg2IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWNvbW1pdCAoaW5pdGlhbCk6IEluaXRpYWwgY29tbWl0CjU1ZWQ0N2Y3ZWNkZjZkZWZhNzEzOTBhYWJkYjgwNWYxZTAwNWJiODYgYjVlYjgzMDhjMjc1NzYzN2MyMzEyOGE5YjU5MTE5ZDU5YmFmZWU2OSBHaXQgTGVhcm5lciA8bGVhcm5lckBleGFtcGxlLmNvbT4gMTcwNDA2NzIwMCArMDAwMAljb21taXQ6IFVwZGF0ZSBSRUFETUUgd2l0aCB0aXRsZQo=","/repo/.git/logs/refs/heads/master":"MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCA1NWVkNDdmN2VjZGY2ZGVmYTcxMzkwYWFiZGI4MDVmMWUwMDViYjg2IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWJyYW5jaDogQ3JlYXRlZCBmcm9tIEhFQUQKNTVlZDQ3ZjdlY2RmNmRlZmE3MTM5MGFhYmRiODA1ZjFlMDA1YmI4NiBiNWViODMwOGMyNzU3NjM3YzIzMTI4YTliNTkxMTlkNTliYWZlZTY5IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWNvbW1pdDogVXBkYXRlIFJFQURNRSB3aXRoIHRpdGxlCg==","/repo/.git/objects/0c/0a11f5255f667264cd42eb1855727fd33b614c":"eJxLyslPUjA0YlBW8K1UCCjKz0pNLgEAPAoGIw==","/repo/.git/objects/3c/7b0be8c33d1374a3a3bef7750684cea9b1adb9":"eJwrKUpNVTA2ZzA0MDAzMVEIcnV08XXVy01h4OES/Koan1aUctbptURoUf1l60QfABzVDiY=","/repo/.git/objects/55/ed47f7ecdf6defa71390aabdb805f1e005bb86":"eJydjUEKwjAQAD3nFXsXZDdNmhREvIngJzbpFgNNI2EFny/YH3iby8zkVmtRoEgH7SKwTIMMTEze+iX5NBFanDmO4lwkzDGwnUPKht/6bB1uReEh3DfpcF53uMqH62uVU271AhTQ4RgsIhwREU3+LVX+ks19K1p4hb1ivir4OuE=","/repo/.git/objects/b5/eb8308c2757637c23128a9b59119d59bafee69":"eJydzkFKxEAQRmHXfYraC1I9nU4lIKLg4EY3ggeo6v6bCSST0JTo8QW9gbu3+eCVfdsWp1Oab7wDlIoYG6aSUo1JBk2aDE0k8zgNBTpb1GpzOLTj6pQz6iBNUGobK5pKTDOrWrWJc4tgzmbTGPTTL3unl8XpFdqv6HS//sUjvnU7VtyVfXugKDzwKCdmumVmDuV30fEvHD6Oqg56Pz89v53pa/EL+eIrwg/CNkzs","/repo/.git/objects/e6/9de29bb2d1d6434b8b29ae775ad8c2e48c5391":"eJxLyslPUjBgAAAJsAHw","/repo/.git/objects/f9/3e3a1a1525fb5b91020da86e44810c87a2d7bc":"eJwrKUpNVTA2ZzA0MDAzMVEIcnV08XXVy01heDb30exNF685e3drriuPunHoSU/wRABVxhI/","/repo/.git/refs/heads/master":"YjVlYjgzMDhjMjc1NzYzN2MyMzEyOGE5YjU5MTE5ZDU5YmFmZWU2OQo=","/repo/README.md":"IyBNeSBQcm9qZWN0"}},
+  'lesson-6': {"version":1,"directories":["/repo","/repo/.git","/repo/.git/hooks","/repo/.git/info","/repo/.git/logs","/repo/.git/logs/refs","/repo/.git/logs/refs/heads","/repo/.git/objects","/repo/.git/objects/0c","/repo/.git/objects/13","/repo/.git/objects/3c","/repo/.git/objects/55","/repo/.git/objects/a9","/repo/.git/objects/b5","/repo/.git/objects/e6","/repo/.git/objects/f9","/repo/.git/objects/info","/repo/.git/objects/pack","/repo/.git/refs","/repo/.git/refs/heads","/repo/.git/refs/tags"],"files":{"/repo/.git/HEAD":"cmVmOiByZWZzL2hlYWRzL21hc3Rlcgo=","/repo/.git/config":"W2NvcmVdCglyZXBvc2l0b3J5Zm9ybWF0dmVyc2lvbiA9IDAKCWZpbGVtb2RlID0gZmFsc2UKCWJhcmUgPSBmYWxzZQoJbG9nYWxscmVmdXBkYXRlcyA9IHRydWUKCXN5bWxpbmtzID0gZmFsc2UKCWlnbm9yZWNhc2UgPSB0cnVlCg==","/repo/.git/index":"RElSQwAAAAIAAAADZZIAgAAAAABlkgCAAAAAAAAAAAEAAAANAACBpAAAAAEAAAABAAAADAwKEfUlX2ZyZM1C6xhVcn/TO2FMAAlSRUFETUUubWQAZZIAgAAAAABlkgCAAAAAAAAAAAEAAAAhAACBpAAAAAEAAAABAAAAAOad4puy0dZDS4sprnda2MLkjFORAAppbmRleC5odG1sAAAAAAAAAABlkgCAAAAAAGWSAIAAAAAAAAAAAQAAACIAAIGkAAAAAQAAAAEAAAAA5p3im7LR1kNLiymud1rYwuSMU5EACXN0eWxlLmNzcwASAGeApnUjkNdAeH54JEbs4aooVg==","/repo/.git/logs/HEAD":"MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCA1NWVkNDdmN2VjZGY2ZGVmYTcxMzkwYWFiZGI4MDVmMWUwMDViYjg2IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWNvbW1pdCAoaW5pdGlhbCk6IEluaXRpYWwgY29tbWl0CjU1ZWQ0N2Y3ZWNkZjZkZWZhNzEzOTBhYWJkYjgwNWYxZTAwNWJiODYgYjVlYjgzMDhjMjc1NzYzN2MyMzEyOGE5YjU5MTE5ZDU5YmFmZWU2OSBHaXQgTGVhcm5lciA8bGVhcm5lckBleGFtcGxlLmNvbT4gMTcwNDA2NzIwMCArMDAwMAljb21taXQ6IFVwZGF0ZSBSRUFETUUgd2l0aCB0aXRsZQpiNWViODMwOGMyNzU3NjM3YzIzMTI4YTliNTkxMTlkNTliYWZlZTY5IDEzOGM2NmFhOTU0MWY2MTg1MmU4NTI1OGJkZjU2NzFmODJiNmZjNDMgR2l0IExlYXJuZXIgPGxlYXJuZXJAZXhhbXBsZS5jb20+IDE3MDQwNjcyMDAgKzAwMDAJY29tbWl0OiBBZGQgSFRNTCBhbmQgQ1NTIGZpbGVzCg==","/repo/.git/logs/refs/heads/master":"MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMCA1NWVkNDdmN2VjZGY2ZGVmYTcxMzkwYWFiZGI4MDVmMWUwMDViYjg2IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWJyYW5jaDogQ3JlYXRlZCBmcm9tIEhFQUQKNTVlZDQ3ZjdlY2RmNmRlZmE3MTM5MGFhYmRiODA1ZjFlMDA1YmI4NiBiNWViODMwOGMyNzU3NjM3YzIzMTI4YTliNTkxMTlkNTliYWZlZTY5IEdpdCBMZWFybmVyIDxsZWFybmVyQGV4YW1wbGUuY29tPiAxNzA0MDY3MjAwICswMDAwCWNvbW1pdDogVXBkYXRlIFJFQURNRSB3aXRoIHRpdGxlCmI1ZWI4MzA4YzI3NTc2MzdjMjMxMjhhOWI1OTExOWQ1OWJhZmVlNjkgMTM4YzY2YWE5NTQxZjYxODUyZTg1MjU4YmRmNTY3MWY4MmI2ZmM0MyBHaXQgTGVhcm5lciA8bGVhcm5lckBleGFtcGxlLmNvbT4gMTcwNDA2NzIwMCArMDAwMAljb21taXQ6IEFkZCBIVE1MIGFuZCBDU1MgZmlsZXMK","/repo/.git/objects/0c/0a11f5255f667264cd42eb1855727fd33b614c":"eJxLyslPUjA0YlBW8K1UCCjKz0pNLgEAPAoGIw==","/repo/.git/objects/13/8c66aa9541f61852e85258bdf5671f82b6fc43":"eJydzjsKQjEQQFHrrGJ6QSbJyw9EFAsttNINTJIJPng/YgSXL+gO7G5z4KZ5HPsGSrtVq8xAwUZbbLCBtXeaMyVlVc6xSCVj54pPxqTciYUqTw2i4eg1+qSccVa7pLRUnkI0QcqQTYhUmG0Q9GqPucKpb3BhqhNX2A6/2PObxmXgTZrHHUiHHVqnEGGNiCjSd7HxX1gccobz/XoBmjIcbzco/cBP8QE1D0o3","/repo/.git/objects/3c/7b0be8c33d1374a3a3bef7750684cea9b1adb9":"eJwrKUpNVTA2ZzA0MDAzMVEIcnV08XXVy01h4OES/Koan1aUctbptURoUf1l60QfABzVDiY=","/repo/.git/objects/55/ed47f7ecdf6defa71390aabdb805f1e005bb86":"eJydjUEKwjAQAD3nFXsXZDdNmhREvIngJzbpFgNNI2EFny/YH3iby8zkVmtRoEgH7SKwTIMMTEze+iX5NBFanDmO4lwkzDGwnUPKht/6bB1uReEh3DfpcF53uMqH62uVU271AhTQ4RgsIhwREU3+LVX+ks19K1p4hb1ivir4OuE=","/repo/.git/objects/a9/6b6f6969e3873edac262ddbf121b47f8c55cd4":"eJwrKUpNVTA0NGIwNDAwMzFRCHJ1dPF11ctNYeDhEvyqGp9WlHLW6bVEaFH9ZetEH6iizLyU1Aq9jJLcHIZncx/N3nTxmrN3t+a68qgbh570BE+EqiouqcxJ1UsuLsaqCAAFnTCh","/repo/.git/objects/b5/eb8308c2757637c23128a9b59119d59bafee69":"eJydzkFKxEAQRmHXfYraC1I9nU4lIKLg4EY3ggeo6v6bCSST0JTo8QW9gbu3+eCVfdsWp1Oab7wDlIoYG6aSUo1JBk2aDE0k8zgNBTpb1GpzOLTj6pQz6iBNUGobK5pKTDOrWrWJc4tgzmbTGPTTL3unl8XpFdqv6HS//sUjvnU7VtyVfXugKDzwKCdmumVmDuV30fEvHD6Oqg56Pz89v53pa/EL+eIrwg/CNkzs","/repo/.git/objects/e6/9de29bb2d1d6434b8b29ae775ad8c2e48c5391":"eJxLyslPUjBgAAAJsAHw","/repo/.git/objects/f9/3e3a1a1525fb5b91020da86e44810c87a2d7bc":"eJwrKUpNVTA2ZzA0MDAzMVEIcnV08XXVy01heDb30exNF685e3drriuPunHoSU/wRABVxhI/","/repo/.git/refs/heads/master":"MTM4YzY2YWE5NTQxZjYxODUyZTg1MjU4YmRmNTY3MWY4MmI2ZmM0Mwo=","/repo/README.md":"IyBNeSBQcm9qZWN0","/repo/index.html":"","/repo/style.css":""}},
+};
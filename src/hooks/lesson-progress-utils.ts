@@ -4,6 +4,7 @@
  */
 
 import type { Lesson } from '../types/lesson';
+import { parseShellCommand, getSimpleCommands } from '../lib/commands/parsing';
 
 /**
  * Get exercise IDs that should be marked as "completed" after skipping to a lesson.
@@ -53,3 +54,24 @@ export function findExerciseById(
   }
   return undefined;
 }
+
+/**
+ * Check whether a command line satisfies an exercise's command pattern.
+ *
+ * Chained or piped lines like `git add . && git commit -m "x"` match when
+ * any one of their commands does, so learners aren't penalised for chaining.
+ *
+ * @param pattern - The exercise's command pattern
+ * @param commandLine - The full line the learner entered
+ * @returns True if the line or one of its commands matches
+ */
+export function matchesCommandPattern(pattern: RegExp, commandLine: string): boolean {
+  if (pattern.test(commandLine)) {
+    return true;
+  }
+  try {
+    return getSimpleCommands(parseShellCommand(commandLine)).some(command => pattern.test(command.source));
+  } catch {
+    return false;
+  }
+}
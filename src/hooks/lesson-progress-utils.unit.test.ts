@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { getPrerequisiteExerciseIds, findExerciseById } from './lesson-progress-utils';
+import { getPrerequisiteExerciseIds, findExerciseById, matchesCommandPattern } from './lesson-progress-utils';
 import type { Lesson } from '../types/lesson';
 
 // Mock lessons for testing - simplified structure
@@ -170,3 +170,32 @@ describe('findExerciseById', () => {
     });
   });
 });
+
+describe('matchesCommandPattern', () => {
+  const commitPattern = /^git\s+commit\s+-m\s+.+$/i;
+
+  it('matches a single command', () => {
+    expect(matchesCommandPattern(commitPattern, 'git commit -m "First commit"')).toBe(true);
+  });
+
+  it('matches a command anywhere in a chained line', () => {
+    expect(matchesCommandPattern(commitPattern, 'git add . && git commit -m "First commit"')).toBe(true);
+    expect(matchesCommandPattern(/^git\s+add\s+\.$/i, 'git add . && git commit -m "x"')).toBe(true);
+  });
+
+  it('matches a command inside a pipeline', () => {
+    expect(matchesCommandPattern(/^git\s+log$/i, 'git log | head -n 3')).toBe(true);
+  });
+
+  it('keeps redirections with the command they belong to', () => {
+    expect(matchesCommandPattern(/^echo\s+.+>\s*README\.md$/i, 'echo "# Hi" > README.md; git add README.md')).toBe(true);
+  });
+
+  it('rejects lines where no command matches', () => {
+    expect(matchesCommandPattern(commitPattern, 'git add . && git status')).toBe(false);
+  });
+
+  it('rejects lines that do not parse', () => {
+    expect(matchesCommandPattern(commitPattern, 'git status &&')).toBe(false);
+  });
+});
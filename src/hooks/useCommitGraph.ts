@@ -0,0 +1,25 @@
+import { useState, useCallback } from 'react';
+import { getCommitGraph, type GraphLayout } from '../lib/commitGraph';
+
+export interface UseCommitGraphReturn {
+  graph: GraphLayout | null;
+  refreshCommitGraph: () => Promise<void>;
+}
+
+export function useCommitGraph(): UseCommitGraphReturn {
+  const [graph, setGraph] = useState<GraphLayout | null>(null);
+
+  const refreshCommitGraph = useCallback(async () => {
+    try {
+      setGraph(await getCommitGraph());
+    } catch {
+      // A half-written or tampered repository just shows no graph
+      setGraph(null);
+    }
+  }, []);
+
+  return {
+    graph,
+    refreshCommitGraph,
+  };
+}
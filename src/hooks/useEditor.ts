@@ -0,0 +1,32 @@
+import { useState, useCallback, useEffect } from 'react';
+import { setEditorListener, finishEditing } from '../lib/editor';
+
+export interface UseEditorReturn {
+  editingPath: string | null;
+  finishEdit: () => void;
+}
+
+/**
+ * Attach the app's editor to the editor service, so commands like a bare
+ * `git commit` can open a file in it. `onOpen` shows the file.
+ */
+export function useEditor(onOpen: (path: string) => void): UseEditorReturn {
+  const [editingPath, setEditingPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEditorListener((path) => {
+      setEditingPath(path);
+      if (path) onOpen(path);
+    });
+    return () => setEditorListener(null);
+  }, [onOpen]);
+
+  const finishEdit = useCallback(() => {
+    finishEditing();
+  }, []);
+
+  return {
+    editingPath,
+    finishEdit,
+  };
+}
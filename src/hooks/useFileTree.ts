@@ -1,5 +1,5 @@
-import { useState, useCallback, useEffect } from 'react';
-import { initializeFs, readFile, writeFile, readdir, stat } from '../lib/fs';
+import { useState, useCallback } from 'react';
+import { readFile, writeFile, readdir, stat } from '../lib/fs';
 import { CWD } from '../lib/config';
 import type { FileNode } from '../components/FileTree/FileTree';
 
@@ -52,10 +52,6 @@ export function useFileTree(): UseFileTreeReturn {
     setFiles(tree);
   }, []);
 
-  useEffect(() => {
-    initializeFs().then(refreshFileTree);
-  }, [refreshFileTree]);
-
   const handleFileSelect = useCallback(async (path: string) => {
     setSelectedFile(path);
     try {
@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import type { Lesson, LessonProgress } from '../types/lesson';
 import { repoIntact } from '../lib/gitStateHash';
 import { skipToLesson as lessonSetupSkipToLesson } from '../lib/lessonSetup';
+import { setLessonProgressTracker } from '../lib/sandboxHistory';
 import {
   saveProgress,
   clearProgress,
@@ -11,6 +12,7 @@ import {
 import {
   getPrerequisiteExerciseIds,
   findExerciseById,
+  matchesCommandPattern,
 } from './lesson-progress-utils';
 
 interface UseLessonProgressReturn {
@@ -27,6 +29,7 @@ interface UseLessonProgressReturn {
   resetProgress: () => Promise<void>;
   skipToLesson: (lessonId: string) => Promise<boolean>;
   resumeFromSaved: (saved: StoredProgress) => Promise<boolean>;
+  restoreProgress: (saved: StoredProgress) => void;
   lessonIndex: number;
   totalLessons: number;
 }
@@ -67,7 +70,7 @@ export function useLessonProgress(lessons: Lesson[]): UseLessonProgressReturn {
     }
 
     // Check command pattern if specified
-    if (exercise.commandPattern && !exercise.commandPattern.test(lastCommand)) {
+    if (exercise.commandPattern && !matchesCommandPattern(exercise.commandPattern, lastCommand)) {
       return false;
     }
 
@@ -158,7 +161,8 @@ export function useLessonProgress(lessons: Lesson[]): UseLessonProgressReturn {
 
   const skipToLesson = useCallback(async (lessonId: string): Promise<boolean> => {
     // Setup filesystem for target lesson
-    const result = await lessonSetupSkipToLesson(lessonId);
+    const startingSnapshot = lessons.find(l => l.id === lessonId)?.startingSnapshot;
+    const result = await lessonSetupSkipToLesson(lessonId, startingSnapshot);
     if (!result.success) {
       return false;
     }
@@ -181,6 +185,17 @@ export function useLessonProgress(lessons: Lesson[]): UseLessonProgressReturn {
     return true;
   }, [lessons]);
 
+  // Put saved progress back without touching the filesystem
+  const restoreProgress = useCallback((saved: StoredProgress) => {
+    setLessonIndex(saved.lessonIndex);
+    setProgress({
+      lessonId: saved.lessonId,
+      completedExercises: saved.completedExercises,
+      currentExerciseIndex: saved.currentExerciseIndex,
+    });
+    setIsStateBroken(false);
+  }, []);
+
   const resumeFromSaved = useCallback(async (saved: StoredProgress): Promise<boolean> => {
     const success = await skipToLesson(saved.lessonId);
     if (success) {
@@ -193,6 +208,20 @@ export function useLessonProgress(lessons: Lesson[]): UseLessonProgressReturn {
     return success;
   }, [skipToLesson]);
 
+  // Let undo/redo snapshots capture and restore lesson progress with the sandbox
+  useEffect(() => {
+    setLessonProgressTracker({
+      capture: () => createStoredProgress(
+        progress.lessonId,
+        lessonIndex,
+        progress.completedExercises,
+        progress.currentExerciseIndex,
+      ),
+      restore: restoreProgress,
+    });
+    return () => setLessonProgressTracker(null);
+  }, [lessonIndex, progress, restoreProgress]);
+
   // Auto-save progress to localStorage whenever it changes
   // Skip the initial render to avoid overwriting saved progress before App can load it
   useEffect(() => {
@@ -224,6 +253,7 @@ export function useLessonProgress(lessons: Lesson[]): UseLessonProgressReturn {
     resetProgress,
     skipToLesson,
     resumeFromSaved,
+    restoreProgress,
     lessonIndex,
     totalLessons: lessons.length,
   };
@@ -0,0 +1,80 @@
+import { useState, useCallback } from 'react';
+import { gitIndexEntries } from '../lib/git';
+import type { IndexEntry } from '../lib/gitIndex/index-utils';
+import {
+  listLooseObjects,
+  listRefs,
+  readObjectDetails,
+  type ObjectDetails,
+  type ObjectSummary,
+  type RefSummary,
+} from '../lib/objectDb';
+
+export interface UseObjectExplorerReturn {
+  objects: ObjectSummary[];
+  refs: RefSummary[];
+  indexEntries: IndexEntry[];
+  selectedObject: ObjectDetails | null;
+  canGoBack: boolean;
+  refreshObjectExplorer: () => Promise<void>;
+  selectObject: (oid: string) => Promise<void>;
+  goBack: () => void;
+  clearObjectSelection: () => void;
+}
+
+export function useObjectExplorer(): UseObjectExplorerReturn {
+  const [objects, setObjects] = useState<ObjectSummary[]>([]);
+  const [refs, setRefs] = useState<RefSummary[]>([]);
+  const [indexEntries, setIndexEntries] = useState<IndexEntry[]>([]);
+  const [selectedObject, setSelectedObject] = useState<ObjectDetails | null>(null);
+  // Previously viewed objects, so following ids can be retraced
+  const [history, setHistory] = useState<ObjectDetails[]>([]);
+
+  const refreshObjectExplorer = useCallback(async () => {
+    try {
+      setObjects(await listLooseObjects());
+      setRefs(await listRefs());
+      setIndexEntries(await gitIndexEntries());
+    } catch {
+      setObjects([]);
+      setRefs([]);
+      setIndexEntries([]);
+    }
+  }, []);
+
+  const selectObject = useCallback(async (oid: string) => {
+    let details: ObjectDetails;
+    try {
+      details = await readObjectDetails(oid);
+    } catch {
+      // Not an object in this repository (e.g. a word that only looks like an id)
+      return;
+    }
+    if (selectedObject && selectedObject.oid !== oid) {
+      setHistory((previous) => [...previous, selectedObject]);
+    }
+    setSelectedObject(details);
+  }, [selectedObject]);
+
+  const goBack = useCallback(() => {
+    setSelectedObject(history[history.length - 1] ?? null);
+    setHistory(history.slice(0, -1));
+  }, [history]);
+
+  const clearObjectSelection = useCallback(() => {
+    setSelectedObject(null);
+    setHistory([]);
+  }, []);
+
+  return {
+    objects,
+    refs,
+    indexEntries,
+    selectedObject,
+    canGoBack: history.length > 0,
+    refreshObjectExplorer,
+    selectObject,
+    goBack,
+    clearObjectSelection,
+  };
+}
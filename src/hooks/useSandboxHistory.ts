@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react';
+import {
+  undo as undoSandbox,
+  redo as redoSandbox,
+  canUndo as sandboxCanUndo,
+  canRedo as sandboxCanRedo,
+} from '../lib/sandboxHistory';
+
+export interface UseSandboxHistoryReturn {
+  canUndo: boolean;
+  canRedo: boolean;
+  refreshSandboxHistory: () => void;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+export function useSandboxHistory(): UseSandboxHistoryReturn {
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const refreshSandboxHistory = useCallback(() => {
+    setCanUndo(sandboxCanUndo());
+    setCanRedo(sandboxCanRedo());
+  }, []);
+
+  const undo = useCallback(async () => {
+    const undone = await undoSandbox();
+    refreshSandboxHistory();
+    return undone;
+  }, [refreshSandboxHistory]);
+
+  const redo = useCallback(async () => {
+    const redone = await redoSandbox();
+    refreshSandboxHistory();
+    return redone;
+  }, [refreshSandboxHistory]);
+
+  return {
+    canUndo,
+    canRedo,
+    refreshSandboxHistory,
+    undo,
+    redo,
+  };
+}
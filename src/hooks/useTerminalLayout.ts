@@ -8,6 +8,7 @@ export interface UseTerminalLayoutReturn {
   handleTerminalExpandToggle: () => void;
   handleTerminalFullscreenToggle: () => void;
   handleVerticalSizeChange: (sizes: number[]) => void;
+  collapseTerminal: () => void;
 }
 
 export function useTerminalLayout(): UseTerminalLayoutReturn {
@@ -47,6 +48,12 @@ export function useTerminalLayout(): UseTerminalLayoutReturn {
     }
   }, [isTerminalExpanded]);
 
+  // Make room for the editor, e.g. when a command opens a file in it
+  const collapseTerminal = useCallback(() => {
+    setIsTerminalFullscreen(false);
+    setIsTerminalExpanded(false);
+  }, []);
+
   return {
     isTerminalExpanded,
     isTerminalFullscreen,
@@ -55,5 +62,6 @@ export function useTerminalLayout(): UseTerminalLayoutReturn {
     handleTerminalExpandToggle,
     handleTerminalFullscreenToggle,
     handleVerticalSizeChange,
+    collapseTerminal,
   };
 }
@@ -0,0 +1,34 @@
+import { useState, useCallback, useRef } from 'react';
+import { getThreeAreaView, findChangedAreas, type AreaFile } from '../lib/threeAreas';
+
+export interface UseThreeAreasReturn {
+  files: AreaFile[] | null;
+  changedAreas: Set<string>;  // "filepath:area" keys changed by the last refresh
+  refreshThreeAreas: () => Promise<void>;
+}
+
+export function useThreeAreas(): UseThreeAreasReturn {
+  const [files, setFiles] = useState<AreaFile[] | null>(null);
+  const [changedAreas, setChangedAreas] = useState<Set<string>>(new Set());
+  const previousRef = useRef<AreaFile[] | null>(null);
+
+  const refreshThreeAreas = useCallback(async () => {
+    let next: AreaFile[] | null;
+    try {
+      next = await getThreeAreaView();
+    } catch {
+      next = null;
+    }
+    // Only highlight changes between two views of the same repository
+    const previous = previousRef.current;
+    setChangedAreas(previous && next ? findChangedAreas(previous, next) : new Set());
+    previousRef.current = next;
+    setFiles(next);
+  }, []);
+
+  return {
+    files,
+    changedAreas,
+    refreshThreeAreas,
+  };
+}
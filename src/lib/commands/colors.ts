@@ -1,5 +1,6 @@
 export const colors = {
   reset: '\x1b[0m',
+  bold: '\x1b[1m',
   dim: '\x1b[2m',
   red: '\x1b[31m',
   green: '\x1b[32m',
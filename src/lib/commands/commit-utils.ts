@@ -0,0 +1,50 @@
+/**
+ * Pure functions for commit messages (the COMMIT_EDITMSG template and cleanup).
+ * No I/O, no side effects - fully unit testable.
+ */
+
+import type { FileDiff } from '../diff/diff-utils';
+
+/**
+ * Clean up a commit message like git does: drop trailing whitespace,
+ * collapse runs of blank lines and trim blank lines at either end.
+ * Messages from the editor also lose their `#` comment lines.
+ */
+export function cleanupCommitMessage(text: string, stripComments: boolean): string {
+  const lines = text
+    .split('\n')
+    .filter((line) => !(stripComments && line.startsWith('#')))
+    .map((line) => line.trimEnd());
+  return lines
+    .filter((line, i) => line !== '' || (i > 0 && lines[i - 1] !== ''))
+    .join('\n')
+    .trim();
+}
+
+function describeChange({ oldOid, newOid }: FileDiff): string {
+  if (oldOid === null) return 'new file';
+  if (newOid === null) return 'deleted';
+  return 'modified';
+}
+
+/**
+ * Build the file the editor opens for a commit message: the prepared
+ * message (if any), then commented help and the changes being committed.
+ */
+export function formatCommitTemplate(message: string, branch: string | null, staged: FileDiff[]): string {
+  const lines = [
+    ...(message ? [message, ''] : ['']),
+    '# Please enter the commit message for your changes. Lines starting',
+    "# with '#' will be ignored, and an empty message aborts the commit.",
+    '#',
+    branch === null ? '# HEAD detached' : `# On branch ${branch}`,
+  ];
+  if (staged.length > 0) {
+    lines.push('# Changes to be committed:');
+    for (const diff of staged) {
+      lines.push(`#\t${`${describeChange(diff)}:`.padEnd(12)}${diff.filepath}`);
+    }
+  }
+  lines.push('#', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for commit message functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { cleanupCommitMessage, formatCommitTemplate } from './commit-utils';
+
+describe('cleanupCommitMessage', () => {
+  it('trims whitespace and collapses blank lines', () => {
+    expect(cleanupCommitMessage('\n\nSubject  \n\n\n\nBody\n\n', false)).toBe('Subject\n\nBody');
+  });
+
+  it('drops comment lines only when asked', () => {
+    const text = 'Subject\n# Please enter the commit message\n#\n';
+    expect(cleanupCommitMessage(text, true)).toBe('Subject');
+    expect(cleanupCommitMessage(text, false)).toBe(text.trim());
+  });
+
+  it('leaves nothing for a message of comments', () => {
+    expect(cleanupCommitMessage('\n# only comments\n#\n', true)).toBe('');
+  });
+});
+
+describe('formatCommitTemplate', () => {
+  it('lists the changes to be committed under the help text', () => {
+    const template = formatCommitTemplate('', 'main', [
+      { filepath: 'a.txt', oldOid: null, newOid: 'a', oldContent: null, newContent: 'a\n' },
+      { filepath: 'b.txt', oldOid: 'b', newOid: 'c', oldContent: 'b\n', newContent: 'c\n' },
+      { filepath: 'c.txt', oldOid: 'd', newOid: null, oldContent: 'd\n', newContent: null },
+    ]);
+    expect(template.split('\n')).toEqual([
+      '',
+      '# Please enter the commit message for your changes. Lines starting',
+      "# with '#' will be ignored, and an empty message aborts the commit.",
+      '#',
+      '# On branch main',
+      '# Changes to be committed:',
+      '#\tnew file:   a.txt',
+      '#\tmodified:   b.txt',
+      '#\tdeleted:    c.txt',
+      '#',
+      '',
+    ]);
+  });
+
+  it('starts with the prepared message', () => {
+    const template = formatCommitTemplate("Merge branch 'feature'", null, []);
+    expect(template.startsWith("Merge branch 'feature'\n\n# Please")).toBe(true);
+    expect(template).toContain('# HEAD detached');
+  });
+
+  it('cleans up to the prepared message', () => {
+    expect(cleanupCommitMessage(formatCommitTemplate('Fix typo', 'main', []), true)).toBe('Fix typo');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Pure error formatting for commands that throw.
+ * No I/O, no side effects - fully unit testable.
+ *
+ * isomorphic-git errors carry a `code` (the error class name) and a `data`
+ * object; they are turned into the messages and exit codes real git uses.
+ */
+
+export interface CommandFailure {
+  stderr: string;
+  exitCode: number;
+}
+
+// Real git exits with 128 for fatal errors
+const FATAL = 128;
+// and bash with 2 for a command line it can't parse
+const SYNTAX_ERROR = 2;
+
+interface GitError {
+  code: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+function isGitError(error: unknown): error is GitError {
+  return error instanceof Error && typeof (error as Partial<GitError>).code === 'string'
+    && typeof (error as Partial<GitError>).data === 'object';
+}
+
+function shortRefName(ref: string): string {
+  return ref.replace(/^refs\/(heads|tags|remotes)\//, '');
+}
+
+function describeGitError({ code, message, data }: GitError): CommandFailure {
+  switch (code) {
+    case 'NotFoundError':
+      return { stderr: `fatal: could not find ${String(data.what)}`, exitCode: FATAL };
+    case 'NoCommitError':
+      return {
+        stderr: `fatal: your current branch '${shortRefName(String(data.ref))}' does not have any commits yet`,
+        exitCode: FATAL,
+      };
+    case 'AlreadyExistsError':
+      return {
+        stderr: `fatal: a ${String(data.noun)} named '${shortRefName(String(data.where))}' already exists`,
+        exitCode: FATAL,
+      };
+    case 'InvalidRefNameError':
+      return { stderr: `fatal: '${String(data.ref)}' is not a valid reference name`, exitCode: FATAL };
+    case 'AmbiguousError':
+      return { stderr: `error: short object ID ${String(data.short)} is ambiguous`, exitCode: FATAL };
+    case 'InvalidOidError':
+      return { stderr: `fatal: not a valid object name ${String(data.value)}`, exitCode: FATAL };
+    case 'CheckoutConflictError':
+      return {
+        stderr: [
+          'error: Your local changes to the following files would be overwritten by checkout:',
+          ...(data.filepaths as string[]).map((path) => `\t${path}`),
+          'Please commit your changes or stash them before you switch branches.',
+          'Aborting',
+        ].join('\n'),
+        exitCode: 1,
+      };
+    case 'UnmergedPathsError':
+      return {
+        stderr: [
+          ...(data.filepaths as string[]).map((path) => `${path}: needs merge`),
+          'error: you need to resolve your current index first',
+        ].join('\n'),
+        exitCode: 1,
+      };
+    default:
+      return { stderr: `fatal: ${message}`, exitCode: FATAL };
+  }
+}
+
+/**
+ * Describe an error thrown while running a command.
+ */
+export function describeCommandError(error: unknown): CommandFailure {
+  if (isGitError(error)) {
+    return describeGitError(error);
+  }
+  return { stderr: `Error: ${error instanceof Error ? error.message : String(error)}`, exitCode: 1 };
+}
+
+/**
+ * Describe a command line that couldn't be parsed, the way bash does.
+ */
+export function describeSyntaxError(error: unknown): CommandFailure {
+  return { stderr: `bash: ${error instanceof Error ? error.message : String(error)}`, exitCode: SYNTAX_ERROR };
+}
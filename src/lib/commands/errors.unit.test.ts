@@ -0,0 +1,77 @@
+/**
+ * Unit tests for command error formatting.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { Errors } from 'isomorphic-git';
+import { describeCommandError, describeSyntaxError } from './errors';
+
+describe('describeCommandError', () => {
+  it('reports a missing object or ref as fatal', () => {
+    expect(describeCommandError(new Errors.NotFoundError('refs/heads/feature'))).toEqual({
+      stderr: 'fatal: could not find refs/heads/feature',
+      exitCode: 128,
+    });
+  });
+
+  it('reports a branch without commits like git', () => {
+    expect(describeCommandError(new Errors.NoCommitError('refs/heads/main'))).toEqual({
+      stderr: "fatal: your current branch 'main' does not have any commits yet",
+      exitCode: 128,
+    });
+  });
+
+  it('names an existing ref by its short name', () => {
+    expect(describeCommandError(new Errors.AlreadyExistsError('branch', 'refs/heads/feature'))).toEqual({
+      stderr: "fatal: a branch named 'feature' already exists",
+      exitCode: 128,
+    });
+  });
+
+  it('rejects invalid ref names', () => {
+    expect(describeCommandError(new Errors.InvalidRefNameError('bad..name', 'bad.name')).stderr)
+      .toBe("fatal: 'bad..name' is not a valid reference name");
+  });
+
+  it('lists files a checkout would overwrite', () => {
+    const { stderr, exitCode } = describeCommandError(new Errors.CheckoutConflictError(['a.txt', 'b.txt']));
+
+    expect(exitCode).toBe(1);
+    expect(stderr.split('\n')).toEqual([
+      'error: Your local changes to the following files would be overwritten by checkout:',
+      '\ta.txt',
+      '\tb.txt',
+      'Please commit your changes or stash them before you switch branches.',
+      'Aborting',
+    ]);
+  });
+
+  it('lists unmerged paths', () => {
+    expect(describeCommandError(new Errors.UnmergedPathsError(['a.txt'])).stderr)
+      .toBe('a.txt: needs merge\nerror: you need to resolve your current index first');
+  });
+
+  it('falls back to the message for other git errors', () => {
+    expect(describeCommandError(new Errors.FastForwardError())).toEqual({
+      stderr: 'fatal: A simple fast-forward merge was not possible.',
+      exitCode: 128,
+    });
+  });
+
+  it('reports other errors with exit code 1', () => {
+    expect(describeCommandError(new Error('ENOENT: /repo/missing.txt'))).toEqual({
+      stderr: 'Error: ENOENT: /repo/missing.txt',
+      exitCode: 1,
+    });
+    expect(describeCommandError('boom')).toEqual({ stderr: 'Error: boom', exitCode: 1 });
+  });
+});
+
+describe('describeSyntaxError', () => {
+  it('reports the problem like bash, with exit code 2', () => {
+    expect(describeSyntaxError(new Error("syntax error near unexpected token `|'"))).toEqual({
+      stderr: "bash: syntax error near unexpected token `|'",
+      exitCode: 2,
+    });
+  });
+});
@@ -4,102 +4,193 @@
  */
 
 import * as fsLib from '../fs';
-import { CWD } from '../config';
+import { resolveFromCurrentDir } from '../workingDirectory';
 import { registerCommand } from './registry';
 import {
-  resolvePath,
   parseHeadTailArgs,
   getFirstNLines,
   getLastNLines,
   parseRmArgs,
+  parseOptions,
+  parseFindArgs,
 } from './parsing';
-import type { CommandResult } from './types';
+import {
+  splitLines,
+  countText,
+  formatCounts,
+  compileGrepPattern,
+  grepLines,
+  sortLines,
+  uniqLines,
+  matchesGlob,
+  formatTree,
+  formatLongListing,
+  type TextCounts,
+  type TreeNode,
+} from './text-utils';
+import type { CommandContext, CommandResult } from './types';
+
+async function pathType(path: string): Promise<'file' | 'dir' | null> {
+  try {
+    return (await fsLib.stat(path)).type;
+  } catch {
+    return null;
+  }
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === '/' ? `/${name}` : `${dir}/${name}`;
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function invalidOption(command: string, flag: string, exitCode = 1): CommandResult {
+  return { stdout: '', stderr: `${command}: invalid option -- '${flag}'`, exitCode };
+}
+
+/**
+ * Read the text a utility works on: the named files, or stdin when none
+ * are given. Missing files are reported on stderr and skipped.
+ */
+async function readInputs(
+  command: string,
+  files: string[],
+  stdin: string | null,
+): Promise<{ inputs: { label: string | null; text: string }[]; errors: string[] }> {
+  if (files.length === 0) {
+    return { inputs: [{ label: null, text: stdin ?? '' }], errors: [] };
+  }
+  const inputs: { label: string | null; text: string }[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const path = resolveFromCurrentDir(file);
+    const type = await pathType(path);
+    if (type === 'file') {
+      inputs.push({ label: file, text: await fsLib.readFile(path) });
+    } else {
+      errors.push(`${command}: ${file}: ${type === 'dir' ? 'Is a directory' : 'No such file or directory'}`);
+    }
+  }
+  return { inputs, errors };
+}
 
 async function handleLsCommand(args: string[]): Promise<CommandResult> {
-  const path = args[0] ? resolvePath(args[0]) : CWD;
-  const files = await fsLib.readdir(path);
-  return { output: files.join('\n'), success: true };
+  const { flags, operands, invalid } = parseOptions(args, 'la');
+  if (invalid) return invalidOption('ls', invalid, 2);
+
+  const target = operands[0] ?? '.';
+  const path = resolveFromCurrentDir(target);
+  const type = await pathType(path);
+  if (type === null) {
+    return { stdout: '', stderr: `ls: cannot access '${target}': No such file or directory`, exitCode: 2 };
+  }
+
+  let names = type === 'dir' ? (await fsLib.readdir(path)).sort() : [target];
+  if (type === 'dir') {
+    // Like ls, hidden entries (such as .git) only show with -a
+    names = flags.has('a') ? ['.', '..', ...names] : names.filter((name) => !name.startsWith('.'));
+  }
+  if (!flags.has('l')) {
+    return { stdout: names.join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  const entries = await Promise.all(names.map(async (name) => {
+    const stats = await fsLib.stat(type === 'dir' ? resolveFromCurrentDir(`${target}/${name}`) : path);
+    return { name, ...stats };
+  }));
+  return { stdout: formatLongListing(entries), stderr: '', exitCode: 0 };
 }
 
-async function handleCatCommand(args: string[]): Promise<CommandResult> {
+async function handleCatCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
+  if (!args[0] && stdin !== null) {
+    return { stdout: stdin, stderr: '', exitCode: 0 };
+  }
   if (!args[0]) {
-    return { output: 'cat: missing file operand', success: false };
+    return { stdout: '', stderr: 'cat: missing file operand', exitCode: 1 };
   }
-  const path = resolvePath(args[0]);
+  const path = resolveFromCurrentDir(args[0]);
   const content = await fsLib.readFile(path);
-  return { output: content, success: true };
+  return { stdout: content, stderr: '', exitCode: 0 };
 }
 
-async function handleTailCommand(args: string[]): Promise<CommandResult> {
+async function handleTailCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
   const { numLines, filePath } = parseHeadTailArgs(args);
 
+  if (!filePath && stdin !== null) {
+    return { stdout: getLastNLines(stdin, numLines), stderr: '', exitCode: 0 };
+  }
   if (!filePath) {
-    return { output: 'tail: missing file operand', success: false };
+    return { stdout: '', stderr: 'tail: missing file operand', exitCode: 1 };
   }
 
-  const path = resolvePath(filePath);
+  const path = resolveFromCurrentDir(filePath);
   try {
     const content = await fsLib.readFile(path);
-    return { output: getLastNLines(content, numLines), success: true };
+    return { stdout: getLastNLines(content, numLines), stderr: '', exitCode: 0 };
   } catch {
-    return { output: `tail: cannot open '${filePath}': No such file or directory`, success: false };
+    return { stdout: '', stderr: `tail: cannot open '${filePath}': No such file or directory`, exitCode: 1 };
   }
 }
 
-async function handleHeadCommand(args: string[]): Promise<CommandResult> {
+async function handleHeadCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
   const { numLines, filePath } = parseHeadTailArgs(args);
 
+  if (!filePath && stdin !== null) {
+    return { stdout: getFirstNLines(stdin, numLines), stderr: '', exitCode: 0 };
+  }
   if (!filePath) {
-    return { output: 'head: missing file operand', success: false };
+    return { stdout: '', stderr: 'head: missing file operand', exitCode: 1 };
   }
 
-  const path = resolvePath(filePath);
+  const path = resolveFromCurrentDir(filePath);
   try {
     const content = await fsLib.readFile(path);
-    return { output: getFirstNLines(content, numLines), success: true };
+    return { stdout: getFirstNLines(content, numLines), stderr: '', exitCode: 0 };
   } catch {
-    return { output: `head: cannot open '${filePath}': No such file or directory`, success: false };
+    return { stdout: '', stderr: `head: cannot open '${filePath}': No such file or directory`, exitCode: 1 };
   }
 }
 
 async function handleMkdirCommand(args: string[]): Promise<CommandResult> {
   if (!args[0]) {
-    return { output: 'mkdir: missing operand', success: false };
+    return { stdout: '', stderr: 'mkdir: missing operand', exitCode: 1 };
   }
-  const path = resolvePath(args[0]);
+  const path = resolveFromCurrentDir(args[0]);
   await fsLib.mkdir(path);
-  return { output: '', success: true };
+  return { stdout: '', stderr: '', exitCode: 0 };
 }
 
 async function handleTouchCommand(args: string[]): Promise<CommandResult> {
   if (args.length === 0) {
-    return { output: 'touch: missing file operand', success: false };
+    return { stdout: '', stderr: 'touch: missing file operand', exitCode: 1 };
   }
   for (const arg of args) {
-    const path = resolvePath(arg);
+    const path = resolveFromCurrentDir(arg);
     try {
       await fsLib.readFile(path);
     } catch {
       await fsLib.writeFile(path, '');
     }
   }
-  return { output: '', success: true };
+  return { stdout: '', stderr: '', exitCode: 0 };
 }
 
 async function handleRmCommand(args: string[]): Promise<CommandResult> {
   const { recursive, targets } = parseRmArgs(args);
 
   if (targets.length === 0) {
-    return { output: 'rm: missing operand', success: false };
+    return { stdout: '', stderr: 'rm: missing operand', exitCode: 1 };
   }
 
   for (const target of targets) {
-    const path = resolvePath(target);
+    const path = resolveFromCurrentDir(target);
     const stats = await fsLib.stat(path);
 
     if (stats.type === 'dir') {
       if (!recursive) {
-        return { output: `rm: cannot remove '${target}': Is a directory`, success: false };
+        return { stdout: '', stderr: `rm: cannot remove '${target}': Is a directory`, exitCode: 1 };
       }
       await removeRecursive(path);
     } else {
@@ -107,7 +198,7 @@ async function handleRmCommand(args: string[]): Promise<CommandResult> {
     }
   }
 
-  return { output: '', success: true };
+  return { stdout: '', stderr: '', exitCode: 0 };
 }
 
 async function removeRecursive(path: string): Promise<void> {
@@ -124,10 +215,266 @@ async function removeRecursive(path: string): Promise<void> {
   await fsLib.rmdir(path);
 }
 
+async function copyRecursive(from: string, to: string): Promise<void> {
+  await fsLib.mkdir(to);
+  for (const entry of await fsLib.readdir(from)) {
+    const source = joinPath(from, entry);
+    if ((await fsLib.stat(source)).type === 'dir') {
+      await copyRecursive(source, joinPath(to, entry));
+    } else {
+      await fsLib.writeFile(joinPath(to, entry), await fsLib.readFile(source));
+    }
+  }
+}
+
+/**
+ * Work out where `cp`/`mv` put a source: inside the destination when it's
+ * an existing directory, otherwise at the destination itself.
+ */
+async function destinationFor(source: string, dest: string): Promise<string> {
+  const destPath = resolveFromCurrentDir(dest);
+  return await pathType(destPath) === 'dir' ? joinPath(destPath, baseName(resolveFromCurrentDir(source))) : destPath;
+}
+
+async function handleCpCommand(args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'rR');
+  if (invalid) return invalidOption('cp', invalid);
+  if (operands.length < 2) {
+    return { stdout: '', stderr: 'cp: missing destination file operand', exitCode: 1 };
+  }
+
+  const dest = operands[operands.length - 1];
+  const errors: string[] = [];
+  for (const source of operands.slice(0, -1)) {
+    const from = resolveFromCurrentDir(source);
+    const type = await pathType(from);
+    const to = await destinationFor(source, dest);
+    if (type === null) {
+      errors.push(`cp: cannot stat '${source}': No such file or directory`);
+    } else if (type === 'dir' && !flags.has('r') && !flags.has('R')) {
+      errors.push(`cp: -r not specified; omitting directory '${source}'`);
+    } else if (type === 'dir' && (to === from || to.startsWith(`${from}/`))) {
+      errors.push(`cp: cannot copy a directory, '${source}', into itself, '${dest}'`);
+    } else if (type === 'dir') {
+      await copyRecursive(from, to);
+    } else {
+      await fsLib.writeFile(to, await fsLib.readFile(from));
+    }
+  }
+  return { stdout: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+async function handleMvCommand(args: string[]): Promise<CommandResult> {
+  const { operands, invalid } = parseOptions(args, '');
+  if (invalid) return invalidOption('mv', invalid);
+  if (operands.length < 2) {
+    return { stdout: '', stderr: 'mv: missing destination file operand', exitCode: 1 };
+  }
+
+  const dest = operands[operands.length - 1];
+  const errors: string[] = [];
+  for (const source of operands.slice(0, -1)) {
+    const from = resolveFromCurrentDir(source);
+    const to = await destinationFor(source, dest);
+    if (await pathType(from) === null) {
+      errors.push(`mv: cannot stat '${source}': No such file or directory`);
+    } else if (to.startsWith(`${from}/`)) {
+      errors.push(`mv: cannot move '${source}' to a subdirectory of itself, '${dest}'`);
+    } else if (to !== from) {
+      if (await pathType(to) === 'file') await fsLib.unlink(to);
+      await fsLib.rename(from, to);
+    }
+  }
+  return { stdout: '', stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+async function handleWcCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'lwc');
+  if (invalid) return invalidOption('wc', invalid);
+
+  const { inputs, errors } = await readInputs('wc', operands, stdin);
+  const counted: (keyof TextCounts)[] = [['l', 'lines'], ['w', 'words'], ['c', 'bytes']]
+    .filter(([flag]) => flags.has(flag))
+    .map(([, key]) => key as keyof TextCounts);
+  const rows = inputs.map(({ label, text }) => ({ label, counts: countText(text) }));
+  return {
+    stdout: rows.length > 0 ? formatCounts(rows, counted.length > 0 ? counted : ['lines', 'words', 'bytes']) : '',
+    stderr: errors.join('\n'),
+    exitCode: errors.length > 0 ? 1 : 0,
+  };
+}
+
+/**
+ * List the files under a directory, depth first in name order.
+ * `.git` is skipped: its objects are compressed, so there's nothing to read.
+ */
+async function listFilesRecursive(dir: string, display: string): Promise<{ path: string; display: string }[]> {
+  const files: { path: string; display: string }[] = [];
+  for (const entry of (await fsLib.readdir(dir)).sort()) {
+    if (entry === '.git') continue;
+    const path = joinPath(dir, entry);
+    const shown = display === '.' ? entry : `${display.replace(/\/$/, '')}/${entry}`;
+    if ((await fsLib.stat(path)).type === 'dir') {
+      files.push(...await listFilesRecursive(path, shown));
+    } else {
+      files.push({ path, display: shown });
+    }
+  }
+  return files;
+}
+
+async function handleGrepCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'nirvc');
+  if (invalid) return invalidOption('grep', invalid, 2);
+  const [pattern, ...targets] = operands;
+  if (pattern === undefined) {
+    return { stdout: '', stderr: 'usage: grep [-cinrv] <pattern> [file...]', exitCode: 2 };
+  }
+
+  let regex: RegExp;
+  try {
+    regex = compileGrepPattern(pattern, flags.has('i'));
+  } catch (error) {
+    return { stdout: '', stderr: `grep: ${(error as Error).message}`, exitCode: 2 };
+  }
+
+  const recursive = flags.has('r');
+  const searchTargets = recursive && targets.length === 0 ? ['.'] : targets;
+  const errors: string[] = [];
+  let inputs: { label: string | null; text: string }[] = [];
+  if (searchTargets.length === 0) {
+    inputs = [{ label: null, text: stdin ?? '' }];
+  }
+  for (const target of searchTargets) {
+    const path = resolveFromCurrentDir(target);
+    const type = await pathType(path);
+    if (type === 'dir' && recursive) {
+      for (const file of await listFilesRecursive(path, target)) {
+        inputs.push({ label: file.display, text: await fsLib.readFile(file.path) });
+      }
+    } else if (type === 'file') {
+      inputs.push({ label: target, text: await fsLib.readFile(path) });
+    } else {
+      errors.push(`grep: ${target}: ${type === 'dir' ? 'Is a directory' : 'No such file or directory'}`);
+    }
+  }
+
+  // File names are shown once more than one file could match
+  const showLabels = recursive || searchTargets.length > 1;
+  const options = { ignoreCase: flags.has('i'), invert: flags.has('v'), lineNumbers: flags.has('n') };
+  const lines: string[] = [];
+  let matched = false;
+  for (const { label, text } of inputs) {
+    const matches = grepLines(text, regex, options, showLabels ? label : null);
+    matched ||= matches.length > 0;
+    if (flags.has('c')) {
+      lines.push(showLabels ? `${label}:${matches.length}` : String(matches.length));
+    } else {
+      lines.push(...matches);
+    }
+  }
+
+  // grep exits 1 when nothing matched and 2 on errors
+  return {
+    stdout: lines.join('\n'),
+    stderr: errors.join('\n'),
+    exitCode: errors.length > 0 ? 2 : matched ? 0 : 1,
+  };
+}
+
+async function findEntries(
+  path: string,
+  display: string,
+  test: (name: string, type: 'file' | 'dir') => boolean,
+): Promise<string[]> {
+  const type = (await fsLib.stat(path)).type;
+  const found = test(baseName(display), type) ? [display] : [];
+  if (type === 'dir') {
+    for (const entry of (await fsLib.readdir(path)).sort()) {
+      found.push(...await findEntries(joinPath(path, entry), `${display.replace(/\/$/, '')}/${entry}`, test));
+    }
+  }
+  return found;
+}
+
+async function handleFindCommand(args: string[]): Promise<CommandResult> {
+  const { paths, name, type, error } = parseFindArgs(args);
+  if (error) {
+    return { stdout: '', stderr: `find: ${error}`, exitCode: 1 };
+  }
+
+  const test = (entryName: string, entryType: 'file' | 'dir') =>
+    (name === null || matchesGlob(entryName, name))
+    && (type === null || (type === 'd') === (entryType === 'dir'));
+  const lines: string[] = [];
+  const errors: string[] = [];
+  for (const start of paths) {
+    const path = resolveFromCurrentDir(start);
+    if (await pathType(path) === null) {
+      errors.push(`find: '${start}': No such file or directory`);
+      continue;
+    }
+    lines.push(...await findEntries(path, start, test));
+  }
+  return { stdout: lines.join('\n'), stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+async function buildTree(path: string, name: string, showHidden: boolean): Promise<TreeNode> {
+  if ((await fsLib.stat(path)).type === 'file') {
+    return { name };
+  }
+  const entries = (await fsLib.readdir(path)).sort().filter((entry) => showHidden || !entry.startsWith('.'));
+  return {
+    name,
+    children: await Promise.all(entries.map((entry) => buildTree(joinPath(path, entry), entry, showHidden))),
+  };
+}
+
+async function handleTreeCommand(args: string[]): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'a');
+  if (invalid) return invalidOption('tree', invalid);
+
+  const target = operands[0] ?? '.';
+  const path = resolveFromCurrentDir(target);
+  if (await pathType(path) !== 'dir') {
+    return { stdout: '', stderr: `${target} [error opening dir]`, exitCode: 2 };
+  }
+  return { stdout: formatTree(await buildTree(path, target, flags.has('a'))), stderr: '', exitCode: 0 };
+}
+
+async function handleSortCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'rnu');
+  if (invalid) return invalidOption('sort', invalid, 2);
+
+  const { inputs, errors } = await readInputs('sort', operands, stdin);
+  if (errors.length > 0) {
+    return { stdout: '', stderr: errors.join('\n'), exitCode: 2 };
+  }
+  const lines = sortLines(inputs.flatMap(({ text }) => splitLines(text)), {
+    numeric: flags.has('n'),
+    reverse: flags.has('r'),
+    unique: flags.has('u'),
+  });
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleUniqCommand(args: string[], { stdin }: CommandContext): Promise<CommandResult> {
+  const { flags, operands, invalid } = parseOptions(args, 'cd');
+  if (invalid) return invalidOption('uniq', invalid);
+
+  const { inputs, errors } = await readInputs('uniq', operands.slice(0, 1), stdin);
+  if (errors.length > 0) {
+    return { stdout: '', stderr: errors.join('\n'), exitCode: 1 };
+  }
+  const lines = uniqLines(splitLines(inputs[0].text), { count: flags.has('c'), duplicatesOnly: flags.has('d') });
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
 // Register file commands
 registerCommand({
   name: 'ls',
   description: 'List directory contents',
+  usage: '[-la] [dir]',
   handler: handleLsCommand,
   category: 'file',
 });
@@ -135,7 +482,7 @@ registerCommand({
 registerCommand({
   name: 'cat',
   description: 'Display file contents',
-  usage: '<file>',
+  usage: '[file]',
   handler: handleCatCommand,
   category: 'file',
 });
@@ -143,7 +490,7 @@ registerCommand({
 registerCommand({
   name: 'tail',
   description: 'Display last lines of a file',
-  usage: '[-n <lines>] <file>',
+  usage: '[-n <lines>] [file]',
   handler: handleTailCommand,
   category: 'file',
 });
@@ -151,7 +498,7 @@ registerCommand({
 registerCommand({
   name: 'head',
   description: 'Display first lines of a file',
-  usage: '[-n <lines>] <file>',
+  usage: '[-n <lines>] [file]',
   handler: handleHeadCommand,
   category: 'file',
 });
@@ -179,3 +526,67 @@ registerCommand({
   handler: handleRmCommand,
   category: 'file',
 });
+
+registerCommand({
+  name: 'cp',
+  description: 'Copy files and directories',
+  usage: '[-r] <source> <dest>',
+  handler: handleCpCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'mv',
+  description: 'Move or rename files',
+  usage: '<source> <dest>',
+  handler: handleMvCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'wc',
+  description: 'Count lines, words and bytes',
+  usage: '[-lwc] [file...]',
+  handler: handleWcCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'grep',
+  description: 'Print lines matching a pattern',
+  usage: '[-cinrv] <pattern> [file...]',
+  handler: handleGrepCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'find',
+  description: 'Search for files in a directory tree',
+  usage: '[dir] [-name <pattern>] [-type f|d]',
+  handler: handleFindCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'tree',
+  description: 'Show a directory tree',
+  usage: '[-a] [dir]',
+  handler: handleTreeCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'sort',
+  description: 'Sort lines of text',
+  usage: '[-nru] [file...]',
+  handler: handleSortCommand,
+  category: 'file',
+});
+
+registerCommand({
+  name: 'uniq',
+  description: 'Collapse repeated adjacent lines',
+  usage: '[-cd] [file]',
+  handler: handleUniqCommand,
+  category: 'file',
+});
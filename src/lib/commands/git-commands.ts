@@ -1,108 +1,2383 @@
 import * as gitLib from '../git';
-import { CWD } from '../config';
+import * as fsLib from '../fs';
 import { withHashUpdate } from '../gitStateHash';
-import { registerCommand, registerGitSubcommand } from './registry';
+import * as remotes from '../remotes';
+import * as objectDb from '../objectDb';
+import * as editor from '../editor';
+import * as rebase from '../rebase';
+import * as sequencer from '../sequencer';
+import * as reflog from '../reflog';
+import {
+  getCurrentDir,
+  resolveFromCurrentDir,
+  findRepoRoot,
+  getRepoDir,
+  withRepoDir,
+  relativePath,
+} from '../workingDirectory';
+import { formatIndexEntry } from '../gitIndex/index-utils';
+import { formatFileDiff, formatDiffStat, formatChangeSummary } from '../diff/diff-utils';
+import { parseRevision, parseRevisionRange } from '../revisions/revision-utils';
+import { registerCommand, registerGitSubcommand, getGitSubcommands } from './registry';
 import { colors } from './colors';
+import {
+  parseDiffArgs,
+  parseShowArgs,
+  parseStashRef,
+  parseLogArgs,
+  parseCommitArgs,
+  parseBranchArgs,
+  parseSwitchArgs,
+  parseMergeArgs,
+  parseRebaseArgs,
+  parseSequencerArgs,
+} from './parsing';
+import { cleanupCommitMessage, formatCommitTemplate } from './commit-utils';
+import { matchesGlob, compileGrepPattern } from './text-utils';
+import { drawAsciiGraph } from '../commitGraph';
+import type { LogOptions, BranchOptions, SwitchOptions, SequencerCommand } from './parsing';
 import type { CommandResult } from './types';
 
-async function handleGitCommand(args: string[]): Promise<CommandResult> {
-  const subcommand = args[0];
+/**
+ * Colorize unified diff lines the way git does:
+ * bold file headers, cyan hunk headers, red removals, green additions.
+ */
+function colorizeDiff(lines: string[]): string[] {
+  const { bold, cyan, red, green, reset } = colors;
+  let inHeader = false;
+  return lines.map((line) => {
+    if (line.startsWith('diff --git ')) {
+      inHeader = true;
+    } else if (line.startsWith('@@')) {
+      inHeader = false;
+      return `${cyan}${line}${reset}`;
+    }
+    if (inHeader) return `${bold}${line}${reset}`;
+    if (line.startsWith('+')) return `${green}${line}${reset}`;
+    if (line.startsWith('-')) return `${red}${line}${reset}`;
+    return line;
+  });
+}
+
+/**
+ * Turn a path typed relative to the current directory into one relative
+ * to the repository root, which is what git operations expect.
+ * Returns null for paths outside the repository.
+ */
+function toRepoPath(path: string): string | null {
+  return relativePath(getRepoDir(), resolveFromCurrentDir(path));
+}
+
+/**
+ * Turn several typed paths into repository paths. Stops at the first
+ * path outside the repository and returns it as `outside`.
+ */
+function toRepoPaths(paths: string[]): { repoPaths: string[]; outside: string | null } {
+  const repoPaths: string[] = [];
+  for (const path of paths) {
+    const repoPath = toRepoPath(path);
+    if (repoPath === null) return { repoPaths, outside: path };
+    repoPaths.push(repoPath);
+  }
+  return { repoPaths, outside: null };
+}
+
+function outsideRepository(path: string): CommandResult {
+  return { stdout: '', stderr: `fatal: ${path}: '${path}' is outside repository at '${getRepoDir()}'`, exitCode: 128 };
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await fsLib.stat(resolveFromCurrentDir(path));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function handleDiff(args: string[]): Promise<CommandResult> {
+  const options = parseDiffArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  const { staged, revisions, paths, hasSeparator } = options;
+
+  // Without "--", arguments naming files in the working tree are paths
+  const revs: string[] = [];
+  for (const rev of revisions) {
+    if (!hasSeparator && await pathExists(rev)) {
+      paths.push(rev);
+    } else {
+      revs.push(rev);
+    }
+  }
+
+  if (revs.length > (staged ? 1 : 2)) {
+    return { stdout: '', stderr: 'usage: git diff [--staged] [--stat | --name-only] [<commit> [<commit>]] [-- <path>...]', exitCode: 129 };
+  }
+
+  // A..B compares A with B, and A...B compares where B branched off from A with B
+  const requested = revs.join(' ');
+  const range = revs.length === 1 && !staged ? parseRevisionRange(revs[0]) : null;
+  if (range?.symmetric) {
+    const base = await gitLib.gitMergeBase(range.include[0], range.include[1]).catch(() => null);
+    if (!base) return unknownRevisionOrPath(requested);
+    revs.splice(0, 1, base, range.include[1]);
+  } else if (range?.exclude.length === 1 && range.include.length === 1) {
+    revs.splice(0, 1, range.exclude[0], range.include[0]);
+  }
+
+  const { repoPaths: filepaths, outside } = toRepoPaths(paths);
+  if (outside !== null) return outsideRepository(outside);
+
+  let diffs;
+  try {
+    diffs = await gitLib.gitDiff({ staged, from: revs[0], to: revs[1], filepaths });
+  } catch {
+    return unknownRevisionOrPath(requested);
+  }
+
+  if (options.stat) {
+    return { stdout: formatDiffStat(diffs).join('\n'), stderr: '', exitCode: 0 };
+  }
+  if (options.nameOnly) {
+    return { stdout: diffs.map((diff) => diff.filepath).join('\n'), stderr: '', exitCode: 0 };
+  }
+  const lines = diffs.flatMap((diff) => formatFileDiff(diff));
+  return { stdout: colorizeDiff(lines).join('\n'), stderr: '', exitCode: 0 };
+}
+
+/**
+ * Explain why there's nothing to commit, like git: whether changes
+ * were left unstaged, only untracked files exist, or the tree is clean.
+ */
+async function nothingToCommit(): Promise<CommandResult> {
+  const status = await gitLib.gitStatus();
+  const unstaged = status.some(([, head, workdir, stage]) => !(head === 0 && stage === 0) && workdir !== stage);
+  const untracked = status.some(([, head, , stage]) => head === 0 && stage === 0);
+  let reason = 'nothing to commit, working tree clean';
+  if (unstaged) {
+    reason = 'no changes added to commit (use "git add" and/or "git commit -a")';
+  } else if (untracked) {
+    reason = 'nothing added to commit but untracked files present (use "git add" to track)';
+  }
+  return {
+    stdout: [await describeHead(), reason].join('\n'),
+    stderr: '',
+    exitCode: 1,
+  };
+}
+
+/**
+ * Open COMMIT_EDITMSG in the editor, starting from a prepared message,
+ * and return what the learner wrote with the comment lines cleaned up.
+ */
+async function editCommitMessage(prepared: string): Promise<string> {
+  const path = `${getRepoDir()}/.git/COMMIT_EDITMSG`;
+  const branch = await gitLib.gitCurrentBranch() ?? null;
+  const staged = await gitLib.gitDiff({ staged: true });
+  // The learner saves into .git, so bless the state once they're done
+  return withHashUpdate(async () => {
+    await fsLib.writeFile(path, formatCommitTemplate(prepared, branch, staged));
+    await editor.editFile(path);
+    return cleanupCommitMessage(await fsLib.readFile(path), true);
+  });
+}
+
+/**
+ * Summarize a new commit the way `git commit` does: the branch, short id
+ * and subject, then what changed. `withDate` adds the author date, for
+ * commits that kept an older one.
+ */
+async function formatNewCommit(sha: string, withDate: boolean): Promise<string[]> {
+  const commit = await gitLib.gitReadObject(sha);
+  if (commit.type !== 'commit') return [];
+  const branch = await gitLib.gitCurrentBranch();
+  const root = commit.commit.parent.length === 0;
+  const lines = [`[${branch ?? 'detached HEAD'}${root ? ' (root-commit)' : ''} ${sha.slice(0, 7)}] ${commit.commit.message.split('\n')[0]}`];
+  if (withDate) {
+    lines.push(` Date: ${objectDb.formatDate(commit.commit.author)}`);
+  }
+  lines.push(...formatChangeSummary(await gitLib.gitCommitDiff(sha)));
+  return lines;
+}
+
+async function handleCommit(args: string[]): Promise<CommandResult> {
+  const unmerged = await gitLib.gitUnmergedPaths();
+  if (unmerged.length > 0) {
+    return {
+      stdout: '',
+      stderr: [
+        'error: Committing is not possible because you have unmerged files.',
+        "hint: Fix them up in the work tree, and then use 'git add <file>'",
+        'fatal: Exiting because of an unresolved conflict.',
+      ].join('\n'),
+      exitCode: 128,
+    };
+  }
+
+  const options = parseCommitArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  if (options.pathspecs.length > 0) {
+    return {
+      stdout: '',
+      stderr: `error: pathspec '${options.pathspecs[0]}' did not match any file(s) known to git`,
+      exitCode: 1,
+    };
+  }
+
+  const mergeHead = await gitLib.gitMergeHead();
+  let head: gitLib.GitObject | null = null;
+  if (options.amend) {
+    if (mergeHead) {
+      return { stdout: '', stderr: 'fatal: You are in the middle of a merge -- cannot amend.', exitCode: 128 };
+    }
+    if (!(await isRevision('HEAD'))) {
+      return { stdout: '', stderr: 'fatal: You have nothing to amend.', exitCode: 128 };
+    }
+    head = await gitLib.gitReadObject(await gitLib.gitResolveRevision('HEAD'));
+  }
+  const previousMessage = head?.type === 'commit' ? head.commit.message.trim() : null;
+
+  if (options.all) {
+    await withHashUpdate(() => gitLib.gitStageTrackedChanges());
+  }
+  if (!options.amend && !options.allowEmpty && !mergeHead
+      && (await gitLib.gitDiff({ staged: true })).length === 0) {
+    return nothingToCommit();
+  }
+
+  // A message from -m, else the merge's, cherry-pick's or amended commit's, else the editor
+  let message: string;
+  const picking = (await sequencer.getSequencerState())?.stopped ?? null;
+  const prepared = mergeHead || picking ? await gitLib.gitMergeMessage() : previousMessage;
+  if (options.messages.length > 0) {
+    message = cleanupCommitMessage(options.messages.join('\n\n'), false);
+  } else if (prepared !== null && (options.noEdit || !editor.hasEditor())) {
+    message = prepared;
+  } else if (editor.hasEditor()) {
+    message = await editCommitMessage(prepared ?? '');
+  } else {
+    return {
+      stdout: '',
+      stderr: 'error: Terminal is dumb, but EDITOR unset\nPlease supply the message using either -m or -F option.',
+      exitCode: 1,
+    };
+  }
+  if (!message) {
+    return { stdout: '', stderr: 'Aborting commit due to empty commit message.', exitCode: 1 };
+  }
+
+  const sha = await withHashUpdate(async () => {
+    const sha = await gitLib.gitCommit(message, { amend: options.amend });
+    // Committing a stopped cherry-pick or revert finishes that step
+    if (picking) await sequencer.concludeStep();
+    return sha;
+  });
+  const lines = await formatNewCommit(sha, options.amend);
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+function formatStatusLine([filepath, head, workdir, stage]: [string, number, number, number]): string {
+  // Untracked files - red
+  if (head === 0 && workdir === 2 && stage === 0) {
+    return `${colors.red}?? ${filepath}${colors.reset}`;
+  }
+  // Staged (deleted) - green
+  if (head === 1 && stage === 0) {
+    return `${colors.green}D  ${filepath}${colors.reset}`;
+  }
+  // Deleted in working dir - red
+  if (workdir === 0 && stage === 1) {
+    return `${colors.red} D ${filepath}${colors.reset}`;
+  }
+  // Staged (modified) - green
+  if (head === 1 && stage === 2) {
+    return `${colors.green}M  ${filepath}${colors.reset}`;
+  }
+  // Staged (added) - green
+  if (stage === 2) {
+    return `${colors.green}A  ${filepath}${colors.reset}`;
+  }
+  // Staged (modified) - green
+  if (stage === 3) {
+    return `${colors.green}M  ${filepath}${colors.reset}`;
+  }
+  // Modified in working dir - red
+  if (workdir === 2 && stage === 1) {
+    return `${colors.red} M ${filepath}${colors.reset}`;
+  }
+  return `${colors.red}?? ${filepath}${colors.reset}`;
+}
+
+/**
+ * Compare a branch with its upstream, or null when it has none.
+ */
+async function trackingInfo(branch: string): Promise<remotes.TrackingInfo | null> {
+  const upstream = await remotes.getUpstream(branch);
+  if (!upstream) return null;
+  const name = `${upstream.remote}/${upstream.branch}`;
+  const trackingRef = remotes.remoteTrackingRef(upstream.remote, upstream.branch);
+  if (!(await isRevision(trackingRef))) {
+    return { upstream: name, ahead: 0, behind: 0, gone: true };
+  }
+  return { upstream: name, gone: false, ...(await gitLib.gitAheadBehind(branch, trackingRef)) };
+}
+
+/**
+ * Say where HEAD is: "On branch <name>", "HEAD detached at <commit>",
+ * or what it's being rebased onto.
+ */
+async function describeHead(): Promise<string> {
+  const branch = await gitLib.gitCurrentBranch();
+  if (branch) return `On branch ${branch}`;
+  const state = await rebase.getRebaseState();
+  if (state) {
+    return `${state.interactive ? 'interactive rebase' : 'rebase'} in progress; onto ${state.onto.slice(0, 7)}`;
+  }
+  return `HEAD detached at ${(await gitLib.gitResolveRevision('HEAD')).slice(0, 7)}`;
+}
+
+/**
+ * Describe the rebase in progress for `git status`: the commands done
+ * and still to do (for an interactive rebase), how far along it is,
+ * and how to go on.
+ */
+function rebaseStatusLines(state: rebase.RebaseState, unmerged: boolean): string[] {
+  const lines: string[] = [];
+  const formatStep = (step: rebase.TodoStep) => `   ${step.action} ${step.commit.slice(0, 7)} ${step.subject}`;
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  if (state.interactive) {
+    lines.push(`Last command${state.done.length === 1 ? '' : 's'} done (${plural(state.done.length, 'command')} done):`);
+    lines.push(...state.done.slice(-2).map(formatStep));
+    if (state.todo.length === 0) {
+      lines.push('No commands remaining.');
+    } else {
+      lines.push(`Next command${state.todo.length === 1 ? '' : 's'} to do (${plural(state.todo.length, 'remaining command')}):`);
+      lines.push(...state.todo.slice(0, 2).map(formatStep));
+    }
+  }
+
+  const progress = `(${state.done.length}/${state.done.length + state.todo.length})`;
+  lines.push(state.headName
+    ? `You are currently rebasing branch '${state.headName}' on '${state.onto.slice(0, 7)}' ${progress}.`
+    : `You are currently rebasing ${progress}.`);
+  if (unmerged) {
+    lines.push(
+      '  (fix conflicts and then run "git rebase --continue")',
+      '  (use "git rebase --skip" to skip this patch)',
+      '  (use "git rebase --abort" to check out the original branch)',
+    );
+  } else {
+    lines.push('  (all conflicts fixed: run "git rebase --continue")');
+  }
+  return lines;
+}
+
+/**
+ * Describe the cherry-pick or revert in progress for `git status`.
+ */
+function sequencerStatusLines(state: sequencer.SequencerState, unmerged: boolean): string[] {
+  const command = state.action === 'pick' ? 'cherry-pick' : 'revert';
+  const lines = state.stopped
+    ? [`You are currently ${state.action === 'pick' ? 'cherry-picking' : 'reverting'} commit ${state.stopped.slice(0, 7)}.`]
+    : [`${state.action === 'pick' ? 'Cherry-pick' : 'Revert'} currently in progress.`];
+  if (!state.stopped) {
+    lines.push(`  (run "git ${command} --continue" to continue)`);
+  } else if (unmerged) {
+    lines.push(`  (fix conflicts and run "git ${command} --continue")`);
+  } else {
+    lines.push(`  (all conflicts fixed: run "git ${command} --continue")`);
+  }
+  lines.push(
+    `  (use "git ${command} --skip" to skip this patch)`,
+    `  (use "git ${command} --abort" to cancel the ${command} operation)`,
+  );
+  return lines;
+}
+
+async function handleStatus(): Promise<CommandResult> {
+  const status = await gitLib.gitStatus();
+
+  const headerLines = [await describeHead()];
+  const branch = await gitLib.gitCurrentBranch();
+  if (!(await isRevision('HEAD'))) {
+    headerLines.push('', 'No commits yet');
+  } else if (branch) {
+    const tracking = await trackingInfo(branch);
+    if (tracking) headerLines.push(...remotes.formatTrackingStatus(tracking));
+  }
+  headerLines.push('');
+
+  const unmerged = await gitLib.gitUnmergedPaths();
+  const rebaseState = await rebase.getRebaseState();
+  const sequencerState = await sequencer.getSequencerState();
+  if (rebaseState) {
+    headerLines.push(...rebaseStatusLines(rebaseState, unmerged.length > 0), '');
+  } else if (sequencerState) {
+    headerLines.push(...sequencerStatusLines(sequencerState, unmerged.length > 0), '');
+  } else if (await gitLib.gitMergeHead()) {
+    if (unmerged.length > 0) {
+      headerLines.push(
+        'You have unmerged paths.',
+        '  (fix conflicts and run "git commit")',
+        '  (use "git merge --abort" to abort the merge)',
+      );
+    } else {
+      headerLines.push(
+        'All conflicts fixed but you are still merging.',
+        '  (use "git commit" to conclude merge)',
+      );
+    }
+    headerLines.push('');
+  }
+
+  // Filter out clean files (head=1, workdir=1, stage=1 means unchanged)
+  const changedFiles = status.filter(([, head, workdir, stage]) => {
+    return !(head === 1 && workdir === 1 && stage === 1);
+  });
+  if (changedFiles.length === 0) {
+    return { stdout: [...headerLines, 'nothing to commit, working tree clean'].join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  const statusLines = changedFiles.map((row) =>
+    unmerged.includes(row[0])
+      ? `${colors.red}UU ${row[0]}${colors.reset}`
+      : formatStatusLine(row)
+  );
+  return { stdout: [...headerLines, ...statusLines].join('\n'), stderr: '', exitCode: 0 };
+}
+
+// The first line of a commit's message
+async function commitSubject(oid: string): Promise<string> {
+  const object = await gitLib.gitReadObject(oid);
+  return object.type === 'commit' ? object.commit.message.split('\n')[0] : '';
+}
+
+// "<short id> <subject>", as git names the commit HEAD is at
+async function describeCommit(oid: string): Promise<string> {
+  return `${oid.slice(0, 7)} ${await commitSubject(oid)}`;
+}
+
+/**
+ * Format the branch list: the current branch (or detached HEAD) starred
+ * in green, remote-tracking branches in red. `verbose` adds each tip's
+ * short id and subject, and at 2 the upstream too.
+ */
+async function listBranches(options: BranchOptions): Promise<CommandResult> {
+  const current = await gitLib.gitCurrentBranch();
+  const rows: { name: string; label: string; ref: string; branch: string | null; color: string }[] = [];
+  if (!current && !options.remotes && await isRevision('HEAD')) {
+    const head = await gitLib.gitResolveRevision('HEAD');
+    const rebasing = (await rebase.getRebaseState())?.headName;
+    const name = rebasing ? `(no branch, rebasing ${rebasing})` : `(HEAD detached at ${head.slice(0, 7)})`;
+    rows.push({ name, label: '*', ref: 'HEAD', branch: null, color: colors.green });
+  }
+  if (!options.remotes) {
+    for (const branch of await gitLib.gitListBranches()) {
+      const isCurrent = branch === current;
+      rows.push({ name: branch, label: isCurrent ? '*' : ' ', ref: branch, branch, color: isCurrent ? colors.green : '' });
+    }
+  }
+  if (options.remotes || options.all) {
+    const prefix = options.all ? 'remotes/' : '';
+    for (const branch of await remotes.listRemoteBranches()) {
+      rows.push({ name: `${prefix}${branch}`, label: ' ', ref: `refs/remotes/${branch}`, branch: null, color: colors.red });
+    }
+  }
+
+  const width = Math.max(0, ...rows.map((row) => row.name.length));
+  const lines: string[] = [];
+  for (const row of rows) {
+    // The current branch is starred and green; remote-tracking names are red
+    const name = row.label === '*'
+      ? `${row.color}* ${row.name}${colors.reset}`
+      : `  ${row.color ? `${row.color}${row.name}${colors.reset}` : row.name}`;
+    if (options.verbose === 0 || !(await isRevision(row.ref))) {
+      lines.push(name);
+      continue;
+    }
+    const oid = await gitLib.gitResolveRevision(row.ref);
+    const tracking = options.verbose > 1 && row.branch ? await trackingInfo(row.branch) : null;
+    const padded = name + ' '.repeat(width - row.name.length);
+    const upstream = tracking ? `${remotes.formatTrackingBrief(tracking)} ` : '';
+    lines.push(`${padded} ${oid.slice(0, 7)} ${upstream}${await commitSubject(oid)}`);
+  }
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function deleteBranches(names: string[], force: boolean): Promise<CommandResult> {
+  if (names.length === 0) {
+    return { stdout: '', stderr: 'fatal: branch name required', exitCode: 128 };
+  }
+  const branches = await gitLib.gitListBranches();
+  const current = await gitLib.gitCurrentBranch();
+  const deleted: string[] = [];
+  const errors: string[] = [];
+  for (const name of names) {
+    if (!branches.includes(name)) {
+      errors.push(`error: branch '${name}' not found.`);
+    } else if (name === current) {
+      errors.push(`error: Cannot delete branch '${name}' checked out at '${getRepoDir()}'`);
+    } else if (!force && await isRevision('HEAD') && !(await gitLib.gitIsMerged(name))) {
+      errors.push(
+        `error: the branch '${name}' is not fully merged.`,
+        `If you are sure you want to delete it, run 'git branch -D ${name}'`,
+      );
+    } else {
+      const oid = await gitLib.gitResolveRevision(name);
+      await withHashUpdate(() => gitLib.gitDeleteBranch(name));
+      deleted.push(`Deleted branch ${name} (was ${oid.slice(0, 7)}).`);
+    }
+  }
+  return { stdout: deleted.join('\n'), stderr: errors.join('\n'), exitCode: errors.length > 0 ? 1 : 0 };
+}
+
+async function renameBranch(names: string[], force: boolean): Promise<CommandResult> {
+  const current = await gitLib.gitCurrentBranch();
+  const [oldName, newName] = names.length === 1 ? [current, names[0]] : names;
+  if (names.length === 0 || names.length > 2) {
+    return { stdout: '', stderr: 'fatal: too many arguments for a rename operation', exitCode: 128 };
+  }
+  if (!oldName) {
+    return { stdout: '', stderr: 'fatal: cannot rename the current branch while not on any', exitCode: 128 };
+  }
+  if (!(await gitLib.gitListBranches()).includes(oldName)) {
+    return { stdout: '', stderr: `error: no branch named '${oldName}'`, exitCode: 1 };
+  }
+  if (force && newName === current && oldName !== current) {
+    return { stdout: '', stderr: `fatal: cannot force update the branch '${newName}' used by worktree at '${getRepoDir()}'`, exitCode: 128 };
+  }
+  await withHashUpdate(async () => {
+    await gitLib.gitRenameBranch(oldName, newName, force);
+    await reflog.renameReflog(oldName, newName);
+  });
+  return { stdout: '', stderr: '', exitCode: 0 };
+}
+
+/**
+ * Make a branch track a remote-tracking branch, e.g. origin/main.
+ */
+async function trackUpstream(branch: string, upstream: string): Promise<string> {
+  const slash = upstream.indexOf('/');
+  const [remote, remoteBranch] = [upstream.slice(0, slash), upstream.slice(slash + 1)];
+  await withHashUpdate(() => remotes.setUpstream(branch, remote, remoteBranch));
+  return `branch '${branch}' set up to track '${upstream}'.`;
+}
+
+async function createBranch(names: string[], force: boolean): Promise<CommandResult> {
+  const [name, startPoint] = names;
+  if (names.length > 2) {
+    return { stdout: '', stderr: 'fatal: too many arguments', exitCode: 128 };
+  }
+  const start = startPoint ?? 'HEAD';
+  if (!(await isRevision(start))) {
+    return {
+      stdout: '',
+      stderr: `fatal: not a valid object name: '${startPoint ?? await gitLib.gitCurrentBranch() ?? 'HEAD'}'`,
+      exitCode: 128,
+    };
+  }
+  if (force && name === await gitLib.gitCurrentBranch()) {
+    return { stdout: '', stderr: `fatal: cannot force update the branch '${name}' used by worktree at '${getRepoDir()}'`, exitCode: 128 };
+  }
+  await withHashUpdate(() => gitLib.gitBranch(name, start, force));
+  // Branching off a remote-tracking branch tracks it
+  const tracked = startPoint && (await remotes.listRemoteBranches()).includes(startPoint)
+    ? await trackUpstream(name, startPoint)
+    : '';
+  return { stdout: tracked, stderr: '', exitCode: 0 };
+}
+
+async function handleBranch(args: string[]): Promise<CommandResult> {
+  const options = parseBranchArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+
+  switch (options.mode) {
+    case 'list':
+      return listBranches(options);
+    case 'show-current':
+      return { stdout: await gitLib.gitCurrentBranch() ?? '', stderr: '', exitCode: 0 };
+    case 'delete':
+      return deleteBranches(options.names, options.force);
+    case 'rename':
+      return renameBranch(options.names, options.force);
+    case 'create':
+      return createBranch(options.names, options.force);
+  }
+
+  const branch = options.names[0] ?? await gitLib.gitCurrentBranch();
+  if (!branch) {
+    return { stdout: '', stderr: 'fatal: HEAD does not point to a branch', exitCode: 128 };
+  }
+  if (options.mode === 'unset-upstream') {
+    if (!(await remotes.getUpstream(branch))) {
+      return { stdout: '', stderr: `fatal: branch '${branch}' has no upstream information`, exitCode: 128 };
+    }
+    await withHashUpdate(() => remotes.unsetUpstream(branch));
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+  const upstream = options.upstream as string;
+  if (!(await remotes.listRemoteBranches()).includes(upstream)) {
+    return { stdout: '', stderr: `fatal: the requested upstream branch '${upstream}' does not exist`, exitCode: 128 };
+  }
+  return { stdout: await trackUpstream(branch, upstream), stderr: '', exitCode: 0 };
+}
+
+/**
+ * What git says after moving HEAD onto a commit rather than a branch.
+ */
+async function detachedHeadMessage(target: string, previous: string | null): Promise<string> {
+  const lines = previous === null
+    ? [
+        `Note: switching to '${target}'.`,
+        '',
+        "You are in 'detached HEAD' state. You can look around, make experimental",
+        'changes and commit them, and you can discard any commits you make in this',
+        'state without impacting any branches by switching back to a branch.',
+        '',
+        'If you want to create a new branch to retain commits you create, you may',
+        'do so (now or later) by using -c with the switch command. Example:',
+        '',
+        '  git switch -c <new-branch-name>',
+        '',
+      ]
+    : [`Previous HEAD position was ${previous}`];
+  lines.push(`HEAD is now at ${await describeCommit(await gitLib.gitResolveRevision('HEAD'))}`);
+  return lines.join('\n');
+}
+
+/**
+ * Switch branches, for both `git switch` and `git checkout`: create a
+ * branch first with `create`, detach HEAD with `detach`, or guess a
+ * branch from a remote-tracking branch of the same name. Other commits
+ * are only checked out (detached) when `detachCommits` is set, as
+ * checkout does.
+ */
+async function switchBranch(options: SwitchOptions, detachCommits: boolean): Promise<CommandResult> {
+  const current = await gitLib.gitCurrentBranch();
+  const previousHead = !current && await isRevision('HEAD')
+    ? await describeCommit(await gitLib.gitResolveRevision('HEAD'))
+    : null;
+  const branches = await gitLib.gitListBranches();
+
+  if (options.create) {
+    const name = options.create;
+    const start = options.target ?? 'HEAD';
+    if (!(await isRevision(start))) {
+      return { stdout: '', stderr: `fatal: '${start}' is not a commit and a branch '${name}' cannot be created from it`, exitCode: 128 };
+    }
+    const existed = branches.includes(name);
+    if (existed && !options.force) {
+      return { stdout: '', stderr: `fatal: a branch named '${name}' already exists`, exitCode: 128 };
+    }
+    if (existed && name === current) {
+      return { stdout: '', stderr: `fatal: cannot force update the branch '${name}' used by worktree at '${getRepoDir()}'`, exitCode: 128 };
+    }
+    const oldTip = existed ? await gitLib.gitResolveRevision(name) : null;
+    await withHashUpdate(async () => {
+      await gitLib.gitBranch(name, start, options.force);
+      try {
+        await gitLib.gitCheckout(name);
+      } catch (error) {
+        // Leave the branches as they were when local changes are in the way
+        if (oldTip) {
+          await gitLib.gitBranch(name, oldTip, true);
+        } else {
+          await gitLib.gitDeleteBranch(name);
+        }
+        throw error;
+      }
+    });
+    const tracked = options.target && (await remotes.listRemoteBranches()).includes(options.target)
+      ? [await trackUpstream(name, options.target)]
+      : [];
+    const switched = existed ? `Switched to and reset branch '${name}'` : `Switched to a new branch '${name}'`;
+    return { stdout: [...tracked, switched].join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  if (options.detach) {
+    const target = options.target ?? 'HEAD';
+    if (!(await isRevision(target))) {
+      return { stdout: '', stderr: `fatal: invalid reference: ${target}`, exitCode: 128 };
+    }
+    await withHashUpdate(() => gitLib.gitCheckout(target, { detach: true }));
+    return { stdout: await detachedHeadMessage(target, previousHead), stderr: '', exitCode: 0 };
+  }
+
+  let target = options.target as string;
+  // `@{-<n>}` means the branch itself, to switch back onto it rather than detach
+  const previous = parseRevision(target);
+  if (previous?.base.kind === 'previous' && previous.steps.length === 0) {
+    target = (await gitLib.gitPreviousCheckout(previous.base.n)) ?? target;
+  }
+  if (branches.includes(target)) {
+    if (target === current) {
+      return { stdout: `Already on '${target}'`, stderr: '', exitCode: 0 };
+    }
+    await withHashUpdate(() => gitLib.gitCheckout(target));
+    const tracking = await trackingInfo(target);
+    const lines = previousHead ? [`Previous HEAD position was ${previousHead}`] : [];
+    lines.push(`Switched to branch '${target}'`, ...(tracking ? remotes.formatTrackingStatus(tracking) : []));
+    return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  // A branch only on a remote gets a local branch tracking it
+  const guesses = (await remotes.listRemoteBranches()).filter((branch) => branch.endsWith(`/${target}`));
+  if (guesses.length === 1) {
+    return switchBranch({ ...options, create: target, target: guesses[0] }, detachCommits);
+  }
+
+  if (await isRevision(target)) {
+    if (!detachCommits) {
+      return {
+        stdout: '',
+        stderr: [
+          `fatal: a branch is expected, got commit '${target}'`,
+          'hint: If you want to detach HEAD at the commit, try again with the --detach option.',
+        ].join('\n'),
+        exitCode: 128,
+      };
+    }
+    await withHashUpdate(() => gitLib.gitCheckout(target, { detach: true }));
+    return { stdout: await detachedHeadMessage(target, previousHead), stderr: '', exitCode: 0 };
+  }
+  return detachCommits
+    ? { stdout: '', stderr: `error: pathspec '${target}' did not match any file(s) known to git`, exitCode: 1 }
+    : { stdout: '', stderr: `fatal: invalid reference: ${target}`, exitCode: 128 };
+}
+
+async function handleSwitch(args: string[]): Promise<CommandResult> {
+  const options = parseSwitchArgs(args, 'c');
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  if (options.paths.length > 0) {
+    return { stdout: '', stderr: "fatal: 'git switch' does not take paths; use 'git restore'", exitCode: 128 };
+  }
+  if (!options.create && !options.target && !options.detach) {
+    return { stdout: '', stderr: 'fatal: missing branch or commit argument', exitCode: 128 };
+  }
+  return switchBranch(options, false);
+}
+
+async function handleCheckout(args: string[]): Promise<CommandResult> {
+  const options = parseSwitchArgs(args, 'b');
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  // `git checkout [<commit>] -- <path>...` restores files instead of switching
+  if (options.paths.length > 0) {
+    if (options.create || options.detach) {
+      return { stdout: '', stderr: `fatal: Cannot update paths and switch to branch '${options.create ?? options.target}' at the same time.`, exitCode: 128 };
+    }
+    // From a commit, both the index and the working tree are updated, as git does
+    const source = options.target ? ['--source', options.target, '--staged', '--worktree'] : [];
+    return handleRestore([...source, '--', ...options.paths]);
+  }
+  if (!options.create && !options.target && !options.detach) {
+    return { stdout: '', stderr: 'Please specify a branch', exitCode: 1 };
+  }
+  return switchBranch(options, true);
+}
+
+async function handleMerge(args: string[]): Promise<CommandResult> {
+  const options = parseMergeArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  const mergeHead = await gitLib.gitMergeHead();
+
+  if (options.abort) {
+    if (!mergeHead) {
+      return { stdout: '', stderr: 'fatal: There is no merge to abort (MERGE_HEAD missing).', exitCode: 128 };
+    }
+    await withHashUpdate(() => gitLib.gitAbortMerge());
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+
+  const branch = options.branch;
+  if (!branch) {
+    return { stdout: '', stderr: 'usage: git merge [-m <message>] <branch>', exitCode: 129 };
+  }
+  if (mergeHead) {
+    return {
+      stdout: '',
+      stderr: 'fatal: You have not concluded your merge (MERGE_HEAD exists).\nPlease, commit your changes before you merge.',
+      exitCode: 128,
+    };
+  }
+  // Remote-tracking branches (after a fetch) can be merged as well as local ones
+  if (!(await isRevision(branch))) {
+    return { stdout: '', stderr: `merge: ${branch} - not something we can merge`, exitCode: 1 };
+  }
+  if (await gitLib.gitHasTrackedChanges()) {
+    return {
+      stdout: '',
+      stderr: 'error: Your local changes would be overwritten by merge.\nPlease commit your changes before you merge.\nAborting',
+      exitCode: 1,
+    };
+  }
+
+  const result = await withHashUpdate(() => gitLib.gitMerge(branch, options.message ?? undefined));
+  return formatMergeResult(result, branch);
+}
+
+/**
+ * Report each conflicted path the way git does, naming their side `theirs`.
+ */
+function formatConflicts(result: gitLib.GitConflicts, theirs: string): string[] {
+  return result.conflicts.map((path) => {
+    if (result.deletedByUs.includes(path)) {
+      return `CONFLICT (modify/delete): ${path} deleted in HEAD and modified in ${theirs}.`;
+    }
+    if (result.deletedByThem.includes(path)) {
+      return `CONFLICT (modify/delete): ${path} deleted in ${theirs} and modified in HEAD.`;
+    }
+    return `Auto-merging ${path}\nCONFLICT (content): Merge conflict in ${path}`;
+  });
+}
+
+function formatMergeResult(result: gitLib.GitMergeResult, branch: string): CommandResult {
+  switch (result.kind) {
+    case 'up-to-date':
+      return { stdout: 'Already up to date.', stderr: '', exitCode: 0 };
+    case 'fast-forward':
+      return {
+        stdout: `Updating ${result.from.slice(0, 7)}..${result.to.slice(0, 7)}\nFast-forward`,
+        stderr: '',
+        exitCode: 0,
+      };
+    case 'merge':
+      return { stdout: "Merge made by the 'ort' strategy.", stderr: '', exitCode: 0 };
+    case 'conflict': {
+      const lines = formatConflicts(result, branch);
+      lines.push('Automatic merge failed; fix conflicts and then commit the result.');
+      // Like git, the conflict report is regular output with a failing exit code
+      return { stdout: lines.join('\n'), stderr: '', exitCode: 1 };
+    }
+  }
+}
+
+/**
+ * Commit messages a rebase, cherry-pick or revert asks for are written
+ * in the editor when there is one (and `edit` is on), otherwise they're
+ * kept as prepared.
+ */
+function messageEditor(edit = true): rebase.MessageEditor {
+  return edit && editor.hasEditor() ? editCommitMessage : async (prepared) => cleanupCommitMessage(prepared, true);
+}
+
+function formatRebaseResult(result: rebase.RebaseResult, branch: string | null): CommandResult {
+  switch (result.kind) {
+    case 'up-to-date':
+      return { stdout: `Current branch ${branch ?? 'HEAD'} is up to date.`, stderr: '', exitCode: 0 };
+    case 'nothing-to-do':
+      return { stdout: '', stderr: 'error: nothing to do', exitCode: 1 };
+    case 'invalid-todo':
+      return { stdout: '', stderr: result.error, exitCode: 1 };
+    case 'done': {
+      const updated = result.headName ? `refs/heads/${result.headName}` : 'detached HEAD';
+      return { stdout: `Successfully rebased and updated ${updated}.`, stderr: '', exitCode: 0 };
+    }
+    case 'stopped': {
+      const short = result.step.commit.slice(0, 7);
+      return {
+        stdout: formatConflicts(result.conflicts, `${short} (${result.step.subject})`).join('\n'),
+        stderr: [
+          `error: could not apply ${short}... ${result.step.subject}`,
+          'hint: Resolve all conflicts manually, mark them as resolved with',
+          'hint: "git add/rm <conflicted_files>", then run "git rebase --continue".',
+          'hint: You can instead skip this commit: run "git rebase --skip".',
+          'hint: To abort and get back to the state before "git rebase", run "git rebase --abort".',
+        ].join('\n'),
+        exitCode: 1,
+      };
+    }
+  }
+}
+
+/**
+ * Go on with the rebase in progress: --continue once its conflicts are
+ * resolved, --skip the commit it stopped at, or --abort it.
+ */
+async function resumeRebase(action: 'continue' | 'skip' | 'abort', state: rebase.RebaseState): Promise<CommandResult> {
+  if (action === 'abort') {
+    await withHashUpdate(() => rebase.abortRebase());
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+  if (action === 'continue') {
+    const unmerged = await gitLib.gitUnmergedPaths();
+    if (unmerged.length > 0) {
+      return {
+        stdout: '',
+        stderr: [
+          ...unmerged.map((path) => `${path}: needs merge`),
+          'You must edit all merge conflicts and then',
+          'mark them as resolved using git add',
+        ].join('\n'),
+        exitCode: 1,
+      };
+    }
+  }
+  const result = await withHashUpdate(() => action === 'continue'
+    ? rebase.continueRebase(messageEditor())
+    : rebase.skipRebase(messageEditor()));
+  return formatRebaseResult(result, state.headName);
+}
+
+async function handleRebase(args: string[]): Promise<CommandResult> {
+  const options = parseRebaseArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  const state = await rebase.getRebaseState();
+  if (options.action !== 'start') {
+    return state
+      ? resumeRebase(options.action, state)
+      : { stdout: '', stderr: 'fatal: No rebase in progress?', exitCode: 128 };
+  }
+  if (state) {
+    return {
+      stdout: '',
+      stderr: [
+        'fatal: It seems that there is already a rebase-merge directory, and',
+        'I wonder if you are in the middle of another rebase.  If that is the',
+        'case, please try',
+        '\tgit rebase (--continue | --abort | --skip)',
+      ].join('\n'),
+      exitCode: 128,
+    };
+  }
+
+  const current = await gitLib.gitCurrentBranch() ?? null;
+  if (options.branch && !(await gitLib.gitListBranches()).includes(options.branch)) {
+    return { stdout: '', stderr: `fatal: no such branch/commit '${options.branch}'`, exitCode: 128 };
+  }
+  const branch = options.branch ?? current;
+
+  // Without an upstream, rebase onto the one the branch tracks
+  let upstream = options.upstream;
+  if (!upstream) {
+    const tracking = branch ? await remotes.getUpstream(branch) : null;
+    if (!tracking) {
+      return {
+        stdout: '',
+        stderr: 'There is no tracking information for the current branch.\nPlease specify which branch you want to rebase against.',
+        exitCode: 1,
+      };
+    }
+    upstream = remotes.remoteTrackingRef(tracking.remote, tracking.branch);
+  }
+  if (!(await isRevision(upstream))) {
+    return { stdout: '', stderr: `fatal: invalid upstream '${upstream}'`, exitCode: 128 };
+  }
+  const onto = options.onto ?? upstream;
+  if (!(await isRevision(onto))) {
+    return { stdout: '', stderr: `fatal: Does not point to a valid commit '${onto}'`, exitCode: 128 };
+  }
+  if (options.interactive && !editor.hasEditor()) {
+    return { stdout: '', stderr: 'error: Terminal is dumb, but EDITOR unset', exitCode: 1 };
+  }
+
+  if ((await unstagedChanges()).length > 0) {
+    return { stdout: '', stderr: 'error: cannot rebase: You have unstaged changes.\nerror: Please commit or stash them.', exitCode: 1 };
+  }
+  if ((await gitLib.gitDiff({ staged: true })).length > 0) {
+    return { stdout: '', stderr: 'error: cannot rebase: Your index contains uncommitted changes.\nerror: Please commit or stash them.', exitCode: 1 };
+  }
+
+  const ontoCommit = await gitLib.gitResolveCommit(onto);
+  const result = await withHashUpdate(async () => {
+    if (branch && branch !== current) {
+      await gitLib.gitCheckout(branch);
+    }
+    return rebase.startRebase(upstream, ontoCommit, options.interactive, messageEditor());
+  });
+  return formatRebaseResult(result, branch);
+}
+
+async function formatSequencerResult(result: sequencer.SequencerResult, command: SequencerCommand): Promise<CommandResult> {
+  // Each commit made is reported like `git commit` does, picked ones with their author date
+  const lines: string[] = [];
+  for (const sha of result.commits) {
+    lines.push(...await formatNewCommit(sha, command === 'cherry-pick'));
+  }
+  if (result.kind === 'done') {
+    return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+  }
+  if (result.kind === 'empty') {
+    return {
+      stdout: lines.join('\n'),
+      stderr: [
+        `The previous ${command} is now empty, possibly due to conflict resolution.`,
+        'If you wish to commit it anyway, use:',
+        '',
+        '    git commit --allow-empty',
+        '',
+        `Otherwise, please use 'git ${command} --skip'`,
+      ].join('\n'),
+      exitCode: 1,
+    };
+  }
+
+  const short = result.step.commit.slice(0, 7);
+  const label = `${short} (${result.step.subject})`;
+  lines.push(...formatConflicts(result.conflicts, command === 'revert' ? `parent of ${label}` : label));
+  return {
+    stdout: lines.join('\n'),
+    stderr: [
+      `error: could not ${command === 'revert' ? 'revert' : 'apply'} ${short}... ${result.step.subject}`,
+      'hint: After resolving the conflicts, mark them with',
+      'hint: "git add/rm <pathspec>", then run',
+      `hint: "git ${command} --continue".`,
+      `hint: You can instead skip this commit with "git ${command} --skip".`,
+      `hint: To abort and get back to the state before "git ${command}",`,
+      `hint: run "git ${command} --abort".`,
+    ].join('\n'),
+    exitCode: 1,
+  };
+}
+
+/**
+ * Go on with the cherry-pick or revert in progress: --continue once its
+ * conflicts are resolved, --skip the commit it stopped at, or --abort it.
+ */
+async function resumeSequence(action: 'continue' | 'skip' | 'abort', command: SequencerCommand): Promise<CommandResult> {
+  if (action === 'abort') {
+    await withHashUpdate(() => sequencer.abortSequence());
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+  if (action === 'continue' && (await gitLib.gitUnmergedPaths()).length > 0) {
+    return {
+      stdout: '',
+      stderr: [
+        'error: Committing is not possible because you have unmerged files.',
+        "hint: Fix them up in the work tree, and then use 'git add/rm <file>'",
+        'hint: as appropriate to mark resolution and make a commit.',
+        `fatal: ${command} failed`,
+      ].join('\n'),
+      exitCode: 128,
+    };
+  }
+  const editMessage = messageEditor(command === 'revert');
+  const result = await withHashUpdate(() => action === 'continue'
+    ? sequencer.continueSequence(editMessage)
+    : sequencer.skipSequence(editMessage));
+  return formatSequencerResult(result, command);
+}
+
+/**
+ * git cherry-pick and git revert: apply the changes some commits made,
+ * or undo them, as new commits on HEAD.
+ */
+async function handleSequencer(command: SequencerCommand, args: string[]): Promise<CommandResult> {
+  const options = parseSequencerArgs(args, command);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 129 };
+  }
+  const failed = `fatal: ${command} failed`;
+  const state = await sequencer.getSequencerState();
+  const inProgress = state?.action === 'pick' ? 'cherry-pick' : 'revert';
+  if (options.action !== 'start') {
+    if (!state) {
+      return { stdout: '', stderr: `error: no cherry-pick or revert in progress\n${failed}`, exitCode: 128 };
+    }
+    if (inProgress !== command) {
+      return {
+        stdout: '',
+        stderr: `error: ${inProgress} is in progress\nhint: try "git ${inProgress} (--continue | --abort | --skip)"\n${failed}`,
+        exitCode: 128,
+      };
+    }
+    return resumeSequence(options.action, command);
+  }
+  if (state) {
+    return {
+      stdout: '',
+      stderr: `error: a cherry-pick or revert is already in progress\nhint: try "git ${inProgress} (--continue | --abort | --skip)"\n${failed}`,
+      exitCode: 128,
+    };
+  }
+
+  const commits: string[] = [];
+  for (const revision of options.commits) {
+    if (!(await isRevision(revision))) {
+      return { stdout: '', stderr: `fatal: bad revision '${revision}'`, exitCode: 128 };
+    }
+    const oid = await gitLib.gitResolveCommit(revision);
+    const commit = await gitLib.gitReadObject(oid);
+    if (commit.type === 'commit' && commit.commit.parent.length > 1) {
+      return { stdout: '', stderr: `error: commit ${oid} is a merge but no -m option was given.\n${failed}`, exitCode: 128 };
+    }
+    commits.push(oid);
+  }
+  if (await gitLib.gitHasTrackedChanges()) {
+    return {
+      stdout: '',
+      stderr: `error: your local changes would be overwritten by ${command}.\nhint: commit your changes or stash them to proceed.\n${failed}`,
+      exitCode: 128,
+    };
+  }
+
+  const editMessage = messageEditor(options.edit ?? command === 'revert');
+  const result = await withHashUpdate(() =>
+    sequencer.startSequence(command === 'cherry-pick' ? 'pick' : 'revert', commits, editMessage));
+  return formatSequencerResult(result, command);
+}
+
+async function handleInit(args: string[]): Promise<CommandResult> {
+  const bare = args.includes('--bare');
+  const target = args.find((arg) => !arg.startsWith('-'));
+  if (!target) {
+    await withHashUpdate(() => gitLib.gitInit());
+    return { stdout: `Initialized empty Git repository in ${getRepoDir()}/.git/`, stderr: '', exitCode: 0 };
+  }
+
+  const path = resolveFromCurrentDir(target);
+  if (path === getRepoDir()) {
+    return handleInit(args.filter((arg) => arg !== target));
+  }
+  await remotes.initRepository(path, bare);
+  return { stdout: `Initialized empty Git repository in ${bare ? path : `${path}/.git`}/`, stderr: '', exitCode: 0 };
+}
+
+async function handleClone(args: string[]): Promise<CommandResult> {
+  const [url, target] = args.filter((arg) => !arg.startsWith('-'));
+  if (!url) {
+    return { stdout: '', stderr: 'fatal: You must specify a repository to clone.', exitCode: 128 };
+  }
+  const name = target ?? remotes.defaultCloneDirName(url);
+  const dir = resolveFromCurrentDir(name);
+
+  try {
+    const result = await withHashUpdate(() => remotes.cloneRepository(url, dir));
+    const lines = [`Cloning into '${name}'...`];
+    if (result.empty) {
+      lines.push('warning: You appear to have cloned an empty repository.');
+    } else {
+      lines.push('done.');
+    }
+    return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('does not appear to be a git repository')) {
+      return { stdout: '', stderr: `fatal: repository '${url}' does not exist`, exitCode: 128 };
+    }
+    return { stdout: '', stderr: `fatal: ${message}`, exitCode: 128 };
+  }
+}
+
+async function handleRemote(args: string[]): Promise<CommandResult> {
+  const action = args[0];
+
+  if (!action || action === '-v' || action === '--verbose') {
+    const list = await remotes.listRemotes();
+    const lines = action
+      ? list.flatMap(({ remote, url }) => [`${remote}\t${url} (fetch)`, `${remote}\t${url} (push)`])
+      : list.map(({ remote }) => remote);
+    return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  if (action === 'add') {
+    const [name, url] = args.slice(1);
+    if (!name || !url) {
+      return { stdout: '', stderr: 'usage: git remote add <name> <url>', exitCode: 129 };
+    }
+    if ((await remotes.listRemotes()).some(({ remote }) => remote === name)) {
+      return { stdout: '', stderr: `error: remote ${name} already exists.`, exitCode: 1 };
+    }
+    await withHashUpdate(() => remotes.addRemote(name, url));
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+
+  if (action === 'remove' || action === 'rm') {
+    const name = args[1];
+    if (!name) {
+      return { stdout: '', stderr: 'usage: git remote remove <name>', exitCode: 129 };
+    }
+    if (!(await remotes.listRemotes()).some(({ remote }) => remote === name)) {
+      return { stdout: '', stderr: `error: No such remote: '${name}'`, exitCode: 1 };
+    }
+    await withHashUpdate(() => remotes.removeRemote(name));
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+
+  return { stdout: '', stderr: `error: Unknown subcommand: ${action}`, exitCode: 1 };
+}
+
+/**
+ * Pick the remote for fetch/pull/push: the one given, else the current
+ * branch's upstream remote, else "origin".
+ */
+async function defaultRemote(): Promise<string> {
+  const branch = await gitLib.gitCurrentBranch();
+  const upstream = branch ? await remotes.getUpstream(branch) : null;
+  return upstream?.remote ?? 'origin';
+}
+
+function formatRemoteError(remote: string, error: unknown): CommandResult {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('does not appear to be a git repository')) {
+    return {
+      stdout: '',
+      stderr: [
+        `fatal: '${remote}' does not appear to be a git repository`,
+        'fatal: Could not read from remote repository.',
+        '',
+        'Please make sure you have the correct access rights',
+        'and the repository exists.',
+      ].join('\n'),
+      exitCode: 128,
+    };
+  }
+  return { stdout: '', stderr: `error: ${message}`, exitCode: 1 };
+}
+
+async function runFetch(remote: string): Promise<string[]> {
+  const { url, updates } = await withHashUpdate(() => remotes.fetchRemote(remote));
+  return updates.length > 0 ? [`From ${url}`, ...remotes.formatRefUpdates(updates)] : [];
+}
+
+async function handleFetch(args: string[]): Promise<CommandResult> {
+  const remote = args.find((arg) => !arg.startsWith('-')) ?? await defaultRemote();
+  try {
+    const lines = await runFetch(remote);
+    return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+  } catch (error) {
+    return formatRemoteError(remote, error);
+  }
+}
+
+async function handlePull(args: string[]): Promise<CommandResult> {
+  const current = await gitLib.gitCurrentBranch();
+  const positional = args.filter((arg) => !arg.startsWith('-'));
+  const upstream = current ? await remotes.getUpstream(current) : null;
+
+  const remote = positional[0] ?? upstream?.remote;
+  const branch = positional[1] ?? (positional[0] ? current : upstream?.branch);
+  if (!remote || !branch) {
+    return {
+      stdout: '',
+      stderr: [
+        'There is no tracking information for the current branch.',
+        'Please specify which branch you want to merge with.',
+        '',
+        '    git pull <remote> <branch>',
+        '',
+        'If you wish to set tracking information for this branch you can do so with:',
+        '',
+        `    git push --set-upstream origin ${current ?? '<branch>'}`,
+      ].join('\n'),
+      exitCode: 1,
+    };
+  }
+  if (await gitLib.gitHasTrackedChanges()) {
+    return {
+      stdout: '',
+      stderr: 'error: Your local changes would be overwritten by merge.\nPlease commit your changes before you pull.\nAborting',
+      exitCode: 1,
+    };
+  }
+
+  let fetchLines: string[];
+  let url: string;
+  try {
+    fetchLines = await runFetch(remote);
+    url = (await remotes.listRemotes()).find((r) => r.remote === remote)?.url ?? remote;
+  } catch (error) {
+    return formatRemoteError(remote, error);
+  }
+
+  const tracking = `${remote}/${branch}`;
+  if (!(await gitLib.gitListBranches({ remote })).includes(branch)) {
+    return {
+      stdout: fetchLines.join('\n'),
+      stderr: `fatal: couldn't find remote ref ${branch}`,
+      exitCode: 128,
+    };
+  }
+  const result = await withHashUpdate(() =>
+    gitLib.gitMerge(tracking, `Merge branch '${branch}' of ${url}`)
+  );
+  const merged = formatMergeResult(result, tracking);
+  return {
+    ...merged,
+    stdout: [...fetchLines, merged.stdout].filter(Boolean).join('\n'),
+  };
+}
+
+async function handlePush(args: string[]): Promise<CommandResult> {
+  const force = args.includes('-f') || args.includes('--force');
+  const setUpstream = args.includes('-u') || args.includes('--set-upstream');
+  const positional = args.filter((arg) => !arg.startsWith('-'));
+  const current = await gitLib.gitCurrentBranch();
+  const upstream = current ? await remotes.getUpstream(current) : null;
+
+  if (positional.length === 0 && !upstream) {
+    return {
+      stdout: '',
+      stderr: [
+        `fatal: The current branch ${current ?? 'HEAD'} has no upstream branch.`,
+        'To push the current branch and set the remote as upstream, use',
+        '',
+        `    git push --set-upstream origin ${current ?? '<branch>'}`,
+      ].join('\n'),
+      exitCode: 128,
+    };
+  }
+  const remote = positional[0] ?? (upstream as { remote: string }).remote;
+  const branch = positional[1] ?? current;
+  if (!branch) {
+    return { stdout: '', stderr: 'fatal: You are not currently on a branch.', exitCode: 128 };
+  }
+
+  let result: remotes.PushResult;
+  try {
+    result = await withHashUpdate(() => remotes.pushBranch(remote, branch, { force, setUpstream }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.startsWith('src refspec')) {
+      return { stdout: '', stderr: `error: ${message}\nerror: failed to push some refs to '${remote}'`, exitCode: 1 };
+    }
+    return formatRemoteError(remote, error);
+  }
+
+  const { url, update } = result;
+  if (update.kind === 'up-to-date') {
+    return { stdout: 'Everything up-to-date', stderr: '', exitCode: 0 };
+  }
+  const lines = [`To ${url}`, ...remotes.formatRefUpdates([update])];
+  if (update.kind === 'rejected') {
+    lines.push(`error: failed to push some refs to '${url}'`);
+    if (update.reason === 'fetch first') {
+      lines.push(
+        'hint: Updates were rejected because the remote contains work that you do not',
+        'hint: have locally. Integrate the remote changes (e.g.',
+        "hint: 'git pull ...') before pushing again.",
+      );
+    } else if (update.reason === 'non-fast-forward') {
+      lines.push(
+        'hint: Updates were rejected because the tip of your current branch is behind',
+        'hint: its remote counterpart. Integrate the remote changes (e.g.',
+        "hint: 'git pull ...') before pushing again.",
+      );
+    }
+    return { stdout: '', stderr: lines.join('\n'), exitCode: 1 };
+  }
+  if (setUpstream) {
+    lines.push(`branch '${branch}' set up to track '${remote}/${branch}'.`);
+  }
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleCatFile(args: string[]): Promise<CommandResult> {
+  const [flag, revision] = args;
+  if (!['-t', '-s', '-e', '-p'].includes(flag) || !revision) {
+    return { stdout: '', stderr: 'usage: git cat-file (-t | -s | -e | -p) <object>', exitCode: 129 };
+  }
+
+  let object: objectDb.ObjectDetails;
+  try {
+    object = await objectDb.readObjectDetails(await gitLib.gitResolveRevision(revision));
+  } catch {
+    // -e only reports through its exit status
+    if (flag === '-e') {
+      return { stdout: '', stderr: '', exitCode: 1 };
+    }
+    return { stdout: '', stderr: `fatal: Not a valid object name ${revision}`, exitCode: 128 };
+  }
+
+  switch (flag) {
+    case '-t':
+      return { stdout: object.type, stderr: '', exitCode: 0 };
+    case '-s':
+      return { stdout: `${object.size}`, stderr: '', exitCode: 0 };
+    case '-e':
+      return { stdout: '', stderr: '', exitCode: 0 };
+    default:
+      return { stdout: object.content, stderr: '', exitCode: 0 };
+  }
+}
+
+async function handleHashObject(args: string[]): Promise<CommandResult> {
+  const write = args.includes('-w');
+  const file = args.find((arg) => !arg.startsWith('-'));
+  if (!file) {
+    return { stdout: '', stderr: 'usage: git hash-object [-w] <file>', exitCode: 129 };
+  }
+
+  let content: string;
+  try {
+    content = await fsLib.readFile(resolveFromCurrentDir(file));
+  } catch {
+    return { stdout: '', stderr: `fatal: could not open '${file}' for reading: No such file or directory`, exitCode: 128 };
+  }
+  const oid = write
+    ? await withHashUpdate(() => gitLib.gitHashObject(content, true))
+    : await gitLib.gitHashObject(content);
+  return { stdout: oid, stderr: '', exitCode: 0 };
+}
+
+async function handleLsFiles(args: string[]): Promise<CommandResult> {
+  const stage = args.includes('--stage') || args.includes('-s');
+  const entries = await gitLib.gitIndexEntries();
+  const lines = stage
+    ? entries.map(formatIndexEntry)
+    : [...new Set(entries.map((entry) => entry.path))];
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleLsTree(args: string[]): Promise<CommandResult> {
+  const recursive = args.includes('-r');
+  const nameOnly = args.includes('--name-only');
+  const revision = args.find((arg) => !arg.startsWith('-'));
+  if (!revision) {
+    return { stdout: '', stderr: 'usage: git ls-tree [-r] [--name-only] <tree-ish>', exitCode: 129 };
+  }
+
+  let entries: Awaited<ReturnType<typeof gitLib.gitListTree>>;
+  try {
+    entries = await gitLib.gitListTree(await gitLib.gitResolveRevision(revision), recursive);
+  } catch {
+    return { stdout: '', stderr: `fatal: Not a valid object name ${revision}`, exitCode: 128 };
+  }
+  const output = nameOnly ? entries.map((entry) => entry.path).join('\n') : objectDb.formatTree(entries);
+  return { stdout: output, stderr: '', exitCode: 0 };
+}
+
+async function handleRevParse(args: string[]): Promise<CommandResult> {
+  if (args.length === 0) {
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+
+  const lines: string[] = [];
+  let short = false;
+  let abbrevRef = false;
+  for (const arg of args) {
+    if (arg === '--short') {
+      short = true;
+    } else if (arg === '--abbrev-ref') {
+      abbrevRef = true;
+    } else if (arg === '--show-toplevel') {
+      lines.push(getRepoDir());
+    } else if (arg === '--git-dir') {
+      lines.push('.git');
+    } else if (abbrevRef && arg === 'HEAD') {
+      lines.push(await gitLib.gitCurrentBranch() ?? 'HEAD');
+    } else {
+      try {
+        const oid = await gitLib.gitResolveRevision(arg);
+        lines.push(short ? oid.slice(0, 7) : oid);
+      } catch {
+        return {
+          stdout: lines.join('\n'),
+          stderr: `fatal: ambiguous argument '${arg}': unknown revision or path not in the working tree.`,
+          exitCode: 128,
+        };
+      }
+    }
+  }
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleUpdateRef(args: string[]): Promise<CommandResult> {
+  if (args[0] === '-d') {
+    const ref = args[1];
+    if (!ref) {
+      return { stdout: '', stderr: 'usage: git update-ref -d <refname>', exitCode: 129 };
+    }
+    await withHashUpdate(() => gitLib.gitDeleteRef(ref));
+    return { stdout: '', stderr: '', exitCode: 0 };
+  }
+
+  const [ref, newValue, oldValue] = args;
+  if (!ref || !newValue) {
+    return { stdout: '', stderr: 'usage: git update-ref <refname> <new-oid> [<old-oid>]', exitCode: 129 };
+  }
+  let oid: string;
+  try {
+    oid = await gitLib.gitResolveRevision(newValue);
+    await objectDb.readObjectDetails(oid);
+  } catch {
+    return { stdout: '', stderr: `fatal: ${newValue}: not a valid SHA1`, exitCode: 128 };
+  }
+  try {
+    await withHashUpdate(() => gitLib.gitUpdateRef(ref, oid, oldValue));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { stdout: '', stderr: `fatal: ${message}`, exitCode: 128 };
+  }
+  return { stdout: '', stderr: '', exitCode: 0 };
+}
+
+async function handleWriteTree(): Promise<CommandResult> {
+  try {
+    const oid = await withHashUpdate(() => gitLib.gitWriteTree());
+    return { stdout: oid, stderr: '', exitCode: 0 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { stdout: '', stderr: `${message}\nfatal: git-write-tree: error building trees`, exitCode: 128 };
+  }
+}
+
+async function handleCommitTree(args: string[]): Promise<CommandResult> {
+  const parents: string[] = [];
+  const messages: string[] = [];
+  let tree: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-p' && args[i + 1]) {
+      parents.push(args[++i]);
+    } else if (args[i] === '-m' && args[i + 1] !== undefined) {
+      messages.push(args[++i]);
+    } else if (!tree) {
+      tree = args[i];
+    }
+  }
+  if (!tree || messages.length === 0) {
+    return { stdout: '', stderr: 'usage: git commit-tree <tree> [-p <parent>]... -m <message>', exitCode: 129 };
+  }
+
+  let treeOid: string;
+  try {
+    treeOid = await gitLib.gitResolveRevision(tree);
+    if ((await objectDb.readObjectDetails(treeOid)).type !== 'tree') {
+      return { stdout: '', stderr: `fatal: ${tree} is not a valid 'tree' object`, exitCode: 128 };
+    }
+  } catch {
+    return { stdout: '', stderr: `fatal: not a valid object name ${tree}`, exitCode: 128 };
+  }
+
+  const parentOids: string[] = [];
+  for (const parent of parents) {
+    try {
+      parentOids.push(await gitLib.gitResolveRevision(parent));
+    } catch {
+      return { stdout: '', stderr: `fatal: not a valid object name ${parent}`, exitCode: 128 };
+    }
+  }
+
+  const oid = await withHashUpdate(() => gitLib.gitCommitTree(treeOid, parentOids, messages.join('\n\n')));
+  return { stdout: oid, stderr: '', exitCode: 0 };
+}
+
+/**
+ * Tracked files whose working tree copy differs from the index,
+ * as `git reset` lists them: "M\tpath", or "D\tpath" when deleted.
+ */
+async function unstagedChanges(): Promise<string[]> {
+  const changes: string[] = [];
+  for (const [path, head, workdir, stage] of await gitLib.gitStatus()) {
+    const tracked = head === 1 || stage !== 0;
+    const differs = stage === 3 || (stage === 1 && workdir !== 1) || (stage === 2 && workdir !== 2);
+    if (tracked && differs) {
+      changes.push(`${workdir === 0 ? 'D' : 'M'}\t${path}`);
+    }
+  }
+  return changes;
+}
+
+function unknownRevisionOrPath(arg: string): CommandResult {
+  return {
+    stdout: '',
+    stderr: `fatal: ambiguous argument '${arg}': unknown revision or path not in the working tree.`,
+    exitCode: 128,
+  };
+}
+
+async function isRevision(arg: string): Promise<boolean> {
+  return gitLib.gitResolveRevision(arg).then(() => true, () => false);
+}
+
+async function handleRestore(args: string[]): Promise<CommandResult> {
+  let staged = false;
+  let worktree = false;
+  let source: string | undefined;
+  const pathspecs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--staged' || arg === '-S') {
+      staged = true;
+    } else if (arg === '--worktree' || arg === '-W') {
+      worktree = true;
+    } else if (arg === '--source' || arg === '-s') {
+      source = args[++i];
+    } else if (arg.startsWith('--source=')) {
+      source = arg.slice('--source='.length);
+    } else if (arg !== '--') {
+      pathspecs.push(arg);
+    }
+  }
+
+  if (pathspecs.length === 0) {
+    return { stdout: '', stderr: 'fatal: you must specify path(s) to restore', exitCode: 128 };
+  }
+  if (source !== undefined && !(await isRevision(source))) {
+    return { stdout: '', stderr: `fatal: could not resolve ${source}`, exitCode: 128 };
+  }
+  const { repoPaths, outside } = toRepoPaths(pathspecs);
+  if (outside !== null) return outsideRepository(outside);
+
+  try {
+    await withHashUpdate(() => gitLib.gitRestore(repoPaths, { staged, worktree: worktree || !staged, source }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { stdout: '', stderr: `error: ${message}`, exitCode: 1 };
+  }
+  return { stdout: '', stderr: '', exitCode: 0 };
+}
+
+const RESET_MODES: Record<string, gitLib.GitResetMode> = {
+  '--soft': 'soft',
+  '--mixed': 'mixed',
+  '--hard': 'hard',
+};
+
+async function handleReset(args: string[]): Promise<CommandResult> {
+  const mode = args.map((arg) => RESET_MODES[arg]).find(Boolean);
+  const rest = args.filter((arg) => !RESET_MODES[arg]);
+
+  // Before "--" comes an optional revision, after it paths; without "--",
+  // the first argument is the revision if it names one
+  const separator = rest.indexOf('--');
+  let revisions = separator === -1 ? rest.slice(0, 1) : rest.slice(0, separator);
+  let paths = separator === -1 ? rest.slice(1) : rest.slice(separator + 1);
+  if (separator === -1 && revisions.length > 0 && !(await isRevision(revisions[0]))) {
+    paths = rest;
+    revisions = [];
+  }
+  if (revisions.length > 1) {
+    return { stdout: '', stderr: 'usage: git reset [--soft | --mixed | --hard] [<commit>] [-- <paths>...]', exitCode: 129 };
+  }
+  const [revision] = revisions;
+  if (revision !== undefined && !(await isRevision(revision))) {
+    return unknownRevisionOrPath(revision);
+  }
+
+  if (paths.length > 0) {
+    if (mode && mode !== 'mixed') {
+      return { stdout: '', stderr: `fatal: Cannot do ${mode} reset with paths.`, exitCode: 128 };
+    }
+    const { repoPaths, outside } = toRepoPaths(paths);
+    if (outside !== null) return outsideRepository(outside);
+    try {
+      await withHashUpdate(() => gitLib.gitRestore(repoPaths, { staged: true, worktree: false, source: revision }));
+    } catch {
+      return unknownRevisionOrPath(paths[0]);
+    }
+  } else {
+    try {
+      await withHashUpdate(() => gitLib.gitReset(revision ?? 'HEAD', mode ?? 'mixed'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { stdout: '', stderr: `fatal: ${message}`, exitCode: 128 };
+    }
+  }
+
+  if (mode === 'hard') {
+    const [head] = await gitLib.gitLog(1);
+    return { stdout: `HEAD is now at ${head.oid} ${head.message.split('\n')[0]}`, stderr: '', exitCode: 0 };
+  }
+  const unstaged = mode === 'soft' ? [] : await unstagedChanges();
+  return {
+    stdout: unstaged.length > 0 ? ['Unstaged changes after reset:', ...unstaged].join('\n') : '',
+    stderr: '',
+    exitCode: 0,
+  };
+}
+
+/**
+ * Find the files `git rm` would lose work in, grouped the way git reports them.
+ */
+async function removalProblems(paths: string[], cached: boolean): Promise<string | null> {
+  const problems = { both: [] as string[], local: [] as string[], staged: [] as string[] };
+  const wanted = new Set(paths);
+  for (const [path, head, workdir, stage] of await gitLib.gitStatus()) {
+    if (!wanted.has(path)) continue;
+    const indexMatchesHead = head === 1 && stage === 1;
+    const workdirMatchesIndex = workdir === 0 || (stage === 1 && workdir === 1) || (stage === 2 && workdir === 2);
+    if (!indexMatchesHead && !workdirMatchesIndex) {
+      problems.both.push(path);
+    } else if (!cached && !workdirMatchesIndex) {
+      problems.local.push(path);
+    } else if (!cached && !indexMatchesHead) {
+      problems.staged.push(path);
+    }
+  }
+
+  const report = (files: string[], what: string, hint: string) => [
+    `error: the following ${files.length === 1 ? 'file has' : 'files have'} ${what}:`,
+    ...files.map((file) => `    ${file}`),
+    hint,
+  ];
+  const keepHint = '(use --cached to keep the file, or -f to force removal)';
+  const lines = [
+    ...(problems.both.length ? report(problems.both, 'staged content different from both the\nfile and the HEAD', '(use -f to force removal)') : []),
+    ...(problems.local.length ? report(problems.local, 'local modifications', keepHint) : []),
+    ...(problems.staged.length ? report(problems.staged, 'changes staged in the index', keepHint) : []),
+  ];
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+async function handleRm(args: string[]): Promise<CommandResult> {
+  let cached = false;
+  let recursive = false;
+  let force = false;
+  const pathspecs: string[] = [];
+  for (const arg of args) {
+    if (arg === '--cached') {
+      cached = true;
+    } else if (arg === '-r' || arg === '-rf' || arg === '-fr') {
+      recursive = true;
+      force ||= arg !== '-r';
+    } else if (arg === '-f' || arg === '--force') {
+      force = true;
+    } else if (arg !== '--') {
+      pathspecs.push(arg);
+    }
+  }
+  if (pathspecs.length === 0) {
+    return { stdout: '', stderr: 'usage: git rm [--cached] [-r] [-f] <file>...', exitCode: 129 };
+  }
+  const { repoPaths, outside } = toRepoPaths(pathspecs);
+  if (outside !== null) return outsideRepository(outside);
+
+  const paths: string[] = [];
+  for (const [i, spec] of repoPaths.entries()) {
+    const matched = await gitLib.gitTrackedPaths(spec);
+    if (matched.length === 0) {
+      return { stdout: '', stderr: `fatal: pathspec '${pathspecs[i]}' did not match any files`, exitCode: 128 };
+    }
+    if (!recursive && matched.some((path) => path !== spec)) {
+      return { stdout: '', stderr: `fatal: not removing '${pathspecs[i]}' recursively without -r`, exitCode: 128 };
+    }
+    paths.push(...matched.filter((path) => !paths.includes(path)));
+  }
+
+  const problems = force ? null : await removalProblems(paths, cached);
+  if (problems) {
+    return { stdout: '', stderr: problems, exitCode: 1 };
+  }
+  await withHashUpdate(() => gitLib.gitRemove(paths, cached));
+  return { stdout: paths.map((path) => `rm '${path}'`).join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleMv(args: string[]): Promise<CommandResult> {
+  const force = args.includes('-f') || args.includes('--force');
+  const operands = args.filter((arg) => !arg.startsWith('-'));
+  if (operands.length !== 2) {
+    return { stdout: '', stderr: 'usage: git mv [-f] <source> <destination>', exitCode: 129 };
+  }
+  const { repoPaths, outside } = toRepoPaths(operands);
+  if (outside !== null) return outsideRepository(outside);
+  const [from] = repoPaths;
+  let [, to] = repoPaths;
+
+  // Moving into an existing directory keeps the name
+  const destinationType = await fsLib.stat(resolveFromCurrentDir(operands[1])).then((stats) => stats.type, () => null);
+  if (destinationType === 'dir') {
+    const name = from.slice(from.lastIndexOf('/') + 1);
+    to = to === '.' ? name : `${to}/${name}`;
+  }
+
+  const fail = (reason: string): CommandResult => ({
+    stdout: '',
+    stderr: `fatal: ${reason}, source=${from}, destination=${to}`,
+    exitCode: 128,
+  });
+  if (!(await pathExists(operands[0]))) {
+    return fail('bad source');
+  }
+  if ((await gitLib.gitTrackedPaths(from)).length === 0) {
+    return fail('not under version control');
+  }
+  if (to === from || to.startsWith(`${from}/`)) {
+    return fail('can not move directory into itself');
+  }
+  const target = `${getRepoDir()}/${to}`;
+  const targetType = await fsLib.stat(target).then((stats) => stats.type, () => null);
+  if (targetType === 'dir' || (targetType === 'file' && !force)) {
+    return fail('destination exists');
+  }
+  if (targetType === 'file') {
+    await fsLib.unlink(target);
+  }
+
+  await withHashUpdate(() => gitLib.gitMove(from, to));
+  return { stdout: '', stderr: '', exitCode: 0 };
+}
+
+const STASH_USAGE = 'usage: git stash [push [-m <message>] | list | show [-p] | apply | pop | drop | clear] [<stash>]';
+
+/**
+ * Look up the stash entry a reference names, or describe why it can't be used.
+ */
+async function findStashEntry(ref: string | undefined): Promise<{ index: number; entry: gitLib.StashEntry } | CommandResult> {
+  const entries = await gitLib.gitStashList();
+  if (entries.length === 0) {
+    return { stdout: '', stderr: 'No stash entries found.', exitCode: 1 };
+  }
+  const index = parseStashRef(ref);
+  if (index === null || index >= entries.length) {
+    return { stdout: '', stderr: `error: ${ref} is not a valid reference`, exitCode: 1 };
+  }
+  return { index, entry: entries[index] };
+}
+
+async function handleStashPush(args: string[]): Promise<CommandResult> {
+  const messageFlag = args.findIndex((arg) => arg === '-m' || arg === '--message');
+  const message = messageFlag === -1 ? undefined : args[messageFlag + 1];
+
+  if (!(await isRevision('HEAD'))) {
+    return { stdout: '', stderr: 'You do not have the initial commit yet', exitCode: 1 };
+  }
+  if (!(await gitLib.gitHasTrackedChanges())) {
+    return { stdout: 'No local changes to save', stderr: '', exitCode: 0 };
+  }
+  const entry = await withHashUpdate(() => gitLib.gitStashPush(message));
+  return { stdout: `Saved working directory and index state ${entry.message}`, stderr: '', exitCode: 0 };
+}
+
+async function handleStashApply(ref: string | undefined, drop: boolean): Promise<CommandResult> {
+  const found = await findStashEntry(ref);
+  if ('exitCode' in found) return found;
+
+  // Like git, refuse rather than overwrite local changes to the same files
+  const stashed = new Set((await gitLib.gitStashDiff(found.index)).map((diff) => diff.filepath));
+  const overwritten = (await gitLib.gitStatus())
+    .filter(([path, head, workdir, stage]) =>
+      stashed.has(path) && !(head === 1 && workdir === 1 && stage === 1) && !(head === 0 && stage === 0))
+    .map(([path]) => path);
+  if (overwritten.length > 0) {
+    return {
+      stdout: '',
+      stderr: [
+        'error: Your local changes to the following files would be overwritten by merge:',
+        ...overwritten.map((path) => `\t${path}`),
+        'Please commit your changes or stash them before you merge.',
+        'Aborting',
+      ].join('\n'),
+      exitCode: 1,
+    };
+  }
+
+  await withHashUpdate(() => gitLib.gitStashApply(found.index, drop));
+  const status = (await handleStatus()).stdout;
+  return {
+    stdout: drop ? `${status}\nDropped refs/stash@{${found.index}} (${found.entry.oid})` : status,
+    stderr: '',
+    exitCode: 0,
+  };
+}
+
+async function handleStash(args: string[]): Promise<CommandResult> {
+  // Plain `git stash` (with or without options) means `git stash push`
+  const [subcommand, ...rest] = !args[0] || args[0].startsWith('-') ? ['push', ...args] : args;
 
   switch (subcommand) {
-    case 'init':
-      await withHashUpdate(() => gitLib.gitInit());
-      return { output: `Initialized empty Git repository in ${CWD}/.git/`, success: true };
+    case 'push':
+      return handleStashPush(rest);
 
-    case 'add':
-      if (!args[1]) {
-        return { output: 'Nothing specified, nothing added.', success: false };
+    case 'list': {
+      const entries = await gitLib.gitStashList();
+      return {
+        stdout: entries.map((entry, index) => `stash@{${index}}: ${entry.message}`).join('\n'),
+        stderr: '',
+        exitCode: 0,
+      };
+    }
+
+    case 'show': {
+      const patch = rest.includes('-p') || rest.includes('--patch');
+      const found = await findStashEntry(rest.find((arg) => !arg.startsWith('-')));
+      if ('exitCode' in found) return found;
+      const diffs = await gitLib.gitStashDiff(found.index);
+      const lines = patch ? colorizeDiff(diffs.flatMap((diff) => formatFileDiff(diff))) : formatDiffStat(diffs);
+      return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+    }
+
+    case 'apply':
+    case 'pop':
+      return handleStashApply(rest[0], subcommand === 'pop');
+
+    case 'drop': {
+      const found = await findStashEntry(rest[0]);
+      if ('exitCode' in found) return found;
+      await withHashUpdate(() => gitLib.gitStashDrop(found.index));
+      return { stdout: `Dropped refs/stash@{${found.index}} (${found.entry.oid})`, stderr: '', exitCode: 0 };
+    }
+
+    case 'clear':
+      await withHashUpdate(() => gitLib.gitStashClear());
+      return { stdout: '', stderr: '', exitCode: 0 };
+
+    default:
+      return { stdout: '', stderr: STASH_USAGE, exitCode: 129 };
+  }
+}
+
+const TAG_USAGE = 'usage: git tag [-a] [-m <msg>] <tagname> [<commit>] | git tag -d <tagname>... | git tag -l [<pattern>]';
+
+async function handleTag(args: string[]): Promise<CommandResult> {
+  let annotate = false;
+  let remove = false;
+  let list = false;
+  let message: string | undefined;
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-a' || arg === '--annotate') {
+      annotate = true;
+    } else if (arg === '-d' || arg === '--delete') {
+      remove = true;
+    } else if (arg === '-l' || arg === '--list') {
+      list = true;
+    } else if (arg === '-m' || arg === '--message') {
+      message = args[++i];
+      if (message === undefined) {
+        return { stdout: '', stderr: `error: switch \`m' requires a value\n${TAG_USAGE}`, exitCode: 129 };
       }
-      await withHashUpdate(() => gitLib.gitAdd(args[1]));
-      return { output: '', success: true };
+    } else if (arg.startsWith('-')) {
+      return { stdout: '', stderr: `error: unknown switch \`${arg.replace(/^-+/, '')}'\n${TAG_USAGE}`, exitCode: 129 };
+    } else {
+      operands.push(arg);
+    }
+  }
+
+  if (remove) {
+    const stdout: string[] = [];
+    for (const name of operands) {
+      const tag = await gitLib.gitReadTag(name);
+      if (!tag) {
+        return { stdout: stdout.join('\n'), stderr: `error: tag '${name}' not found.`, exitCode: 1 };
+      }
+      await withHashUpdate(() => gitLib.gitDeleteTag(name));
+      stdout.push(`Deleted tag '${name}' (was ${tag.oid.slice(0, 7)})`);
+    }
+    return { stdout: stdout.join('\n'), stderr: '', exitCode: 0 };
+  }
+
+  if (list || operands.length === 0) {
+    const [pattern] = operands;
+    const tags = (await gitLib.gitListTags()).filter((name) => pattern === undefined || matchesGlob(name, pattern));
+    return { stdout: tags.join('\n'), stderr: '', exitCode: 0 };
+  }
 
+  const [name, revision = 'HEAD'] = operands;
+  if (annotate && message === undefined) {
+    return { stdout: '', stderr: 'fatal: no tag message given, use -m <msg>', exitCode: 128 };
+  }
+  if (await gitLib.gitReadTag(name)) {
+    return { stdout: '', stderr: `fatal: tag '${name}' already exists`, exitCode: 128 };
+  }
+  if (!(await isRevision(revision))) {
+    return { stdout: '', stderr: `fatal: Failed to resolve '${revision}' as a valid ref.`, exitCode: 128 };
+  }
+  // Like git, a message makes the tag annotated even without -a
+  await withHashUpdate(() => gitLib.gitTag(name, revision, message));
+  return { stdout: '', stderr: '', exitCode: 0 };
+}
+
+/**
+ * Show an object like `git show`: a commit with its changes, an annotated
+ * tag followed by what it tags, a tree's entries or a blob's content.
+ */
+async function handleShow(args: string[]): Promise<CommandResult> {
+  const options = parseShowArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 128 };
+  }
+  const { revision } = options;
+  let oid: string;
+  try {
+    oid = await gitLib.gitResolveRevision(revision);
+  } catch {
+    return unknownRevisionOrPath(revision);
+  }
+
+  const lines: string[] = [];
+  let object = await gitLib.gitReadObject(oid);
+  while (object.type === 'tag') {
+    const [first, ...rest] = objectDb.formatTagHeader(object.tag);
+    lines.push(`${colors.yellow}${first}${colors.reset}`, ...rest, '');
+    object = await gitLib.gitReadObject(object.tag.object);
+  }
+
+  switch (object.type) {
     case 'commit': {
-      if (args[1] === '-m' && args[2]) {
-        // Join message and strip surrounding quotes
-        let message = args.slice(2).join(' ');
-        if ((message.startsWith('"') && message.endsWith('"')) ||
-            (message.startsWith("'") && message.endsWith("'"))) {
-          message = message.slice(1, -1);
+      const [first, ...rest] = objectDb.formatCommitHeader(object.oid, object.commit);
+      lines.push(`${colors.yellow}${first}${colors.reset}`, ...rest);
+      // Like git, merges are shown without a diff
+      if (object.commit.parent.length <= 1) {
+        const diffs = await gitLib.gitCommitDiff(object.oid);
+        if (diffs.length > 0 && options.stat) {
+          lines.push('', ...formatDiffStat(diffs));
+        } else if (diffs.length > 0 && options.nameOnly) {
+          lines.push('', ...diffs.map((diff) => diff.filepath));
+        } else if (diffs.length > 0) {
+          lines.push('', ...colorizeDiff(diffs.flatMap((diff) => formatFileDiff(diff))));
         }
-        const sha = await withHashUpdate(() => gitLib.gitCommit(message));
-        return { output: `[main ${sha.slice(0, 7)}] ${message}`, success: true };
       }
-      return { output: 'Please provide a commit message with -m', success: false };
+      break;
     }
+    case 'tree':
+      lines.push(`tree ${revision}`, '', ...object.tree.map((entry) => entry.type === 'tree' ? `${entry.path}/` : entry.path));
+      break;
+    case 'blob':
+      lines.push(object.content.replace(/\n$/, ''));
+      break;
+  }
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
 
-    case 'status': {
-      const status = await gitLib.gitStatus();
-      if (status.length === 0) {
-        return { output: 'nothing to commit, working tree clean', success: true };
-      }
-      // Filter out clean files (head=1, workdir=1, stage=1 means unchanged)
-      const changedFiles = status.filter(([, head, workdir, stage]) => {
-        return !(head === 1 && workdir === 1 && stage === 1);
-      });
-      if (changedFiles.length === 0) {
-        return { output: 'nothing to commit, working tree clean', success: true };
-      }
-      const statusLines = changedFiles.map(([filepath, head, workdir, stage]) => {
-        // Untracked files - red
-        if (head === 0 && workdir === 2 && stage === 0) {
-          return `${colors.red}?? ${filepath}${colors.reset}`;
-        }
-        // Staged (added) - green
-        if (stage === 2) {
-          return `${colors.green}A  ${filepath}${colors.reset}`;
-        }
-        // Staged (modified) - green
-        if (stage === 3) {
-          return `${colors.green}M  ${filepath}${colors.reset}`;
-        }
-        // Modified in working dir - red
-        if (workdir === 2 && stage === 1) {
-          return `${colors.red} M ${filepath}${colors.reset}`;
-        }
-        return `${colors.red}?? ${filepath}${colors.reset}`;
-      });
-      return { output: statusLines.join('\n'), success: true };
+async function handleDescribe(args: string[]): Promise<CommandResult> {
+  const includeLightweight = args.includes('--tags');
+  const revision = args.find((arg) => !arg.startsWith('-')) ?? 'HEAD';
+  if (!(await isRevision(revision))) {
+    return { stdout: '', stderr: `fatal: Not a valid object name ${revision}`, exitCode: 128 };
+  }
+  try {
+    return { stdout: await gitLib.gitDescribe(revision, includeLightweight), stderr: '', exitCode: 0 };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { stdout: '', stderr: `fatal: ${message}`, exitCode: 128 };
+  }
+}
+
+/**
+ * The lines `git log` shows for one commit, in the chosen format.
+ */
+async function formatLogEntry(entry: gitLib.LogEntry, options: LogOptions, refs: string[]): Promise<string[]> {
+  const { oid, commit } = entry;
+  let lines: string[];
+  const decoration = options.decorate ? objectDb.formatPretty('%d', oid, commit, refs) : '';
+  if (options.format !== null) {
+    lines = objectDb.formatPretty(options.format, oid, commit, refs).split('\n');
+  } else if (options.oneline) {
+    lines = [`${colors.yellow}${oid.slice(0, 7)}${decoration}${colors.reset} ${commit.message.split('\n')[0]}`];
+  } else {
+    const [first, ...rest] = objectDb.formatCommitHeader(oid, commit);
+    lines = [`${colors.yellow}${first}${decoration}${colors.reset}`, ...rest];
+  }
+
+  // Like git, merges are shown without their changes
+  if ((options.stat || options.patch) && commit.parent.length <= 1) {
+    const diffs = await gitLib.gitCommitDiff(oid);
+    if (options.stat && diffs.length > 0) {
+      lines.push(...(options.oneline ? [] : ['']), ...formatDiffStat(diffs));
     }
+    if (options.patch && diffs.length > 0) {
+      lines.push('', ...colorizeDiff(diffs.flatMap((diff) => formatFileDiff(diff))));
+    }
+  }
+  return lines;
+}
 
-    case 'log': {
-      const commits = await gitLib.gitLog();
-      if (commits.length === 0) {
-        return { output: 'No commits yet', success: true };
-      }
-      const logLines = commits.map(
-        (c) => `${colors.yellow}commit ${c.oid}${colors.reset}\nAuthor: ${c.author}\n\n    ${c.message}`
-      );
-      return { output: logLines.join('\n\n'), success: true };
+async function handleLog(args: string[]): Promise<CommandResult> {
+  const options = parseLogArgs(args);
+  if (options.error) {
+    return { stdout: '', stderr: options.error, exitCode: 128 };
+  }
+  for (const revision of options.revisions) {
+    const { include, exclude } = parseRevisionRange(revision);
+    for (const end of [...include, ...exclude]) {
+      if (!(await isRevision(end))) return unknownRevisionOrPath(revision);
+    }
+  }
+  if (options.revisions.length === 0 && !options.all && !(await isRevision('HEAD'))) {
+    const branch = (await gitLib.gitCurrentBranch()) ?? 'HEAD';
+    return { stdout: '', stderr: `fatal: your current branch '${branch}' does not have any commits yet`, exitCode: 128 };
+  }
+
+  let entries = await gitLib.gitLogEntries(options.revisions, options.all);
+  if (options.author !== null) {
+    let author: RegExp;
+    try {
+      author = compileGrepPattern(options.author, false);
+    } catch (error) {
+      return { stdout: '', stderr: `fatal: ${(error as Error).message}`, exitCode: 128 };
+    }
+    entries = entries.filter(({ commit }) => author.test(`${commit.author.name} <${commit.author.email}>`));
+  }
+  if (options.maxCount !== null) {
+    entries = entries.slice(0, options.maxCount);
+  }
+
+  // The default format separates commits with a blank line
+  const separated = options.format === null && !options.oneline;
+  const decorations = options.decorate || /%[dD]/.test(options.format ?? '')
+    ? await gitLib.gitRefDecorations()
+    : new Map<string, string[]>();
+  const text = new Map<string, string[]>();
+  for (const [i, entry] of entries.entries()) {
+    const lines = await formatLogEntry(entry, options, decorations.get(entry.oid) ?? []);
+    text.set(entry.oid, separated && i < entries.length - 1 ? [...lines, ''] : lines);
+  }
+
+  const output = options.graph
+    ? drawAsciiGraph(entries, (entry) => text.get(entry.oid) ?? [])
+    : entries.flatMap((entry) => text.get(entry.oid) ?? []);
+  return { stdout: output.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleReflog(args: string[]): Promise<CommandResult> {
+  const [name = 'HEAD', ...extra] = args[0] === 'show' ? args.slice(1) : args;
+  if (extra.length > 0 || name.startsWith('-')) {
+    return { stdout: '', stderr: 'usage: git reflog [show] [<ref>]', exitCode: 129 };
+  }
+  if (name === 'HEAD' && !(await isRevision('HEAD'))) {
+    const branch = (await gitLib.gitCurrentBranch()) ?? 'HEAD';
+    return { stdout: '', stderr: `fatal: your current branch '${branch}' does not have any commits yet`, exitCode: 128 };
+  }
+  const ref = name === 'HEAD' || name.startsWith('refs/') ? name : `refs/heads/${name}`;
+  if (!(await isRevision(ref))) return unknownRevisionOrPath(name);
+
+  const lines = reflog.formatReflog(name, await gitLib.gitReadReflog(ref))
+    .map((line) => `${colors.yellow}${line.slice(0, 7)}${colors.reset}${line.slice(7)}`);
+  return { stdout: lines.join('\n'), stderr: '', exitCode: 0 };
+}
+
+async function handleAdd(args: string[]): Promise<CommandResult> {
+  if (!args[0]) {
+    return { stdout: '', stderr: 'Nothing specified, nothing added.', exitCode: 1 };
+  }
+  const { repoPaths, outside } = toRepoPaths(args);
+  if (outside !== null) return outsideRepository(outside);
+  await withHashUpdate(async () => {
+    for (const path of repoPaths) {
+      await gitLib.gitAdd(path);
     }
+  });
+  return { stdout: '', stderr: '', exitCode: 0 };
+}
+
+/**
+ * Word the reflog messages for the moves a git subcommand made, like git
+ * does: "commit: <subject>", "checkout: moving from main to feature",
+ * "reset: moving to HEAD@{1}"... A branch the command created is logged
+ * as created from its start point.
+ */
+async function reflogMessages(
+  args: string[],
+  before: reflog.RefSnapshot,
+  after: reflog.RefSnapshot,
+): Promise<(update: reflog.RefUpdate) => string> {
+  const [subcommand, ...rest] = args;
+  const positional = rest.filter((arg) => !arg.startsWith('-'));
+  const head = after.head ? await gitLib.gitReadObject(after.head) : null;
+  const commit = head?.type === 'commit' ? head.commit : null;
+  const subject = commit?.message.split('\n')[0] ?? '';
+  const isMerge = (commit?.parent.length ?? 0) > 1;
+  const mergeKind = isMerge ? "Merge made by the 'ort' strategy." : 'Fast-forward';
+  const place = (snapshot: reflog.RefSnapshot) => snapshot.headBranch ?? snapshot.head ?? '';
 
+  let message = subcommand;
+  let created = 'branch: Created from HEAD';
+  switch (subcommand) {
+    case 'commit': {
+      const kind = rest.includes('--amend') ? ' (amend)' : !before.head ? ' (initial)' : isMerge ? ' (merge)' : '';
+      message = `commit${kind}: ${subject}`;
+      break;
+    }
+    case 'checkout':
+    case 'switch': {
+      const options = parseSwitchArgs(rest, subcommand === 'switch' ? 'c' : 'b');
+      message = `checkout: moving from ${place(before)} to ${place(after)}`;
+      created = `branch: Created from ${options.create ? options.target ?? 'HEAD' : options.target}`;
+      break;
+    }
     case 'branch': {
-      if (args[1]) {
-        await withHashUpdate(() => gitLib.gitBranch(args[1]));
-        return { output: '', success: true };
+      const { mode, names } = parseBranchArgs(rest);
+      if (mode === 'rename') {
+        const [oldName, newName] = names.length === 1 ? [before.headBranch, names[0]] : names;
+        message = created = `Branch: renamed refs/heads/${oldName} to refs/heads/${newName}`;
+      } else {
+        message = `branch: Reset to ${names[1] ?? 'HEAD'}`;
+        created = `branch: Created from ${names[1] ?? 'HEAD'}`;
       }
-      const branches = await gitLib.gitListBranches();
-      const current = await gitLib.gitCurrentBranch();
-      const branchList = branches.map((b) =>
-        b === current
-          ? `${colors.green}* ${b}${colors.reset}`
-          : `  ${b}`
-      );
-      return { output: branchList.join('\n'), success: true };
+      break;
     }
+    case 'reset':
+      message = `reset: moving to ${positional[0] ?? 'HEAD'}`;
+      break;
+    case 'merge':
+      message = `merge ${parseMergeArgs(rest).branch}: ${mergeKind}`;
+      break;
+    case 'pull':
+      message = `pull: ${mergeKind}`;
+      break;
+    case 'rebase':
+      if (rest.includes('--abort')) {
+        message = `rebase (abort): returning to ${after.headBranch ? `refs/heads/${after.headBranch}` : after.head}`;
+      } else {
+        // A rebase that stopped part way leaves HEAD detached
+        message = after.headBranch ? `rebase (finish): returning to refs/heads/${after.headBranch}` : `rebase (pick): ${subject}`;
+      }
+      break;
+    case 'cherry-pick':
+    case 'revert':
+      message = rest.includes('--abort') ? `reset: moving to ${after.head}` : `${subcommand}: ${subject}`;
+      break;
+  }
+  return (update) => update.oldOid === null && update.ref !== 'HEAD' ? created : message;
+}
+
+/**
+ * Run a git subcommand, then record the moves it made to HEAD and the
+ * branches in their reflogs, which isomorphic-git doesn't keep.
+ */
+async function withReflog(args: string[], run: () => Promise<CommandResult>): Promise<CommandResult> {
+  const before = await reflog.snapshotRefs();
+  const result = await run();
+  const after = await reflog.snapshotRefs();
+  const updates = reflog.diffRefSnapshots(before, after);
+  if (updates.length > 0) {
+    const messageFor = await reflogMessages(args, before, after);
+    await withHashUpdate(() => reflog.recordRefUpdates(updates, messageFor));
+  }
+  return result;
+}
+
+// Subcommands that create a repository rather than act on an existing one
+const REPOSITORY_CREATING = ['init', 'clone'];
+
+/**
+ * Run a git subcommand against the repository containing the current
+ * directory, found by walking up to the nearest `.git`, like real git.
+ * `init` and `clone` work relative to the current directory instead.
+ */
+async function handleGitCommand(args: string[]): Promise<CommandResult> {
+  const subcommand = args[0];
+  if (REPOSITORY_CREATING.includes(subcommand)) {
+    return withRepoDir(getCurrentDir(), () => runGitSubcommand(args));
+  }
+
+  const isKnown = getGitSubcommands().some((sub) => sub.name === subcommand);
+  const root = await findRepoRoot(getCurrentDir());
+  if (isKnown && !root) {
+    return { stdout: '', stderr: 'fatal: not a git repository (or any of the parent directories): .git', exitCode: 128 };
+  }
+  if (!root) {
+    return withRepoDir(getCurrentDir(), () => runGitSubcommand(args));
+  }
+  return withRepoDir(root, () => withReflog(args, () => runGitSubcommand(args)));
+}
+
+async function runGitSubcommand(args: string[]): Promise<CommandResult> {
+  const subcommand = args[0];
+
+  switch (subcommand) {
+    case 'init':
+      return handleInit(args.slice(1));
+
+    case 'add':
+      return handleAdd(args.slice(1));
+
+    case 'commit':
+      return handleCommit(args.slice(1));
+
+    case 'restore':
+      return handleRestore(args.slice(1));
+
+    case 'reset':
+      return handleReset(args.slice(1));
+
+    case 'rm':
+      return handleRm(args.slice(1));
+
+    case 'mv':
+      return handleMv(args.slice(1));
+
+    case 'stash':
+      return handleStash(args.slice(1));
+
+    case 'tag':
+      return handleTag(args.slice(1));
+
+    case 'show':
+      return handleShow(args.slice(1));
+
+    case 'describe':
+      return handleDescribe(args.slice(1));
+
+    case 'status':
+      return handleStatus();
+
+    case 'log':
+      return handleLog(args.slice(1));
+
+    case 'reflog':
+      return handleReflog(args.slice(1));
+
+    case 'branch':
+      return handleBranch(args.slice(1));
 
     case 'checkout':
-      if (!args[1]) {
-        return { output: 'Please specify a branch', success: false };
-      }
-      await withHashUpdate(() => gitLib.gitCheckout(args[1]));
-      return { output: `Switched to branch '${args[1]}'`, success: true };
+      return handleCheckout(args.slice(1));
+
+    case 'switch':
+      return handleSwitch(args.slice(1));
+
+    case 'diff':
+      return handleDiff(args.slice(1));
+
+    case 'merge':
+      return handleMerge(args.slice(1));
+
+    case 'rebase':
+      return handleRebase(args.slice(1));
+
+    case 'cherry-pick':
+      return handleSequencer('cherry-pick', args.slice(1));
+
+    case 'revert':
+      return handleSequencer('revert', args.slice(1));
+
+    case 'clone':
+      return handleClone(args.slice(1));
+
+    case 'remote':
+      return handleRemote(args.slice(1));
+
+    case 'fetch':
+      return handleFetch(args.slice(1));
+
+    case 'pull':
+      return handlePull(args.slice(1));
+
+    case 'push':
+      return handlePush(args.slice(1));
+
+    case 'cat-file':
+      return handleCatFile(args.slice(1));
+
+    case 'hash-object':
+      return handleHashObject(args.slice(1));
+
+    case 'ls-files':
+      return handleLsFiles(args.slice(1));
+
+    case 'ls-tree':
+      return handleLsTree(args.slice(1));
+
+    case 'rev-parse':
+      return handleRevParse(args.slice(1));
+
+    case 'update-ref':
+      return handleUpdateRef(args.slice(1));
+
+    case 'write-tree':
+      return handleWriteTree();
+
+    case 'commit-tree':
+      return handleCommitTree(args.slice(1));
 
     default:
-      return { output: `git: '${subcommand}' is not a git command.`, success: false };
+      return { stdout: '', stderr: `git: '${subcommand}' is not a git command.`, exitCode: 1 };
   }
 }
 
@@ -115,10 +2390,40 @@ registerCommand({
 });
 
 // Register git subcommands for completion and documentation
-registerGitSubcommand({ name: 'init', description: 'Create an empty Git repository' });
+registerGitSubcommand({ name: 'init', description: 'Create an empty Git repository', usage: '[--bare] [dir]' });
+registerGitSubcommand({ name: 'clone', description: 'Clone a repository into a new directory', usage: '<repo> [dir]' });
 registerGitSubcommand({ name: 'status', description: 'Show the working tree status' });
 registerGitSubcommand({ name: 'add', description: 'Add file contents to the staging area', usage: '<file>' });
-registerGitSubcommand({ name: 'commit', description: 'Record changes to the repository', usage: '-m <msg>' });
-registerGitSubcommand({ name: 'log', description: 'Show commit logs' });
-registerGitSubcommand({ name: 'branch', description: 'List branches or create a new branch', usage: '[name]' });
-registerGitSubcommand({ name: 'checkout', description: 'Switch to a branch', usage: '<branch>' });
+registerGitSubcommand({ name: 'commit', description: 'Record changes to the repository', usage: '[-a] [--amend] [--allow-empty] [--no-edit] [-m <msg>]...' });
+registerGitSubcommand({ name: 'restore', description: 'Restore working tree files or unstage them', usage: '[--staged] [--source <rev>] <path>...' });
+registerGitSubcommand({ name: 'reset', description: 'Move HEAD, or unstage paths', usage: '[--soft|--mixed|--hard] [<rev>] [-- <path>...]' });
+registerGitSubcommand({ name: 'rm', description: 'Remove files from the working tree and the index', usage: '[--cached] [-r] [-f] <path>...' });
+registerGitSubcommand({ name: 'stash', description: 'Set aside uncommitted changes', usage: '[push [-m <msg>]|list|show|apply|pop|drop|clear]' });
+registerGitSubcommand({ name: 'mv', description: 'Move or rename a tracked file', usage: '[-f] <source> <destination>' });
+registerGitSubcommand({ name: 'log', description: 'Show commit logs', usage: '[--oneline] [--graph] [--all] [-n <n>] [--stat] [-p] [--decorate] [--author=<pattern>] [--format=<format>]' });
+registerGitSubcommand({ name: 'reflog', description: 'Show where HEAD or a branch has been', usage: '[show] [<ref>]' });
+registerGitSubcommand({ name: 'diff', description: 'Show changes between commits, index and working tree', usage: '[--staged] [--stat | --name-only]' });
+registerGitSubcommand({ name: 'branch', description: 'List, create, rename or delete branches', usage: '[-v[v]] [-a|-r] | <name> [<start>] | -d|-D <name>... | -m|-M [<old>] <new> | -u <upstream>' });
+registerGitSubcommand({ name: 'checkout', description: 'Switch branches, or check out a commit as a detached HEAD', usage: '[-b|-B <new>] [--detach] <branch>|<commit>' });
+registerGitSubcommand({ name: 'switch', description: 'Switch branches', usage: '[-c|-C <new>] [--detach] <branch>' });
+registerGitSubcommand({ name: 'tag', description: 'Create, list or delete tags', usage: '[-a] [-m <msg>] <name> [<commit>] | -d <name> | -l [<pattern>]' });
+registerGitSubcommand({ name: 'show', description: 'Show a commit, tag or other object', usage: '[--stat | --name-only] [<object>]' });
+registerGitSubcommand({ name: 'describe', description: 'Name a commit after the nearest tag', usage: '[--tags] [<commit>]' });
+registerGitSubcommand({ name: 'merge', description: 'Join another branch into the current branch', usage: '[-m <message>] <branch> | --abort' });
+registerGitSubcommand({ name: 'rebase', description: 'Replay commits on top of another base', usage: '[-i] [--onto <newbase>] [<upstream> [<branch>]] | --continue | --abort | --skip' });
+registerGitSubcommand({ name: 'cherry-pick', description: 'Apply the changes some existing commits introduce', usage: '[--edit] <commit>... | --continue | --abort | --skip' });
+registerGitSubcommand({ name: 'revert', description: 'Undo some existing commits with new commits', usage: '[--[no-]edit] <commit>... | --continue | --abort | --skip' });
+registerGitSubcommand({ name: 'remote', description: 'Manage tracked repositories', usage: '[add|remove]' });
+registerGitSubcommand({ name: 'fetch', description: 'Download objects and refs from a remote', usage: '[remote]' });
+registerGitSubcommand({ name: 'pull', description: 'Fetch from a remote and merge', usage: '[remote]' });
+registerGitSubcommand({ name: 'push', description: 'Update remote refs with local commits', usage: '[-u] [remote]' });
+
+// Plumbing: the low-level commands the porcelain above is built from
+registerGitSubcommand({ name: 'cat-file', description: 'Show the type, size or content of an object', usage: '(-t|-s|-e|-p) <object>' });
+registerGitSubcommand({ name: 'hash-object', description: 'Compute the object id of a file, optionally storing it', usage: '[-w] <file>' });
+registerGitSubcommand({ name: 'ls-files', description: 'Show files in the index', usage: '[--stage]' });
+registerGitSubcommand({ name: 'ls-tree', description: 'List the contents of a tree object', usage: '[-r] <tree-ish>' });
+registerGitSubcommand({ name: 'rev-parse', description: 'Resolve revisions to object ids', usage: '<rev>...' });
+registerGitSubcommand({ name: 'update-ref', description: 'Update the object a ref points at', usage: '<ref> <new> [<old>]' });
+registerGitSubcommand({ name: 'write-tree', description: 'Create a tree object from the index' });
+registerGitSubcommand({ name: 'commit-tree', description: 'Create a commit object from a tree', usage: '<tree> [-p <parent>] -m <msg>' });
@@ -3,16 +3,46 @@
  * Tests executeCommand with real filesystem operations.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { executeCommand } from './index';
+import { colors } from './colors';
 import * as fsLib from '../fs';
 import { CWD } from '../config';
+import * as validators from '../validators';
+import * as remotes from '../remotes';
+import * as gitLib from '../git';
+import { repoIntact, clearGitStateHash } from '../gitStateHash';
+import { getCurrentDir, resetWorkingDirectory } from '../workingDirectory';
+import { setEditorListener, finishEditing } from '../editor';
+import git from 'isomorphic-git';
 
 describe('Commands Service', () => {
   beforeEach(async () => {
     await fsLib.resetFs();
+    resetWorkingDirectory();
   });
 
+  async function commitFile(path: string, content: string, message: string) {
+    await fsLib.writeFile(`${CWD}/${path}`, content);
+    await executeCommand(`git add ${path}`);
+    await executeCommand(`git commit -m "${message}"`);
+  }
+
+  async function subjects(): Promise<string[]> {
+    return (await gitLib.gitLogEntries()).map((entry) => entry.message.split('\n')[0]);
+  }
+
+  // Answer the editor by rewriting whatever file it opens
+  function editWith(edit: (path: string, content: string) => string) {
+    setEditorListener((path) => {
+      if (!path) return;
+      fsLib.readFile(path).then(async (content) => {
+        await fsLib.writeFile(path, edit(path, content));
+        finishEditing();
+      });
+    });
+  }
+
   describe('ls command', () => {
     it('lists files in current directory', async () => {
       await fsLib.writeFile(`${CWD}/file1.txt`, 'content');
@@ -20,7 +50,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('ls');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('file1.txt');
       expect(result.output).toContain('file2.txt');
     });
@@ -31,7 +61,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('ls subdir');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('nested.txt');
     });
   });
@@ -42,14 +72,14 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('cat test.txt');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toBe('Hello World');
     });
 
     it('returns error for missing file operand', async () => {
       const result = await executeCommand('cat');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('missing file operand');
     });
   });
@@ -61,7 +91,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('head test.txt');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       const lines = result.output.split('\n');
       expect(lines).toHaveLength(10);
       expect(lines[0]).toBe('line1');
@@ -74,7 +104,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('head -n 3 test.txt');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       const lines = result.output.split('\n');
       expect(lines).toHaveLength(3);
       expect(lines[2]).toBe('line3');
@@ -83,7 +113,7 @@ describe('Commands Service', () => {
     it('returns error for missing file', async () => {
       const result = await executeCommand('head nonexistent.txt');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('No such file');
     });
   });
@@ -95,7 +125,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('tail test.txt');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       const lines = result.output.split('\n');
       expect(lines).toHaveLength(10);
       expect(lines[0]).toBe('line6');
@@ -108,7 +138,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('tail -n 3 test.txt');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       const lines = result.output.split('\n');
       expect(lines).toHaveLength(3);
       expect(lines[0]).toBe('line8');
@@ -117,7 +147,7 @@ describe('Commands Service', () => {
     it('returns error for missing file', async () => {
       const result = await executeCommand('tail nonexistent.txt');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('No such file');
     });
   });
@@ -126,7 +156,7 @@ describe('Commands Service', () => {
     it('creates a directory', async () => {
       const result = await executeCommand('mkdir newdir');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       const stats = await fsLib.stat(`${CWD}/newdir`);
       expect(stats.type).toBe('dir');
     });
@@ -134,7 +164,7 @@ describe('Commands Service', () => {
     it('returns error for missing operand', async () => {
       const result = await executeCommand('mkdir');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('missing operand');
     });
   });
@@ -145,7 +175,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('rm todelete.txt');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       await expect(fsLib.stat(`${CWD}/todelete.txt`)).rejects.toThrow();
     });
 
@@ -154,7 +184,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('rm mydir');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('Is a directory');
     });
 
@@ -164,7 +194,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('rm -r mydir');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       await expect(fsLib.stat(`${CWD}/mydir`)).rejects.toThrow();
     });
 
@@ -173,7 +203,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('rm -rf mydir');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       await expect(fsLib.stat(`${CWD}/mydir`)).rejects.toThrow();
     });
   });
@@ -182,7 +212,7 @@ describe('Commands Service', () => {
     it('outputs text', async () => {
       const result = await executeCommand('echo hello world');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toBe('hello world');
     });
 
@@ -207,7 +237,7 @@ describe('Commands Service', () => {
     it('returns current working directory', async () => {
       const result = await executeCommand('pwd');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toBe(CWD);
     });
   });
@@ -216,7 +246,7 @@ describe('Commands Service', () => {
     it('returns help text', async () => {
       const result = await executeCommand('help');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('File commands');
       expect(result.output).toContain('Git commands');
     });
@@ -226,7 +256,7 @@ describe('Commands Service', () => {
     it('returns clear escape sequence', async () => {
       const result = await executeCommand('clear');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('\x1b[2J');
     });
   });
@@ -240,7 +270,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('git branch feature');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
     });
 
     it('lists branches', async () => {
@@ -252,7 +282,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('git branch');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('master');
       expect(result.output).toContain('feature');
     });
@@ -265,9 +295,91 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('git branch');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('* master');
     });
+
+    describe('managing branches', () => {
+      beforeEach(async () => {
+        await executeCommand('git init');
+        await fsLib.writeFile(`${CWD}/README.md`, 'v1\n');
+        await executeCommand('git add README.md && git commit -m "Initial"');
+      });
+
+      it('deletes merged branches with -d', async () => {
+        await executeCommand('git branch feature');
+        const sha = (await executeCommand('git rev-parse --short feature')).stdout;
+
+        const result = await executeCommand('git branch -d feature');
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toBe(`Deleted branch feature (was ${sha}).`);
+        expect(await validators.branchDeleted('feature')()).toBe(true);
+      });
+
+      it('refuses to delete an unmerged branch unless forced', async () => {
+        await executeCommand('git switch -c feature');
+        await fsLib.writeFile(`${CWD}/README.md`, 'feature work\n');
+        await executeCommand('git commit -am "Feature work"');
+        await executeCommand('git switch master');
+
+        const refused = await executeCommand('git branch -d feature');
+        expect(refused.exitCode).toBe(1);
+        expect(refused.stderr).toBe([
+          "error: the branch 'feature' is not fully merged.",
+          "If you are sure you want to delete it, run 'git branch -D feature'",
+        ].join('\n'));
+        expect(await validators.branchDeleted('feature')()).toBe(false);
+
+        expect((await executeCommand('git branch -D feature')).exitCode).toBe(0);
+        expect(await validators.branchDeleted('feature')()).toBe(true);
+      });
+
+      it('will not delete the current or a missing branch', async () => {
+        expect((await executeCommand('git branch -d master')).stderr).toContain("Cannot delete branch 'master'");
+        expect((await executeCommand('git branch -d nope')).stderr).toBe("error: branch 'nope' not found.");
+      });
+
+      it('renames the current branch with -m', async () => {
+        expect((await executeCommand('git branch -m main')).exitCode).toBe(0);
+
+        expect(await validators.isOnBranch('main')()).toBe(true);
+        expect(await validators.branchDeleted('master')()).toBe(true);
+        expect((await executeCommand('git branch -m nope other')).stderr).toBe("error: no branch named 'nope'");
+      });
+
+      it('refuses to rename onto an existing branch unless forced', async () => {
+        await executeCommand('git branch feature && git branch other');
+
+        expect((await executeCommand('git branch -m feature other')).stderr)
+          .toBe("fatal: a branch named 'other' already exists");
+        expect((await executeCommand('git branch -M feature other')).exitCode).toBe(0);
+        expect(await validators.branchDeleted('feature')()).toBe(true);
+      });
+
+      it('creates a branch at a start point', async () => {
+        const first = (await executeCommand('git rev-parse HEAD')).stdout;
+        await fsLib.writeFile(`${CWD}/README.md`, 'version 2\n');
+        await executeCommand('git commit -am "Second"');
+
+        await executeCommand(`git branch old ${first.slice(0, 7)}`);
+
+        expect((await executeCommand('git rev-parse old')).stdout).toBe(first);
+        expect((await executeCommand('git branch new nope')).stderr).toBe("fatal: not a valid object name: 'nope'");
+      });
+
+      it('lists each tip with -v', async () => {
+        await executeCommand('git branch feature');
+        const sha = (await executeCommand('git rev-parse --short HEAD')).stdout;
+
+        const lines = (await executeCommand('git branch -v')).stdout.split('\n');
+
+        expect(lines).toEqual([
+          `  feature ${sha} Initial`,
+          `${colors.green}* master${colors.reset}  ${sha} Initial`,
+        ]);
+      });
+    });
   });
 
   describe('git checkout command', () => {
@@ -280,7 +392,7 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('git checkout feature');
 
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain("Switched to branch 'feature'");
     });
 
@@ -289,16 +401,2545 @@ describe('Commands Service', () => {
 
       const result = await executeCommand('git checkout');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('specify a branch');
     });
+
+    describe('with commits', () => {
+      beforeEach(async () => {
+        await executeCommand('git init');
+        await fsLib.writeFile(`${CWD}/README.md`, 'v1\n');
+        await fsLib.writeFile(`${CWD}/notes.txt`, 'notes\n');
+        await executeCommand('git add . && git commit -m "Initial"');
+      });
+
+      it('restores files given after --, from the index or a commit', async () => {
+        await fsLib.writeFile(`${CWD}/README.md`, 'local edit\n');
+
+        const fromIndex = await executeCommand('git checkout -- README.md');
+        expect(fromIndex.exitCode).toBe(0);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v1\n');
+
+        await executeCommand('echo v2 > README.md && git commit -am "Second"');
+        const fromCommit = await executeCommand('git checkout HEAD~1 -- README.md');
+        expect(fromCommit.exitCode).toBe(0);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v1\n');
+        expect((await executeCommand('git diff --staged --stat')).exitCode).toBe(0);
+        expect(await gitLib.gitCurrentBranch()).toBe('master');
+
+        expect((await executeCommand('git checkout -- missing.txt')).stderr).toBe(
+          "error: pathspec 'missing.txt' did not match any file(s) known to git",
+        );
+      });
+
+      async function commitOnFeature(): Promise<void> {
+        await executeCommand('git checkout -b feature');
+        await fsLib.writeFile(`${CWD}/README.md`, 'feature version\n');
+        await executeCommand('git commit -am "Feature"');
+        await executeCommand('git checkout master');
+      }
+
+      it('creates and switches to a branch with checkout -b and switch -c', async () => {
+        const created = await executeCommand('git checkout -b feature');
+        expect(created.stdout).toBe("Switched to a new branch 'feature'");
+        expect(await validators.isOnBranch('feature')()).toBe(true);
+
+        await executeCommand('git switch -c other');
+        expect(await validators.isOnBranch('other')()).toBe(true);
+        expect((await executeCommand('git switch -c feature')).stderr).toBe("fatal: a branch named 'feature' already exists");
+
+        expect((await executeCommand('git switch feature')).stdout).toBe("Switched to branch 'feature'");
+        expect((await executeCommand('git switch feature')).stdout).toBe("Already on 'feature'");
+      });
+
+      it('checks out a commit as a detached HEAD', async () => {
+        const sha = (await executeCommand('git rev-parse --short HEAD')).stdout;
+
+        const result = await executeCommand(`git checkout ${sha}`);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain(`Note: switching to '${sha}'.`);
+        expect(result.stdout).toContain(`HEAD is now at ${sha} Initial`);
+        expect(await validators.isDetachedHead()).toBe(true);
+        expect((await executeCommand('git status')).stdout).toContain(`HEAD detached at ${sha}`);
+        expect((await executeCommand('git branch')).stdout).toContain(`${colors.green}* (HEAD detached at ${sha})`);
+
+        await executeCommand('git switch master');
+        expect(await validators.isDetachedHead()).toBe(false);
+      });
+
+      it('goes back to the previous branch with checkout - and switch -', async () => {
+        await executeCommand('git branch feature');
+        expect((await executeCommand('git checkout -')).stderr).toBe("error: pathspec '@{-1}' did not match any file(s) known to git");
+
+        await executeCommand('git checkout feature');
+        expect((await executeCommand('git checkout -')).stdout).toBe("Switched to branch 'master'");
+        expect((await executeCommand('git switch -')).stdout).toBe("Switched to branch 'feature'");
+        expect(await validators.isOnBranch('feature')()).toBe(true);
+
+        const sha = (await executeCommand('git rev-parse --short HEAD')).stdout;
+        await executeCommand(`git checkout ${sha}`);
+        expect((await executeCommand('git switch -')).stdout).toContain("Switched to branch 'feature'");
+        expect((await executeCommand('git checkout -')).stdout).toContain(`HEAD is now at ${sha} Initial`);
+        expect(await validators.isDetachedHead()).toBe(true);
+      });
+
+      it('only detaches HEAD with git switch when asked to', async () => {
+        const refused = await executeCommand('git switch HEAD');
+        expect(refused.exitCode).toBe(128);
+        expect(refused.stderr).toContain('a branch is expected');
+
+        expect((await executeCommand('git switch --detach HEAD')).exitCode).toBe(0);
+        expect(await validators.isDetachedHead()).toBe(true);
+        expect((await executeCommand('git switch nope')).stderr).toBe('fatal: invalid reference: nope');
+      });
+
+      it('refuses to throw away staged changes', async () => {
+        await commitOnFeature();
+        await fsLib.writeFile(`${CWD}/README.md`, 'staged on master\n');
+        await executeCommand('git add README.md');
+
+        const result = await executeCommand('git checkout feature');
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('would be overwritten by checkout:\n\tREADME.md');
+        expect(await validators.isOnBranch('master')()).toBe(true);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('staged on master\n');
+        expect(await validators.fileStaged('README.md')()).toBe(true);
+      });
+
+      it('carries changes the target branch does not touch', async () => {
+        await commitOnFeature();
+        await fsLib.writeFile(`${CWD}/notes.txt`, 'more notes\n');
+        await executeCommand('git add notes.txt');
+
+        expect((await executeCommand('git checkout feature')).exitCode).toBe(0);
+
+        expect(await fsLib.readFile(`${CWD}/notes.txt`)).toBe('more notes\n');
+        expect(await validators.fileStaged('notes.txt')()).toBe(true);
+      });
+
+      it('removes a new branch again when switching to it fails', async () => {
+        await commitOnFeature();
+        await fsLib.writeFile(`${CWD}/README.md`, 'local edit\n');
+
+        expect((await executeCommand('git checkout -b copy feature')).exitCode).toBe(1);
+
+        expect(await validators.branchDeleted('copy')()).toBe(true);
+        expect(await validators.isOnBranch('master')()).toBe(true);
+      });
+    });
+  });
+
+  describe('git diff command', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+    });
+
+    it('shows unstaged changes in the working tree', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nline2\n');
+
+      const result = await executeCommand('git diff');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('diff --git a/README.md b/README.md');
+      expect(result.output).toContain('+line2');
+    });
+
+    it('shows nothing when working tree matches the index', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nline2\n');
+      await executeCommand('git add README.md');
+
+      const result = await executeCommand('git diff');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toBe('');
+    });
+
+    it('shows staged changes with --staged', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'changed\n');
+      await executeCommand('git add README.md');
+
+      const result = await executeCommand('git diff --staged');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('-line1');
+      expect(result.output).toContain('+changed');
+    });
+
+    it('accepts --cached as a synonym for --staged', async () => {
+      await fsLib.writeFile(`${CWD}/new.txt`, 'new\n');
+      await executeCommand('git add new.txt');
+
+      const result = await executeCommand('git diff --cached');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('new file mode 100644');
+      expect(result.output).toContain('+new');
+    });
+
+    it('does not show untracked files', async () => {
+      await fsLib.writeFile(`${CWD}/untracked.txt`, 'content\n');
+
+      const result = await executeCommand('git diff');
+
+      expect(result.output).not.toContain('untracked.txt');
+    });
+
+    it('compares two commits', async () => {
+      await executeCommand('git branch before');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nline2\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Second"');
+
+      const result = await executeCommand('git diff before master');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('@@ -1 +1,2 @@');
+      expect(result.output).toContain('+line2');
+    });
+
+    it('accepts abbreviated commit hashes', async () => {
+      const log = await executeCommand('git log');
+      const sha = log.output.match(/commit ([0-9a-f]{7})/)?.[1];
+      await fsLib.writeFile(`${CWD}/README.md`, 'changed\n');
+
+      const result = await executeCommand(`git diff ${sha}`);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('+changed');
+    });
+
+    it('limits output to a path given as argument', async () => {
+      await fsLib.writeFile(`${CWD}/other.txt`, 'other\n');
+      await executeCommand('git add other.txt');
+      await executeCommand('git commit -m "Add other"');
+      await fsLib.writeFile(`${CWD}/README.md`, 'changed\n');
+      await fsLib.writeFile(`${CWD}/other.txt`, 'changed\n');
+
+      const result = await executeCommand('git diff README.md');
+
+      expect(result.output).toContain('README.md');
+      expect(result.output).not.toContain('other.txt');
+    });
+
+    it('summarizes with --stat and lists files with --name-only', async () => {
+      await fsLib.writeFile(`${CWD}/other.txt`, 'other\n');
+      await executeCommand('git add other.txt');
+      await executeCommand('git commit -m "Add other"');
+      await fsLib.writeFile(`${CWD}/README.md`, 'changed\n');
+
+      expect((await executeCommand('git diff --stat')).stdout).toBe(' README.md | 2 +-\n 1 file changed, 1 insertion(+), 1 deletion(-)');
+      expect((await executeCommand('git diff --name-only HEAD~1')).stdout).toBe('README.md\nother.txt');
+      const between = await executeCommand('git diff HEAD~1 HEAD --stat');
+      expect(between.stdout).toContain(' other.txt | 1 +');
+      expect(between.stdout).not.toContain('diff --git');
+    });
+
+    it('rejects unknown options', async () => {
+      const result = await executeCommand('git diff --word-diff');
+
+      expect(result.exitCode).toBe(129);
+      expect(result.stderr).toBe('error: invalid option: --word-diff');
+    });
+
+    it('returns error for unknown revision', async () => {
+      const result = await executeCommand('git diff nonexistent');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('unknown revision');
+    });
+  });
+
+  describe('undoing changes', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'v1\n');
+      await executeCommand('git add README.md && git commit -m "First"');
+      await fsLib.writeFile(`${CWD}/README.md`, 'v2\n');
+      await executeCommand('git add README.md && git commit -m "Second"');
+    });
+
+    // Short id of the first commit, the second entry in the log
+    async function firstCommit(): Promise<string> {
+      const [, first] = (await gitLib.gitLog()).map((commit) => commit.oid);
+      return first;
+    }
+
+    it('discards working tree changes with git restore', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'oops\n');
+
+      expect((await executeCommand('git restore README.md')).exitCode).toBe(0);
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v2\n');
+      expect(await validators.workingTreeClean()).toBe(true);
+    });
+
+    it('unstages with git restore --staged, keeping the change', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'v3\n');
+      await executeCommand('git add README.md');
+
+      await executeCommand('git restore --staged README.md');
+
+      expect(await validators.fileUnstaged('README.md')()).toBe(true);
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v3\n');
+      expect((await executeCommand('git status')).output).toContain(' M README.md');
+    });
+
+    it('restores a file from another commit with --source', async () => {
+      const first = await firstCommit();
+
+      await executeCommand(`git restore --source ${first} README.md`);
+
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v1\n');
+    });
+
+    it('reports pathspecs that match nothing', async () => {
+      const result = await executeCommand('git restore missing.txt');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe("error: pathspec 'missing.txt' did not match any file(s) known to git");
+    });
+
+    it('unstages a path with git reset', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'v3\n');
+      await executeCommand('git add README.md');
+
+      const result = await executeCommand('git reset README.md');
+
+      expect(result.stdout).toBe('Unstaged changes after reset:\nM\tREADME.md');
+      expect(await validators.fileUnstaged('README.md')()).toBe(true);
+    });
+
+    it('moves the branch with git reset --soft, keeping the changes staged', async () => {
+      const second = (await executeCommand('git rev-parse HEAD')).stdout;
+      const firstOid = await firstCommit();
+
+      await executeCommand(`git reset --soft ${firstOid}`);
+
+      expect(await validators.headAt(firstOid)()).toBe(true);
+      expect(await validators.headAt('ORIG_HEAD')()).toBe(false);
+      expect((await executeCommand('git rev-parse ORIG_HEAD')).stdout).toBe(second);
+      expect((await executeCommand('git status')).output).toContain('M  README.md');
+    });
+
+    it('resets the index but not the working tree with git reset --mixed', async () => {
+      const firstOid = await firstCommit();
+
+      const result = await executeCommand(`git reset ${firstOid}`);
+
+      expect(result.stdout).toBe('Unstaged changes after reset:\nM\tREADME.md');
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v2\n');
+    });
+
+    it('resets everything with git reset --hard', async () => {
+      const firstOid = await firstCommit();
+      await fsLib.writeFile(`${CWD}/new.txt`, 'staged\n');
+      await executeCommand('git add new.txt');
+
+      const result = await executeCommand(`git reset --hard ${firstOid}`);
+
+      expect(result.stdout).toBe(`HEAD is now at ${firstOid} First`);
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v1\n');
+      expect((await executeCommand('ls')).stdout).toBe('README.md');
+      expect(await validators.workingTreeClean()).toBe(true);
+    });
+
+    it('refuses to reset paths with --hard', async () => {
+      const result = await executeCommand('git reset --hard -- README.md');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toBe('fatal: Cannot do hard reset with paths.');
+    });
+
+    it('removes tracked files with git rm', async () => {
+      const result = await executeCommand('git rm README.md');
+
+      expect(result.stdout).toBe("rm 'README.md'");
+      expect(await validators.fileDeletedFromIndex('README.md')()).toBe(true);
+      expect(await validators.fileExists('README.md')()).toBe(false);
+      expect((await executeCommand('git status')).output).toContain('D  README.md');
+    });
+
+    it('keeps the file with git rm --cached', async () => {
+      await executeCommand('git rm --cached README.md');
+
+      expect(await validators.fileDeletedFromIndex('README.md')()).toBe(true);
+      expect(await validators.fileExists('README.md')()).toBe(true);
+    });
+
+    it('refuses to remove files with local modifications', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'edited\n');
+
+      const result = await executeCommand('git rm README.md');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('error: the following file has local modifications:\n    README.md');
+      expect((await executeCommand('git rm -f README.md')).exitCode).toBe(0);
+    });
+
+    it('needs -r to remove a directory', async () => {
+      await fsLib.mkdir(`${CWD}/docs`);
+      await fsLib.writeFile(`${CWD}/docs/guide.md`, 'guide\n');
+      await executeCommand('git add docs && git commit -m "Docs"');
+
+      expect((await executeCommand('git rm docs')).stderr).toBe("fatal: not removing 'docs' recursively without -r");
+      expect((await executeCommand('git rm -r docs')).stdout).toBe("rm 'docs/guide.md'");
+      expect((await executeCommand('ls')).stdout).toBe('README.md');
+    });
+
+    it('renames tracked files with git mv', async () => {
+      await fsLib.mkdir(`${CWD}/docs`);
+
+      expect((await executeCommand('git mv README.md docs')).exitCode).toBe(0);
+
+      expect((await executeCommand('git ls-files')).stdout).toBe('docs/README.md');
+      expect(await fsLib.readFile(`${CWD}/docs/README.md`)).toBe('v2\n');
+      expect(await validators.fileDeletedFromIndex('README.md')()).toBe(true);
+    });
+
+    it('refuses to git mv untracked files or over existing ones', async () => {
+      await fsLib.writeFile(`${CWD}/notes.txt`, 'notes\n');
+
+      expect((await executeCommand('git mv notes.txt other.txt')).stderr)
+        .toBe('fatal: not under version control, source=notes.txt, destination=other.txt');
+      expect((await executeCommand('git mv README.md notes.txt')).stderr)
+        .toBe('fatal: destination exists, source=README.md, destination=notes.txt');
+    });
+  });
+
+  describe('git commit', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'v1\n');
+    });
+
+    afterEach(() => {
+      setEditorListener(null);
+    });
+
+    async function lastMessage(): Promise<string> {
+      const [entry] = await gitLib.gitLogEntries();
+      return entry.commit.message.trim();
+    }
+
+    async function commitCount(): Promise<number> {
+      return (await gitLib.gitLogEntries()).length;
+    }
+
+    it('reports the branch, the root commit and what changed', async () => {
+      const first = await executeCommand('git add README.md && git commit -m "First"');
+      const sha = (await executeCommand('git rev-parse --short HEAD')).stdout;
+
+      expect(first.stdout.split('\n')).toEqual([
+        `[master (root-commit) ${sha}] First`,
+        ' 1 file changed, 1 insertion(+)',
+        ' create mode 100644 README.md',
+      ]);
+
+      await fsLib.writeFile(`${CWD}/README.md`, 'version 2\n');
+      const second = await executeCommand('git add README.md && git commit -m "Second"');
+
+      expect(second.stdout).toMatch(/^\[master [0-9a-f]{7}\] Second\n 1 file changed, 1 insertion\(\+\), 1 deletion\(-\)$/);
+    });
+
+    it('makes each -m its own paragraph', async () => {
+      await executeCommand('git add README.md && git commit -m "Subject" -m "Body"');
+
+      expect(await lastMessage()).toBe('Subject\n\nBody');
+    });
+
+    it('sees a same-size edit made in the same second as the commit', async () => {
+      const result = await executeCommand(
+        'echo aaa > f.txt && git add f.txt && git commit -m a && echo bbb > f.txt && git status && git diff && git commit -am b',
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain(' M f.txt');
+      expect(result.stdout).toContain('+bbb');
+      expect(await lastMessage()).toBe('b');
+      expect((await executeCommand('git diff HEAD')).stdout).toBe('');
+    });
+
+    it('stages changes to tracked files with -a', async () => {
+      await fsLib.writeFile(`${CWD}/gone.txt`, 'gone\n');
+      await executeCommand('git add . && git commit -m "First"');
+      await fsLib.writeFile(`${CWD}/README.md`, 'version 2\n');
+      await fsLib.unlink(`${CWD}/gone.txt`);
+      await fsLib.writeFile(`${CWD}/new.txt`, 'new\n');
+
+      const result = await executeCommand('git commit -am "Update"');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain(' delete mode 100644 gone.txt');
+      expect((await executeCommand('git ls-files')).stdout).not.toContain('new.txt');
+      expect((await executeCommand('git status')).stdout).toContain('?? new.txt');
+    });
+
+    it('refuses to commit nothing', async () => {
+      const untracked = await executeCommand('git commit -m "Empty"');
+      expect(untracked.exitCode).toBe(1);
+      expect(untracked.stdout).toBe([
+        'On branch master',
+        'nothing added to commit but untracked files present (use "git add" to track)',
+      ].join('\n'));
+
+      await executeCommand('git add README.md && git commit -m "First"');
+      expect((await executeCommand('git commit -m "Again"')).stdout).toContain('nothing to commit, working tree clean');
+
+      await fsLib.writeFile(`${CWD}/README.md`, 'version 2\n');
+      expect((await executeCommand('git commit -m "Unstaged"')).stdout)
+        .toContain('no changes added to commit (use "git add" and/or "git commit -a")');
+    });
+
+    it('commits nothing with --allow-empty', async () => {
+      await executeCommand('git add README.md && git commit -m "First"');
+
+      const result = await executeCommand('git commit --allow-empty -m "Checkpoint"');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^\[master [0-9a-f]{7}\] Checkpoint$/);
+      expect(await commitCount()).toBe(2);
+    });
+
+    it('replaces the last commit with --amend', async () => {
+      await executeCommand('git add README.md && git commit -m "First"');
+      await fsLib.writeFile(`${CWD}/README.md`, 'version 2\n');
+      await executeCommand('git add README.md && git commit -m "Secnod"');
+      const parent = (await executeCommand('git rev-parse HEAD~1')).stdout;
+
+      const result = await executeCommand('git commit --amend -m "Second"');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^\[master [0-9a-f]{7}\] Second\n Date: /);
+      expect(await commitCount()).toBe(2);
+      expect(await lastMessage()).toBe('Second');
+      expect((await executeCommand('git rev-parse HEAD~1')).stdout).toBe(parent);
+    });
+
+    it('keeps the message with --amend --no-edit', async () => {
+      await executeCommand('git add README.md && git commit -m "First"');
+      await fsLib.writeFile(`${CWD}/forgotten.txt`, 'oops\n');
+
+      await executeCommand('git add forgotten.txt && git commit --amend --no-edit');
+
+      expect(await commitCount()).toBe(1);
+      expect(await lastMessage()).toBe('First');
+      expect((await executeCommand('git ls-files')).stdout).toContain('forgotten.txt');
+    });
+
+    it('has nothing to amend before the first commit', async () => {
+      const result = await executeCommand('git commit --amend -m "Oops"');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toBe('fatal: You have nothing to amend.');
+    });
+
+    it('rejects unknown options and paths', async () => {
+      expect((await executeCommand('git commit --fixup HEAD')).exitCode).toBe(129);
+      const result = await executeCommand('git commit -m "Msg" missing.txt');
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe("error: pathspec 'missing.txt' did not match any file(s) known to git");
+    });
+
+    it('asks for -m when no editor is attached', async () => {
+      const result = await executeCommand('git add README.md && git commit');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Please supply the message using either -m or -F option.');
+    });
+
+    it('takes the message from COMMIT_EDITMSG when it is saved in the editor', async () => {
+      let template = '';
+      setEditorListener((path) => {
+        if (!path) return;
+        fsLib.readFile(path).then(async (content) => {
+          template = content;
+          await fsLib.writeFile(path, `Written in the editor\n${content}`);
+          finishEditing();
+        });
+      });
+
+      const result = await executeCommand('git add README.md && git commit');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('] Written in the editor');
+      expect(template).toContain('# On branch master');
+      expect(template).toContain('#\tnew file:   README.md');
+      expect(await lastMessage()).toBe('Written in the editor');
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('aborts when the editor leaves the message empty', async () => {
+      setEditorListener((path) => {
+        if (path) finishEditing();
+      });
+
+      const result = await executeCommand('git add README.md && git commit');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe('Aborting commit due to empty commit message.');
+      expect(await validators.hasCommits()).toBe(false);
+    });
+  });
+
+  describe('git stash', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'v1\n');
+      await executeCommand('git add README.md && git commit -m "First"');
+    });
+
+    it('sets changes aside and brings them back with pop', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+
+      const push = await executeCommand('git stash');
+
+      expect(push.stdout).toMatch(/^Saved working directory and index state WIP on master: [0-9a-f]{7} First$/);
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('v1\n');
+      expect(await validators.workingTreeClean()).toBe(true);
+      expect(await validators.stashCount(1)()).toBe(true);
+      expect(await validators.stashContainsFile('README.md')()).toBe(true);
+
+      const pop = await executeCommand('git stash pop');
+
+      expect(pop.exitCode).toBe(0);
+      expect(pop.stdout).toContain(' M README.md');
+      expect(pop.stdout).toMatch(/\nDropped refs\/stash@\{0\} \([0-9a-f]{40}\)$/);
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('second\n');
+      expect(await validators.stashCount(0)()).toBe(true);
+    });
+
+    it('lists entries newest first, with their messages', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+      await executeCommand('git stash push -m "first try"');
+      await fsLib.writeFile(`${CWD}/README.md`, 'third version\n');
+      await executeCommand('git stash push -m "second try"');
+
+      const lines = (await executeCommand('git stash list')).stdout.split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^stash@\{0\}: second try/);
+      expect(lines[1]).toMatch(/^stash@\{1\}: first try/);
+    });
+
+    it('applies an older entry and keeps it', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+      await executeCommand('git stash');
+      await fsLib.writeFile(`${CWD}/README.md`, 'third version\n');
+      await executeCommand('git stash');
+
+      expect((await executeCommand('git stash apply stash@{1}')).exitCode).toBe(0);
+
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('second\n');
+      expect(await validators.stashCount(2)()).toBe(true);
+    });
+
+    it('shows what an entry changes', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+      await executeCommand('git stash');
+
+      expect((await executeCommand('git stash show')).stdout)
+        .toBe(' README.md | 2 +-\n 1 file changed, 1 insertion(+), 1 deletion(-)');
+      expect((await executeCommand('git stash show -p')).stdout).toContain('+second');
+    });
+
+    it('drops and clears entries', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+      await executeCommand('git stash');
+      await fsLib.writeFile(`${CWD}/README.md`, 'third version\n');
+      await executeCommand('git stash');
+
+      expect((await executeCommand('git stash drop')).stdout).toMatch(/^Dropped refs\/stash@\{0\} \([0-9a-f]{40}\)$/);
+      expect(await validators.stashCount(1)()).toBe(true);
+
+      await executeCommand('git stash clear');
+      expect(await validators.stashCount(0)()).toBe(true);
+    });
+
+    it('has nothing to save in a clean tree', async () => {
+      const result = await executeCommand('git stash');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe('No local changes to save');
+      expect(await validators.stashCount(0)()).toBe(true);
+    });
+
+    it('reports missing entries', async () => {
+      expect((await executeCommand('git stash pop')).stderr).toBe('No stash entries found.');
+
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+      await executeCommand('git stash');
+
+      const result = await executeCommand('git stash apply stash@{3}');
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe('error: stash@{3} is not a valid reference');
+    });
+
+    it('refuses to apply over local changes to the same files', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'second\n');
+      await executeCommand('git stash');
+      await fsLib.writeFile(`${CWD}/README.md`, 'local\n');
+
+      const result = await executeCommand('git stash pop');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('would be overwritten by merge:\n\tREADME.md');
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('local\n');
+      expect(await validators.stashCount(1)()).toBe(true);
+    });
+  });
+
+  describe('tags', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'v1\n');
+      await executeCommand('git add README.md && git commit -m "First"');
+    });
+
+    async function commitChange(content: string, message: string): Promise<void> {
+      await fsLib.writeFile(`${CWD}/README.md`, content);
+      await executeCommand(`git add README.md && git commit -m "${message}"`);
+    }
+
+    it('creates and lists lightweight tags', async () => {
+      expect((await executeCommand('git tag v1.0')).exitCode).toBe(0);
+
+      expect(await validators.tagExists('v1.0')()).toBe(true);
+      expect(await validators.tagAnnotated('v1.0')()).toBe(false);
+      expect((await executeCommand('git rev-parse v1.0')).stdout)
+        .toBe((await executeCommand('git rev-parse HEAD')).stdout);
+      expect((await executeCommand('git tag')).stdout).toBe('v1.0');
+    });
+
+    it('creates annotated tags with -a -m', async () => {
+      await executeCommand('git tag -a v1.0 -m "First release"');
+
+      expect(await validators.tagAnnotated('v1.0')()).toBe(true);
+      expect((await executeCommand('git cat-file -t v1.0')).stdout).toBe('tag');
+    });
+
+    it('tags an older commit', async () => {
+      const first = (await executeCommand('git rev-parse HEAD')).stdout;
+      await commitChange('version two\n', 'Second');
+
+      await executeCommand(`git tag v0.1 ${first.slice(0, 7)}`);
+
+      expect((await executeCommand('git rev-parse v0.1')).stdout).toBe(first);
+    });
+
+    it('lists tags matching a pattern', async () => {
+      await executeCommand('git tag v1.0 && git tag v1.1 && git tag v2.0');
+
+      expect((await executeCommand("git tag -l 'v1.*'")).stdout).toBe('v1.0\nv1.1');
+    });
+
+    it('deletes tags', async () => {
+      await executeCommand('git tag v1.0');
+      const oid = (await executeCommand('git rev-parse v1.0')).stdout;
+
+      const result = await executeCommand('git tag -d v1.0');
+
+      expect(result.stdout).toBe(`Deleted tag 'v1.0' (was ${oid.slice(0, 7)})`);
+      expect(await validators.tagExists('v1.0')()).toBe(false);
+      expect((await executeCommand('git tag -d v1.0')).stderr).toBe("error: tag 'v1.0' not found.");
+    });
+
+    it('refuses to overwrite a tag or tag an unknown revision', async () => {
+      await executeCommand('git tag v1.0');
+
+      expect((await executeCommand('git tag v1.0')).stderr).toBe("fatal: tag 'v1.0' already exists");
+      expect((await executeCommand('git tag v2.0 nope')).stderr).toBe("fatal: Failed to resolve 'nope' as a valid ref.");
+    });
+
+    it('shows an annotated tag and the commit it tags', async () => {
+      await executeCommand('git tag -a v1.0 -m "First release"');
+
+      const output = (await executeCommand('git show v1.0')).output;
+
+      expect(output).toContain('tag v1.0');
+      expect(output).toContain('Tagger: Git Learner <learner@example.com>');
+      expect(output).toContain('\nFirst release\n');
+      expect(output).toContain('    First');
+      expect(output).toContain('+v1');
+    });
+
+    it('shows a commit with its changes', async () => {
+      await commitChange('version two\n', 'Second');
+
+      const output = (await executeCommand('git show')).output;
+
+      expect(output).toMatch(/commit [0-9a-f]{40}/);
+      expect(output).toContain('Author: Git Learner <learner@example.com>');
+      expect(output).toContain('    Second');
+      expect(output).toContain('-v1');
+      expect(output).toContain('+version two');
+    });
+
+    it('shows a summary or the changed files instead of the patch', async () => {
+      await commitChange('version two\n', 'Second');
+
+      const stat = (await executeCommand('git show --stat HEAD')).stdout;
+      expect(stat).toContain('    Second\n\n README.md | 2 +-\n 1 file changed, 1 insertion(+), 1 deletion(-)');
+      expect(stat).not.toContain('diff --git');
+      expect((await executeCommand('git show HEAD --name-only')).stdout).toMatch(/ {4}Second\n\nREADME\.md$/);
+
+      const unknown = await executeCommand('git show --word-diff');
+      expect(unknown.exitCode).toBe(128);
+      expect(unknown.stderr).toBe('fatal: unrecognized argument: --word-diff');
+    });
+
+    it('describes commits from the nearest annotated tag', async () => {
+      await executeCommand('git tag -a v1.0 -m "First release"');
+      expect((await executeCommand('git describe')).stdout).toBe('v1.0');
+
+      await commitChange('version two\n', 'Second');
+      await commitChange('version three\n', 'Third');
+      const head = (await executeCommand('git rev-parse HEAD')).stdout;
+
+      expect((await executeCommand('git describe')).stdout).toBe(`v1.0-2-g${head.slice(0, 7)}`);
+    });
+
+    it('only describes with lightweight tags given --tags', async () => {
+      await executeCommand('git tag v1.0');
+
+      const result = await executeCommand('git describe');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toContain('However, there were unannotated tags: try --tags.');
+      expect((await executeCommand('git describe --tags')).stdout).toBe('v1.0');
+    });
+
+    it('reports when there is nothing to describe with', async () => {
+      expect((await executeCommand('git describe')).stderr).toBe('fatal: No names found, cannot describe anything.');
+    });
+  });
+
+  describe('git log options', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      for (const [file, message] of [['a.txt', 'First'], ['b.txt', 'Second'], ['c.txt', 'Third']]) {
+        await fsLib.writeFile(`${CWD}/${file}`, `${file}\n`);
+        await executeCommand(`git add ${file} && git commit -m "${message}"`);
+      }
+    });
+
+    // git log output without colors
+    async function log(args: string): Promise<string> {
+      // eslint-disable-next-line no-control-regex
+      return (await executeCommand(`git log ${args}`)).stdout.replace(/\x1b\[[0-9;]*m/g, '');
+    }
+
+    it('shows full ids, authors and dates by default', async () => {
+      const head = (await executeCommand('git rev-parse HEAD')).stdout;
+
+      const lines = (await log('')).split('\n');
+
+      expect(lines.slice(0, 5)).toEqual([
+        `commit ${head}`,
+        'Author: Git Learner <learner@example.com>',
+        expect.stringMatching(/^Date: {3}\w{3} \w{3} \d+ \d\d:\d\d:\d\d \d{4} [+-]\d{4}$/),
+        '',
+        '    Third',
+      ]);
+      expect(lines.filter((line) => line.startsWith('commit '))).toHaveLength(3);
+    });
+
+    it('shows one line per commit with --oneline, limited with -n', async () => {
+      expect((await log('--oneline')).split('\n').map((line) => line.slice(8))).toEqual(['Third', 'Second', 'First']);
+      expect((await log('--oneline -n 2')).split('\n')).toHaveLength(2);
+      expect((await log('--oneline -1')).split('\n')).toHaveLength(1);
+    });
+
+    it('is not limited to ten commits', async () => {
+      for (let i = 0; i < 10; i++) {
+        await executeCommand(`echo ${i} > n.txt && git add n.txt && git commit -m "Change ${i}"`);
+      }
+
+      expect((await log('--oneline')).split('\n')).toHaveLength(13);
+    });
+
+    it('fills in --format placeholders', async () => {
+      const head = (await executeCommand('git rev-parse HEAD')).stdout;
+
+      expect((await log('-1 --format="%h %s %an"'))).toBe(`${head.slice(0, 7)} Third Git Learner`);
+      expect((await log('-1 --format=%ad'))).toMatch(/^\w{3} \w{3} \d+ /);
+    });
+
+    it('shows full ids with --pretty=oneline', async () => {
+      const head = (await executeCommand('git rev-parse HEAD')).stdout;
+
+      expect(await log('-1 --pretty=oneline')).toBe(`${head} Third`);
+      expect(await log('-1 --format=oneline')).toBe(`${head} Third`);
+      expect((await executeCommand('git log --pretty=fuller')).stderr).toBe('fatal: invalid --pretty format: fuller');
+    });
+
+    it('decorates commits with the refs pointing at them', async () => {
+      await executeCommand('git tag v1 HEAD~1 && git branch feature HEAD~1');
+
+      expect((await log('--format="%s%d"')).split('\n')).toEqual(['Third (HEAD -> master)', 'Second (tag: v1, feature)', 'First']);
+      expect(await log('-1 --format=%D')).toBe('HEAD -> master');
+    });
+
+    it('decorates the default and --oneline formats with --decorate', async () => {
+      await executeCommand('git tag v1');
+      const head = (await executeCommand('git rev-parse HEAD')).stdout;
+
+      const oneline = (await log('--oneline --decorate')).split('\n');
+      expect(oneline[0]).toContain(`${head.slice(0, 7)} (HEAD -> master, tag: v1)`);
+      expect(oneline[0]).toMatch(/ Third$/);
+      expect(oneline[1]).not.toContain('(');
+      expect(await log('-1 --decorate')).toContain(`commit ${head} (HEAD -> master, tag: v1)`);
+      expect(await log('-1 --oneline --decorate --no-decorate')).not.toContain('HEAD ->');
+    });
+
+    it('filters by author', async () => {
+      expect((await log('--oneline --author=Learner')).split('\n')).toHaveLength(3);
+      expect(await log('--author=Nobody')).toBe('');
+    });
+
+    it('summarizes each commit\'s changes with --stat', async () => {
+      const output = await log('-1 --stat');
+
+      expect(output).toContain(' c.txt | 1 +\n 1 file changed, 1 insertion(+)');
+    });
+
+    it('includes every branch with --all and draws them with --graph', async () => {
+      await executeCommand('git branch feature && git checkout feature');
+      await executeCommand('echo f > f.txt && git add f.txt && git commit -m "Feature"');
+      await executeCommand('git checkout master');
+      await executeCommand('echo m > m.txt && git add m.txt && git commit -m "Main"');
+
+      expect(await log('--oneline')).not.toContain('Feature');
+      expect(await log('--oneline --all')).toContain('Feature');
+
+      await executeCommand('git merge feature');
+      const graph = (await log('--oneline --graph')).split('\n');
+
+      expect(graph[0]).toMatch(/^\* {3}[0-9a-f]{7} Merge branch 'feature'$/);
+      expect(graph[1]).toBe('|\\');
+      expect(graph).toContain('|/');
+      expect(graph[graph.length - 1]).toMatch(/^\* [0-9a-f]{7} First$/);
+    });
+
+    it('logs from a given revision', async () => {
+      const [, second] = (await log('--format=%h')).split('\n');
+
+      expect((await log(`--oneline ${second}`)).split('\n').map((line) => line.slice(8))).toEqual(['Second', 'First']);
+    });
+
+    it('reports bad arguments', async () => {
+      expect((await executeCommand('git log nope')).stderr).toContain("ambiguous argument 'nope'");
+      expect((await executeCommand('git log --bogus')).exitCode).toBe(128);
+    });
+
+    it('reports a branch without commits', async () => {
+      await executeCommand('mkdir fresh && cd fresh && git init');
+
+      const result = await executeCommand('git log');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toBe("fatal: your current branch 'master' does not have any commits yet");
+    });
+  });
+
+  describe('git merge command', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nline2\nline3\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+      await executeCommand('git branch feature');
+    });
+
+    async function commitOnFeature(path: string, content: string) {
+      await executeCommand('git checkout feature');
+      await fsLib.writeFile(`${CWD}/${path}`, content);
+      await executeCommand(`git add ${path}`);
+      await executeCommand(`git commit -m "Change ${path} on feature"`);
+      await executeCommand('git checkout master');
+    }
+
+    it('reports already up to date', async () => {
+      const result = await executeCommand('git merge feature');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('Already up to date.');
+    });
+
+    it('fast-forwards and updates the working tree', async () => {
+      await commitOnFeature('feature.txt', 'feature work\n');
+
+      const result = await executeCommand('git merge feature');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('Fast-forward');
+      expect(await fsLib.readFile(`${CWD}/feature.txt`)).toBe('feature work\n');
+      expect(await validators.hasMergeCommit()).toBe(false);
+    });
+
+    it('creates a merge commit with two parents for diverged branches', async () => {
+      await commitOnFeature('feature.txt', 'feature work\n');
+      await fsLib.writeFile(`${CWD}/main.txt`, 'main work\n');
+      await executeCommand('git add main.txt');
+      await executeCommand('git commit -m "Main work"');
+
+      const result = await executeCommand('git merge feature');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("Merge made by the 'ort' strategy.");
+      expect(await fsLib.readFile(`${CWD}/feature.txt`)).toBe('feature work\n');
+      expect(await validators.hasMergeCommit()).toBe(true);
+      expect(await validators.workingTreeClean()).toBe(true);
+    });
+
+    it('takes a message for the merge commit with -m', async () => {
+      await commitOnFeature('feature.txt', 'feature work\n');
+      await commitFile('main.txt', 'main work\n', 'Main work');
+
+      const result = await executeCommand('git merge -m "Join feature" feature');
+
+      expect(result.exitCode).toBe(0);
+      expect((await subjects())[0]).toBe('Join feature');
+      expect((await executeCommand('git merge --squash feature')).exitCode).toBe(129);
+    });
+
+    it('finds a merge commit however far back it is', async () => {
+      await commitOnFeature('feature.txt', 'feature work\n');
+      await commitFile('main.txt', 'main work\n', 'Main work');
+      await executeCommand('git merge feature');
+      for (let i = 1; i <= 11; i++) {
+        await commitFile('main.txt', `${'x'.repeat(i)}\n`, `Work ${i}`);
+      }
+
+      expect(await validators.hasMergeCommit()).toBe(true);
+    });
+
+    it('writes conflict markers when both branches change the same line', async () => {
+      await commitOnFeature('README.md', 'line1\nfeature\nline3\n');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nmaster\nline3\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Main change"');
+
+      const result = await executeCommand('git merge feature');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('CONFLICT (content): Merge conflict in README.md');
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe(
+        'line1\n<<<<<<< HEAD\nmaster\n=======\nfeature\n>>>>>>> feature\nline3\n',
+      );
+      expect(await validators.hasMergeConflicts()).toBe(true);
+    });
+
+    it('keeps conflict markers on their own lines when neither side ends in a newline', async () => {
+      await commitOnFeature('README.md', 'feature-change');
+      await fsLib.writeFile(`${CWD}/README.md`, 'mainline-change');
+      await executeCommand('git commit -am "Main change"');
+
+      await executeCommand('git merge feature');
+
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe(
+        '<<<<<<< HEAD\nmainline-change\n=======\nfeature-change\n>>>>>>> feature\n',
+      );
+    });
+
+    it('stages cleanly merged files during a conflicted merge', async () => {
+      await executeCommand('git checkout feature');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nfeature\nline3\n');
+      await fsLib.writeFile(`${CWD}/extra.txt`, 'extra\n');
+      await executeCommand('git add .');
+      await executeCommand('git commit -m "Feature changes"');
+      await executeCommand('git checkout master');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nmaster\nline3\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Main change"');
+
+      await executeCommand('git merge feature');
+      const status = await executeCommand('git status');
+
+      expect(status.output).toContain('UU README.md');
+      expect(status.output).toContain('A  extra.txt');
+    });
+
+    describe('with a conflict in progress', () => {
+      beforeEach(async () => {
+        await commitOnFeature('README.md', 'line1\nfeature\nline3\n');
+        await fsLib.writeFile(`${CWD}/README.md`, 'line1\nmaster\nline3\n');
+        await executeCommand('git add README.md');
+        await executeCommand('git commit -m "Main change"');
+        await executeCommand('git merge feature');
+      });
+
+      it('reports unmerged paths in git status', async () => {
+        const result = await executeCommand('git status');
+
+        expect(result.output).toContain('You have unmerged paths.');
+        expect(result.output).toContain('UU README.md');
+      });
+
+      it('refuses to commit until conflicts are resolved', async () => {
+        const result = await executeCommand('git commit -m "Merge"');
+
+        expect(result.exitCode).not.toBe(0);
+        expect(result.output).toContain('unmerged files');
+      });
+
+      it('refuses to start another merge', async () => {
+        const result = await executeCommand('git merge feature');
+
+        expect(result.exitCode).not.toBe(0);
+        expect(result.output).toContain('MERGE_HEAD exists');
+      });
+
+      it('concludes the merge with git commit after resolving', async () => {
+        await fsLib.writeFile(`${CWD}/README.md`, 'line1\nresolved\nline3\n');
+        await executeCommand('git add README.md');
+
+        const status = await executeCommand('git status');
+        expect(status.output).toContain('All conflicts fixed but you are still merging.');
+
+        const result = await executeCommand('git commit');
+
+        expect(result.exitCode).toBe(0);
+        expect(result.output).toContain("Merge branch 'feature'");
+        expect(await validators.hasMergeCommit()).toBe(true);
+        const after = await executeCommand('git status');
+        expect(after.output).not.toContain('merging');
+      });
+
+      it('restores the pre-merge state with --abort', async () => {
+        const result = await executeCommand('git merge --abort');
+
+        expect(result.exitCode).toBe(0);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('line1\nmaster\nline3\n');
+        expect(await validators.hasMergeConflicts()).toBe(false);
+        const status = await executeCommand('git status');
+        expect(status.output).toContain('nothing to commit');
+      });
+    });
+
+    it('refuses to merge over local changes', async () => {
+      await commitOnFeature('feature.txt', 'feature work\n');
+      await fsLib.writeFile(`${CWD}/README.md`, 'uncommitted\n');
+
+      const result = await executeCommand('git merge feature');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('local changes would be overwritten');
+    });
+
+    it('returns error for unknown branch', async () => {
+      const result = await executeCommand('git merge nonexistent');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('not something we can merge');
+    });
+
+    it('returns error for --abort without a merge', async () => {
+      const result = await executeCommand('git merge --abort');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('There is no merge to abort');
+    });
+  });
+
+  describe('git rebase command', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nline2\nline3\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+      await executeCommand('git branch feature');
+    });
+
+    afterEach(() => {
+      setEditorListener(null);
+    });
+
+    async function revParse(revision: string): Promise<string> {
+      return (await executeCommand(`git rev-parse ${revision}`)).stdout;
+    }
+
+    it('replays the branch commits on top of the upstream', async () => {
+      await commitFile('main.txt', 'main\n', 'Main work');
+      await executeCommand('git checkout feature');
+      await commitFile('one.txt', 'one\n', 'Feature one');
+      await commitFile('two.txt', 'two\n', 'Feature two');
+
+      const result = await executeCommand('git rebase master');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe('Successfully rebased and updated refs/heads/feature.');
+      expect(await subjects()).toEqual(['Feature two', 'Feature one', 'Main work', 'Initial']);
+      expect(await gitLib.gitCurrentBranch()).toBe('feature');
+      expect(await fsLib.readFile(`${CWD}/main.txt`)).toBe('main\n');
+      expect(await validators.workingTreeClean()).toBe(true);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('reports a branch already based on the upstream as up to date', async () => {
+      await executeCommand('git checkout feature');
+      await commitFile('one.txt', 'one\n', 'Feature one');
+      const before = await revParse('HEAD');
+
+      const result = await executeCommand('git rebase master');
+
+      expect(result.stdout).toBe('Current branch feature is up to date.');
+      expect(await revParse('HEAD')).toBe(before);
+    });
+
+    it('moves a branch without commits of its own to the upstream', async () => {
+      await commitFile('main.txt', 'main\n', 'Main work');
+      await executeCommand('git checkout feature');
+
+      const result = await executeCommand('git rebase master');
+
+      expect(result.exitCode).toBe(0);
+      expect(await revParse('feature')).toBe(await revParse('master'));
+    });
+
+    it('rebases a named branch, and only the commits after --onto\'s upstream', async () => {
+      await commitFile('main.txt', 'main\n', 'Main work');
+      await executeCommand('git checkout feature');
+      await commitFile('one.txt', 'one\n', 'Feature one');
+      await executeCommand('git branch topic');
+      await executeCommand('git checkout topic');
+      await commitFile('topic.txt', 'topic\n', 'Topic work');
+      await executeCommand('git checkout master');
+
+      const result = await executeCommand('git rebase --onto master feature topic');
+
+      expect(result.stdout).toBe('Successfully rebased and updated refs/heads/topic.');
+      expect(await gitLib.gitCurrentBranch()).toBe('topic');
+      expect(await subjects()).toEqual(['Topic work', 'Main work', 'Initial']);
+      await expect(fsLib.stat(`${CWD}/one.txt`)).rejects.toThrow();
+    });
+
+    it('refuses to rebase over local changes', async () => {
+      await fsLib.writeFile(`${CWD}/README.md`, 'uncommitted\n');
+
+      const result = await executeCommand('git rebase feature');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('cannot rebase: You have unstaged changes.');
+    });
+
+    it('rejects an unknown upstream and resuming without a rebase', async () => {
+      expect((await executeCommand('git rebase nope')).stderr).toBe("fatal: invalid upstream 'nope'");
+      expect((await executeCommand('git rebase --continue')).stderr).toBe('fatal: No rebase in progress?');
+      expect((await executeCommand('git rebase')).stderr).toContain('There is no tracking information');
+    });
+
+    describe('with a conflict', () => {
+      let featureCommit: string;
+
+      beforeEach(async () => {
+        await commitFile('README.md', 'line1\nmaster\nline3\n', 'Main change');
+        await executeCommand('git checkout feature');
+        await commitFile('README.md', 'line1\nfeature\nline3\n', 'Feature change');
+        await commitFile('notes.txt', 'notes\n', 'Add notes');
+        featureCommit = (await gitLib.gitLogEntries())[1].oid.slice(0, 7);
+      });
+
+      it('stops at the commit that conflicts', async () => {
+        const result = await executeCommand('git rebase master');
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout).toContain('CONFLICT (content): Merge conflict in README.md');
+        expect(result.stderr).toContain(`error: could not apply ${featureCommit}... Feature change`);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe(
+          `line1\n<<<<<<< HEAD\nmaster\n=======\nfeature\n>>>>>>> ${featureCommit} (Feature change)\nline3\n`,
+        );
+        expect(await validators.hasMergeConflicts()).toBe(true);
+        expect(await repoIntact()).toBe(true);
+      });
+
+      it('shows the rebase and its progress in git status and git branch', async () => {
+        await executeCommand('git rebase master');
+        const master = await revParse('--short master');
+
+        const status = (await executeCommand('git status')).stdout;
+        expect(status).toContain(`rebase in progress; onto ${master}`);
+        expect(status).toContain(`You are currently rebasing branch 'feature' on '${master}' (1/2).`);
+        expect(status).toContain('(fix conflicts and then run "git rebase --continue")');
+        expect(status).toContain('UU README.md');
+        expect((await executeCommand('git branch')).stdout).toContain('* (no branch, rebasing feature)');
+      });
+
+      it('lists the commands done and to do for an interactive rebase', async () => {
+        editWith((_path, content) => content);
+        await executeCommand('git rebase -i master');
+
+        const status = (await executeCommand('git status')).stdout;
+        expect(status).toContain('interactive rebase in progress; onto');
+        expect(status).toContain(`Last command done (1 command done):\n   pick ${featureCommit} Feature change`);
+        expect(status).toContain('Next command to do (1 remaining command):\n   pick');
+      });
+
+      it('continues once the conflict is resolved and staged', async () => {
+        await executeCommand('git rebase master');
+        expect((await executeCommand('git rebase --continue')).stderr).toContain('README.md: needs merge');
+
+        await fsLib.writeFile(`${CWD}/README.md`, 'line1\nboth\nline3\n');
+        await executeCommand('git add README.md');
+        expect((await executeCommand('git status')).stdout).toContain('(all conflicts fixed: run "git rebase --continue")');
+        const result = await executeCommand('git rebase --continue');
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toBe('Successfully rebased and updated refs/heads/feature.');
+        expect(await subjects()).toEqual(['Add notes', 'Feature change', 'Main change', 'Initial']);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('line1\nboth\nline3\n');
+        expect(await validators.workingTreeClean()).toBe(true);
+        expect(await repoIntact()).toBe(true);
+      });
+
+      it('drops the conflicting commit with --skip', async () => {
+        await executeCommand('git rebase master');
+
+        const result = await executeCommand('git rebase --skip');
+
+        expect(result.exitCode).toBe(0);
+        expect(await subjects()).toEqual(['Add notes', 'Main change', 'Initial']);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('line1\nmaster\nline3\n');
+      });
+
+      it('goes back to where it started with --abort', async () => {
+        const before = await revParse('HEAD');
+        await executeCommand('git rebase master');
+
+        const result = await executeCommand('git rebase --abort');
+
+        expect(result.exitCode).toBe(0);
+        expect(await gitLib.gitCurrentBranch()).toBe('feature');
+        expect(await revParse('HEAD')).toBe(before);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('line1\nfeature\nline3\n');
+        expect((await executeCommand('git status')).stdout).toContain('nothing to commit, working tree clean');
+      });
+
+      it('refuses to start another rebase', async () => {
+        await executeCommand('git rebase master');
+
+        const result = await executeCommand('git rebase master');
+
+        expect(result.exitCode).toBe(128);
+        expect(result.stderr).toContain('already a rebase-merge directory');
+      });
+    });
+
+    describe('interactively', () => {
+      beforeEach(async () => {
+        await commitFile('main.txt', 'main\n', 'Main work');
+        await executeCommand('git checkout feature');
+        await commitFile('one.txt', 'one\n', 'Feature one');
+        await commitFile('two.txt', 'two\n', 'Feature two');
+        await commitFile('three.txt', 'three\n', 'Feature three');
+      });
+
+      // Change each todo line's command, in order
+      function todoActions(actions: string[]) {
+        return (content: string) => {
+          const lines = content.split('\n');
+          actions.forEach((action, i) => {
+            lines[i] = lines[i].replace(/^pick/, action);
+          });
+          return lines.join('\n');
+        };
+      }
+
+      it('lists the commits to replay in the todo file', async () => {
+        let todo = '';
+        editWith((_path, content) => {
+          todo = content;
+          return content;
+        });
+        const one = (await gitLib.gitLogEntries())[2].oid.slice(0, 7);
+
+        const result = await executeCommand('git rebase -i master');
+
+        expect(result.exitCode).toBe(0);
+        expect(todo.split('\n')[0]).toBe(`pick ${one} Feature one`);
+        expect(todo).toContain('# s, squash <commit> = use commit, but meld into previous commit');
+        expect(await subjects()).toEqual(['Feature three', 'Feature two', 'Feature one', 'Main work', 'Initial']);
+      });
+
+      it('squashes, fixes up and drops commits', async () => {
+        editWith((path, content) =>
+          path.endsWith('git-rebase-todo') ? todoActions(['pick', 'squash', 'drop'])(content) : content);
+
+        const result = await executeCommand('git rebase -i master');
+
+        expect(result.exitCode).toBe(0);
+        const [entry] = await gitLib.gitLogEntries();
+        expect(entry.message.trim()).toBe('Feature one\n\nFeature two');
+        expect(await subjects()).toEqual(['Feature one', 'Main work', 'Initial']);
+        expect(await fsLib.readFile(`${CWD}/two.txt`)).toBe('two\n');
+        await expect(fsLib.stat(`${CWD}/three.txt`)).rejects.toThrow();
+        expect(await repoIntact()).toBe(true);
+      });
+
+      it('keeps only the first message with fixup', async () => {
+        editWith((path, content) =>
+          path.endsWith('git-rebase-todo') ? todoActions(['pick', 'fixup', 'fixup'])(content) : content);
+
+        await executeCommand('git rebase -i master');
+
+        const [entry] = await gitLib.gitLogEntries();
+        expect(entry.message.trim()).toBe('Feature one');
+        expect(await subjects()).toEqual(['Feature one', 'Main work', 'Initial']);
+      });
+
+      it('rewords a commit in the editor', async () => {
+        editWith((path, content) =>
+          path.endsWith('git-rebase-todo')
+            ? todoActions(['pick', 'reword'])(content)
+            : content.replace('Feature two', 'Second feature'));
+
+        await executeCommand('git rebase -i master');
+
+        expect(await subjects()).toEqual(['Feature three', 'Second feature', 'Feature one', 'Main work', 'Initial']);
+      });
+
+      it('does nothing when the todo list is emptied', async () => {
+        const before = await revParse('HEAD');
+        editWith(() => '');
+
+        const result = await executeCommand('git rebase -i master');
+
+        expect(result.stderr).toBe('error: nothing to do');
+        expect(await revParse('HEAD')).toBe(before);
+        expect(await gitLib.gitCurrentBranch()).toBe('feature');
+      });
+
+      it('rejects a todo list that squashes first', async () => {
+        editWith((_path, content) => todoActions(['squash'])(content));
+
+        const result = await executeCommand('git rebase -i master');
+
+        expect(result.stderr).toBe("error: cannot 'squash' without a previous commit");
+        expect((await executeCommand('git status')).stdout).toContain('On branch feature');
+      });
+
+      it('needs an editor', async () => {
+        const result = await executeCommand('git rebase -i master');
+
+        expect(result.stderr).toBe('error: Terminal is dumb, but EDITOR unset');
+      });
+    });
+  });
+
+  describe('git cherry-pick and git revert', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'line1\nline2\nline3\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+      await executeCommand('git branch feature');
+    });
+
+    afterEach(() => {
+      setEditorListener(null);
+    });
+
+    async function headMessage(): Promise<string> {
+      return (await gitLib.gitLogEntries())[0].message;
+    }
+
+    it('copies a commit from another branch onto the current one', async () => {
+      await executeCommand('git checkout feature');
+      await commitFile('feature.txt', 'feature\n', 'Add feature');
+      await executeCommand('git checkout master');
+      await commitFile('main.txt', 'main\n', 'Main work');
+      expect(await validators.commitWithPatch('feature')()).toBe(false);
+
+      const result = await executeCommand('git cherry-pick feature');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^\[master [0-9a-f]{7}\] Add feature\n Date: /);
+      expect(result.stdout).toContain(' create mode 100644 feature.txt');
+      expect(await subjects()).toEqual(['Add feature', 'Main work', 'Initial']);
+      expect(await fsLib.readFile(`${CWD}/feature.txt`)).toBe('feature\n');
+      expect(await validators.commitWithPatch('feature')()).toBe(true);
+      expect(await validators.workingTreeClean()).toBe(true);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('picks several commits in order', async () => {
+      await executeCommand('git checkout feature');
+      await commitFile('one.txt', 'one\n', 'Feature one');
+      await commitFile('two.txt', 'two\n', 'Feature two');
+      const [two, one] = (await gitLib.gitLogEntries()).map((entry) => entry.oid.slice(0, 7));
+      await executeCommand('git checkout master');
+
+      const result = await executeCommand(`git cherry-pick ${one} ${two}`);
+
+      expect(result.exitCode).toBe(0);
+      expect(await subjects()).toEqual(['Feature two', 'Feature one', 'Initial']);
+    });
+
+    it('reverts a commit with the standard message', async () => {
+      await commitFile('notes.txt', 'notes\n', 'Add notes');
+      const oid = (await gitLib.gitLogEntries())[0].oid;
+
+      const result = await executeCommand('git revert HEAD');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^\[master [0-9a-f]{7}\] Revert "Add notes"\n/);
+      expect(result.stdout).toContain(' delete mode 100644 notes.txt');
+      expect(await headMessage()).toBe(`Revert "Add notes"\n\nThis reverts commit ${oid}.\n`);
+      await expect(fsLib.stat(`${CWD}/notes.txt`)).rejects.toThrow();
+      expect(await validators.commitWithMessage('Revert "Add notes"')()).toBe(true);
+      expect(await validators.commitWithMessage('Add todo')()).toBe(false);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('reapplies a change by reverting its revert', async () => {
+      await commitFile('notes.txt', 'notes\n', 'Add notes');
+      await executeCommand('git revert HEAD');
+
+      await executeCommand('git revert HEAD');
+
+      expect((await subjects())[0]).toBe('Reapply "Add notes"');
+      expect(await fsLib.readFile(`${CWD}/notes.txt`)).toBe('notes\n');
+    });
+
+    it('edits the revert message unless told not to', async () => {
+      await commitFile('notes.txt', 'notes\n', 'Add notes');
+      await commitFile('todo.txt', 'todo\n', 'Add todo');
+      editWith((_path, content) => content.replace('Revert "Add todo"', 'Drop the todo list'));
+
+      await executeCommand('git revert HEAD');
+      const notes = (await gitLib.gitLogEntries())[2].oid;
+      await executeCommand(`git revert --no-edit ${notes}`);
+
+      expect(await subjects()).toEqual(['Revert "Add notes"', 'Drop the todo list', 'Add todo', 'Add notes', 'Initial']);
+    });
+
+    it('stops when the change is already there', async () => {
+      await executeCommand('git checkout feature');
+      await commitFile('feature.txt', 'feature\n', 'Add feature');
+      await executeCommand('git checkout master');
+      await executeCommand('git cherry-pick feature');
+
+      const result = await executeCommand('git cherry-pick feature');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('The previous cherry-pick is now empty');
+      expect((await executeCommand('git cherry-pick --skip')).exitCode).toBe(0);
+      expect((await executeCommand('git status')).stdout).not.toContain('cherry-pick');
+    });
+
+    it('rejects bad revisions, merges, local changes and resuming without one', async () => {
+      expect(await executeCommand('git cherry-pick nope')).toMatchObject({ stderr: "fatal: bad revision 'nope'", exitCode: 128 });
+      expect((await executeCommand('git revert')).exitCode).toBe(129);
+      expect((await executeCommand('git cherry-pick --continue')).stderr).toBe(
+        'error: no cherry-pick or revert in progress\nfatal: cherry-pick failed',
+      );
+
+      await executeCommand('git checkout feature');
+      await commitFile('feature.txt', 'feature\n', 'Add feature');
+      await executeCommand('git checkout master');
+      await commitFile('main.txt', 'main\n', 'Main work');
+      await executeCommand('git merge feature');
+      expect((await executeCommand('git revert HEAD')).stderr).toContain('is a merge but no -m option was given.');
+
+      await fsLib.writeFile(`${CWD}/README.md`, 'uncommitted\n');
+      const mainWork = (await gitLib.gitLogEntries())[1].oid;
+      const result = await executeCommand(`git revert ${mainWork}`);
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toContain('your local changes would be overwritten by revert.');
+    });
+
+    describe('with a conflict', () => {
+      let featureCommit: string;
+
+      beforeEach(async () => {
+        await commitFile('README.md', 'line1\nmaster\nline3\n', 'Main change');
+        await executeCommand('git checkout feature');
+        await commitFile('README.md', 'line1\nfeature\nline3\n', 'Feature change');
+        featureCommit = (await gitLib.gitLogEntries())[0].oid.slice(0, 7);
+        await executeCommand('git checkout master');
+      });
+
+      it('stops at the commit that conflicts', async () => {
+        const result = await executeCommand('git cherry-pick feature');
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout).toContain('CONFLICT (content): Merge conflict in README.md');
+        expect(result.stderr).toContain(`error: could not apply ${featureCommit}... Feature change`);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe(
+          `line1\n<<<<<<< HEAD\nmaster\n=======\nfeature\n>>>>>>> ${featureCommit} (Feature change)\nline3\n`,
+        );
+        expect(await validators.hasMergeConflicts()).toBe(true);
+        const status = (await executeCommand('git status')).stdout;
+        expect(status).toContain(`You are currently cherry-picking commit ${featureCommit}.`);
+        expect(status).toContain('(fix conflicts and run "git cherry-pick --continue")');
+        expect(await repoIntact()).toBe(true);
+      });
+
+      it('continues once the conflict is resolved and staged', async () => {
+        await executeCommand('git cherry-pick feature');
+        expect((await executeCommand('git cherry-pick --continue')).stderr).toContain(
+          'error: Committing is not possible because you have unmerged files.',
+        );
+
+        await fsLib.writeFile(`${CWD}/README.md`, 'line1\nboth\nline3\n');
+        await executeCommand('git add README.md');
+        expect((await executeCommand('git status')).stdout).toContain('(all conflicts fixed: run "git cherry-pick --continue")');
+        const result = await executeCommand('git cherry-pick --continue');
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toMatch(/^\[master [0-9a-f]{7}\] Feature change/);
+        expect(await subjects()).toEqual(['Feature change', 'Main change', 'Initial']);
+        expect((await executeCommand('git status')).stdout).not.toContain('cherry-pick');
+        expect(await repoIntact()).toBe(true);
+      });
+
+      it('can be concluded with git commit', async () => {
+        await executeCommand('git cherry-pick feature');
+        await fsLib.writeFile(`${CWD}/README.md`, 'line1\nboth\nline3\n');
+        await executeCommand('git add README.md');
+
+        const result = await executeCommand('git commit');
+
+        expect(result.exitCode).toBe(0);
+        expect(await subjects()).toEqual(['Feature change', 'Main change', 'Initial']);
+        expect((await executeCommand('git status')).stdout).not.toContain('cherry-pick');
+      });
+
+      it('skips the commit or aborts', async () => {
+        await executeCommand('git cherry-pick feature');
+        expect((await executeCommand('git cherry-pick --skip')).exitCode).toBe(0);
+        expect(await subjects()).toEqual(['Main change', 'Initial']);
+        expect(await validators.workingTreeClean()).toBe(true);
+
+        await executeCommand('git cherry-pick feature');
+        expect((await executeCommand('git cherry-pick --abort')).exitCode).toBe(0);
+        expect(await subjects()).toEqual(['Main change', 'Initial']);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('line1\nmaster\nline3\n');
+        expect(await validators.hasMergeConflicts()).toBe(false);
+        expect(await repoIntact()).toBe(true);
+      });
+
+      it('stops a revert that conflicts', async () => {
+        const mainCommit = (await gitLib.gitLogEntries())[0].oid.slice(0, 7);
+        await commitFile('README.md', 'line1\nmaster again\nline3\n', 'Main again');
+
+        const result = await executeCommand(`git revert ${mainCommit}`);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain(`error: could not revert ${mainCommit}... Main change`);
+        expect(await fsLib.readFile(`${CWD}/README.md`)).toContain(`>>>>>>> parent of ${mainCommit} (Main change)`);
+        expect((await executeCommand('git status')).stdout).toContain(`You are currently reverting commit ${mainCommit}.`);
+        expect((await executeCommand('git cherry-pick --continue')).stderr).toContain('error: revert is in progress');
+        expect((await executeCommand('git cherry-pick feature')).stderr).toContain(
+          'error: a cherry-pick or revert is already in progress',
+        );
+      });
+    });
+  });
+
+  describe('git reflog', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await commitFile('README.md', 'first\n', 'Initial');
+      await commitFile('README.md', 'second version\n', 'Second');
+    });
+
+    async function reflogLines(ref = ''): Promise<string[]> {
+      const { stdout } = await executeCommand(`git reflog ${ref}`.trim());
+      return stdout.replaceAll(colors.yellow, '').replaceAll(colors.reset, '').split('\n');
+    }
+
+    async function shortOids(): Promise<string[]> {
+      return (await gitLib.gitLogEntries([], true)).map((entry) => entry.oid.slice(0, 7));
+    }
+
+    it('lists where HEAD has been, newest first', async () => {
+      await executeCommand('git checkout -b feature');
+      await executeCommand('git checkout master');
+      const [second, initial] = await shortOids();
+
+      expect(await reflogLines()).toEqual([
+        `${second} HEAD@{0}: checkout: moving from feature to master`,
+        `${second} HEAD@{1}: checkout: moving from master to feature`,
+        `${second} HEAD@{2}: commit: Second`,
+        `${initial} HEAD@{3}: commit (initial): Initial`,
+      ]);
+      expect(await reflogLines('feature')).toEqual([`${second} feature@{0}: branch: Created from HEAD`]);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('finds a commit a hard reset left behind', async () => {
+      const [second, initial] = await shortOids();
+      await executeCommand(`git reset --hard ${initial}`);
+      expect((await reflogLines())[0]).toBe(`${initial} HEAD@{0}: reset: moving to ${initial}`);
+      expect((await executeCommand('git rev-parse --short HEAD@{1}')).stdout).toBe(second);
+
+      const result = await executeCommand('git reset --hard HEAD@{1}');
+
+      expect(result.exitCode).toBe(0);
+      expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('second version\n');
+      expect((await reflogLines())[0]).toBe(`${second} HEAD@{0}: reset: moving to HEAD@{1}`);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('resolves a branch\'s earlier positions and the current branch\'s with @{n}', async () => {
+      const [second, initial] = await shortOids();
+
+      expect((await executeCommand('git rev-parse --short master@{1}')).stdout).toBe(initial);
+      expect((await executeCommand('git rev-parse --short @{0}')).stdout).toBe(second);
+      await executeCommand('git branch recovered master@{1}');
+      expect((await executeCommand('git rev-parse --short recovered')).stdout).toBe(initial);
+      expect(await reflogLines('recovered')).toEqual([`${initial} recovered@{0}: branch: Created from master@{1}`]);
+    });
+
+    it('moves a branch\'s reflog with it when renamed and drops it when deleted', async () => {
+      await executeCommand('git branch topic');
+      await executeCommand('git branch -m topic renamed');
+
+      expect((await reflogLines('renamed')).map((line) => line.slice(8))).toEqual([
+        'renamed@{0}: Branch: renamed refs/heads/topic to refs/heads/renamed',
+        'renamed@{1}: branch: Created from HEAD',
+      ]);
+
+      await executeCommand('git branch -d renamed');
+      await expect(fsLib.stat(`${CWD}/.git/logs/refs/heads/renamed`)).rejects.toThrow();
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('words merges, amends and cherry-picks like git', async () => {
+      await executeCommand('git checkout -b feature');
+      await commitFile('feature.txt', 'feature\n', 'Add feature');
+      await executeCommand('git checkout master');
+      await executeCommand('git merge feature');
+      await executeCommand('git commit --amend -m "Add feature, amended"');
+
+      expect((await reflogLines()).slice(0, 2).map((line) => line.slice(8))).toEqual([
+        'HEAD@{0}: commit (amend): Add feature, amended',
+        'HEAD@{1}: merge feature: Fast-forward',
+      ]);
+    });
+
+    it('rejects positions past the end of the log and unknown refs', async () => {
+      expect((await executeCommand('git rev-parse HEAD@{9}')).exitCode).toBe(128);
+      expect((await executeCommand('git reflog nope')).stderr).toBe(
+        "fatal: ambiguous argument 'nope': unknown revision or path not in the working tree.",
+      );
+    });
+  });
+
+  describe('revision syntax', () => {
+    // Initial -- Second -- Third -- Merge
+    //       \                    /
+    //        Add feature --------
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await commitFile('README.md', 'first\n', 'Initial');
+      await executeCommand('git branch feature');
+      await commitFile('README.md', 'second version\n', 'Second');
+      await commitFile('README.md', 'the third version\n', 'Third');
+      await executeCommand('git checkout feature');
+      await commitFile('feature.txt', 'feature\n', 'Add feature');
+      await executeCommand('git checkout master');
+      await executeCommand('git merge feature');
+    });
+
+    async function revParse(revision: string): Promise<string> {
+      const { stdout, exitCode } = await executeCommand(`git rev-parse "${revision}"`);
+      return exitCode === 0 ? stdout : `exit ${exitCode}`;
+    }
+
+    async function oidOf(subject: string): Promise<string> {
+      const entries = await gitLib.gitLogEntries([], true);
+      return (entries.find((entry) => entry.message.startsWith(subject)) as gitLib.LogEntry).oid;
+    }
+
+    async function logSubjects(range: string): Promise<string[]> {
+      return (await executeCommand(`git log --format=%s ${range}`)).stdout.split('\n').filter(Boolean);
+    }
+
+    it('follows first parents with ~ and picks a parent with ^', async () => {
+      expect(await revParse('HEAD^')).toBe(await oidOf('Third'));
+      expect(await revParse('HEAD^2')).toBe(await oidOf('Add feature'));
+      expect(await revParse('master~2')).toBe(await oidOf('Second'));
+      expect(await revParse('HEAD~3')).toBe(await oidOf('Initial'));
+      expect(await revParse('HEAD^2~1')).toBe(await oidOf('Initial'));
+      expect(await revParse('@^0')).toBe(await gitLib.gitResolveRevision('HEAD'));
+    });
+
+    it('rejects steps past the root commit or a missing parent', async () => {
+      expect(await revParse('HEAD~4')).toBe('exit 128');
+      expect(await revParse('HEAD^3')).toBe('exit 128');
+      expect(await revParse('HEAD~x')).toBe('exit 128');
+    });
+
+    it('resolves short object ids of four or more digits', async () => {
+      const oid = await oidOf('Second');
+      expect(await revParse(oid.slice(0, 4))).toBe(oid);
+      expect(await revParse(`${oid.slice(0, 7)}~1`)).toBe(await oidOf('Initial'));
+      expect(await revParse(oid.slice(0, 3))).toBe('exit 128');
+    });
+
+    it('finds the newest commit whose message matches with :/', async () => {
+      expect(await revParse(':/feature')).toBe(await oidOf('Merge'));
+      expect(await revParse(':/Add f')).toBe(await oidOf('Add feature'));
+      expect(await revParse(':/^S')).toBe(await oidOf('Second'));
+      expect(await revParse(':/nothing like this')).toBe('exit 128');
+    });
+
+    it('is understood by checkout, reset and show', async () => {
+      const checkout = await executeCommand('git checkout HEAD~2');
+      expect(checkout.exitCode).toBe(0);
+      expect(await gitLib.gitResolveRevision('HEAD')).toBe(await oidOf('Second'));
+
+      await executeCommand('git checkout master');
+      await executeCommand('git reset --hard HEAD^');
+      expect(await subjects()).toEqual(['Third', 'Second', 'Initial']);
+
+      const show = await executeCommand('git show HEAD~1');
+      expect(show.stdout).toContain('    Second');
+      expect(show.stdout).toContain('+second version');
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('logs ranges, exclusions and symmetric differences', async () => {
+      expect(await logSubjects('master ^HEAD~1')).toEqual(['Merge branch \'feature\'', 'Add feature']);
+      expect(await logSubjects('feature..master')).toEqual(['Merge branch \'feature\'', 'Third', 'Second']);
+      // Commits made in the same second can come in either order
+      expect((await logSubjects('HEAD~2..')).sort()).toEqual(['Add feature', 'Merge branch \'feature\'', 'Third']);
+      expect((await logSubjects('HEAD~1...feature')).sort()).toEqual(['Add feature', 'Second', 'Third']);
+      expect((await executeCommand('git log nope..master')).stderr).toBe(
+        "fatal: ambiguous argument 'nope..master': unknown revision or path not in the working tree.",
+      );
+    });
+
+    it('diffs the two ends of A..B, and from where B branched off with A...B', async () => {
+      const twoDot = await executeCommand('git diff HEAD~3..HEAD~1');
+      expect(twoDot.stdout).toBe((await executeCommand('git diff HEAD~3 HEAD~1')).stdout);
+      expect(twoDot.stdout).toContain('+the third version');
+
+      const threeDot = await executeCommand('git diff HEAD~1...feature');
+      expect(threeDot.stdout).toContain('+feature');
+      expect(threeDot.stdout).not.toContain('README.md');
+    });
+
+    it('resolves a branch\'s upstream with @{u}', async () => {
+      expect(await revParse('@{u}')).toBe('exit 128');
+
+      await executeCommand('git init --bare /remotes/origin');
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push -u origin master');
+      await commitFile('README.md', 'a fourth version\n', 'Fourth');
+
+      expect(await revParse('@{u}')).toBe(await oidOf('Merge'));
+      expect(await revParse('master@{upstream}~1')).toBe(await oidOf('Third'));
+      expect(await logSubjects('@{u}..')).toEqual(['Fourth']);
+    });
+
+    it('names earlier checkouts with @{-n}, switching back onto the branch', async () => {
+      // The setup checked out feature, then master
+      expect(await revParse('@{-1}')).toBe(await oidOf('Add feature'));
+      expect(await revParse('@{-1}~1')).toBe(await oidOf('Initial'));
+      expect(await revParse('@{-2}')).toBe(await gitLib.gitResolveRevision('HEAD'));
+      expect(await revParse('@{-3}')).toBe('exit 128');
+
+      const back = await executeCommand('git checkout @{-1}');
+      expect(back.stdout).toBe("Switched to branch 'feature'");
+      expect(await gitLib.gitCurrentBranch()).toBe('feature');
+      expect((await executeCommand('git switch @{-1}')).stdout).toBe("Switched to branch 'master'");
+    });
+
+    it('is understood by merge, along with tags and short object ids', async () => {
+      await executeCommand('git checkout -b topic HEAD~2');
+      await commitFile('topic.txt', 'topic\n', 'Topic');
+      await executeCommand('git tag v1 master~1');
+
+      expect((await executeCommand('git merge master~3')).output).toContain('Already up to date.');
+      const tagged = await executeCommand('git merge v1');
+      expect(tagged.exitCode).toBe(0);
+      expect((await gitLib.gitLogEntries())[0].parents[1]).toBe(await oidOf('Third'));
+
+      const short = (await oidOf('Add feature')).slice(0, 7);
+      await executeCommand('git reset --hard HEAD~1');
+      expect((await executeCommand(`git merge ${short}`)).exitCode).toBe(0);
+      expect(await fsLib.readFile(`${CWD}/feature.txt`)).toBe('feature\n');
+      expect((await executeCommand('git merge HEAD~9')).stderr).toBe('merge: HEAD~9 - not something we can merge');
+    });
+  });
+
+  describe('git remote commands', () => {
+    beforeEach(async () => {
+      await executeCommand('git init --bare /remotes/origin');
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'hello\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+    });
+
+    // Simulate a collaborator pushing to origin from their own clone
+    async function pushFromAnotherClone() {
+      await remotes.cloneRepository('/remotes/origin', '/home/other');
+      await fsLib.writeFile('/home/other/other.txt', 'other\n');
+      await git.add({ fs: fsLib.fs, dir: '/home/other', filepath: 'other.txt' });
+      await git.commit({
+        fs: fsLib.fs,
+        dir: '/home/other',
+        message: 'Other work',
+        author: { name: 'Other', email: 'other@example.com' },
+      });
+      await remotes.pushBranch('origin', 'master', {}, '/home/other');
+    }
+
+    it('initializes a bare repository at a path', async () => {
+      const result = await executeCommand('git init --bare /remotes/upstream');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toBe('Initialized empty Git repository in /remotes/upstream/');
+    });
+
+    it('adds, lists and removes remotes', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+
+      expect((await executeCommand('git remote')).output).toBe('origin');
+      expect((await executeCommand('git remote -v')).output).toContain('origin\t/remotes/origin (push)');
+      expect((await executeCommand('git remote add origin /remotes/origin')).output)
+        .toContain('remote origin already exists');
+
+      await executeCommand('git remote remove origin');
+      expect((await executeCommand('git remote')).output).toBe('');
+    });
+
+    it('reports how the branch compares to its upstream', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push -u origin master');
+      expect((await executeCommand('git status')).stdout)
+        .toContain("On branch master\nYour branch is up to date with 'origin/master'.");
+
+      await fsLib.writeFile(`${CWD}/README.md`, 'hello again\n');
+      await executeCommand('git commit -am "Local"');
+
+      expect((await executeCommand('git status')).stdout)
+        .toContain("Your branch is ahead of 'origin/master' by 1 commit.");
+      expect((await executeCommand('git branch -vv')).stdout).toContain('[origin/master: ahead 1] Local');
+    });
+
+    it('sets and unsets the upstream with git branch', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push origin master');
+
+      const result = await executeCommand('git branch -u origin/master');
+      expect(result.stdout).toBe("branch 'master' set up to track 'origin/master'.");
+      expect((await remotes.getUpstream('master'))?.branch).toBe('master');
+
+      await executeCommand('git branch --unset-upstream');
+      expect(await remotes.getUpstream('master')).toBeNull();
+      expect((await executeCommand('git branch -u origin/nope')).stderr)
+        .toBe("fatal: the requested upstream branch 'origin/nope' does not exist");
+    });
+
+    it('checks out a branch that only exists on the remote', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git branch feature && git push origin feature && git branch -D feature');
+
+      const result = await executeCommand('git checkout feature');
+
+      expect(result.stdout).toBe("branch 'feature' set up to track 'origin/feature'.\nSwitched to a new branch 'feature'");
+      expect(await validators.isOnBranch('feature')()).toBe(true);
+      expect((await remotes.getUpstream('feature'))?.remote).toBe('origin');
+    });
+
+    it('pushes with -u and sets up tracking', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+
+      const result = await executeCommand('git push -u origin master');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('To /remotes/origin');
+      expect(result.output).toContain('[new branch]');
+      expect(result.output).toContain("branch 'master' set up to track 'origin/master'.");
+      expect((await executeCommand('git branch -r')).output).toContain('origin/master');
+      expect((await executeCommand('git push')).output).toBe('Everything up-to-date');
+    });
+
+    it('fails to push without an upstream', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+
+      const result = await executeCommand('git push');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('has no upstream branch');
+    });
+
+    it('clones a repository into a new directory', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push -u origin master');
+
+      const result = await executeCommand('git clone /remotes/origin /home/copy');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain("Cloning into '/home/copy'...");
+      expect(await fsLib.readFile('/home/copy/README.md')).toBe('hello\n');
+    });
+
+    it('reports a missing repository when cloning', async () => {
+      const result = await executeCommand('git clone /remotes/missing');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("fatal: repository '/remotes/missing' does not exist");
+    });
+
+    it('fetches and pulls commits pushed by someone else', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push -u origin master');
+      await pushFromAnotherClone();
+
+      const fetched = await executeCommand('git fetch');
+      const pulled = await executeCommand('git pull');
+
+      expect(fetched.output).toContain('From /remotes/origin');
+      expect(fetched.output).toContain('master -> origin/master');
+      expect(pulled.exitCode).toBe(0);
+      expect(pulled.output).toContain('Fast-forward');
+      expect(await fsLib.readFile(`${CWD}/other.txt`)).toBe('other\n');
+    });
+
+    it('merges a remote-tracking branch after a fetch', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push -u origin master');
+      await pushFromAnotherClone();
+      await executeCommand('git fetch');
+
+      const merged = await executeCommand('git merge origin/master');
+
+      expect(merged.exitCode).toBe(0);
+      expect(merged.output).toContain('Fast-forward');
+      expect(await fsLib.readFile(`${CWD}/other.txt`)).toBe('other\n');
+    });
+
+    it('rejects a push when the remote has new commits', async () => {
+      await executeCommand('git remote add origin /remotes/origin');
+      await executeCommand('git push -u origin master');
+      await pushFromAnotherClone();
+      await fsLib.writeFile(`${CWD}/mine.txt`, 'mine\n');
+      await executeCommand('git add mine.txt');
+      await executeCommand('git commit -m "Mine"');
+
+      const result = await executeCommand('git push');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('! [rejected]');
+      expect(result.output).toContain('(fetch first)');
+    });
+  });
+
+  describe('git plumbing commands', () => {
+    beforeEach(async () => {
+      clearGitStateHash();
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'hello\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+    });
+
+    it('resolves revisions with rev-parse', async () => {
+      const full = await executeCommand('git rev-parse HEAD');
+      const short = await executeCommand('git rev-parse --short master');
+      const branch = await executeCommand('git rev-parse --abbrev-ref HEAD');
+
+      expect(full.output).toMatch(/^[0-9a-f]{40}$/);
+      expect(short.output).toBe(full.output.slice(0, 7));
+      expect(branch.output).toBe('master');
+    });
+
+    it('reports unknown revisions in rev-parse', async () => {
+      const result = await executeCommand('git rev-parse nope');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("ambiguous argument 'nope'");
+    });
+
+    it('shows object types and contents with cat-file', async () => {
+      const type = await executeCommand('git cat-file -t HEAD');
+      const commit = await executeCommand('git cat-file -p HEAD');
+      const treeOid = commit.output.match(/^tree ([0-9a-f]{40})/)?.[1];
+      const tree = await executeCommand(`git cat-file -p ${treeOid}`);
+      const blobOid = tree.output.match(/blob ([0-9a-f]{40})/)?.[1];
+      const blob = await executeCommand(`git cat-file -p ${blobOid?.slice(0, 7)}`);
+
+      expect(type.output).toBe('commit');
+      expect(commit.output).toContain('author Git Learner <learner@example.com>');
+      expect(tree.output).toMatch(/^100644 blob [0-9a-f]{40}\tREADME\.md$/);
+      expect(blob.output).toBe('hello\n');
+      expect((await executeCommand(`git cat-file -s ${blobOid}`)).output).toBe('6');
+    });
+
+    it('reports a missing object in cat-file', async () => {
+      const result = await executeCommand(`git cat-file -p ${'0'.repeat(40)}`);
+      const exists = await executeCommand(`git cat-file -e ${'0'.repeat(40)}`);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain('Not a valid object name');
+      expect(exists).toMatchObject({ stdout: '', stderr: '', exitCode: 1 });
+    });
+
+    it('hashes a file without writing it, and writes it with -w', async () => {
+      await fsLib.writeFile(`${CWD}/new.txt`, 'new content\n');
+
+      const hashed = await executeCommand('git hash-object new.txt');
+      const before = await executeCommand(`git cat-file -e ${hashed.output}`);
+      const written = await executeCommand('git hash-object -w new.txt');
+      const after = await executeCommand(`git cat-file -e ${hashed.output}`);
+
+      expect(written.output).toBe(hashed.output);
+      expect(before.exitCode).not.toBe(0);
+      expect(after.exitCode).toBe(0);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('lists index entries with ls-files', async () => {
+      const names = await executeCommand('git ls-files');
+      const staged = await executeCommand('git ls-files --stage');
+
+      expect(names.output).toBe('README.md');
+      expect(staged.output).toMatch(/^100644 [0-9a-f]{40} 0\tREADME\.md$/);
+    });
+
+    it('lists trees recursively with ls-tree', async () => {
+      await fsLib.mkdir(`${CWD}/src`);
+      await fsLib.writeFile(`${CWD}/src/app.ts`, 'code\n');
+      await executeCommand('git add .');
+      await executeCommand('git commit -m "Add src"');
+
+      const top = await executeCommand('git ls-tree HEAD');
+      const recursive = await executeCommand('git ls-tree -r --name-only HEAD');
+
+      expect(top.output).toMatch(/040000 tree [0-9a-f]{40}\tsrc/);
+      expect(recursive.output).toBe('README.md\nsrc/app.ts');
+    });
+
+    it('builds a commit by hand with write-tree, commit-tree and update-ref', async () => {
+      const head = (await executeCommand('git rev-parse HEAD')).output;
+      await fsLib.writeFile(`${CWD}/README.md`, 'changed\n');
+      await executeCommand('git add README.md');
+
+      const tree = await executeCommand('git write-tree');
+      const commit = await executeCommand(`git commit-tree ${tree.output} -p HEAD -m "By hand"`);
+      const update = await executeCommand(`git update-ref refs/heads/master ${commit.output} ${head}`);
+
+      expect(update.exitCode).toBe(0);
+      expect((await executeCommand('git rev-parse HEAD')).output).toBe(commit.output);
+      const log = await executeCommand('git log');
+      expect(log.output).toContain('By hand');
+      expect(log.output).toContain('Initial');
+      expect(await validators.workingTreeClean()).toBe(true);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('refuses update-ref when the old value does not match', async () => {
+      const head = (await executeCommand('git rev-parse HEAD')).output;
+
+      const result = await executeCommand(`git update-ref refs/heads/other ${head} ${'1'.repeat(40)}`);
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("cannot lock ref 'refs/heads/other'");
+    });
+
+    it('creates and deletes refs with update-ref', async () => {
+      await executeCommand('git update-ref refs/heads/topic HEAD');
+      expect((await executeCommand('git branch')).output).toContain('topic');
+
+      await executeCommand('git update-ref -d refs/heads/topic');
+      expect((await executeCommand('git branch')).output).not.toContain('topic');
+    });
+
+    it('refuses commit-tree for a non-tree object', async () => {
+      const result = await executeCommand('git commit-tree HEAD -m "Oops"');
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.output).toContain("is not a valid 'tree' object");
+    });
+  });
+
+  describe('command lists', () => {
+    it('runs the next command after && only on success', async () => {
+      await executeCommand('git init');
+
+      const result = await executeCommand('touch a.txt && git add a.txt && git status');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain('a.txt');
+    });
+
+    it('stops an && chain at the first failure', async () => {
+      const result = await executeCommand('cat missing.txt && touch created.txt');
+
+      expect(result.exitCode).not.toBe(0);
+      await expect(fsLib.readFile(`${CWD}/created.txt`)).rejects.toThrow();
+    });
+
+    it('runs the command after || only on failure', async () => {
+      const failed = await executeCommand('cat missing.txt || echo fallback');
+      expect(failed.exitCode).toBe(0);
+      expect(failed.output).toContain('fallback');
+
+      const succeeded = await executeCommand('echo first || echo second');
+      expect(succeeded.output).toBe('first');
+    });
+
+    it('runs every command after ; and reports the last status', async () => {
+      const result = await executeCommand('unknowncmd; echo still here');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe('still here');
+      expect(result.stderr).toBe('Command not found: unknowncmd');
+    });
+
+    it('reports syntax errors without running anything', async () => {
+      const result = await executeCommand('touch a.txt &&');
+
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toBe("bash: syntax error near unexpected token `newline'");
+      await expect(fsLib.readFile(`${CWD}/a.txt`)).rejects.toThrow();
+    });
+
+    it('undoes a whole command line in one step', async () => {
+      await executeCommand('touch a.txt; touch b.txt');
+
+      await executeCommand('undo');
+
+      expect(await fsLib.readdir(CWD)).toEqual([]);
+    });
+  });
+
+  describe('pipelines', () => {
+    it('pipes output into head and tail', async () => {
+      const content = Array.from({ length: 5 }, (_, i) => `line${i + 1}`).join('\n');
+      await fsLib.writeFile(`${CWD}/test.txt`, content);
+
+      expect((await executeCommand('cat test.txt | head -n 2')).output).toBe('line1\nline2');
+      expect((await executeCommand('cat test.txt | tail -n 1')).output).toBe('line5');
+      expect((await executeCommand('cat test.txt | head -n 3 | tail -n 1')).output).toBe('line3');
+    });
+
+    it('pipes git output', async () => {
+      await executeCommand('git init');
+      await executeCommand('touch a.txt && git add a.txt && git commit -m "first"');
+      await executeCommand('touch b.txt && git add b.txt && git commit -m "second"');
+
+      const result = await executeCommand('git log | head -n 1');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output.split('\n')).toHaveLength(1);
+      expect(result.output).toContain('commit');
+    });
+
+    it('takes a bare -<n> count for head and tail', async () => {
+      await executeCommand('git init');
+      await executeCommand('touch a.txt && git add a.txt && git commit -m "first"');
+      await executeCommand('touch b.txt && git add b.txt && git commit -m "second"');
+
+      const head = await executeCommand('git log --oneline | head -1');
+      const tail = await executeCommand('git log --format=%s | tail -1');
+
+      expect(head.exitCode).toBe(0);
+      expect(head.output.split('\n')).toHaveLength(1);
+      expect(head.output).toMatch(/second$/);
+      expect(tail.output).toBe('first');
+    });
+
+    it('redirects the end of a pipeline to a file', async () => {
+      await executeCommand('echo hello | cat > out.txt');
+
+      expect(await fsLib.readFile(`${CWD}/out.txt`)).toBe('hello');
+    });
+
+    it('takes its status from the last command', async () => {
+      const result = await executeCommand('cat missing.txt | echo done');
+
+      expect(result.exitCode).toBe(0);
+      // The earlier error is shown, not piped
+      expect(result.output).toContain('missing.txt');
+      expect(result.output).toContain('done');
+    });
+  });
+
+  describe('output streams and exit codes', () => {
+    it('separates regular output from errors', async () => {
+      const result = await executeCommand('echo hello; head missing.txt');
+
+      expect(result.stdout).toBe('hello');
+      expect(result.stderr).toContain("cannot open 'missing.txt'");
+      expect(result.exitCode).toBe(1);
+    });
+
+    it('shows errors in red in the terminal output', async () => {
+      const result = await executeCommand('cat');
+
+      expect(result.output).toBe(`${colors.red}cat: missing file operand${colors.reset}`);
+    });
+
+    it('uses git exit codes', async () => {
+      await executeCommand('git init');
+      expect((await executeCommand('git merge')).exitCode).toBe(129);
+      expect((await executeCommand('git clone')).exitCode).toBe(128);
+      expect((await executeCommand('unknowncmd')).exitCode).toBe(127);
+      expect((await executeCommand('ls |')).exitCode).toBe(2);
+    });
+
+    it('maps git errors to git-like messages', async () => {
+      await executeCommand('git init');
+      await executeCommand('touch a.txt && git add a.txt && git commit -m "first"');
+      await executeCommand('git branch feature');
+
+      const result = await executeCommand('git branch feature');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toBe("fatal: a branch named 'feature' already exists");
+    });
+
+    it('redirects stderr to a file with 2>', async () => {
+      const result = await executeCommand('head missing.txt 2> err.txt');
+
+      expect(result.stderr).toBe('');
+      expect(result.exitCode).toBe(1);
+      expect(await fsLib.readFile(`${CWD}/err.txt`)).toContain("cannot open 'missing.txt'");
+    });
+
+    it('sends stderr along with stdout with 2>&1', async () => {
+      await executeCommand('head missing.txt > out.txt 2>&1');
+      expect(await fsLib.readFile(`${CWD}/out.txt`)).toContain("cannot open 'missing.txt'");
+
+      const piped = await executeCommand('head missing.txt 2>&1 | head -n 1');
+      expect(piped.stdout).toContain("cannot open 'missing.txt'");
+      expect(piped.stderr).toBe('');
+    });
+
+    it('keeps stderr on the terminal when stdout is redirected', async () => {
+      const result = await executeCommand('head missing.txt > out.txt');
+
+      expect(result.stderr).toContain("cannot open 'missing.txt'");
+      expect(await fsLib.readFile(`${CWD}/out.txt`)).toBe('');
+    });
+
+    it('discards output sent to /dev/null', async () => {
+      const result = await executeCommand('cat missing.txt 2>/dev/null; echo $?');
+
+      expect(result.stderr).toBe('');
+      expect(result.stdout).toBe('1');
+      expect((await executeCommand('echo hi > /dev/null')).stdout).toBe('');
+    });
+
+    it('reports a redirection to a file that can\'t be written and carries on', async () => {
+      const result = await executeCommand('echo hi > nodir/f.txt; echo $?');
+
+      expect(result.stderr).toBe('bash: nodir/f.txt: No such file or directory');
+      expect(result.stdout).toBe('1');
+      expect((await executeCommand('echo hi > nodir/f.txt && echo ran')).stdout).toBe('');
+    });
+
+    it('expands $? to the previous exit code', async () => {
+      expect((await executeCommand('head missing.txt; echo $?')).stdout).toBe('1');
+      expect((await executeCommand('echo $?')).stdout).toBe('0');
+      expect((await executeCommand("unknowncmd || echo 'status $?' \"was $?\"")).stdout).toBe('status $? was 127');
+    });
+  });
+
+  describe('file utilities', () => {
+    beforeEach(async () => {
+      await fsLib.mkdir(`${CWD}/src`);
+      await fsLib.writeFile(`${CWD}/src/app.ts`, 'const a = 1;\n// TODO: tidy\n');
+      await fsLib.writeFile(`${CWD}/notes.txt`, 'pear\napple\npear\n');
+    });
+
+    it('hides dotfiles from ls unless -a is given', async () => {
+      await executeCommand('git init');
+
+      expect((await executeCommand('ls')).stdout).toBe('notes.txt\nsrc');
+      expect((await executeCommand('ls -a')).stdout).toBe('.\n..\n.git\nnotes.txt\nsrc');
+      expect((await executeCommand('ls -l')).stdout).toMatch(/^-rw-r--r-- +\d+ notes\.txt\ndrwxr-xr-x +\d+ src$/);
+    });
+
+    it('copies files and directories with cp', async () => {
+      await executeCommand('cp notes.txt copy.txt');
+      expect(await fsLib.readFile(`${CWD}/copy.txt`)).toBe('pear\napple\npear\n');
+
+      const withoutRecursive = await executeCommand('cp src lib');
+      expect(withoutRecursive.stderr).toBe("cp: -r not specified; omitting directory 'src'");
+
+      await executeCommand('cp -r src lib');
+      expect(await fsLib.readFile(`${CWD}/lib/app.ts`)).toContain('TODO');
+    });
+
+    it('moves and renames with mv', async () => {
+      await executeCommand('mv notes.txt src');
+      expect((await executeCommand('ls src')).stdout).toBe('app.ts\nnotes.txt');
+
+      await executeCommand('mv src code');
+      expect((await executeCommand('ls')).stdout).toBe('code');
+
+      expect((await executeCommand('mv missing.txt code')).stderr).toBe("mv: cannot stat 'missing.txt': No such file or directory");
+    });
+
+    it('counts with wc, from files or stdin', async () => {
+      expect((await executeCommand('wc -l notes.txt')).stdout).toBe('3 notes.txt');
+      expect((await executeCommand('cat notes.txt | wc -l')).stdout).toBe('3');
+      expect((await executeCommand('wc -l notes.txt src/app.ts')).stdout).toBe('3 notes.txt\n2 src/app.ts\n5 total');
+    });
+
+    it('searches with grep', async () => {
+      expect((await executeCommand('grep -n apple notes.txt')).stdout).toBe('2:apple');
+      expect((await executeCommand('grep -ri todo')).stdout).toBe('src/app.ts:// TODO: tidy');
+      expect((await executeCommand('cat notes.txt | grep -c pear')).stdout).toBe('2');
+      expect((await executeCommand('grep plum notes.txt')).exitCode).toBe(1);
+      expect((await executeCommand('grep pear src')).stderr).toBe('grep: src: Is a directory');
+    });
+
+    it('finds files by name and type', async () => {
+      expect((await executeCommand("find . -name '*.ts'")).stdout).toBe('./src/app.ts');
+      expect((await executeCommand('find -type d')).stdout).toBe('.\n./src');
+    });
+
+    it('draws the directory tree', async () => {
+      expect((await executeCommand('tree')).stdout).toBe([
+        '.',
+        '├── notes.txt',
+        '└── src',
+        '    └── app.ts',
+        '',
+        '1 directory, 2 files',
+      ].join('\n'));
+    });
+
+    it('sorts and collapses lines in a pipeline', async () => {
+      expect((await executeCommand('sort notes.txt | uniq -c')).stdout).toBe('      1 apple\n      2 pear');
+      expect((await executeCommand('cat notes.txt | sort -ru')).stdout).toBe('pear\napple');
+    });
+
+    it('rejects unknown options', async () => {
+      const result = await executeCommand('wc -z notes.txt');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe("wc: invalid option -- 'z'");
+    });
+  });
+
+  describe('working directory', () => {
+    beforeEach(async () => {
+      await fsLib.mkdir(`${CWD}/src`);
+      await fsLib.writeFile(`${CWD}/src/app.ts`, 'app');
+    });
+
+    it('changes directory with cd and reports it with pwd', async () => {
+      expect((await executeCommand('cd src && pwd')).stdout).toBe(`${CWD}/src`);
+      expect((await executeCommand('cat app.ts')).stdout).toBe('app');
+
+      await executeCommand('cd');
+      expect(getCurrentDir()).toBe(CWD);
+    });
+
+    it('prints the directory for cd -', async () => {
+      await executeCommand('cd src');
+
+      expect((await executeCommand('cd -')).stdout).toBe(CWD);
+    });
+
+    it('reports directories that do not exist', async () => {
+      const result = await executeCommand('cd missing');
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toBe('cd: missing: No such file or directory');
+      expect(getCurrentDir()).toBe(CWD);
+    });
+
+    it('prints the directory stack for pushd and popd', async () => {
+      expect((await executeCommand('pushd src')).stdout).toBe(`${CWD}/src ${CWD}`);
+      expect((await executeCommand('popd')).stdout).toBe(CWD);
+      expect((await executeCommand('popd')).stderr).toBe('popd: directory stack empty');
+    });
+
+    it('writes redirected output relative to the current directory', async () => {
+      await executeCommand('cd src && echo hi > note.txt');
+
+      expect(await fsLib.readFile(`${CWD}/src/note.txt`)).toBe('hi');
+    });
+
+    it('goes back home on reset', async () => {
+      await executeCommand('cd src');
+      await executeCommand('reset');
+
+      expect(getCurrentDir()).toBe(CWD);
+    });
+  });
+
+  describe('git from a subdirectory', () => {
+    beforeEach(async () => {
+      await fsLib.mkdir(`${CWD}/src`);
+      await fsLib.writeFile(`${CWD}/src/app.ts`, 'app');
+    });
+
+    it('refuses to run outside a repository', async () => {
+      const result = await executeCommand('git status');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toBe('fatal: not a git repository (or any of the parent directories): .git');
+    });
+
+    it('finds the repository in a parent directory', async () => {
+      await executeCommand('git init');
+      await executeCommand('cd src');
+
+      expect((await executeCommand('git rev-parse --show-toplevel')).stdout).toBe(CWD);
+      expect((await executeCommand('git add app.ts')).exitCode).toBe(0);
+      expect(await executeCommand('git ls-files')).toMatchObject({ stdout: 'src/app.ts' });
+    });
+
+    it('adds paths relative to the current directory', async () => {
+      await fsLib.writeFile(`${CWD}/top.txt`, 'top');
+      await executeCommand('git init');
+      await executeCommand('cd src');
+
+      await executeCommand('git add .');
+
+      expect((await executeCommand('git ls-files')).stdout).toBe('src/app.ts');
+    });
+
+    it('adds every path it is given', async () => {
+      await fsLib.writeFile(`${CWD}/src/lib.ts`, 'lib');
+      await fsLib.writeFile(`${CWD}/top.txt`, 'top');
+      await executeCommand('git init');
+      await executeCommand('cd src');
+
+      expect((await executeCommand('git add app.ts ../top.txt')).exitCode).toBe(0);
+
+      expect((await executeCommand('git ls-files')).stdout).toBe('src/app.ts\ntop.txt');
+    });
+
+    it('rejects paths outside the repository', async () => {
+      await executeCommand('git init');
+
+      const result = await executeCommand('git add src/app.ts /remotes');
+
+      expect(result.exitCode).toBe(128);
+      expect(result.stderr).toBe(`fatal: /remotes: '/remotes' is outside repository at '${CWD}'`);
+      expect((await executeCommand('git ls-files')).stdout).toBe('');
+    });
+
+    it('initializes a nested repository in the current directory', async () => {
+      await executeCommand('git init');
+      await executeCommand('cd src');
+
+      expect((await executeCommand('git init')).stdout).toBe(`Initialized empty Git repository in ${CWD}/src/.git/`);
+      expect((await executeCommand('git rev-parse --show-toplevel')).stdout).toBe(`${CWD}/src`);
+    });
   });
 
   describe('edge cases', () => {
     it('returns error for unknown command', async () => {
       const result = await executeCommand('unknowncmd');
 
-      expect(result.success).toBe(false);
+      expect(result.exitCode).not.toBe(0);
       expect(result.output).toContain('Command not found');
     });
   });
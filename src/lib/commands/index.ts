@@ -8,10 +8,21 @@
 
 import { colors } from './colors';
 import { getCommand } from './registry';
-import { parseCommandLine, extractRedirection } from './parsing';
-import type { CommandResult } from './types';
+import { describeCommandError, describeSyntaxError } from './errors';
+import {
+  parseShellCommand,
+  getSimpleCommands,
+  expandArgs,
+  resolveOutputSinks,
+  type CommandList,
+  type OutputSink,
+  type Pipeline,
+  type SimpleCommand,
+} from './parsing';
+import type { CommandContext, CommandResult, ShellResult } from './types';
 import { writeFile, readFile } from '../fs';
-import { CWD } from '../config';
+import { resolveFromCurrentDir } from '../workingDirectory';
+import { captureSnapshot, recordUndoPoint, isHistoryCommand } from '../sandboxHistory';
 
 // Import command modules to trigger their registration
 // Order matters: file and git commands should register before shell
@@ -20,52 +31,172 @@ import './file-commands';
 import './git-commands';
 import './shell-commands';
 
-export type { CommandResult } from './types';
+export type { CommandContext, CommandResult, ShellResult } from './types';
 
 // Re-export pure parsing functions for convenience
-export { parseCommandLine, extractRedirection } from './parsing';
+export {
+  parseCommandLine,
+  extractRedirection,
+  tokenizeCommandLine,
+  parseShellCommand,
+  getSimpleCommands,
+  expandArgs,
+  resolveOutputSinks,
+} from './parsing';
+export type {
+  CommandList,
+  Pipeline,
+  SimpleCommand,
+  Redirection,
+  ListOperator,
+  OutputSink,
+} from './parsing';
+export { describeCommandError } from './errors';
 
-export async function executeCommand(command: string): Promise<CommandResult> {
-  const allParts = parseCommandLine(command.trim());
-  const cmd = allParts[0];
+// Module state: the exit code of the last command line, for `$?`
+let lastExitCode = 0;
 
-  // Extract redirection before processing
-  const { parts: partsWithoutRedirect, outputFile, append } = extractRedirection(allParts.slice(1));
-  const args = partsWithoutRedirect;
+export async function executeCommand(command: string): Promise<ShellResult> {
+  if (movesThroughHistory(command)) {
+    return runCommand(command);
+  }
+
+  // Snapshot the sandbox first so the whole command line can be undone in one step
+  const before = await captureSnapshot();
+  const result = await runCommand(command);
+  await recordUndoPoint(before);
+  return result;
+}
 
+function movesThroughHistory(command: string): boolean {
   try {
-    const commandDef = getCommand(cmd);
-    if (commandDef) {
-      const result = await commandDef.handler(args);
-
-      // Handle output redirection
-      if (outputFile && result.success) {
-        const filePath = outputFile.startsWith('/') ? outputFile : `${CWD}/${outputFile}`;
-
-        if (append) {
-          // Append mode: read existing content and append new content
-          let existingContent = '';
-          try {
-            existingContent = await readFile(filePath);
-          } catch {
-            // File doesn't exist, start with empty content
-          }
-          await writeFile(filePath, existingContent + result.output);
-        } else {
-          // Overwrite mode
-          await writeFile(filePath, result.output);
-        }
-
-        return { output: '', success: true };
-      }
-
-      return result;
-    }
-    return { output: `Command not found: ${cmd}`, success: false };
+    return getSimpleCommands(parseShellCommand(command)).some(({ args }) => isHistoryCommand(args[0]));
+  } catch {
+    return false;
+  }
+}
+
+// Everything a command line has written to the terminal so far
+interface Transcript {
+  stdout: string[];
+  stderr: string[];
+  output: string[];
+}
+
+function write(transcript: Transcript, stream: 'stdout' | 'stderr', text: string): void {
+  if (!text) return;
+  transcript[stream].push(text);
+  transcript.output.push(stream === 'stderr' ? `${colors.red}${text}${colors.reset}` : text);
+}
+
+async function runCommand(command: string): Promise<ShellResult> {
+  const transcript: Transcript = { stdout: [], stderr: [], output: [] };
+  let exitCode = 0;
+
+  let list: CommandList;
+  try {
+    list = parseShellCommand(command);
   } catch (error) {
-    return {
-      output: `${colors.red}Error: ${error instanceof Error ? error.message : String(error)}${colors.reset}`,
-      success: false,
-    };
+    // Like bash, nothing runs after a syntax error
+    const failure = describeSyntaxError(error);
+    write(transcript, 'stderr', failure.stderr);
+    list = { steps: [] };
+    exitCode = failure.exitCode;
+    lastExitCode = exitCode;
+  }
+
+  // && runs only after a zero exit code, || only after a non-zero one
+  for (const { operator, pipeline } of list.steps) {
+    if ((operator === '&&' && exitCode !== 0) || (operator === '||' && exitCode === 0)) continue;
+    exitCode = await runPipeline(pipeline, transcript);
+    lastExitCode = exitCode;
   }
+
+  return {
+    stdout: transcript.stdout.join('\n'),
+    stderr: transcript.stderr.join('\n'),
+    exitCode,
+    output: transcript.output.join('\n'),
+  };
+}
+
+async function runPipeline(pipeline: Pipeline, transcript: Transcript): Promise<number> {
+  // Each command's stdout feeds the next one; stderr always goes to the terminal
+  let stdin: string | null = null;
+  let exitCode = 0;
+
+  for (const [i, command] of pipeline.commands.entries()) {
+    const result = await runSimpleCommand(command, { stdin });
+    if (i === pipeline.commands.length - 1) {
+      write(transcript, 'stdout', result.stdout);
+    } else {
+      stdin = result.stdout;
+    }
+    write(transcript, 'stderr', result.stderr);
+    exitCode = result.exitCode;
+  }
+
+  // The pipeline's exit code is the last command's, as in bash without pipefail
+  return exitCode;
+}
+
+async function runSimpleCommand(command: SimpleCommand, context: CommandContext): Promise<CommandResult> {
+  const [cmd, ...args] = expandArgs(command.args, lastExitCode);
+  const commandDef = getCommand(cmd);
+
+  let result: CommandResult;
+  if (!commandDef) {
+    result = { stdout: '', stderr: `Command not found: ${cmd}`, exitCode: 127 };
+  } else {
+    try {
+      result = await commandDef.handler(args, context);
+    } catch (error) {
+      result = { stdout: '', ...describeCommandError(error) };
+    }
+  }
+
+  return redirectOutput(result, resolveOutputSinks(command.redirects));
+}
+
+/**
+ * Write redirected streams to their files. Returns what is left for the
+ * terminal (or the next command in the pipeline), or bash's error when
+ * a file can't be written.
+ */
+async function redirectOutput(
+  result: CommandResult,
+  sinks: { stdout: OutputSink; stderr: OutputSink },
+): Promise<CommandResult> {
+  const remaining = { stdout: [] as string[], stderr: [] as string[] };
+  const files = new Map<string, { target: string; append: boolean; content: string[] }>();
+
+  for (const [text, sink] of [[result.stdout, sinks.stdout], [result.stderr, sinks.stderr]] as const) {
+    if (sink === 'discard') continue;
+    if (typeof sink === 'string') {
+      if (text) remaining[sink].push(text);
+      continue;
+    }
+    // Both streams may go to the same file (`> out.txt 2>&1`)
+    const path = resolveFromCurrentDir(sink.path);
+    const file = files.get(path) ?? { target: sink.path, append: sink.append, content: [] };
+    if (text) file.content.push(text);
+    files.set(path, file);
+  }
+
+  for (const [path, file] of files) {
+    try {
+      // Append mode: read existing content and append new content
+      const existingContent = file.append ? await readFile(path).catch(() => '') : '';
+      await writeFile(path, existingContent + file.content.join('\n'));
+    } catch (error) {
+      const reason = (error as { code?: string }).code === 'EISDIR' ? 'Is a directory' : 'No such file or directory';
+      return { stdout: '', stderr: `bash: ${file.target}: ${reason}`, exitCode: 1 };
+    }
+  }
+
+  return {
+    stdout: remaining.stdout.join('\n'),
+    stderr: remaining.stderr.join('\n'),
+    exitCode: result.exitCode,
+  };
 }
@@ -4,6 +4,7 @@
  */
 
 import { CWD } from '../config';
+import { resolvePathFrom } from '../workingDirectory/path-utils';
 
 /**
  * Parse a command line into parts, respecting quoted strings.
@@ -69,18 +70,236 @@ export function extractRedirection(parts: string[]): { parts: string[]; outputFi
 }
 
 /**
- * Resolve a path relative to CWD.
- * Absolute paths are returned unchanged.
+ * Shell grammar for a full command line:
+ *
+ *   list     := pipeline ((';' | '&&' | '||') pipeline)* [';']
+ *   pipeline := command ('|' command)*
+ *   command  := (word | redirection)+
+ *   redirection := ('>' | '>>' | '2>' | '2>>') word | '2>&1'
+ *
+ * Operators are only recognised outside quotes. Quotes may appear anywhere
+ * inside a word, and '' or "" produce an empty argument. `$?` expands to the
+ * previous exit code, except inside single quotes.
  */
-export function resolvePath(path: string): string {
-  if (path.startsWith('/')) {
-    return path;
+export type ListOperator = ';' | '&&' | '||';
+type RedirectOperator = '>' | '>>' | '2>' | '2>>' | '2>&1';
+type Operator = ListOperator | '|' | RedirectOperator;
+
+type Token =
+  | { type: 'word'; value: string; start: number; end: number }
+  | { type: 'operator'; value: Operator; start: number; end: number };
+
+export type Redirection =
+  | { stream: 'stdout' | 'stderr'; target: string; append: boolean }  // > file, >> file, 2> file, 2>> file
+  | { stream: 'stderr'; toStdout: true };                               // 2>&1
+
+export interface SimpleCommand {
+  args: string[];              // args[0] is the command name; use expandArgs before running
+  redirects: Redirection[];    // In the order written, which matters for 2>&1
+  source: string;              // The command's own text, e.g. for matching lesson patterns
+}
+
+export interface Pipeline {
+  commands: SimpleCommand[];
+}
+
+export interface CommandList {
+  steps: { operator: ListOperator | null; pipeline: Pipeline }[];  // operator joins a step to the one before it
+}
+
+// Where a command's stdout or stderr ends up after its redirections ('discard' is /dev/null)
+export type OutputSink = 'stdout' | 'stderr' | 'discard' | { path: string; append: boolean };
+
+const OPERATORS: Operator[] = ['&&', '||', '>>', ';', '|', '>'];
+// Only recognised at the start of a word: `file2>x` is the word "file2" then ">"
+const STDERR_OPERATORS: RedirectOperator[] = ['2>&1', '2>>', '2>'];
+
+// A private-use character that stands in for `$?` in parsed words until the exit code is known
+const LAST_STATUS = '\uE000';
+
+function syntaxError(token: string): never {
+  throw new Error(`syntax error near unexpected token \`${token}'`);
+}
+
+/**
+ * Split a command line into words and operators, removing quotes.
+ * Throws when a quote is left open.
+ */
+export function tokenizeCommandLine(input: string): Token[] {
+  const tokens: Token[] = [];
+  let current = '';
+  let inWord = false;
+  let start = 0;
+  let i = 0;
+
+  const endWord = () => {
+    if (inWord) {
+      tokens.push({ type: 'word', value: current, start, end: i });
+      current = '';
+      inWord = false;
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (char === '"' || char === "'") {
+      const close = input.indexOf(char, i + 1);
+      if (close === -1) {
+        throw new Error(`unexpected EOF while looking for matching \`${char}'`);
+      }
+      if (!inWord) start = i;
+      inWord = true;
+      const quoted = input.slice(i + 1, close);
+      current += char === '"' ? quoted.replaceAll('$?', LAST_STATUS) : quoted;
+      i = close + 1;
+      continue;
+    }
+    if (char === ' ' || char === '\t') {
+      endWord();
+      i++;
+      continue;
+    }
+    const operator = (inWord ? [] : STDERR_OPERATORS).find((op) => input.startsWith(op, i))
+      ?? OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      endWord();
+      tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+    if (!inWord) start = i;
+    inWord = true;
+    if (input.startsWith('$?', i)) {
+      current += LAST_STATUS;
+      i += 2;
+    } else {
+      current += char;
+      i++;
+    }
   }
-  return `${CWD}/${path}`;
+  endWord();
+
+  return tokens;
+}
+
+function parseRedirection(operator: RedirectOperator, target: Token | undefined): Redirection {
+  if (operator === '2>&1') {
+    return { stream: 'stderr', toStdout: true };
+  }
+  if (!target) syntaxError('newline');
+  if (target.type !== 'word') syntaxError(target.value);
+  return {
+    stream: operator.startsWith('2') ? 'stderr' : 'stdout',
+    target: target.value,
+    append: operator.endsWith('>>'),
+  };
 }
 
 /**
- * Parse head/tail command arguments.
+ * Parse a command line into a list of pipelines.
+ * Throws a bash-style syntax error on misplaced operators.
+ */
+export function parseShellCommand(input: string): CommandList {
+  const tokens = tokenizeCommandLine(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parseCommand = (): SimpleCommand => {
+    const args: string[] = [];
+    const redirects: Redirection[] = [];
+    const first = peek();
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.type === 'word') {
+        args.push(token.value);
+        pos++;
+      } else if (['>', '>>', '2>', '2>>', '2>&1'].includes(token.value)) {
+        const operator = token.value as RedirectOperator;
+        redirects.push(parseRedirection(operator, tokens[pos + 1]));
+        pos += operator === '2>&1' ? 1 : 2;
+      } else {
+        break;
+      }
+    }
+
+    if (args.length === 0) {
+      syntaxError(peek()?.value ?? 'newline');
+    }
+    return { args, redirects, source: input.slice(first.start, tokens[pos - 1].end) };
+  };
+
+  const parsePipeline = (): Pipeline => {
+    const commands = [parseCommand()];
+    while (peek()?.value === '|') {
+      pos++;
+      commands.push(parseCommand());
+    }
+    return { commands };
+  };
+
+  const steps: CommandList['steps'] = [];
+  let operator: ListOperator | null = null;
+  while (pos < tokens.length) {
+    steps.push({ operator, pipeline: parsePipeline() });
+    // Commands and pipelines consume everything else, so only a list operator can follow
+    const token = peek();
+    if (!token) break;
+    operator = token.value as ListOperator;
+    pos++;
+    // A trailing ';' is allowed; a trailing '&&' or '||' is not
+    if (pos === tokens.length && operator !== ';') syntaxError('newline');
+  }
+
+  return { steps };
+}
+
+/**
+ * Flatten a parsed command line into its simple commands, in order.
+ */
+export function getSimpleCommands(list: CommandList): SimpleCommand[] {
+  return list.steps.flatMap((step) => step.pipeline.commands);
+}
+
+/**
+ * Fill in `$?` with the exit code of the previous command.
+ */
+export function expandArgs(args: string[], lastExitCode: number): string[] {
+  return args.map((arg) => arg.replaceAll(LAST_STATUS, String(lastExitCode)));
+}
+
+/**
+ * Work out where stdout and stderr go, applying redirections left to right
+ * like bash: `> out.txt 2>&1` sends both to the file, while `2>&1 > out.txt`
+ * sends stderr where stdout pointed before (the terminal or the next pipe).
+ */
+export function resolveOutputSinks(redirects: Redirection[]): { stdout: OutputSink; stderr: OutputSink } {
+  const sinks: { stdout: OutputSink; stderr: OutputSink } = { stdout: 'stdout', stderr: 'stderr' };
+  for (const redirect of redirects) {
+    if ('toStdout' in redirect) {
+      sinks[redirect.stream] = sinks.stdout;
+    } else {
+      // There is no /dev here, so output sent to /dev/null is dropped instead of written
+      sinks[redirect.stream] = redirect.target === '/dev/null'
+        ? 'discard'
+        : { path: redirect.target, append: redirect.append };
+    }
+  }
+  return sinks;
+}
+
+/**
+ * Resolve a path relative to a directory (CWD unless given).
+ * The result is absolute and normalized, with `.` and `..` resolved.
+ */
+export function resolvePath(path: string, cwd: string = CWD): string {
+  return resolvePathFrom(cwd, path, CWD);
+}
+
+/**
+ * Parse head/tail command arguments. The count can be given as `-n <n>`,
+ * `-n<n>` or `-<n>`.
  * Returns the number of lines and file path.
  */
 export function parseHeadTailArgs(args: string[]): { numLines: number; filePath: string | undefined } {
@@ -91,6 +310,8 @@ export function parseHeadTailArgs(args: string[]): { numLines: number; filePath:
     if (args[i] === '-n' && args[i + 1]) {
       numLines = parseInt(args[i + 1], 10);
       i++; // Skip the next argument
+    } else if (/^-n?\d+$/.test(args[i])) {
+      numLines = parseInt(args[i].replace(/^-n?/, ''), 10);
     } else if (!args[i].startsWith('-')) {
       filePath = args[i];
     }
@@ -124,3 +345,611 @@ export function parseRmArgs(args: string[]): { recursive: boolean; targets: stri
   const targets = recursive ? args.slice(1) : args;
   return { recursive, targets };
 }
+
+/**
+ * Parse short options for a file utility, e.g. `ls -la` or `grep -n -i`.
+ * Single-letter flags may be combined; `--` ends the options and a lone
+ * `-` is an operand. Returns the first flag not in `allowed` as `invalid`.
+ */
+export function parseOptions(args: string[], allowed: string): {
+  flags: Set<string>;
+  operands: string[];
+  invalid: string | null;
+} {
+  const flags = new Set<string>();
+  const operands: string[] = [];
+  let invalid: string | null = null;
+  let endOfOptions = false;
+
+  for (const arg of args) {
+    if (endOfOptions || !arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+    } else if (arg === '--') {
+      endOfOptions = true;
+    } else {
+      for (const flag of arg.slice(1)) {
+        if (!allowed.includes(flag)) invalid ??= flag;
+        flags.add(flag);
+      }
+    }
+  }
+
+  return { flags, operands, invalid };
+}
+
+/**
+ * Parse find command arguments: starting paths, then `-name <pattern>`
+ * and `-type f|d` tests. Returns an error message for anything else.
+ */
+export function parseFindArgs(args: string[]): {
+  paths: string[];
+  name: string | null;
+  type: 'f' | 'd' | null;
+  error: string | null;
+} {
+  const paths: string[] = [];
+  let name: string | null = null;
+  let type: 'f' | 'd' | null = null;
+
+  let i = 0;
+  for (; i < args.length && !args[i].startsWith('-'); i++) {
+    paths.push(args[i]);
+  }
+  for (; i < args.length; i += 2) {
+    const [test, value] = [args[i], args[i + 1]];
+    if (value === undefined) {
+      return { paths, name, type, error: `missing argument to '${test}'` };
+    }
+    if (test === '-name') {
+      name = value;
+    } else if (test === '-type' && (value === 'f' || value === 'd')) {
+      type = value;
+    } else if (test === '-type') {
+      return { paths, name, type, error: `Unknown argument to -type: ${value}` };
+    } else {
+      return { paths, name, type, error: `unknown predicate '${test}'` };
+    }
+  }
+
+  return { paths: paths.length > 0 ? paths : ['.'], name, type, error: null };
+}
+
+/**
+ * Parse a stash reference, `stash@{n}` or just `n`, into its index.
+ * No reference means the latest entry. Returns null when invalid.
+ */
+export function parseStashRef(ref: string | undefined): number | null {
+  if (ref === undefined) return 0;
+  const match = ref.match(/^(?:stash@\{(\d+)\}|(\d+))$/);
+  return match ? Number(match[1] ?? match[2]) : null;
+}
+
+export interface DiffOptions {
+  staged: boolean;
+  stat: boolean;           // --stat: a summary of the changes, not the patch
+  nameOnly: boolean;       // --name-only: just the changed files' names
+  revisions: string[];
+  paths: string[];
+  hasSeparator: boolean;
+  error: string | null;
+}
+
+/**
+ * Parse git diff arguments.
+ * Everything after "--" is a path; other non-flag arguments are revisions
+ * (the caller may reinterpret them as paths when they aren't revisions).
+ * Returns an error message for unknown options.
+ */
+export function parseDiffArgs(args: string[]): DiffOptions {
+  const options: DiffOptions = {
+    staged: false,
+    stat: false,
+    nameOnly: false,
+    revisions: [],
+    paths: [],
+    hasSeparator: false,
+    error: null,
+  };
+  const separatorIndex = args.indexOf('--');
+  const before = separatorIndex === -1 ? args : args.slice(0, separatorIndex);
+
+  for (const arg of before) {
+    if (arg === '--staged' || arg === '--cached') {
+      options.staged = true;
+    } else if (arg === '--stat') {
+      options.stat = true;
+    } else if (arg === '--name-only') {
+      options.nameOnly = true;
+    } else if (arg.startsWith('-')) {
+      options.error ??= `error: invalid option: ${arg}`;
+    } else {
+      options.revisions.push(arg);
+    }
+  }
+  if (separatorIndex !== -1) {
+    options.paths.push(...args.slice(separatorIndex + 1));
+    options.hasSeparator = true;
+  }
+
+  return options;
+}
+
+export interface ShowOptions {
+  stat: boolean;           // --stat: a summary of a commit's changes, not the patch
+  nameOnly: boolean;       // --name-only: just the changed files' names
+  revision: string;
+  error: string | null;
+}
+
+/**
+ * Parse git show arguments: `[--stat | --name-only] [<object>]`, the
+ * object defaulting to HEAD. Returns an error message for unknown options.
+ */
+export function parseShowArgs(args: string[]): ShowOptions {
+  const options: ShowOptions = { stat: false, nameOnly: false, revision: 'HEAD', error: null };
+  const positional: string[] = [];
+  for (const arg of args) {
+    if (arg === '--stat') {
+      options.stat = true;
+    } else if (arg === '--name-only') {
+      options.nameOnly = true;
+    } else if (arg.startsWith('-')) {
+      options.error ??= `fatal: unrecognized argument: ${arg}`;
+    } else {
+      positional.push(arg);
+    }
+  }
+  options.revision = positional[0] ?? 'HEAD';
+  return options;
+}
+
+export interface LogOptions {
+  oneline: boolean;
+  graph: boolean;
+  all: boolean;
+  stat: boolean;
+  patch: boolean;
+  decorate: boolean;       // Show the refs pointing at each commit
+  maxCount: number | null;
+  author: string | null;
+  format: string | null;   // A --format/--pretty=format: template
+  revisions: string[];
+  error: string | null;
+}
+
+/**
+ * The `--pretty=<name>` formats that are supported, as templates. null is
+ * the default format.
+ */
+const NAMED_LOG_FORMATS: Record<string, string | null> = {
+  oneline: '%H %s',
+  medium: null,
+};
+
+/**
+ * Parse git log arguments. `-n <n>`, `-n<n>`, `-<n>` and `--max-count=<n>`
+ * limit the count; `--pretty=oneline` shows full ids, unlike `--oneline`.
+ * Returns an error message for unknown options and bad values.
+ */
+export function parseLogArgs(args: string[]): LogOptions {
+  const options: LogOptions = {
+    oneline: false,
+    graph: false,
+    all: false,
+    stat: false,
+    patch: false,
+    decorate: false,
+    maxCount: null,
+    author: null,
+    format: null,
+    revisions: [],
+    error: null,
+  };
+  const parseCount = (value: string | undefined): number | null => {
+    if (value !== undefined && /^\d+$/.test(value)) return Number(value);
+    options.error ??= `fatal: '${value ?? ''}': not an integer`;
+    return null;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--oneline') {
+      options.oneline = true;
+    } else if (arg === '--graph') {
+      options.graph = true;
+    } else if (arg === '--all') {
+      options.all = true;
+    } else if (arg === '--stat') {
+      options.stat = true;
+    } else if (arg === '-p' || arg === '--patch') {
+      options.patch = true;
+    } else if (arg === '--decorate' || arg === '--decorate=short') {
+      options.decorate = true;
+    } else if (arg === '--no-decorate') {
+      options.decorate = false;
+    } else if (arg === '-n' || arg === '--max-count') {
+      options.maxCount = parseCount(args[++i]);
+    } else if (arg.startsWith('--max-count=')) {
+      options.maxCount = parseCount(arg.slice('--max-count='.length));
+    } else if (/^-n\d+$/.test(arg) || /^-\d+$/.test(arg)) {
+      options.maxCount = Number(arg.replace(/^-n?/, ''));
+    } else if (arg === '--author') {
+      options.author = args[++i] ?? null;
+      if (options.author === null) options.error ??= "fatal: option '--author' requires a value";
+    } else if (arg.startsWith('--author=')) {
+      options.author = arg.slice('--author='.length);
+    } else if (arg.startsWith('--pretty=format:') || arg.startsWith('--pretty=tformat:')) {
+      options.format = arg.slice(arg.indexOf(':') + 1);
+    } else if (arg.startsWith('--format=') || arg.startsWith('--pretty=')) {
+      const format = arg.slice(arg.indexOf('=') + 1);
+      // Without a placeholder it names a format, and only some are known here
+      if (format.includes('%')) {
+        options.format = format;
+      } else if (Object.hasOwn(NAMED_LOG_FORMATS, format)) {
+        options.format = NAMED_LOG_FORMATS[format];
+      } else {
+        options.error ??= `fatal: invalid --pretty format: ${format}`;
+      }
+    } else if (arg.startsWith('-')) {
+      options.error ??= `fatal: unrecognized argument: ${arg}`;
+    } else {
+      options.revisions.push(arg);
+    }
+  }
+
+  return options;
+}
+
+export interface CommitOptions {
+  messages: string[];      // Each -m is its own paragraph
+  all: boolean;
+  amend: boolean;
+  allowEmpty: boolean;
+  noEdit: boolean;
+  pathspecs: string[];
+  error: string | null;
+}
+
+/**
+ * Parse git commit arguments. `-m` may be repeated, attached (`-mText`)
+ * or combined with `-a` as `-am <msg>`; `--message=<msg>` works too.
+ * Returns an error message for unknown options and a missing message.
+ */
+export function parseCommitArgs(args: string[]): CommitOptions {
+  const options: CommitOptions = {
+    messages: [],
+    all: false,
+    amend: false,
+    allowEmpty: false,
+    noEdit: false,
+    pathspecs: [],
+    error: null,
+  };
+  const takeMessage = (value: string | undefined) => {
+    if (value === undefined) {
+      options.error ??= "error: switch `m' requires a value";
+    } else {
+      options.messages.push(value);
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--all') {
+      options.all = true;
+    } else if (arg === '--amend') {
+      options.amend = true;
+    } else if (arg === '--allow-empty') {
+      options.allowEmpty = true;
+    } else if (arg === '--no-edit') {
+      options.noEdit = true;
+    } else if (arg === '--message') {
+      takeMessage(args[++i]);
+    } else if (arg.startsWith('--message=')) {
+      takeMessage(arg.slice('--message='.length));
+    } else if (arg.startsWith('--')) {
+      options.error ??= `error: unknown option \`${arg.slice(2)}'`;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      // Short flags combine; -m takes the rest of the word or the next argument
+      for (let j = 1; j < arg.length; j++) {
+        if (arg[j] === 'a') {
+          options.all = true;
+        } else if (arg[j] === 'm') {
+          takeMessage(j + 1 < arg.length ? arg.slice(j + 1) : args[++i]);
+          break;
+        } else {
+          options.error ??= `error: unknown switch \`${arg[j]}'`;
+          break;
+        }
+      }
+    } else {
+      options.pathspecs.push(arg);
+    }
+  }
+
+  return options;
+}
+
+export type BranchMode = 'list' | 'create' | 'delete' | 'rename' | 'set-upstream' | 'unset-upstream' | 'show-current';
+
+export interface BranchOptions {
+  mode: BranchMode;
+  force: boolean;           // -D, -M, -f
+  remotes: boolean;         // -r: list remote-tracking branches
+  all: boolean;             // -a: list local and remote-tracking branches
+  verbose: number;          // -v shows commits, -vv upstreams too
+  upstream: string | null;  // -u / --set-upstream-to
+  names: string[];
+  error: string | null;
+}
+
+/**
+ * Parse git branch arguments. Short flags combine (`-vv`, `-av`); the
+ * mode comes from -d/-D, -m/-M, -u, --unset-upstream or --show-current,
+ * and defaults to creating a branch when names are given, else listing.
+ */
+export function parseBranchArgs(args: string[]): BranchOptions {
+  const options: BranchOptions = {
+    mode: 'list',
+    force: false,
+    remotes: false,
+    all: false,
+    verbose: 0,
+    upstream: null,
+    names: [],
+    error: null,
+  };
+  let mode: BranchMode | null = null;
+  const takeUpstream = (value: string | undefined) => {
+    mode = 'set-upstream';
+    options.upstream = value ?? null;
+    if (value === undefined) options.error ??= "error: option `set-upstream-to' requires a value";
+  };
+  const LONG: Record<string, () => void> = {
+    '--delete': () => { mode = 'delete'; },
+    '--move': () => { mode = 'rename'; },
+    '--force': () => { options.force = true; },
+    '--remotes': () => { options.remotes = true; },
+    '--all': () => { options.all = true; },
+    '--verbose': () => { options.verbose++; },
+    '--list': () => { mode = 'list'; },
+    '--unset-upstream': () => { mode = 'unset-upstream'; },
+    '--show-current': () => { mode = 'show-current'; },
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (LONG[arg]) {
+      LONG[arg]();
+    } else if (arg === '--set-upstream-to') {
+      takeUpstream(args[++i]);
+    } else if (arg.startsWith('--set-upstream-to=')) {
+      takeUpstream(arg.slice('--set-upstream-to='.length));
+    } else if (arg.startsWith('--')) {
+      options.error ??= `error: unknown option \`${arg.slice(2)}'`;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      for (const flag of arg.slice(1)) {
+        if (flag === 'd' || flag === 'D') {
+          mode = 'delete';
+          options.force ||= flag === 'D';
+        } else if (flag === 'm' || flag === 'M') {
+          mode = 'rename';
+          options.force ||= flag === 'M';
+        } else if (flag === 'f') {
+          options.force = true;
+        } else if (flag === 'r') {
+          options.remotes = true;
+        } else if (flag === 'a') {
+          options.all = true;
+        } else if (flag === 'v') {
+          options.verbose++;
+        } else if (flag === 'u') {
+          takeUpstream(args[++i]);
+        } else {
+          options.error ??= `error: unknown switch \`${flag}'`;
+        }
+      }
+    } else {
+      options.names.push(arg);
+    }
+  }
+
+  options.mode = mode ?? (options.names.length > 0 && !options.remotes && !options.all ? 'create' : 'list');
+  return options;
+}
+
+export interface SwitchOptions {
+  create: string | null;    // New branch to create and switch to
+  force: boolean;           // -B/-C: reset the new branch if it exists
+  detach: boolean;
+  target: string | null;    // Branch to switch to, or the new branch's start point
+  paths: string[];          // Everything after `--`: files to check out rather than a branch
+  error: string | null;
+}
+
+/**
+ * Parse git switch or git checkout arguments. `createFlag` is the flag
+ * that creates a branch: `c` for switch (`-c`/`-C`), `b` for checkout
+ * (`-b`/`-B`). Only one target may be given, `-` meaning the previous
+ * branch; anything after `--` is a path, as in
+ * `git checkout [<commit>] -- <path>...`.
+ */
+export function parseSwitchArgs(args: string[], createFlag: 'b' | 'c'): SwitchOptions {
+  const options: SwitchOptions = { create: null, force: false, detach: false, target: null, paths: [], error: null };
+  const positional: string[] = [];
+  const takeName = (flag: string, value: string | undefined) => {
+    if (value === undefined) {
+      options.error ??= `error: switch \`${flag}' requires a value`;
+    } else {
+      options.create = value;
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === `-${createFlag}` || (createFlag === 'c' && arg === '--create')) {
+      takeName(createFlag, args[++i]);
+    } else if (arg === `-${createFlag.toUpperCase()}` || (createFlag === 'c' && arg === '--force-create')) {
+      options.force = true;
+      takeName(createFlag.toUpperCase(), args[++i]);
+    } else if (arg === '--detach' || (createFlag === 'c' && arg === '-d')) {
+      options.detach = true;
+    } else if (arg === '--') {
+      options.paths = args.slice(i + 1);
+      break;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      options.error ??= arg.startsWith('--')
+        ? `error: unknown option \`${arg.slice(2)}'`
+        : `error: unknown switch \`${arg.slice(1)}'`;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length > 1) {
+    options.error ??= `fatal: only one reference expected, ${positional.length} given.`;
+  }
+  // `-` is short for `@{-1}`, the previous branch
+  options.target = positional[0] === '-' ? '@{-1}' : positional[0] ?? null;
+  return options;
+}
+
+export interface MergeOptions {
+  abort: boolean;
+  message: string | null;  // -m: the merge commit's message, instead of git's default
+  branch: string | null;   // What to merge: a branch, remote-tracking branch or any commit
+  error: string | null;
+}
+
+/**
+ * Parse git merge arguments: `[-m <message>] <branch>` or `--abort`.
+ */
+export function parseMergeArgs(args: string[]): MergeOptions {
+  const options: MergeOptions = { abort: false, message: null, branch: null, error: null };
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--abort') {
+      options.abort = true;
+    } else if (arg === '-m' || arg === '--message') {
+      if (args[i + 1] === undefined) {
+        options.error ??= "error: switch `m' requires a value";
+      } else {
+        options.message = args[++i];
+      }
+    } else if (arg.startsWith('--message=')) {
+      options.message = arg.slice('--message='.length);
+    } else if (arg.startsWith('-m') && !arg.startsWith('--')) {
+      options.message = arg.slice(2);
+    } else if (arg.startsWith('--')) {
+      options.error ??= `error: unknown option \`${arg.slice(2)}'`;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      options.error ??= `error: unknown switch \`${arg.slice(1)}'`;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length > 1) {
+    options.error ??= 'fatal: merging more than one branch at a time is not supported';
+  }
+  options.branch = positional[0] ?? null;
+  return options;
+}
+
+export type RebaseAction = 'start' | 'continue' | 'abort' | 'skip';
+
+export interface RebaseOptions {
+  action: RebaseAction;
+  interactive: boolean;
+  onto: string | null;      // --onto: the new base, when it isn't the upstream
+  upstream: string | null;  // Defaults to the branch's upstream
+  branch: string | null;    // Branch to switch to before rebasing
+  error: string | null;
+}
+
+/**
+ * Parse git rebase arguments: `[-i] [--onto <newbase>] [<upstream> [<branch>]]`
+ * to start a rebase, or one of --continue, --abort and --skip.
+ */
+export function parseRebaseArgs(args: string[]): RebaseOptions {
+  const options: RebaseOptions = {
+    action: 'start',
+    interactive: false,
+    onto: null,
+    upstream: null,
+    branch: null,
+    error: null,
+  };
+  const positional: string[] = [];
+  const takeOnto = (value: string | undefined) => {
+    if (value === undefined) {
+      options.error ??= "error: option `onto' requires a value";
+    } else {
+      options.onto = value;
+    }
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--continue' || arg === '--abort' || arg === '--skip') {
+      options.action = arg.slice(2) as RebaseAction;
+    } else if (arg === '-i' || arg === '--interactive') {
+      options.interactive = true;
+    } else if (arg === '--onto') {
+      takeOnto(args[++i]);
+    } else if (arg.startsWith('--onto=')) {
+      takeOnto(arg.slice('--onto='.length));
+    } else if (arg.startsWith('--')) {
+      options.error ??= `error: unknown option \`${arg.slice(2)}'`;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      options.error ??= `error: unknown switch \`${arg.slice(1)}'`;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length > 2 || (options.action !== 'start' && args.length > 1)) {
+    options.error ??= 'usage: git rebase [-i] [--onto <newbase>] [<upstream> [<branch>]]\n   or: git rebase --continue | --abort | --skip';
+  }
+  options.upstream = positional[0] ?? null;
+  options.branch = positional[1] ?? null;
+  return options;
+}
+
+export type SequencerCommand = 'cherry-pick' | 'revert';
+
+export interface SequencerOptions {
+  action: 'start' | 'continue' | 'abort' | 'skip';
+  edit: boolean | null;  // -e/--edit or --no-edit; by default only revert edits
+  commits: string[];
+  error: string | null;
+}
+
+/**
+ * Parse git cherry-pick and git revert arguments: `[--[no-]edit] <commit>...`
+ * to start, or one of --continue, --abort and --skip.
+ */
+export function parseSequencerArgs(args: string[], command: SequencerCommand): SequencerOptions {
+  const options: SequencerOptions = { action: 'start', edit: null, commits: [], error: null };
+  for (const arg of args) {
+    if (arg === '--continue' || arg === '--abort' || arg === '--skip') {
+      options.action = arg.slice(2) as SequencerOptions['action'];
+    } else if (arg === '-e' || arg === '--edit') {
+      options.edit = true;
+    } else if (arg === '--no-edit') {
+      options.edit = false;
+    } else if (arg.startsWith('--')) {
+      options.error ??= `error: unknown option \`${arg.slice(2)}'`;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      options.error ??= `error: unknown switch \`${arg.slice(1)}'`;
+    } else {
+      options.commits.push(arg);
+    }
+  }
+
+  if (options.action === 'start' ? options.commits.length === 0 : args.length > 1) {
+    options.error ??= `usage: git ${command} [--[no-]edit] <commit>...\n   or: git ${command} (--continue | --skip | --abort)`;
+  }
+  return options;
+}
@@ -6,11 +6,28 @@ import { describe, it, expect } from 'vitest';
 import {
   parseCommandLine,
   extractRedirection,
+  tokenizeCommandLine,
+  parseShellCommand,
+  getSimpleCommands,
+  expandArgs,
+  resolveOutputSinks,
   resolvePath,
   parseHeadTailArgs,
   getFirstNLines,
   getLastNLines,
   parseRmArgs,
+  parseDiffArgs,
+  parseOptions,
+  parseFindArgs,
+  parseStashRef,
+  parseShowArgs,
+  parseLogArgs,
+  parseCommitArgs,
+  parseBranchArgs,
+  parseSwitchArgs,
+  parseMergeArgs,
+  parseRebaseArgs,
+  parseSequencerArgs,
 } from './parsing';
 import { CWD } from '../config';
 
@@ -148,6 +165,185 @@ describe('extractRedirection', () => {
   });
 });
 
+describe('tokenizeCommandLine', () => {
+  const values = (input: string) => tokenizeCommandLine(input).map((token) => token.value);
+
+  it('splits operators from words even without spaces', () => {
+    expect(values('git add .&&git status')).toEqual(['git', 'add', '.', '&&', 'git', 'status']);
+    expect(values('echo hi>file.txt')).toEqual(['echo', 'hi', '>', 'file.txt']);
+  });
+
+  it('prefers two-character operators', () => {
+    expect(values('a || b >> c | d')).toEqual(['a', '||', 'b', '>>', 'c', '|', 'd']);
+  });
+
+  it('keeps operators inside quotes as part of the word', () => {
+    expect(tokenizeCommandLine('git commit -m "a && b | c"')[3]).toMatchObject({
+      type: 'word',
+      value: 'a && b | c',
+    });
+  });
+
+  it('joins quoted and unquoted parts of one word', () => {
+    expect(values('echo pre"fix suf"fix')).toEqual(['echo', 'prefix suffix']);
+  });
+
+  it('keeps empty quoted strings as arguments', () => {
+    expect(values('echo ""')).toEqual(['echo', '']);
+  });
+
+  it('records where each token starts and ends', () => {
+    expect(tokenizeCommandLine('ls  "a b"')[1]).toMatchObject({ start: 4, end: 9 });
+  });
+
+  it('throws on an unclosed quote', () => {
+    expect(() => tokenizeCommandLine('echo "oops')).toThrow('unexpected EOF while looking for matching `"\'');
+  });
+});
+
+describe('parseShellCommand', () => {
+  it('parses a single command', () => {
+    expect(parseShellCommand('git status')).toEqual({
+      steps: [{
+        operator: null,
+        pipeline: { commands: [{ args: ['git', 'status'], redirects: [], source: 'git status' }] },
+      }],
+    });
+  });
+
+  it('parses a list joined by &&, || and ;', () => {
+    const list = parseShellCommand('git add . && git commit -m "x" || echo failed; ls');
+
+    expect(list.steps.map((step) => step.operator)).toEqual([null, '&&', '||', ';']);
+    expect(list.steps.map((step) => step.pipeline.commands[0].source)).toEqual([
+      'git add .',
+      'git commit -m "x"',
+      'echo failed',
+      'ls',
+    ]);
+  });
+
+  it('parses a pipeline', () => {
+    const [step] = parseShellCommand('git log | head -n 3').steps;
+
+    expect(step.pipeline.commands.map((command) => command.args)).toEqual([
+      ['git', 'log'],
+      ['head', '-n', '3'],
+    ]);
+  });
+
+  it('attaches redirections to their command', () => {
+    const [step] = parseShellCommand('cat a.txt | head -n 1 >> out.txt').steps;
+
+    expect(step.pipeline.commands[0].redirects).toEqual([]);
+    expect(step.pipeline.commands[1]).toEqual({
+      args: ['head', '-n', '1'],
+      redirects: [{ stream: 'stdout', target: 'out.txt', append: true }],
+      source: 'head -n 1 >> out.txt',
+    });
+  });
+
+  it('parses stderr redirections in order', () => {
+    const [step] = parseShellCommand('git log > out.txt 2>&1 2>> err.txt').steps;
+
+    expect(step.pipeline.commands[0].args).toEqual(['git', 'log']);
+    expect(step.pipeline.commands[0].redirects).toEqual([
+      { stream: 'stdout', target: 'out.txt', append: false },
+      { stream: 'stderr', toStdout: true },
+      { stream: 'stderr', target: 'err.txt', append: true },
+    ]);
+  });
+
+  it('only treats 2> as a redirection at the start of a word', () => {
+    const [step] = parseShellCommand('echo file2>out.txt').steps;
+
+    expect(step.pipeline.commands[0].args).toEqual(['echo', 'file2']);
+    expect(step.pipeline.commands[0].redirects).toEqual([{ stream: 'stdout', target: 'out.txt', append: false }]);
+  });
+
+  it('allows a trailing semicolon', () => {
+    expect(parseShellCommand('ls;').steps).toHaveLength(1);
+  });
+
+  it('returns no steps for empty input', () => {
+    expect(parseShellCommand('   ')).toEqual({ steps: [] });
+  });
+
+  it.each([
+    ['&& ls', '&&'],
+    ['ls |', 'newline'],
+    ['ls &&', 'newline'],
+    ['ls ; ; ls', ';'],
+    ['ls | | wc', '|'],
+    ['echo hi >', 'newline'],
+    ['echo hi > | cat', '|'],
+    ['ls 2>', 'newline'],
+  ])('rejects %j near %s', (input, token) => {
+    expect(() => parseShellCommand(input)).toThrow(`syntax error near unexpected token \`${token}'`);
+  });
+});
+
+describe('expandArgs', () => {
+  const argsOf = (input: string) => parseShellCommand(input).steps[0].pipeline.commands[0].args;
+
+  it('fills in $? unquoted and in double quotes', () => {
+    expect(expandArgs(argsOf('echo $? "code $?"'), 128)).toEqual(['echo', '128', 'code 128']);
+  });
+
+  it('leaves $? alone in single quotes', () => {
+    expect(expandArgs(argsOf("echo '$?'"), 1)).toEqual(['echo', '$?']);
+  });
+
+  it('leaves other arguments unchanged', () => {
+    expect(expandArgs(['git', 'status'], 0)).toEqual(['git', 'status']);
+  });
+});
+
+describe('resolveOutputSinks', () => {
+  const sinksOf = (input: string) => resolveOutputSinks(parseShellCommand(input).steps[0].pipeline.commands[0].redirects);
+
+  it('leaves both streams alone without redirections', () => {
+    expect(sinksOf('ls')).toEqual({ stdout: 'stdout', stderr: 'stderr' });
+  });
+
+  it('sends each stream to its own file', () => {
+    expect(sinksOf('ls > out.txt 2>> err.txt')).toEqual({
+      stdout: { path: 'out.txt', append: false },
+      stderr: { path: 'err.txt', append: true },
+    });
+  });
+
+  it('sends both streams to the file with > file 2>&1', () => {
+    expect(sinksOf('ls > out.txt 2>&1')).toEqual({
+      stdout: { path: 'out.txt', append: false },
+      stderr: { path: 'out.txt', append: false },
+    });
+  });
+
+  it('sends stderr where stdout was before with 2>&1 > file', () => {
+    expect(sinksOf('ls 2>&1 > out.txt')).toEqual({
+      stdout: { path: 'out.txt', append: false },
+      stderr: 'stdout',
+    });
+  });
+
+  it('discards streams sent to /dev/null', () => {
+    expect(sinksOf('cat missing.txt 2>/dev/null')).toEqual({ stdout: 'stdout', stderr: 'discard' });
+    expect(sinksOf('ls > /dev/null 2>&1')).toEqual({ stdout: 'discard', stderr: 'discard' });
+  });
+
+  it('lets the last redirection of a stream win', () => {
+    expect(sinksOf('echo hi > a.txt > b.txt').stdout).toEqual({ path: 'b.txt', append: false });
+  });
+});
+
+describe('getSimpleCommands', () => {
+  it('flattens lists and pipelines in order', () => {
+    const commands = getSimpleCommands(parseShellCommand('a | b && c; d | e'));
+    expect(commands.map((command) => command.args[0])).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+});
+
 describe('resolvePath', () => {
   it('returns absolute path unchanged', () => {
     expect(resolvePath('/absolute/path')).toBe('/absolute/path');
@@ -161,8 +357,15 @@ describe('resolvePath', () => {
     expect(resolvePath('src/lib/file.ts')).toBe(`${CWD}/src/lib/file.ts`);
   });
 
-  it('handles path starting with dot', () => {
-    expect(resolvePath('./file.txt')).toBe(`${CWD}/./file.txt`);
+  it('normalizes . and .. segments', () => {
+    expect(resolvePath('./file.txt')).toBe(`${CWD}/file.txt`);
+    expect(resolvePath('src/../file.txt')).toBe(`${CWD}/file.txt`);
+    expect(resolvePath('/a//b/../c/')).toBe('/a/c');
+  });
+
+  it('resolves from the given directory', () => {
+    expect(resolvePath('file.txt', `${CWD}/src`)).toBe(`${CWD}/src/file.txt`);
+    expect(resolvePath('..', `${CWD}/src`)).toBe(CWD);
   });
 });
 
@@ -182,6 +385,11 @@ describe('parseHeadTailArgs', () => {
     expect(result).toEqual({ numLines: 3, filePath: 'file.txt' });
   });
 
+  it('parses the count attached to -n or on its own', () => {
+    expect(parseHeadTailArgs(['-n4', 'file.txt'])).toEqual({ numLines: 4, filePath: 'file.txt' });
+    expect(parseHeadTailArgs(['-1'])).toEqual({ numLines: 1, filePath: undefined });
+  });
+
   it('returns undefined filePath when no file specified', () => {
     const result = parseHeadTailArgs(['-n', '5']);
     expect(result).toEqual({ numLines: 5, filePath: undefined });
@@ -279,3 +487,362 @@ describe('parseRmArgs', () => {
     expect(result).toEqual({ recursive: false, targets: [] });
   });
 });
+
+describe('parseDiffArgs', () => {
+  it('returns defaults for no arguments', () => {
+    expect(parseDiffArgs([])).toEqual({
+      staged: false,
+      stat: false,
+      nameOnly: false,
+      revisions: [],
+      paths: [],
+      hasSeparator: false,
+      error: null,
+    });
+  });
+
+  it('parses --staged', () => {
+    expect(parseDiffArgs(['--staged']).staged).toBe(true);
+  });
+
+  it('treats --cached as a synonym for --staged', () => {
+    expect(parseDiffArgs(['--cached']).staged).toBe(true);
+  });
+
+  it('collects revisions', () => {
+    const result = parseDiffArgs(['main', 'feature']);
+    expect(result.revisions).toEqual(['main', 'feature']);
+  });
+
+  it('treats arguments after -- as paths', () => {
+    const result = parseDiffArgs(['HEAD', '--', 'README.md', 'src']);
+    expect(result.revisions).toEqual(['HEAD']);
+    expect(result.paths).toEqual(['README.md', 'src']);
+    expect(result.hasSeparator).toBe(true);
+  });
+
+  it('parses --stat and --name-only anywhere before --', () => {
+    expect(parseDiffArgs(['HEAD~1', 'HEAD', '--stat'])).toMatchObject({ stat: true, revisions: ['HEAD~1', 'HEAD'] });
+    expect(parseDiffArgs(['--name-only', 'HEAD~1']).nameOnly).toBe(true);
+  });
+
+  it('reports unknown options', () => {
+    expect(parseDiffArgs(['--color', 'HEAD']).error).toBe('error: invalid option: --color');
+    expect(parseDiffArgs(['--', '--color']).error).toBeNull();
+  });
+});
+
+describe('parseOptions', () => {
+  it('separates flags from operands', () => {
+    const result = parseOptions(['-n', 'TODO', 'a.txt'], 'n');
+    expect([...result.flags]).toEqual(['n']);
+    expect(result.operands).toEqual(['TODO', 'a.txt']);
+    expect(result.invalid).toBeNull();
+  });
+
+  it('splits combined flags', () => {
+    expect([...parseOptions(['-la'], 'la').flags]).toEqual(['l', 'a']);
+  });
+
+  it('treats everything after -- and a lone - as operands', () => {
+    expect(parseOptions(['--', '-v'], 'v').operands).toEqual(['-v']);
+    expect(parseOptions(['-'], '').operands).toEqual(['-']);
+  });
+
+  it('reports the first unknown flag', () => {
+    expect(parseOptions(['-lxy'], 'l').invalid).toBe('x');
+  });
+});
+
+describe('parseFindArgs', () => {
+  it('defaults to the current directory', () => {
+    expect(parseFindArgs([])).toEqual({ paths: ['.'], name: null, type: null, error: null });
+  });
+
+  it('parses starting paths and tests', () => {
+    expect(parseFindArgs(['src', 'docs', '-name', '*.md', '-type', 'f'])).toEqual({
+      paths: ['src', 'docs'],
+      name: '*.md',
+      type: 'f',
+      error: null,
+    });
+  });
+
+  it('reports missing and unknown arguments', () => {
+    expect(parseFindArgs(['-name']).error).toBe("missing argument to '-name'");
+    expect(parseFindArgs(['-type', 'x']).error).toBe('Unknown argument to -type: x');
+    expect(parseFindArgs(['-size', '1k']).error).toBe("unknown predicate '-size'");
+  });
+});
+
+describe('parseStashRef', () => {
+  it('defaults to the latest entry', () => {
+    expect(parseStashRef(undefined)).toBe(0);
+  });
+
+  it('accepts stash@{n} and bare indexes', () => {
+    expect(parseStashRef('stash@{2}')).toBe(2);
+    expect(parseStashRef('1')).toBe(1);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseStashRef('stash')).toBeNull();
+    expect(parseStashRef('stash@{x}')).toBeNull();
+    expect(parseStashRef('-1')).toBeNull();
+  });
+});
+
+describe('parseLogArgs', () => {
+  it('returns defaults for no arguments', () => {
+    expect(parseLogArgs([])).toEqual({
+      oneline: false,
+      graph: false,
+      all: false,
+      stat: false,
+      patch: false,
+      decorate: false,
+      maxCount: null,
+      author: null,
+      format: null,
+      revisions: [],
+      error: null,
+    });
+  });
+
+  it('parses flags and revisions', () => {
+    const result = parseLogArgs(['--oneline', '--graph', '--all', '--stat', 'feature']);
+    expect(result).toMatchObject({ oneline: true, graph: true, all: true, stat: true, revisions: ['feature'] });
+  });
+
+  it('accepts every way of limiting the count', () => {
+    expect(parseLogArgs(['-n', '3']).maxCount).toBe(3);
+    expect(parseLogArgs(['-n3']).maxCount).toBe(3);
+    expect(parseLogArgs(['-3']).maxCount).toBe(3);
+    expect(parseLogArgs(['--max-count=3']).maxCount).toBe(3);
+  });
+
+  it('parses --author and --format values', () => {
+    expect(parseLogArgs(['--author=Alice']).author).toBe('Alice');
+    expect(parseLogArgs(['--author', 'Alice']).author).toBe('Alice');
+    expect(parseLogArgs(['--format=%h %s']).format).toBe('%h %s');
+    expect(parseLogArgs(['--pretty=format:%an']).format).toBe('%an');
+  });
+
+  it('turns decorations on and off, the last flag winning', () => {
+    expect(parseLogArgs(['--decorate']).decorate).toBe(true);
+    expect(parseLogArgs(['--decorate', '--no-decorate']).decorate).toBe(false);
+  });
+
+  it('reads named formats and rejects unknown ones', () => {
+    expect(parseLogArgs(['--pretty=oneline'])).toMatchObject({ oneline: false, format: '%H %s' });
+    expect(parseLogArgs(['--format=oneline']).format).toBe('%H %s');
+    expect(parseLogArgs(['--pretty=medium']).format).toBeNull();
+    expect(parseLogArgs(['--pretty=fuller']).error).toBe('fatal: invalid --pretty format: fuller');
+  });
+
+  it('reports bad counts and unknown options', () => {
+    expect(parseLogArgs(['-n', 'x']).error).toBe("fatal: 'x': not an integer");
+    expect(parseLogArgs(['--bogus']).error).toBe('fatal: unrecognized argument: --bogus');
+  });
+});
+
+describe('parseShowArgs', () => {
+  it('defaults to HEAD', () => {
+    expect(parseShowArgs([])).toEqual({ stat: false, nameOnly: false, revision: 'HEAD', error: null });
+  });
+
+  it('parses --stat and --name-only on either side of the object', () => {
+    expect(parseShowArgs(['--stat', 'HEAD~1'])).toMatchObject({ stat: true, revision: 'HEAD~1' });
+    expect(parseShowArgs(['v1', '--name-only'])).toMatchObject({ nameOnly: true, revision: 'v1' });
+  });
+
+  it('reports unknown options', () => {
+    expect(parseShowArgs(['--word-diff']).error).toBe('fatal: unrecognized argument: --word-diff');
+  });
+});
+
+describe('parseCommitArgs', () => {
+  it('returns defaults for no arguments', () => {
+    expect(parseCommitArgs([])).toEqual({
+      messages: [],
+      all: false,
+      amend: false,
+      allowEmpty: false,
+      noEdit: false,
+      pathspecs: [],
+      error: null,
+    });
+  });
+
+  it('collects every message', () => {
+    expect(parseCommitArgs(['-m', 'Subject', '-m', 'Body', '--message=More', '-mLast']).messages)
+      .toEqual(['Subject', 'Body', 'More', 'Last']);
+  });
+
+  it('parses flags, including -am', () => {
+    expect(parseCommitArgs(['-am', 'Fix'])).toMatchObject({ all: true, messages: ['Fix'] });
+    expect(parseCommitArgs(['--all', '--amend', '--allow-empty', '--no-edit']))
+      .toMatchObject({ all: true, amend: true, allowEmpty: true, noEdit: true });
+  });
+
+  it('keeps other arguments as pathspecs', () => {
+    expect(parseCommitArgs(['-m', 'Fix', 'README.md']).pathspecs).toEqual(['README.md']);
+  });
+
+  it('reports a missing message and unknown options', () => {
+    expect(parseCommitArgs(['-m']).error).toBe("error: switch `m' requires a value");
+    expect(parseCommitArgs(['--fixup']).error).toBe("error: unknown option `fixup'");
+    expect(parseCommitArgs(['-x']).error).toBe("error: unknown switch `x'");
+  });
+});
+
+describe('parseBranchArgs', () => {
+  it('lists without arguments and creates with a name', () => {
+    expect(parseBranchArgs([])).toMatchObject({ mode: 'list', names: [] });
+    expect(parseBranchArgs(['feature', 'main'])).toMatchObject({ mode: 'create', names: ['feature', 'main'] });
+  });
+
+  it('lists when names come with -r or -a', () => {
+    expect(parseBranchArgs(['-r', 'origin/*']).mode).toBe('list');
+    expect(parseBranchArgs(['--all', 'x']).mode).toBe('list');
+  });
+
+  it('combines short flags', () => {
+    expect(parseBranchArgs(['-vv'])).toMatchObject({ mode: 'list', verbose: 2 });
+    expect(parseBranchArgs(['-av'])).toMatchObject({ all: true, verbose: 1 });
+    expect(parseBranchArgs(['-D', 'old'])).toMatchObject({ mode: 'delete', force: true, names: ['old'] });
+    expect(parseBranchArgs(['-m', 'a', 'b'])).toMatchObject({ mode: 'rename', force: false, names: ['a', 'b'] });
+  });
+
+  it('parses the upstream options', () => {
+    expect(parseBranchArgs(['-u', 'origin/main'])).toMatchObject({ mode: 'set-upstream', upstream: 'origin/main' });
+    expect(parseBranchArgs(['--set-upstream-to=origin/x', 'x']))
+      .toMatchObject({ mode: 'set-upstream', upstream: 'origin/x', names: ['x'] });
+    expect(parseBranchArgs(['--unset-upstream']).mode).toBe('unset-upstream');
+  });
+
+  it('reports unknown options and a missing upstream', () => {
+    expect(parseBranchArgs(['-x']).error).toBe("error: unknown switch `x'");
+    expect(parseBranchArgs(['--nope']).error).toBe("error: unknown option `nope'");
+    expect(parseBranchArgs(['-u']).error).toBe("error: option `set-upstream-to' requires a value");
+  });
+});
+
+describe('parseSwitchArgs', () => {
+  it('takes the target', () => {
+    expect(parseSwitchArgs(['main'], 'c')).toEqual({
+      create: null,
+      force: false,
+      detach: false,
+      target: 'main',
+      paths: [],
+      error: null,
+    });
+  });
+
+  it('creates with -c for switch and -b for checkout', () => {
+    expect(parseSwitchArgs(['-c', 'feature', 'main'], 'c')).toMatchObject({ create: 'feature', target: 'main' });
+    expect(parseSwitchArgs(['-B', 'feature'], 'b')).toMatchObject({ create: 'feature', force: true, target: null });
+    expect(parseSwitchArgs(['-c', 'feature'], 'b').error).toBe("error: unknown switch `c'");
+  });
+
+  it('detaches with --detach, or -d for switch', () => {
+    expect(parseSwitchArgs(['--detach', 'v1'], 'b')).toMatchObject({ detach: true, target: 'v1' });
+    expect(parseSwitchArgs(['-d', 'v1'], 'c').detach).toBe(true);
+  });
+
+  it('takes everything after -- as paths', () => {
+    expect(parseSwitchArgs(['--', 'f.txt', '-b'], 'b')).toMatchObject({ target: null, paths: ['f.txt', '-b'], error: null });
+    expect(parseSwitchArgs(['HEAD~1', '--', 'f.txt'], 'b')).toMatchObject({ target: 'HEAD~1', paths: ['f.txt'] });
+  });
+
+  it('reads - as the previous branch', () => {
+    expect(parseSwitchArgs(['-'], 'c').target).toBe('@{-1}');
+    expect(parseSwitchArgs(['-b', 'topic', '-'], 'b')).toMatchObject({ create: 'topic', target: '@{-1}' });
+  });
+
+  it('reports a missing name and extra targets', () => {
+    expect(parseSwitchArgs(['-c'], 'c').error).toBe("error: switch `c' requires a value");
+    expect(parseSwitchArgs(['a', 'b'], 'c').error).toBe('fatal: only one reference expected, 2 given.');
+  });
+});
+
+describe('parseMergeArgs', () => {
+  it('takes the branch to merge', () => {
+    expect(parseMergeArgs(['origin/master'])).toEqual({ abort: false, message: null, branch: 'origin/master', error: null });
+  });
+
+  it('takes a message before or after the branch', () => {
+    expect(parseMergeArgs(['-m', 'Join side', 'side'])).toMatchObject({ message: 'Join side', branch: 'side' });
+    expect(parseMergeArgs(['side', '--message=Join side'])).toMatchObject({ message: 'Join side', branch: 'side' });
+    expect(parseMergeArgs(['-mJoin', 'side'])).toMatchObject({ message: 'Join', branch: 'side' });
+  });
+
+  it('parses --abort', () => {
+    expect(parseMergeArgs(['--abort'])).toMatchObject({ abort: true, branch: null });
+  });
+
+  it('reports unknown options, a missing message and more than one branch', () => {
+    expect(parseMergeArgs(['--squash', 'side']).error).toBe("error: unknown option `squash'");
+    expect(parseMergeArgs(['side', '-m']).error).toBe("error: switch `m' requires a value");
+    expect(parseMergeArgs(['a', 'b']).error).toBe('fatal: merging more than one branch at a time is not supported');
+  });
+});
+
+describe('parseRebaseArgs', () => {
+  it('takes the upstream and branch', () => {
+    expect(parseRebaseArgs(['main', 'feature'])).toEqual({
+      action: 'start',
+      interactive: false,
+      onto: null,
+      upstream: 'main',
+      branch: 'feature',
+      error: null,
+    });
+  });
+
+  it('parses -i and --onto', () => {
+    expect(parseRebaseArgs(['-i', '--onto', 'main', 'base'])).toMatchObject({ interactive: true, onto: 'main', upstream: 'base' });
+    expect(parseRebaseArgs(['--onto=main', 'base']).onto).toBe('main');
+  });
+
+  it('parses --continue, --abort and --skip on their own', () => {
+    expect(parseRebaseArgs(['--continue']).action).toBe('continue');
+    expect(parseRebaseArgs(['--abort']).action).toBe('abort');
+    expect(parseRebaseArgs(['--skip', 'main']).error).toMatch(/^usage: git rebase/);
+  });
+
+  it('reports unknown options and a missing --onto value', () => {
+    expect(parseRebaseArgs(['--merge']).error).toBe("error: unknown option `merge'");
+    expect(parseRebaseArgs(['--onto']).error).toBe("error: option `onto' requires a value");
+  });
+});
+
+describe('parseSequencerArgs', () => {
+  it('parses the commits to apply', () => {
+    expect(parseSequencerArgs(['abc1234', 'feature'], 'cherry-pick')).toEqual({
+      action: 'start',
+      edit: null,
+      commits: ['abc1234', 'feature'],
+      error: null,
+    });
+  });
+
+  it('parses --edit and --no-edit', () => {
+    expect(parseSequencerArgs(['-e', 'HEAD'], 'cherry-pick').edit).toBe(true);
+    expect(parseSequencerArgs(['--no-edit', 'HEAD'], 'revert').edit).toBe(false);
+  });
+
+  it('parses --continue, --abort and --skip on their own', () => {
+    expect(parseSequencerArgs(['--continue'], 'revert').action).toBe('continue');
+    expect(parseSequencerArgs(['--abort'], 'cherry-pick').action).toBe('abort');
+    expect(parseSequencerArgs(['--skip', 'HEAD'], 'cherry-pick').error).toMatch(/^usage: git cherry-pick/);
+  });
+
+  it('requires a commit to start', () => {
+    expect(parseSequencerArgs([], 'revert').error).toBe(
+      'usage: git revert [--[no-]edit] <commit>...\n   or: git revert (--continue | --skip | --abort)',
+    );
+    expect(parseSequencerArgs(['-x', 'HEAD'], 'cherry-pick').error).toBe("error: unknown switch `x'");
+  });
+});
@@ -1,6 +1,13 @@
 import { resetFs } from '../fs';
-import { CWD } from '../config';
 import { clearGitStateHash } from '../gitStateHash';
+import { undo, redo } from '../sandboxHistory';
+import {
+  getCurrentDir,
+  changeDir,
+  pushDir,
+  popDir,
+  resetWorkingDirectory,
+} from '../workingDirectory';
 import {
   registerCommand,
   getCommandsByCategory,
@@ -56,26 +63,79 @@ function formatHelpOutput(): string {
 }
 
 async function handleEchoCommand(args: string[]): Promise<CommandResult> {
-  return { output: args.join(' '), success: true };
+  return { stdout: args.join(' '), stderr: '', exitCode: 0 };
 }
 
 async function handlePwdCommand(): Promise<CommandResult> {
-  return { output: CWD, success: true };
+  return { stdout: getCurrentDir(), stderr: '', exitCode: 0 };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function handleCdCommand(args: string[]): Promise<CommandResult> {
+  if (args.length > 1) {
+    return { stdout: '', stderr: 'cd: too many arguments', exitCode: 1 };
+  }
+  try {
+    await changeDir(args[0] ?? '~');
+  } catch (error) {
+    return { stdout: '', stderr: `cd: ${errorMessage(error)}`, exitCode: 1 };
+  }
+  // Like bash, `cd -` prints the directory it went to
+  return { stdout: args[0] === '-' ? getCurrentDir() : '', stderr: '', exitCode: 0 };
+}
+
+async function handlePushdCommand(args: string[]): Promise<CommandResult> {
+  if (!args[0]) {
+    return { stdout: '', stderr: 'pushd: no other directory', exitCode: 1 };
+  }
+  try {
+    const stack = await pushDir(args[0]);
+    return { stdout: stack.join(' '), stderr: '', exitCode: 0 };
+  } catch (error) {
+    return { stdout: '', stderr: `pushd: ${errorMessage(error)}`, exitCode: 1 };
+  }
+}
+
+async function handlePopdCommand(): Promise<CommandResult> {
+  try {
+    const stack = await popDir();
+    return { stdout: stack.join(' '), stderr: '', exitCode: 0 };
+  } catch (error) {
+    return { stdout: '', stderr: `popd: ${errorMessage(error)}`, exitCode: 1 };
+  }
 }
 
 async function handleHelpCommand(): Promise<CommandResult> {
-  return { output: formatHelpOutput(), success: true };
+  return { stdout: formatHelpOutput(), stderr: '', exitCode: 0 };
 }
 
 async function handleResetCommand(): Promise<CommandResult> {
   await resetFs();
   clearGitStateHash();
-  return { output: 'Environment reset. Run "git init" to start fresh.', success: true };
+  resetWorkingDirectory();
+  return { stdout: 'Environment reset. Run "git init" to start fresh.', stderr: '', exitCode: 0 };
+}
+
+async function handleUndoCommand(): Promise<CommandResult> {
+  if (!await undo()) {
+    return { stdout: '', stderr: 'Nothing to undo', exitCode: 1 };
+  }
+  return { stdout: 'Undid the last change to the sandbox.', stderr: '', exitCode: 0 };
+}
+
+async function handleRedoCommand(): Promise<CommandResult> {
+  if (!await redo()) {
+    return { stdout: '', stderr: 'Nothing to redo', exitCode: 1 };
+  }
+  return { stdout: 'Redid the last undone change.', stderr: '', exitCode: 0 };
 }
 
 async function handleClearCommand(): Promise<CommandResult> {
   // Return escape sequence to clear screen and move cursor to top
-  return { output: '\x1b[2J\x1b[H', success: true };
+  return { stdout: '\x1b[2J\x1b[H', stderr: '', exitCode: 0 };
 }
 
 // Register shell commands
@@ -94,6 +154,29 @@ registerCommand({
   category: 'shell',
 });
 
+registerCommand({
+  name: 'cd',
+  description: 'Change the current directory',
+  usage: '[dir]',
+  handler: handleCdCommand,
+  category: 'shell',
+});
+
+registerCommand({
+  name: 'pushd',
+  description: 'Change directory, remembering the current one',
+  usage: '<dir>',
+  handler: handlePushdCommand,
+  category: 'shell',
+});
+
+registerCommand({
+  name: 'popd',
+  description: 'Return to the last directory saved by pushd',
+  handler: handlePopdCommand,
+  category: 'shell',
+});
+
 registerCommand({
   name: 'clear',
   description: 'Clear the terminal screen',
@@ -108,6 +191,20 @@ registerCommand({
   category: 'shell',
 });
 
+registerCommand({
+  name: 'undo',
+  description: 'Undo the last command that changed the sandbox',
+  handler: handleUndoCommand,
+  category: 'shell',
+});
+
+registerCommand({
+  name: 'redo',
+  description: 'Redo the last undone change',
+  handler: handleRedoCommand,
+  category: 'shell',
+});
+
 registerCommand({
   name: 'help',
   description: 'Show this help message',
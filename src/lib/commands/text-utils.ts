@@ -0,0 +1,203 @@
+/**
+ * Pure text functions for the file utilities (wc, grep, sort, uniq, find, tree, ls -l).
+ * No I/O, no side effects - fully unit testable.
+ */
+
+/**
+ * Split text into lines. A trailing newline ends the last line
+ * rather than starting an empty one, and empty text has no lines.
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+export interface TextCounts {
+  lines: number;
+  words: number;
+  bytes: number;
+}
+
+export function countText(text: string): TextCounts {
+  return {
+    lines: splitLines(text).length,
+    words: text.split(/\s+/).filter(Boolean).length,
+    bytes: new TextEncoder().encode(text).length,
+  };
+}
+
+/**
+ * Format `wc` output: one row per input (plus a total for several),
+ * with the selected counts right-aligned in a shared column width.
+ */
+export function formatCounts(
+  rows: { label: string | null; counts: TextCounts }[],
+  selected: (keyof TextCounts)[],
+): string {
+  const all = rows.length > 1
+    ? [...rows, {
+        label: 'total',
+        counts: {
+          lines: rows.reduce((sum, row) => sum + row.counts.lines, 0),
+          words: rows.reduce((sum, row) => sum + row.counts.words, 0),
+          bytes: rows.reduce((sum, row) => sum + row.counts.bytes, 0),
+        },
+      }]
+    : rows;
+  const width = selected.length === 1
+    ? 1
+    : Math.max(...all.flatMap(({ counts }) => selected.map((key) => String(counts[key]).length)));
+  return all
+    .map(({ label, counts }) => {
+      const numbers = selected.map((key) => String(counts[key]).padStart(width)).join(' ');
+      return label === null ? numbers : `${numbers} ${label}`;
+    })
+    .join('\n');
+}
+
+export interface GrepOptions {
+  ignoreCase: boolean;
+  invert: boolean;
+  lineNumbers: boolean;
+}
+
+/**
+ * Compile a grep pattern. Patterns are regular expressions;
+ * throws with grep's message when the pattern is invalid.
+ */
+export function compileGrepPattern(pattern: string, ignoreCase: boolean): RegExp {
+  try {
+    return new RegExp(pattern, ignoreCase ? 'i' : '');
+  } catch {
+    throw new Error(`Invalid regular expression: ${pattern}`);
+  }
+}
+
+/**
+ * Find the lines of a text matching a pattern, formatted as grep prints them:
+ * `file:` in front when `label` is given, then `n:` with line numbers.
+ */
+export function grepLines(text: string, pattern: RegExp, options: GrepOptions, label: string | null = null): string[] {
+  const matches: string[] = [];
+  splitLines(text).forEach((line, index) => {
+    if (pattern.test(line) === options.invert) return;
+    const prefix = (label === null ? '' : `${label}:`) + (options.lineNumbers ? `${index + 1}:` : '');
+    matches.push(`${prefix}${line}`);
+  });
+  return matches;
+}
+
+/**
+ * Sort lines like `sort`: by text, or by leading number with `numeric`
+ * (lines without one count as 0). `unique` keeps the first of equal lines.
+ */
+export function sortLines(lines: string[], options: { numeric: boolean; reverse: boolean; unique: boolean }): string[] {
+  const compare = (a: string, b: string): number => {
+    if (options.numeric) {
+      const diff = (parseFloat(a) || 0) - (parseFloat(b) || 0);
+      if (diff !== 0) return diff;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+  };
+  const sorted = [...lines].sort(compare);
+  if (options.reverse) sorted.reverse();
+  return options.unique
+    ? sorted.filter((line, i) => i === 0 || compare(sorted[i - 1], line) !== 0)
+    : sorted;
+}
+
+/**
+ * Collapse runs of equal adjacent lines like `uniq`. `count` prefixes each
+ * line with how often it repeated; `duplicatesOnly` drops lines seen once.
+ */
+export function uniqLines(lines: string[], options: { count: boolean; duplicatesOnly: boolean }): string[] {
+  const runs: { line: string; count: number }[] = [];
+  for (const line of lines) {
+    const last = runs[runs.length - 1];
+    if (last && last.line === line) {
+      last.count++;
+    } else {
+      runs.push({ line, count: 1 });
+    }
+  }
+  return runs
+    .filter((run) => !options.duplicatesOnly || run.count > 1)
+    .map((run) => (options.count ? `${String(run.count).padStart(7)} ${run.line}` : run.line));
+}
+
+/**
+ * Match a file name against a shell glob, as `find -name` does:
+ * `*` matches any run of characters, `?` one character, `[...]` a set.
+ */
+export function matchesGlob(name: string, pattern: string): boolean {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const close = char === '[' ? pattern.indexOf(']', i + 2) : -1;
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (close !== -1) {
+      const set = pattern.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`).test(name);
+}
+
+export interface TreeNode {
+  name: string;
+  // Directories have children (possibly none); files don't
+  children?: TreeNode[];
+}
+
+/**
+ * Draw a directory tree like `tree`, followed by a count of what's in it.
+ */
+export function formatTree(root: TreeNode): string {
+  const lines = [root.name];
+  let dirs = 0;
+  let files = 0;
+
+  const walk = (nodes: TreeNode[], indent: string) => {
+    nodes.forEach((node, index) => {
+      const last = index === nodes.length - 1;
+      lines.push(`${indent}${last ? '└── ' : '├── '}${node.name}`);
+      if (node.children) {
+        dirs++;
+        walk(node.children, indent + (last ? '    ' : '│   '));
+      } else {
+        files++;
+      }
+    });
+  };
+  walk(root.children ?? [], '');
+
+  lines.push('', `${dirs} ${dirs === 1 ? 'directory' : 'directories'}, ${files} ${files === 1 ? 'file' : 'files'}`);
+  return lines.join('\n');
+}
+
+export interface ListingEntry {
+  name: string;
+  type: 'file' | 'dir';
+  size: number;
+}
+
+/**
+ * Format entries like `ls -l`: type and permissions, size, then name.
+ */
+export function formatLongListing(entries: ListingEntry[]): string {
+  const width = Math.max(0, ...entries.map((entry) => String(entry.size).length));
+  return entries
+    .map(({ name, type, size }) => {
+      const mode = type === 'dir' ? 'drwxr-xr-x' : '-rw-r--r--';
+      return `${mode} ${String(size).padStart(width)} ${name}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the file utilities' text functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  splitLines,
+  countText,
+  formatCounts,
+  compileGrepPattern,
+  grepLines,
+  sortLines,
+  uniqLines,
+  matchesGlob,
+  formatTree,
+  formatLongListing,
+} from './text-utils';
+
+describe('splitLines', () => {
+  it('does not count a trailing newline as another line', () => {
+    expect(splitLines('a\nb\n')).toEqual(['a', 'b']);
+    expect(splitLines('a\nb')).toEqual(['a', 'b']);
+  });
+
+  it('returns no lines for empty text', () => {
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('countText', () => {
+  it('counts lines, words and bytes', () => {
+    expect(countText('hello world\nbye\n')).toEqual({ lines: 2, words: 3, bytes: 16 });
+  });
+
+  it('counts multi-byte characters as several bytes', () => {
+    expect(countText('é').bytes).toBe(2);
+  });
+});
+
+describe('formatCounts', () => {
+  const counts = { lines: 2, words: 3, bytes: 16 };
+
+  it('prints a single count with the file name', () => {
+    expect(formatCounts([{ label: 'a.txt', counts }], ['lines'])).toBe('2 a.txt');
+  });
+
+  it('aligns several counts and omits the label for stdin', () => {
+    expect(formatCounts([{ label: null, counts }], ['lines', 'words', 'bytes'])).toBe(' 2  3 16');
+  });
+
+  it('adds a total for several files', () => {
+    const rows = [{ label: 'a.txt', counts }, { label: 'b.txt', counts: { lines: 1, words: 1, bytes: 2 } }];
+    expect(formatCounts(rows, ['lines']).split('\n')).toEqual(['2 a.txt', '1 b.txt', '3 total']);
+  });
+});
+
+describe('grepLines', () => {
+  const text = 'alpha\nBeta\ngamma\n';
+  const plain = { ignoreCase: false, invert: false, lineNumbers: false };
+
+  it('returns matching lines', () => {
+    expect(grepLines(text, compileGrepPattern('a$', false), plain)).toEqual(['alpha', 'Beta', 'gamma']);
+    expect(grepLines(text, compileGrepPattern('^g', false), plain)).toEqual(['gamma']);
+  });
+
+  it('ignores case when asked', () => {
+    expect(grepLines(text, compileGrepPattern('beta', true), plain)).toEqual(['Beta']);
+  });
+
+  it('inverts the match', () => {
+    expect(grepLines(text, compileGrepPattern('m', false), { ...plain, invert: true })).toEqual(['alpha', 'Beta']);
+  });
+
+  it('prefixes the file name and line number', () => {
+    expect(grepLines(text, compileGrepPattern('Beta', false), { ...plain, lineNumbers: true }, 'a.txt'))
+      .toEqual(['a.txt:2:Beta']);
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() => compileGrepPattern('(', false)).toThrow('Invalid regular expression: (');
+  });
+});
+
+describe('sortLines', () => {
+  const plain = { numeric: false, reverse: false, unique: false };
+
+  it('sorts by text', () => {
+    expect(sortLines(['b', 'c', 'a'], plain)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sorts by number', () => {
+    expect(sortLines(['10 x', '9 y', '100 z'], { ...plain, numeric: true })).toEqual(['9 y', '10 x', '100 z']);
+  });
+
+  it('reverses and removes duplicates', () => {
+    expect(sortLines(['a', 'b', 'a'], { ...plain, reverse: true, unique: true })).toEqual(['b', 'a']);
+  });
+});
+
+describe('uniqLines', () => {
+  const lines = ['a', 'a', 'b', 'a'];
+
+  it('collapses adjacent repeats only', () => {
+    expect(uniqLines(lines, { count: false, duplicatesOnly: false })).toEqual(['a', 'b', 'a']);
+  });
+
+  it('counts repeats', () => {
+    expect(uniqLines(lines, { count: true, duplicatesOnly: false })).toEqual(['      2 a', '      1 b', '      1 a']);
+  });
+
+  it('keeps only repeated lines', () => {
+    expect(uniqLines(lines, { count: false, duplicatesOnly: true })).toEqual(['a']);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches * and ?', () => {
+    expect(matchesGlob('README.md', '*.md')).toBe(true);
+    expect(matchesGlob('README.txt', '*.md')).toBe(false);
+    expect(matchesGlob('a1.txt', 'a?.txt')).toBe(true);
+  });
+
+  it('matches character sets', () => {
+    expect(matchesGlob('b.txt', '[abc].txt')).toBe(true);
+    expect(matchesGlob('d.txt', '[!abc].txt')).toBe(true);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesGlob('a+b', 'a+b')).toBe(true);
+    expect(matchesGlob('aab', 'a+b')).toBe(false);
+  });
+});
+
+describe('formatTree', () => {
+  it('draws nested directories and counts them', () => {
+    const tree = formatTree({
+      name: '.',
+      children: [
+        { name: 'README.md' },
+        { name: 'src', children: [{ name: 'app.ts' }, { name: 'lib', children: [] }] },
+      ],
+    });
+
+    expect(tree.split('\n')).toEqual([
+      '.',
+      '├── README.md',
+      '└── src',
+      '    ├── app.ts',
+      '    └── lib',
+      '',
+      '2 directories, 2 files',
+    ]);
+  });
+
+  it('uses singular words for one of each', () => {
+    expect(formatTree({ name: '.', children: [{ name: 'a', children: [{ name: 'b' }] }] }))
+      .toContain('1 directory, 1 file');
+  });
+});
+
+describe('formatLongListing', () => {
+  it('shows the type, size and name', () => {
+    expect(formatLongListing([
+      { name: 'src', type: 'dir', size: 0 },
+      { name: 'a.txt', type: 'file', size: 120 },
+    ]).split('\n')).toEqual([
+      'drwxr-xr-x   0 src',
+      '-rw-r--r-- 120 a.txt',
+    ]);
+  });
+});
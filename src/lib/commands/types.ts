@@ -1,6 +1,18 @@
 export interface CommandResult {
-  output: string;
-  success: boolean;
+  stdout: string;
+  stderr: string;
+  exitCode: number;  // 0 for success, like a process exit status
 }
 
-export type CommandHandler = (args: string[]) => Promise<CommandResult>;
+/**
+ * The result of a whole command line, as the terminal shows it.
+ */
+export interface ShellResult extends CommandResult {
+  output: string;  // stdout and stderr interleaved in the order they were written, stderr in red
+}
+
+export interface CommandContext {
+  stdin: string | null;  // Output piped in from the previous command; null when nothing is piped
+}
+
+export type CommandHandler = (args: string[], context: CommandContext) => Promise<CommandResult>;
@@ -0,0 +1,258 @@
+/**
+ * Pure commit graph functions: ordering, lane layout and ref labels.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+export interface GraphCommit {
+  oid: string;
+  parents: string[];
+  message: string;
+  author: string;
+  timestamp: number;  // Committer time, seconds since epoch
+}
+
+export interface GraphRefs {
+  head: { branch: string | null; oid: string | null };
+  branches: Array<{ name: string; oid: string }>;
+  remoteBranches: Array<{ name: string; oid: string }>;  // e.g. "origin/main"
+  tags: Array<{ name: string; oid: string }>;
+}
+
+export type RefLabelType = 'head' | 'branch' | 'remote' | 'tag';
+
+export interface RefLabel {
+  name: string;
+  type: RefLabelType;
+  current?: boolean;  // The branch HEAD points at
+}
+
+export interface GraphNode {
+  commit: GraphCommit;
+  row: number;
+  lane: number;
+  labels: RefLabel[];
+}
+
+export interface GraphEdge {
+  from: string;       // Child oid
+  to: string;         // Parent oid
+  fromRow: number;
+  fromLane: number;
+  toRow: number;
+  toLane: number;
+  merge: boolean;     // True for second and later parents
+}
+
+export interface GraphLayout {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  laneCount: number;
+}
+
+/**
+ * Order commits newest first, always placing children before their parents
+ * (like `git log --graph --date-order`). Parents missing from the input are ignored.
+ */
+export function sortCommits<T extends GraphCommit>(commits: T[]): T[] {
+  const byOid = new Map(commits.map((c) => [c.oid, c]));
+  const childCount = new Map(commits.map((c) => [c.oid, 0]));
+  for (const commit of commits) {
+    for (const parent of commit.parents) {
+      if (byOid.has(parent)) {
+        childCount.set(parent, (childCount.get(parent) ?? 0) + 1);
+      }
+    }
+  }
+
+  const newestFirst = (a: T, b: T) =>
+    b.timestamp - a.timestamp || a.oid.localeCompare(b.oid);
+  const ready = commits.filter((c) => childCount.get(c.oid) === 0).sort(newestFirst);
+  const result: T[] = [];
+
+  while (ready.length > 0) {
+    const commit = ready.shift() as T;
+    result.push(commit);
+    for (const parent of commit.parents) {
+      const remaining = (childCount.get(parent) ?? 0) - 1;
+      childCount.set(parent, remaining);
+      const parentCommit = byOid.get(parent);
+      if (parentCommit && remaining === 0) {
+        ready.push(parentCommit);
+        ready.sort(newestFirst);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Group ref names by the commit they point at.
+ * HEAD is labelled only when detached; otherwise its branch is marked current.
+ */
+export function collectRefLabels(refs: GraphRefs): Map<string, RefLabel[]> {
+  const labels = new Map<string, RefLabel[]>();
+  const add = (oid: string, label: RefLabel) => {
+    labels.set(oid, [...(labels.get(oid) ?? []), label]);
+  };
+
+  if (refs.head.oid && !refs.head.branch) {
+    add(refs.head.oid, { name: 'HEAD', type: 'head' });
+  }
+  for (const { name, oid } of refs.branches) {
+    add(oid, { name, type: 'branch', current: name === refs.head.branch });
+  }
+  for (const { name, oid } of refs.remoteBranches) {
+    add(oid, { name, type: 'remote' });
+  }
+  for (const { name, oid } of refs.tags) {
+    add(oid, { name, type: 'tag' });
+  }
+  return labels;
+}
+
+/**
+ * Assign each commit a row and a lane (column) for drawing.
+ *
+ * Walks the commits in order keeping a list of lanes, each waiting for
+ * the next commit on that line of history. A commit takes the lane that
+ * was waiting for it (or the first free one), hands that lane to its first
+ * parent, and opens extra lanes for the other parents of a merge.
+ */
+export function layoutGraph(commits: GraphCommit[], refs: GraphRefs): GraphLayout {
+  const sorted = sortCommits(commits);
+  const known = new Set(sorted.map((c) => c.oid));
+  const labels = collectRefLabels(refs);
+  const lanes: (string | null)[] = [];
+  const positions = new Map<string, { row: number; lane: number }>();
+  const nodes: GraphNode[] = [];
+
+  const claimLane = (oid: string): number => {
+    const free = lanes.indexOf(null);
+    if (free === -1) {
+      lanes.push(oid);
+      return lanes.length - 1;
+    }
+    lanes[free] = oid;
+    return free;
+  };
+
+  sorted.forEach((commit, row) => {
+    let lane = lanes.indexOf(commit.oid);
+    if (lane === -1) {
+      lane = claimLane(commit.oid);
+    }
+    // Other lines of history converging on this commit end here
+    lanes.forEach((waiting, i) => {
+      if (waiting === commit.oid && i !== lane) {
+        lanes[i] = null;
+      }
+    });
+
+    const parents = commit.parents.filter((p) => known.has(p));
+    lanes[lane] = parents[0] ?? null;
+    for (const parent of parents.slice(1)) {
+      if (!lanes.includes(parent)) {
+        claimLane(parent);
+      }
+    }
+
+    positions.set(commit.oid, { row, lane });
+    nodes.push({ commit, row, lane, labels: labels.get(commit.oid) ?? [] });
+  });
+
+  const edges: GraphEdge[] = [];
+  for (const node of nodes) {
+    node.commit.parents.forEach((parent, i) => {
+      const target = positions.get(parent);
+      if (!target) return;
+      edges.push({
+        from: node.commit.oid,
+        to: parent,
+        fromRow: node.row,
+        fromLane: node.lane,
+        toRow: target.row,
+        toLane: target.lane,
+        merge: i > 0,
+      });
+    });
+  }
+
+  const laneCount = Math.max(0, ...nodes.map((n) => n.lane + 1));
+  return { nodes, edges, laneCount };
+}
+
+/**
+ * Draw commits as text like `git log --graph`, with each commit's lines
+ * beside its `*`. Columns are two characters wide: `|` continues a line
+ * of history, `\` opens one for a merge's other parent and `/` joins a
+ * line into the commit it was waiting for.
+ *
+ * Commits must be ordered children first (see sortCommits); parents
+ * missing from the list end their line.
+ */
+export function drawAsciiGraph<T extends GraphCommit>(commits: T[], describe: (commit: T) => string[]): string[] {
+  const known = new Set(commits.map((c) => c.oid));
+  const columns: (string | null)[] = [];
+  const output: string[] = [];
+
+  // Draw a row: lines of history in their columns, plus marks between columns
+  const row = (marks: Map<number, string> = new Map()): string => {
+    const chars: string[] = [];
+    columns.forEach((oid, i) => {
+      chars[i * 2] = oid ? '|' : ' ';
+    });
+    for (const [position, mark] of marks) {
+      chars[position] = mark;
+    }
+    return Array.from(chars, (char) => char ?? ' ').join('').trimEnd();
+  };
+
+  for (const commit of commits) {
+    let lane = columns.indexOf(commit.oid);
+    if (lane === -1) {
+      lane = columns.indexOf(null) === -1 ? columns.length : columns.indexOf(null);
+      columns[lane] = commit.oid;
+    }
+
+    // Other lines of history waiting for this commit join its lane
+    const joining = columns.flatMap((oid, i) => (oid === commit.oid && i !== lane ? [i] : []));
+    if (joining.length > 0) {
+      joining.forEach((i) => { columns[i] = null; });
+      output.push(row(new Map(joining.map((i) => [i * 2 - 1, '/']))));
+    }
+
+    const commitLine = row(new Map([[lane * 2, '*']]));
+
+    // The first parent continues the lane; other parents of a merge get new ones
+    const parents = commit.parents.filter((p) => known.has(p));
+    columns[lane] = parents[0] ?? null;
+    const opened: number[] = [];
+    for (const parent of parents.slice(1)) {
+      if (columns.includes(parent)) continue;
+      let free = columns.findIndex((oid, i) => oid === null && i > lane);
+      if (free === -1) free = columns.length;
+      columns[free] = parent;
+      opened.push(free);
+    }
+    while (columns.length > 0 && columns[columns.length - 1] === null) {
+      columns.pop();
+    }
+
+    // The new lines start from the `\` below the merge, not in their own columns yet
+    const connectors = opened.length > 0
+      ? [row(new Map(opened.flatMap((i): [number, string][] => [[i * 2 - 1, '\\'], [i * 2, ' ']])))]
+      : [];
+    const continuation = row();
+    const width = Math.max(commitLine.length, continuation.length, ...connectors.map((line) => line.length));
+
+    const [first = '', ...rest] = describe(commit);
+    output.push(`${commitLine.padEnd(width)} ${first}`.trimEnd());
+    for (let i = 0; i < Math.max(rest.length, connectors.length); i++) {
+      const prefix = connectors[i] ?? continuation;
+      output.push(`${prefix.padEnd(width)} ${rest[i] ?? ''}`.trimEnd());
+    }
+  }
+
+  return output;
+}
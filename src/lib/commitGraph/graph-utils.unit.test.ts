@@ -0,0 +1,177 @@
+/**
+ * Unit tests for pure commit graph functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  sortCommits,
+  collectRefLabels,
+  layoutGraph,
+  drawAsciiGraph,
+  type GraphCommit,
+  type GraphRefs,
+} from './graph-utils';
+
+function commit(oid: string, parents: string[], timestamp: number): GraphCommit {
+  return { oid, parents, message: `Commit ${oid}`, author: 'Test', timestamp };
+}
+
+const noRefs: GraphRefs = {
+  head: { branch: null, oid: null },
+  branches: [],
+  remoteBranches: [],
+  tags: [],
+};
+
+describe('sortCommits', () => {
+  it('orders commits newest first', () => {
+    const commits = [commit('a', [], 1), commit('b', ['a'], 2), commit('c', ['b'], 3)];
+
+    expect(sortCommits(commits).map((c) => c.oid)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('keeps children before parents even with skewed timestamps', () => {
+    const commits = [commit('a', [], 5), commit('b', ['a'], 1)];
+
+    expect(sortCommits(commits).map((c) => c.oid)).toEqual(['b', 'a']);
+  });
+
+  it('ignores parents outside the input', () => {
+    const commits = [commit('b', ['a'], 2)];
+
+    expect(sortCommits(commits).map((c) => c.oid)).toEqual(['b']);
+  });
+
+  it('returns an empty array for no commits', () => {
+    expect(sortCommits([])).toEqual([]);
+  });
+});
+
+describe('collectRefLabels', () => {
+  it('marks the checked out branch as current', () => {
+    const labels = collectRefLabels({
+      ...noRefs,
+      head: { branch: 'main', oid: 'a' },
+      branches: [{ name: 'main', oid: 'a' }, { name: 'feature', oid: 'a' }],
+    });
+
+    expect(labels.get('a')).toEqual([
+      { name: 'main', type: 'branch', current: true },
+      { name: 'feature', type: 'branch', current: false },
+    ]);
+  });
+
+  it('labels a detached HEAD', () => {
+    const labels = collectRefLabels({ ...noRefs, head: { branch: null, oid: 'a' } });
+
+    expect(labels.get('a')).toEqual([{ name: 'HEAD', type: 'head' }]);
+  });
+
+  it('includes remote branches and tags', () => {
+    const labels = collectRefLabels({
+      ...noRefs,
+      remoteBranches: [{ name: 'origin/main', oid: 'a' }],
+      tags: [{ name: 'v1.0', oid: 'b' }],
+    });
+
+    expect(labels.get('a')).toEqual([{ name: 'origin/main', type: 'remote' }]);
+    expect(labels.get('b')).toEqual([{ name: 'v1.0', type: 'tag' }]);
+  });
+});
+
+describe('layoutGraph', () => {
+  it('puts linear history in a single lane', () => {
+    const layout = layoutGraph([commit('a', [], 1), commit('b', ['a'], 2)], noRefs);
+
+    expect(layout.laneCount).toBe(1);
+    expect(layout.nodes.map((n) => [n.commit.oid, n.row, n.lane])).toEqual([['b', 0, 0], ['a', 1, 0]]);
+    expect(layout.edges).toEqual([
+      { from: 'b', to: 'a', fromRow: 0, fromLane: 0, toRow: 1, toLane: 0, merge: false },
+    ]);
+  });
+
+  it('gives diverged branches separate lanes that meet at their base', () => {
+    const layout = layoutGraph([
+      commit('base', [], 1),
+      commit('main', ['base'], 2),
+      commit('feature', ['base'], 3),
+    ], noRefs);
+
+    const lanes = Object.fromEntries(layout.nodes.map((n) => [n.commit.oid, n.lane]));
+    expect(lanes).toEqual({ feature: 0, main: 1, base: 0 });
+    expect(layout.laneCount).toBe(2);
+  });
+
+  it('opens a lane for the second parent of a merge', () => {
+    const layout = layoutGraph([
+      commit('base', [], 1),
+      commit('main', ['base'], 2),
+      commit('feature', ['base'], 3),
+      commit('merge', ['main', 'feature'], 4),
+    ], noRefs);
+
+    const lanes = Object.fromEntries(layout.nodes.map((n) => [n.commit.oid, n.lane]));
+    expect(lanes).toEqual({ merge: 0, feature: 1, main: 0, base: 0 });
+    const mergeEdge = layout.edges.find((e) => e.from === 'merge' && e.to === 'feature');
+    expect(mergeEdge).toMatchObject({ merge: true, fromLane: 0, toLane: 1 });
+  });
+
+  it('attaches ref labels to nodes', () => {
+    const layout = layoutGraph([commit('a', [], 1)], {
+      ...noRefs,
+      head: { branch: 'main', oid: 'a' },
+      branches: [{ name: 'main', oid: 'a' }],
+    });
+
+    expect(layout.nodes[0].labels).toEqual([{ name: 'main', type: 'branch', current: true }]);
+  });
+
+  it('returns an empty layout for no commits', () => {
+    expect(layoutGraph([], noRefs)).toEqual({ nodes: [], edges: [], laneCount: 0 });
+  });
+});
+
+describe('drawAsciiGraph', () => {
+  const oneline = (c: GraphCommit) => [c.message];
+
+  it('draws a straight line for linear history', () => {
+    const commits = sortCommits([commit('a', [], 1), commit('b', ['a'], 2)]);
+
+    expect(drawAsciiGraph(commits, oneline)).toEqual(['* Commit b', '* Commit a']);
+  });
+
+  it('branches out at a merge and joins up at the fork point', () => {
+    const commits = sortCommits([
+      commit('base', [], 1),
+      commit('feature', ['base'], 2),
+      commit('main', ['base'], 3),
+      commit('merge', ['main', 'feature'], 4),
+    ]);
+
+    expect(drawAsciiGraph(commits, oneline)).toEqual([
+      '*   Commit merge',
+      '|\\',
+      '* | Commit main',
+      '| * Commit feature',
+      '|/',
+      '* Commit base',
+    ]);
+  });
+
+  it('continues lines beside a commit\'s later text lines', () => {
+    const commits = sortCommits([commit('a', [], 1), commit('b', ['a'], 2)]);
+
+    expect(drawAsciiGraph(commits, (c) => [c.oid, '', `    ${c.message}`])).toEqual([
+      '* b',
+      '|',
+      '|     Commit b',
+      '* a',
+      '',
+      '      Commit a',
+    ]);
+  });
+
+  it('ends lines at parents that are not listed', () => {
+    expect(drawAsciiGraph([commit('b', ['a'], 2)], oneline)).toEqual(['* Commit b']);
+  });
+});
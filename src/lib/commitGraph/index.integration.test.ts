@@ -0,0 +1,95 @@
+/**
+ * Integration tests for the commit graph service.
+ * Builds real histories with executeCommand and checks the walked graph.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getCommitGraph, readGraphRefs } from './index';
+import { executeCommand } from '../commands';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+async function commitFile(path: string, content: string, message: string) {
+  await fsLib.writeFile(`${CWD}/${path}`, content);
+  await executeCommand(`git add ${path}`);
+  await executeCommand(`git commit -m "${message}"`);
+}
+
+describe('Commit Graph Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+  });
+
+  it('returns null before git init', async () => {
+    expect(await getCommitGraph()).toBeNull();
+  });
+
+  it('returns an empty graph for a repository without commits', async () => {
+    await executeCommand('git init');
+
+    const graph = await getCommitGraph();
+
+    expect(graph).toEqual({ nodes: [], edges: [], laneCount: 0 });
+  });
+
+  it('reads HEAD and branches', async () => {
+    await executeCommand('git init');
+    await commitFile('a.txt', 'a', 'First');
+    await executeCommand('git branch feature');
+
+    const refs = await readGraphRefs();
+
+    expect(refs?.head.branch).toBe('master');
+    expect(refs?.branches.map((b) => b.name)).toEqual(['feature', 'master']);
+    expect(refs?.branches[0].oid).toBe(refs?.head.oid);
+  });
+
+  it('reads lightweight and annotated tags as the commits they tag', async () => {
+    await executeCommand('git init');
+    await commitFile('a.txt', 'a', 'First');
+    await executeCommand('git tag v0.1');
+    await executeCommand('git tag -a v1.0 -m "Release"');
+
+    const refs = await readGraphRefs();
+
+    expect(refs?.tags).toEqual([
+      { name: 'v0.1', oid: refs?.head.oid },
+      { name: 'v1.0', oid: refs?.head.oid },
+    ]);
+  });
+
+  it('includes commits from every branch', async () => {
+    await executeCommand('git init');
+    await commitFile('a.txt', 'a', 'First');
+    await executeCommand('git branch feature');
+    await executeCommand('git checkout feature');
+    await commitFile('b.txt', 'b', 'Feature work');
+    await executeCommand('git checkout master');
+
+    const graph = await getCommitGraph();
+
+    expect(graph?.nodes.map((n) => n.commit.message)).toEqual(['Feature work', 'First']);
+    const feature = graph?.nodes.find((n) => n.commit.message === 'Feature work');
+    const first = graph?.nodes.find((n) => n.commit.message === 'First');
+    expect(feature?.labels).toEqual([{ name: 'feature', type: 'branch', current: false }]);
+    expect(first?.labels).toEqual([{ name: 'master', type: 'branch', current: true }]);
+  });
+
+  it('draws both parents of a merge commit', async () => {
+    await executeCommand('git init');
+    await commitFile('a.txt', 'a', 'First');
+    await executeCommand('git branch feature');
+    await executeCommand('git checkout feature');
+    await commitFile('b.txt', 'b', 'Feature work');
+    await executeCommand('git checkout master');
+    await commitFile('c.txt', 'c', 'Main work');
+    await executeCommand('git merge feature');
+
+    const graph = await getCommitGraph();
+
+    const merge = graph?.nodes[0];
+    expect(merge?.commit.parents).toHaveLength(2);
+    expect(graph?.edges.filter((e) => e.from === merge?.commit.oid)).toHaveLength(2);
+    expect(graph?.laneCount).toBe(2);
+  });
+});
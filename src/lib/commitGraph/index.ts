@@ -0,0 +1,129 @@
+/**
+ * Commit graph service.
+ * Walks the commit DAG from every ref so the UI can draw it.
+ */
+
+import git from 'isomorphic-git';
+import * as fsModule from '../fs';
+import { CWD } from '../config';
+import {
+  layoutGraph,
+  type GraphCommit,
+  type GraphLayout,
+  type GraphRefs,
+} from './graph-utils';
+
+// Re-export pure functions for convenience
+export {
+  sortCommits,
+  collectRefLabels,
+  layoutGraph,
+  drawAsciiGraph,
+} from './graph-utils';
+export type {
+  GraphCommit,
+  GraphRefs,
+  GraphNode,
+  GraphEdge,
+  GraphLayout,
+  RefLabel,
+  RefLabelType,
+} from './graph-utils';
+
+// Get fs dynamically since it can be reassigned on reset
+function getFs() {
+  return fsModule.fs;
+}
+
+// Keep the drawing (and the walk) small enough to stay responsive
+const MAX_COMMITS = 200;
+
+async function resolveRefs(refs: string[], prefix: string): Promise<Array<{ name: string; oid: string }>> {
+  const fs = getFs();
+  const resolved = await Promise.all(refs.map(async (name) => {
+    const oid = await git.resolveRef({ fs, dir: CWD, ref: `${prefix}${name}` });
+    // Annotated tags point at a tag object; label the commit it tags
+    const { oid: commitOid } = await git.readCommit({ fs, dir: CWD, oid });
+    return { name, oid: commitOid };
+  }));
+  return resolved.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Read HEAD and every branch, remote-tracking branch and tag.
+ * Returns null when there's no repository.
+ */
+export async function readGraphRefs(): Promise<GraphRefs | null> {
+  const fs = getFs();
+  try {
+    await fsModule.stat(`${CWD}/.git`);
+  } catch {
+    return null;
+  }
+
+  // An unborn branch has no commit yet
+  const headOid = await git.resolveRef({ fs, dir: CWD, ref: 'HEAD' }).catch(() => null);
+
+  const branch = await git.currentBranch({ fs, dir: CWD }) ?? null;
+  const remoteBranches: Array<{ name: string; oid: string }> = [];
+  for (const { remote } of await git.listRemotes({ fs, dir: CWD })) {
+    const names = (await git.listBranches({ fs, dir: CWD, remote })).filter((b) => b !== 'HEAD');
+    const resolved = await resolveRefs(names, `refs/remotes/${remote}/`);
+    remoteBranches.push(...resolved.map(({ name, oid }) => ({ name: `${remote}/${name}`, oid })));
+  }
+
+  return {
+    head: { branch, oid: headOid },
+    branches: await resolveRefs(await git.listBranches({ fs, dir: CWD }), 'refs/heads/'),
+    remoteBranches,
+    tags: await resolveRefs(await git.listTags({ fs, dir: CWD }), 'refs/tags/'),
+  };
+}
+
+/**
+ * Collect commits reachable from the given tips, newest first, up to a limit.
+ */
+export async function walkCommits(tips: string[], limit = MAX_COMMITS): Promise<GraphCommit[]> {
+  const fs = getFs();
+  const queue = [...new Set(tips)];
+  const seen = new Set<string>(queue);
+  const commits: GraphCommit[] = [];
+
+  while (queue.length > 0 && commits.length < limit) {
+    const oid = queue.shift() as string;
+    const { commit } = await git.readCommit({ fs, dir: CWD, oid });
+    commits.push({
+      oid,
+      parents: commit.parent,
+      message: commit.message.trim(),
+      author: commit.author.name,
+      timestamp: commit.committer.timestamp,
+    });
+    for (const parent of commit.parent) {
+      if (!seen.has(parent)) {
+        seen.add(parent);
+        queue.push(parent);
+      }
+    }
+  }
+
+  return commits;
+}
+
+/**
+ * Build the laid-out commit graph for the repository.
+ * Returns null when there's no repository yet.
+ */
+export async function getCommitGraph(): Promise<GraphLayout | null> {
+  const refs = await readGraphRefs();
+  if (!refs) {
+    return null;
+  }
+  const tips = [
+    ...(refs.head.oid ? [refs.head.oid] : []),
+    ...refs.branches.map((b) => b.oid),
+    ...refs.remoteBranches.map((b) => b.oid),
+    ...refs.tags.map((t) => t.oid),
+  ];
+  return layoutGraph(await walkCommits(tips), refs);
+}
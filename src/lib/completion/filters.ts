@@ -87,9 +87,12 @@ export function calculateReplaceFrom(
 
 // Command classification helpers
 
-const PATH_COMMANDS = ['ls', 'cat', 'mkdir', 'touch', 'rm', 'head', 'tail'];
-const GIT_PATH_SUBCOMMANDS = ['add'];
-const GIT_BRANCH_SUBCOMMANDS = ['checkout'];
+const PATH_COMMANDS = [
+  'ls', 'cat', 'mkdir', 'touch', 'rm', 'head', 'tail', 'cd', 'pushd',
+  'cp', 'mv', 'wc', 'grep', 'find', 'tree', 'sort', 'uniq',
+];
+const GIT_PATH_SUBCOMMANDS = ['add', 'restore', 'rm', 'mv'];
+const GIT_REF_SUBCOMMANDS = ['checkout', 'switch', 'branch', 'merge', 'rebase', 'cherry-pick', 'revert', 'show', 'reflog', 'describe', 'tag'];
 
 /**
  * Check if command should have file path completion.
@@ -105,11 +108,11 @@ export function shouldCompleteFilePath(cmd: string, parts: string[]): boolean {
 }
 
 /**
- * Check if command should have branch completion.
+ * Check if command should have ref (branch or tag) completion.
  */
-export function shouldCompleteBranch(cmd: string, parts: string[]): boolean {
+export function shouldCompleteRef(cmd: string, parts: string[]): boolean {
   if (cmd === 'git' && parts.length >= 2) {
-    return GIT_BRANCH_SUBCOMMANDS.includes(parts[1]);
+    return GIT_REF_SUBCOMMANDS.includes(parts[1]);
   }
   return false;
 }
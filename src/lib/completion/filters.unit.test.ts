@@ -10,7 +10,7 @@ import {
   getPathPrefix,
   calculateReplaceFrom,
   shouldCompleteFilePath,
-  shouldCompleteBranch,
+  shouldCompleteRef,
   shouldCompleteGitSubcommand,
   shouldCompleteCommand,
   shouldHideHidden,
@@ -204,17 +204,32 @@ describe('Completion Filters', () => {
     });
   });
 
-  describe('shouldCompleteBranch', () => {
+  describe('shouldCompleteRef', () => {
     it('returns true for git checkout', () => {
-      expect(shouldCompleteBranch('git', ['git', 'checkout', ''])).toBe(true);
+      expect(shouldCompleteRef('git', ['git', 'checkout', ''])).toBe(true);
+    });
+
+    it('returns true for git merge', () => {
+      expect(shouldCompleteRef('git', ['git', 'merge', ''])).toBe(true);
+    });
+
+    it('returns true for git switch and branch', () => {
+      expect(shouldCompleteRef('git', ['git', 'switch', ''])).toBe(true);
+      expect(shouldCompleteRef('git', ['git', 'branch', '-d', ''])).toBe(true);
+    });
+
+    it('returns true for git show, describe and tag', () => {
+      expect(shouldCompleteRef('git', ['git', 'show', ''])).toBe(true);
+      expect(shouldCompleteRef('git', ['git', 'describe', ''])).toBe(true);
+      expect(shouldCompleteRef('git', ['git', 'tag', '-d', ''])).toBe(true);
     });
 
     it('returns false for git add', () => {
-      expect(shouldCompleteBranch('git', ['git', 'add', ''])).toBe(false);
+      expect(shouldCompleteRef('git', ['git', 'add', ''])).toBe(false);
     });
 
     it('returns false for non-git commands', () => {
-      expect(shouldCompleteBranch('ls', ['ls', ''])).toBe(false);
+      expect(shouldCompleteRef('ls', ['ls', ''])).toBe(false);
     });
   });
 
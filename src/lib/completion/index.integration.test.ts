@@ -213,7 +213,7 @@ describe('Completion Service', () => {
     });
   });
 
-  describe('branch completion', () => {
+  describe('ref completion', () => {
     it('completes branch names for git checkout', async () => {
       await executeCommand('git init');
       await fsLib.writeFile(`${CWD}/README.md`, '# Test');
@@ -258,6 +258,18 @@ describe('Completion Service', () => {
       expect(result.suggestions).toHaveLength(0);
     });
 
+    it('completes tags after branches', async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, '# Test');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial"');
+      await executeCommand('git tag v1.0');
+
+      const result = await getCompletions('git show ', 9);
+
+      expect(result.suggestions).toEqual(['master', 'v1.0']);
+    });
+
     it('returns empty before git init', async () => {
       const result = await getCompletions('git checkout ', 13);
 
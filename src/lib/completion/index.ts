@@ -8,7 +8,7 @@ import '../commands';
 import { CommandCompleter } from './strategies/command-completer';
 import { GitSubcommandCompleter } from './strategies/git-subcommand-completer';
 import { FilePathCompleter } from './strategies/file-path-completer';
-import { BranchCompleter } from './strategies/branch-completer';
+import { RefCompleter } from './strategies/ref-completer';
 import { lessonCompleter } from './strategies/lesson-completer';
 
 export type { CompletionResult } from './types';
@@ -17,7 +17,7 @@ export type { CompletionResult } from './types';
 const strategies: CompletionStrategy[] = [
   new CommandCompleter(),
   new GitSubcommandCompleter(),
-  new BranchCompleter(),     // Must come before FilePathCompleter for git checkout
+  new RefCompleter(),        // Must come before FilePathCompleter for git checkout
   new FilePathCompleter(),
 ];
 
@@ -1,5 +1,5 @@
 import * as fsLib from '../../fs';
-import { CWD } from '../../config';
+import { resolveFromCurrentDir } from '../../workingDirectory';
 import type { CompletionContext, CompletionResult, CompletionStrategy } from '../types';
 import {
   filterByPrefix,
@@ -66,9 +66,7 @@ export class FilePathCompleter implements CompletionStrategy {
   private async fetchFileSuggestions(partial: string, hideHidden: boolean): Promise<string[]> {
     try {
       const { dirPart, prefix, hasPath } = parsePartialPath(partial);
-      const dirPath = hasPath
-        ? (dirPart.startsWith('/') ? dirPart : `${CWD}/${dirPart}`)
-        : CWD;
+      const dirPath = resolveFromCurrentDir(hasPath ? dirPart : '.');
 
       // Fetch directory entries
       const entries = await fsLib.readdir(dirPath);
@@ -3,23 +3,23 @@ import type { CompletionContext, CompletionResult, CompletionStrategy } from '..
 import {
   filterByPrefix,
   calculateReplaceFrom,
-  shouldCompleteBranch,
+  shouldCompleteRef,
 } from '../filters';
 
-export class BranchCompleter implements CompletionStrategy {
+export class RefCompleter implements CompletionStrategy {
   canHandle(context: CompletionContext): boolean {
-    return shouldCompleteBranch(context.cmd, context.parts);
+    return shouldCompleteRef(context.cmd, context.parts);
   }
 
   async complete(context: CompletionContext): Promise<CompletionResult> {
     const partial = context.parts[context.parts.length - 1] || '';
-    const branchToComplete = context.endsWithSpace ? '' : partial;
+    const refToComplete = context.endsWithSpace ? '' : partial;
 
     // Fetch from git
-    const branches = await this.fetchBranches();
+    const refs = await this.fetchRefs();
 
     // Apply pure filtering
-    const suggestions = filterByPrefix(branches, branchToComplete);
+    const suggestions = filterByPrefix(refs, refToComplete);
 
     const replaceFrom = calculateReplaceFrom(
       context.endsWithSpace,
@@ -36,12 +36,13 @@ export class BranchCompleter implements CompletionStrategy {
   }
 
   /**
-   * Fetch branches from git.
+   * Fetch branches, then tags, from git.
    * This is the only method that crosses the git boundary.
    */
-  private async fetchBranches(): Promise<string[]> {
+  private async fetchRefs(): Promise<string[]> {
     try {
-      return await gitLib.gitListBranches();
+      const [branches, tags] = await Promise.all([gitLib.gitListBranches(), gitLib.gitListTags()]);
+      return [...new Set([...branches, ...tags])];
     } catch {
       return [];
     }
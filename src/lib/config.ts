@@ -14,3 +14,9 @@
  * All file operations are relative to this path.
  */
 export const CWD = '/repo';
+
+/**
+ * Keep the sandbox filesystem between page loads. When false, every
+ * load starts from an empty repository directory.
+ */
+export const PERSIST_SANDBOX = true;
@@ -0,0 +1,302 @@
+/**
+ * Pure diff functions.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+export type DiffOpType = 'equal' | 'add' | 'remove';
+
+export interface DiffOp {
+  type: DiffOpType;
+  line: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  ops: DiffOp[];
+}
+
+/**
+ * A single file's change between two snapshots.
+ * A null oid/content means the file doesn't exist on that side.
+ */
+export interface FileDiff {
+  filepath: string;
+  oldOid: string | null;
+  newOid: string | null;
+  oldContent: string | null;
+  newContent: string | null;
+}
+
+const NULL_OID = '0000000';
+const FILE_MODE = '100644';
+const STAT_BAR_WIDTH = 40;
+
+/**
+ * Split content into lines, keeping each line's trailing newline.
+ * A final line without a newline is kept as-is, so "a" and "a\n" differ.
+ */
+export function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Compute a line diff using the Myers O(ND) algorithm.
+ * Returns the shortest edit script as a sequence of operations.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push([...v]);
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 2; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]))
+      ? k + 1
+      : k - 1;
+    const prevX = d === 0 ? 0 : vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: oldLines[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'add', line: newLines[y - 1] });
+      } else {
+        ops.push({ type: 'remove', line: oldLines[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Group diff operations into hunks with the given lines of context.
+ * Hunks whose context would overlap are merged, like git does.
+ */
+export function buildHunks(ops: DiffOp[], context = 3): DiffHunk[] {
+  const changeIndexes = ops
+    .map((op, i) => (op.type === 'equal' ? -1 : i))
+    .filter(i => i !== -1);
+  if (changeIndexes.length === 0) {
+    return [];
+  }
+
+  // Compute [start, end) ranges of ops covered by each hunk
+  const ranges: [number, number][] = [];
+  for (const i of changeIndexes) {
+    const start = Math.max(0, i - context);
+    const end = Math.min(ops.length, i + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers before each op (1-based start of the op's line)
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of ops) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (op.type !== 'add') oldCount++;
+    if (op.type !== 'remove') newCount++;
+  }
+
+  return ranges.map(([start, end]) => {
+    const hunkOps = ops.slice(start, end);
+    return {
+      oldStart: oldBefore[start] + 1,
+      oldLines: hunkOps.filter(op => op.type !== 'add').length,
+      newStart: newBefore[start] + 1,
+      newLines: hunkOps.filter(op => op.type !== 'remove').length,
+      ops: hunkOps,
+    };
+  });
+}
+
+/**
+ * Format one side of a hunk header range, e.g. "1,3", "5" or "0,0".
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 1) {
+    return `${start}`;
+  }
+  // Empty ranges point at the line before the hunk
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Format a hunk header line like "@@ -1,3 +1,4 @@".
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`;
+}
+
+/**
+ * Format a single diff line with its +/-/space prefix.
+ * Lines missing a trailing newline get git's "No newline" marker.
+ */
+function formatOpLines(op: DiffOp): string[] {
+  const prefix = op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' ';
+  if (op.line.endsWith('\n')) {
+    return [prefix + op.line.slice(0, -1)];
+  }
+  return [prefix + op.line, '\\ No newline at end of file'];
+}
+
+/**
+ * Format a file diff as unified diff lines (uncolored), matching git's output.
+ */
+export function formatFileDiff(diff: FileDiff, context = 3): string[] {
+  const { filepath, oldOid, newOid } = diff;
+  const lines: string[] = [`diff --git a/${filepath} b/${filepath}`];
+
+  const shortOld = oldOid ? oldOid.slice(0, 7) : NULL_OID;
+  const shortNew = newOid ? newOid.slice(0, 7) : NULL_OID;
+  if (oldOid === null) {
+    lines.push(`new file mode ${FILE_MODE}`);
+    lines.push(`index ${shortOld}..${shortNew}`);
+  } else if (newOid === null) {
+    lines.push(`deleted file mode ${FILE_MODE}`);
+    lines.push(`index ${shortOld}..${shortNew}`);
+  } else {
+    lines.push(`index ${shortOld}..${shortNew} ${FILE_MODE}`);
+  }
+
+  const ops = diffLines(splitLines(diff.oldContent ?? ''), splitLines(diff.newContent ?? ''));
+  const hunks = buildHunks(ops, context);
+  if (hunks.length === 0) {
+    return lines;
+  }
+
+  lines.push(oldOid === null ? '--- /dev/null' : `--- a/${filepath}`);
+  lines.push(newOid === null ? '+++ /dev/null' : `+++ b/${filepath}`);
+  for (const hunk of hunks) {
+    lines.push(formatHunkHeader(hunk));
+    for (const op of hunk.ops) {
+      lines.push(...formatOpLines(op));
+    }
+  }
+  return lines;
+}
+
+interface ChangeCount {
+  filepath: string;
+  added: number;
+  removed: number;
+}
+
+function countChanges(diffs: FileDiff[]): ChangeCount[] {
+  return diffs.map((diff) => {
+    const ops = diffLines(splitLines(diff.oldContent ?? ''), splitLines(diff.newContent ?? ''));
+    return {
+      filepath: diff.filepath,
+      added: ops.filter((op) => op.type === 'add').length,
+      removed: ops.filter((op) => op.type === 'remove').length,
+    };
+  });
+}
+
+// The totals line, e.g. " 2 files changed, 3 insertions(+), 1 deletion(-)"
+function formatTotals(counts: ChangeCount[]): string {
+  const insertions = counts.reduce((sum, c) => sum + c.added, 0);
+  const deletions = counts.reduce((sum, c) => sum + c.removed, 0);
+  const summary = [`${counts.length} ${counts.length === 1 ? 'file' : 'files'} changed`];
+  if (insertions > 0) summary.push(`${insertions} ${insertions === 1 ? 'insertion' : 'insertions'}(+)`);
+  if (deletions > 0) summary.push(`${deletions} ${deletions === 1 ? 'deletion' : 'deletions'}(-)`);
+  return ` ${summary.join(', ')}`;
+}
+
+/**
+ * Format a summary of file diffs like `git diff --stat`: one line per
+ * file with its count of changed lines, then the totals.
+ */
+export function formatDiffStat(diffs: FileDiff[]): string[] {
+  if (diffs.length === 0) return [];
+
+  const counts = countChanges(diffs);
+  const nameWidth = Math.max(...counts.map((c) => c.filepath.length));
+  const countWidth = Math.max(...counts.map((c) => String(c.added + c.removed).length));
+  // Scale the +/- bars down like git when a file has many changes
+  const maxChanged = Math.max(...counts.map((c) => c.added + c.removed));
+  const scale = maxChanged > STAT_BAR_WIDTH ? STAT_BAR_WIDTH / maxChanged : 1;
+
+  const lines = counts.map(({ filepath, added, removed }) => {
+    const bar = '+'.repeat(Math.ceil(added * scale)) + '-'.repeat(Math.ceil(removed * scale));
+    return ` ${filepath.padEnd(nameWidth)} | ${String(added + removed).padStart(countWidth)} ${bar}`.trimEnd();
+  });
+  lines.push(formatTotals(counts));
+  return lines;
+}
+
+/**
+ * Format the summary `git commit` prints: the totals, then a line for
+ * each file the commit created or deleted.
+ */
+export function formatChangeSummary(diffs: FileDiff[]): string[] {
+  if (diffs.length === 0) return [];
+
+  const lines = [formatTotals(countChanges(diffs))];
+  for (const { filepath, oldOid, newOid } of diffs) {
+    if (oldOid === null) lines.push(` create mode ${FILE_MODE} ${filepath}`);
+    if (newOid === null) lines.push(` delete mode ${FILE_MODE} ${filepath}`);
+  }
+  return lines;
+}
+
+/**
+ * Reduce file diffs to the lines they add and remove, ignoring where in
+ * the files those land and the objects involved, like `git patch-id`.
+ * Two commits with the same signature make the same change.
+ */
+export function patchSignature(diffs: FileDiff[]): string {
+  return [...diffs]
+    .sort((a, b) => (a.filepath < b.filepath ? -1 : a.filepath > b.filepath ? 1 : 0))
+    .map((diff) => {
+      const ops = diffLines(splitLines(diff.oldContent ?? ''), splitLines(diff.newContent ?? ''));
+      const changes = ops.filter((op) => op.type !== 'equal').map((op) => `${op.type === 'add' ? '+' : '-'}${op.line}`);
+      return `${diff.filepath}\n${changes.join('')}`;
+    })
+    .join('\n');
+}
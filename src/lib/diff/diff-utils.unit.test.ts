@@ -0,0 +1,313 @@
+/**
+ * Unit tests for pure diff functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  splitLines,
+  diffLines,
+  buildHunks,
+  formatHunkHeader,
+  formatFileDiff,
+  formatDiffStat,
+  formatChangeSummary,
+  patchSignature,
+  type DiffOp,
+} from './diff-utils';
+
+// Apply an edit script to the old lines, to check it produces the new lines
+function applyOps(ops: DiffOp[]): { oldLines: string[]; newLines: string[] } {
+  return {
+    oldLines: ops.filter(op => op.type !== 'add').map(op => op.line),
+    newLines: ops.filter(op => op.type !== 'remove').map(op => op.line),
+  };
+}
+
+describe('splitLines', () => {
+  it('keeps trailing newlines on each line', () => {
+    expect(splitLines('a\nb\n')).toEqual(['a\n', 'b\n']);
+  });
+
+  it('keeps a final line without newline', () => {
+    expect(splitLines('a\nb')).toEqual(['a\n', 'b']);
+  });
+
+  it('returns empty array for empty content', () => {
+    expect(splitLines('')).toEqual([]);
+  });
+
+  it('preserves blank lines', () => {
+    expect(splitLines('a\n\nb\n')).toEqual(['a\n', '\n', 'b\n']);
+  });
+});
+
+describe('diffLines', () => {
+  it('returns all equal ops for identical input', () => {
+    const ops = diffLines(['a', 'b'], ['a', 'b']);
+    expect(ops.map(op => op.type)).toEqual(['equal', 'equal']);
+  });
+
+  it('returns empty ops for two empty inputs', () => {
+    expect(diffLines([], [])).toEqual([]);
+  });
+
+  it('returns only additions when old is empty', () => {
+    const ops = diffLines([], ['a', 'b']);
+    expect(ops).toEqual([
+      { type: 'add', line: 'a' },
+      { type: 'add', line: 'b' },
+    ]);
+  });
+
+  it('returns only removals when new is empty', () => {
+    const ops = diffLines(['a', 'b'], []);
+    expect(ops).toEqual([
+      { type: 'remove', line: 'a' },
+      { type: 'remove', line: 'b' },
+    ]);
+  });
+
+  it('detects a changed line in the middle', () => {
+    const ops = diffLines(['a', 'b', 'c'], ['a', 'x', 'c']);
+    expect(ops).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'remove', line: 'b' },
+      { type: 'add', line: 'x' },
+      { type: 'equal', line: 'c' },
+    ]);
+  });
+
+  it('detects an inserted line', () => {
+    const ops = diffLines(['a', 'c'], ['a', 'b', 'c']);
+    expect(ops.filter(op => op.type === 'add')).toEqual([{ type: 'add', line: 'b' }]);
+    expect(ops.filter(op => op.type === 'remove')).toEqual([]);
+  });
+
+  it('produces a minimal edit script', () => {
+    const oldLines = ['a', 'b', 'c', 'a', 'b', 'b', 'a'];
+    const newLines = ['c', 'b', 'a', 'b', 'a', 'c'];
+    const ops = diffLines(oldLines, newLines);
+    const edits = ops.filter(op => op.type !== 'equal').length;
+    // The classic Myers example has an edit distance of 5
+    expect(edits).toBe(5);
+  });
+
+  it('produces ops that reconstruct both sides', () => {
+    const oldLines = ['one', 'two', 'three', 'four', 'five'];
+    const newLines = ['zero', 'one', 'three', 'four', 'six', 'five'];
+    const result = applyOps(diffLines(oldLines, newLines));
+    expect(result.oldLines).toEqual(oldLines);
+    expect(result.newLines).toEqual(newLines);
+  });
+});
+
+describe('buildHunks', () => {
+  const lines = (n: number) => Array.from({ length: n }, (_, i) => `line${i + 1}\n`);
+
+  it('returns no hunks when nothing changed', () => {
+    expect(buildHunks(diffLines(lines(3), lines(3)))).toEqual([]);
+  });
+
+  it('includes up to 3 lines of context', () => {
+    const oldLines = lines(10);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed\n';
+    const hunks = buildHunks(diffLines(oldLines, newLines));
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 2, oldLines: 7, newStart: 2, newLines: 7 });
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldLines = lines(20);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed\n';
+    newLines[18] = 'changed\n';
+    expect(buildHunks(diffLines(oldLines, newLines))).toHaveLength(2);
+  });
+
+  it('merges nearby changes into one hunk', () => {
+    const oldLines = lines(20);
+    const newLines = [...oldLines];
+    newLines[5] = 'changed\n';
+    newLines[10] = 'changed\n';
+    expect(buildHunks(diffLines(oldLines, newLines))).toHaveLength(1);
+  });
+
+  it('respects a custom context size', () => {
+    const oldLines = lines(10);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed\n';
+    const hunks = buildHunks(diffLines(oldLines, newLines), 0);
+    expect(hunks[0]).toMatchObject({ oldStart: 5, oldLines: 1, newStart: 5, newLines: 1 });
+  });
+});
+
+describe('formatHunkHeader', () => {
+  it('formats ranges with counts', () => {
+    expect(formatHunkHeader({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 4, ops: [] }))
+      .toBe('@@ -1,3 +1,4 @@');
+  });
+
+  it('omits a count of one', () => {
+    expect(formatHunkHeader({ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, ops: [] }))
+      .toBe('@@ -1 +1 @@');
+  });
+
+  it('formats an empty side as the line before', () => {
+    expect(formatHunkHeader({ oldStart: 1, oldLines: 0, newStart: 1, newLines: 2, ops: [] }))
+      .toBe('@@ -0,0 +1,2 @@');
+  });
+});
+
+describe('formatFileDiff', () => {
+  it('formats a modified file', () => {
+    const lines = formatFileDiff({
+      filepath: 'README.md',
+      oldOid: 'aaaaaaa1111',
+      newOid: 'bbbbbbb2222',
+      oldContent: 'hello\n',
+      newContent: 'hello\nworld\n',
+    });
+    expect(lines).toEqual([
+      'diff --git a/README.md b/README.md',
+      'index aaaaaaa..bbbbbbb 100644',
+      '--- a/README.md',
+      '+++ b/README.md',
+      '@@ -1 +1,2 @@',
+      ' hello',
+      '+world',
+    ]);
+  });
+
+  it('formats a new file against /dev/null', () => {
+    const lines = formatFileDiff({
+      filepath: 'new.txt',
+      oldOid: null,
+      newOid: 'bbbbbbb2222',
+      oldContent: null,
+      newContent: 'content\n',
+    });
+    expect(lines).toContain('new file mode 100644');
+    expect(lines).toContain('index 0000000..bbbbbbb');
+    expect(lines).toContain('--- /dev/null');
+    expect(lines).toContain('+content');
+  });
+
+  it('formats a deleted file against /dev/null', () => {
+    const lines = formatFileDiff({
+      filepath: 'old.txt',
+      oldOid: 'aaaaaaa1111',
+      newOid: null,
+      oldContent: 'content\n',
+      newContent: null,
+    });
+    expect(lines).toContain('deleted file mode 100644');
+    expect(lines).toContain('+++ /dev/null');
+    expect(lines).toContain('-content');
+  });
+
+  it('marks lines without a trailing newline', () => {
+    const lines = formatFileDiff({
+      filepath: 'a.txt',
+      oldOid: 'aaaaaaa',
+      newOid: 'bbbbbbb',
+      oldContent: 'one',
+      newContent: 'two',
+    });
+    expect(lines.slice(-4)).toEqual([
+      '-one',
+      '\\ No newline at end of file',
+      '+two',
+      '\\ No newline at end of file',
+    ]);
+  });
+
+  it('omits hunks for an empty new file', () => {
+    const lines = formatFileDiff({
+      filepath: 'empty.txt',
+      oldOid: null,
+      newOid: 'e69de29bb2d1',
+      oldContent: null,
+      newContent: '',
+    });
+    expect(lines).toEqual([
+      'diff --git a/empty.txt b/empty.txt',
+      'new file mode 100644',
+      'index 0000000..e69de29',
+    ]);
+  });
+});
+
+describe('formatDiffStat', () => {
+  it('summarizes changed lines per file', () => {
+    const lines = formatDiffStat([
+      { filepath: 'README.md', oldOid: 'a', newOid: 'b', oldContent: 'one\ntwo\n', newContent: 'one\n2\n' },
+      { filepath: 'new.txt', oldOid: null, newOid: 'c', oldContent: null, newContent: 'a\nb\nc\n' },
+    ]);
+    expect(lines).toEqual([
+      ' README.md | 2 +-',
+      ' new.txt   | 3 +++',
+      ' 2 files changed, 4 insertions(+), 1 deletion(-)',
+    ]);
+  });
+
+  it('leaves out counts that are zero', () => {
+    const lines = formatDiffStat([
+      { filepath: 'old.txt', oldOid: 'a', newOid: null, oldContent: 'gone\n', newContent: null },
+    ]);
+    expect(lines).toEqual([' old.txt | 1 -', ' 1 file changed, 1 deletion(-)']);
+  });
+
+  it('scales long bars down', () => {
+    const [line] = formatDiffStat([
+      { filepath: 'big.txt', oldOid: null, newOid: 'a', oldContent: null, newContent: 'x\n'.repeat(100) },
+    ]);
+    expect(line).toBe(` big.txt | 100 ${'+'.repeat(40)}`);
+  });
+
+  it('returns nothing for no changes', () => {
+    expect(formatDiffStat([])).toEqual([]);
+  });
+});
+
+describe('formatChangeSummary', () => {
+  it('gives the totals and the files created or deleted', () => {
+    const lines = formatChangeSummary([
+      { filepath: 'README.md', oldOid: 'a', newOid: 'b', oldContent: 'one\n', newContent: 'one\ntwo\n' },
+      { filepath: 'new.txt', oldOid: null, newOid: 'c', oldContent: null, newContent: 'a\n' },
+      { filepath: 'old.txt', oldOid: 'd', newOid: null, oldContent: 'gone\n', newContent: null },
+    ]);
+    expect(lines).toEqual([
+      ' 3 files changed, 2 insertions(+), 1 deletion(-)',
+      ' create mode 100644 new.txt',
+      ' delete mode 100644 old.txt',
+    ]);
+  });
+
+  it('returns nothing for no changes', () => {
+    expect(formatChangeSummary([])).toEqual([]);
+  });
+});
+
+describe('patchSignature', () => {
+  const change = (oldContent: string, newContent: string, oldOid = 'a', newOid = 'b') =>
+    ({ filepath: 'notes.txt', oldOid, newOid, oldContent, newContent });
+
+  it('matches the same change made at another place in the file', () => {
+    const here = change('one\ntwo\n', 'one\ntwo\nthree\n');
+    const there = change('zero\none\ntwo\n', 'zero\none\ntwo\nthree\n', 'c', 'd');
+    expect(patchSignature([here])).toBe(patchSignature([there]));
+  });
+
+  it('tells different changes apart', () => {
+    expect(patchSignature([change('one\n', 'two\n')])).not.toBe(patchSignature([change('two\n', 'one\n')]));
+    expect(patchSignature([change('one\n', 'two\n')]))
+      .not.toBe(patchSignature([{ ...change('one\n', 'two\n'), filepath: 'other.txt' }]));
+  });
+
+  it('ignores the order of the files', () => {
+    const first = change('', 'a\n');
+    const second = { ...change('', 'b\n'), filepath: 'b.txt' };
+    expect(patchSignature([first, second])).toBe(patchSignature([second, first]));
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Pure three-way merge of file contents, like git's merge of a file
+ * both sides changed.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+import { splitLines, diffLines } from './diff-utils';
+
+/**
+ * A change one side made to the base: base lines [start, end)
+ * replaced by `lines`. Pure insertions have start === end.
+ */
+interface Change {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function changesFrom(base: string[], side: string[]): Change[] {
+  const changes: Change[] = [];
+  let current: Change | null = null;
+  let position = 0;
+  for (const op of diffLines(base, side)) {
+    if (op.type === 'equal') {
+      current = null;
+      position++;
+      continue;
+    }
+    if (!current) {
+      current = { start: position, end: position, lines: [] };
+      changes.push(current);
+    }
+    if (op.type === 'remove') {
+      current.end = ++position;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  return changes;
+}
+
+// The side's version of base lines [start, end), given its changes there
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    lines.push(...base.slice(position, change.start), ...change.lines);
+    position = change.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+// Conflict markers go on lines of their own, even after a last line without a newline
+function withNewline(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), `${last}\n`];
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface TextMergeResult {
+  content: string;
+  conflicted: boolean;
+}
+
+/**
+ * Merge the changes `ours` and `theirs` each made to `base`. Changes to
+ * separate parts of the file are combined; changes that overlap or touch
+ * are a conflict unless both sides made the same change, and are written
+ * between `<<<<<<<`, `=======` and `>>>>>>>` markers.
+ */
+export function mergeText(base: string, ours: string, theirs: string, labels: MergeLabels): TextMergeResult {
+  const baseLines = splitLines(base);
+  const sides = [changesFrom(baseLines, splitLines(ours)), changesFrom(baseLines, splitLines(theirs))];
+  const next = [0, 0];
+  const merged: string[] = [];
+  let position = 0;
+  let conflicted = false;
+
+  while (next[0] < sides[0].length || next[1] < sides[1].length) {
+    // Start a region at the earliest change, then take in every change it overlaps or touches
+    const first = next[1] >= sides[1].length
+      || (next[0] < sides[0].length && sides[0][next[0]].start <= sides[1][next[1]].start) ? 0 : 1;
+    const start = sides[first][next[first]].start;
+    let end = start;
+    const taken: Change[][] = [[], []];
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const side of [0, 1]) {
+        const change = sides[side][next[side]];
+        if (change && change.start <= end) {
+          taken[side].push(change);
+          end = Math.max(end, change.end);
+          next[side]++;
+          grew = true;
+        }
+      }
+    }
+
+    merged.push(...baseLines.slice(position, start));
+    const oursLines = applyChanges(baseLines, start, end, taken[0]);
+    const theirsLines = applyChanges(baseLines, start, end, taken[1]);
+    if (taken[1].length === 0 || oursLines.join('') === theirsLines.join('')) {
+      merged.push(...oursLines);
+    } else if (taken[0].length === 0) {
+      merged.push(...theirsLines);
+    } else {
+      conflicted = true;
+      merged.push(
+        `<<<<<<< ${labels.ours}\n`,
+        ...withNewline(oursLines),
+        '=======\n',
+        ...withNewline(theirsLines),
+        `>>>>>>> ${labels.theirs}\n`,
+      );
+    }
+    position = end;
+  }
+
+  merged.push(...baseLines.slice(position));
+  return { content: merged.join(''), conflicted };
+}
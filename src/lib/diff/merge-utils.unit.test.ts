@@ -0,0 +1,58 @@
+/**
+ * Unit tests for the three-way merge of file contents.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { mergeText } from './merge-utils';
+
+const labels = { ours: 'HEAD', theirs: 'abc1234 (Change)' };
+
+describe('mergeText', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+  it('takes the only side that changed', () => {
+    const theirs = 'one\nTWO\nthree\nfour\nfive\n';
+    expect(mergeText(base, base, theirs, labels)).toEqual({ content: theirs, conflicted: false });
+    expect(mergeText(base, theirs, base, labels)).toEqual({ content: theirs, conflicted: false });
+  });
+
+  it('combines changes to separate lines', () => {
+    const ours = 'ONE\ntwo\nthree\nfour\nfive\n';
+    const theirs = 'one\ntwo\nthree\nfour\nFIVE\nsix\n';
+    expect(mergeText(base, ours, theirs, labels)).toEqual({
+      content: 'ONE\ntwo\nthree\nfour\nFIVE\nsix\n',
+      conflicted: false,
+    });
+  });
+
+  it('accepts the same change made on both sides', () => {
+    const both = 'one\ntwo\n3\nfour\nfive\n';
+    expect(mergeText(base, both, both, labels)).toEqual({ content: both, conflicted: false });
+  });
+
+  it('marks overlapping changes as a conflict', () => {
+    const ours = 'one\ntwo\nours\nfour\nfive\n';
+    const theirs = 'one\ntwo\ntheirs\nfour\nfive\n';
+    expect(mergeText(base, ours, theirs, labels)).toEqual({
+      content: [
+        'one',
+        'two',
+        '<<<<<<< HEAD',
+        'ours',
+        '=======',
+        'theirs',
+        '>>>>>>> abc1234 (Change)',
+        'four',
+        'five',
+        '',
+      ].join('\n'),
+      conflicted: true,
+    });
+  });
+
+  it('conflicts when both sides add different files', () => {
+    const result = mergeText('', 'ours\n', 'theirs', labels);
+    expect(result.conflicted).toBe(true);
+    expect(result.content).toBe('<<<<<<< HEAD\nours\n=======\ntheirs\n>>>>>>> abc1234 (Change)\n');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Integration tests for the editor service.
+ * Edits run through a listener standing in for the app's editor.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { setEditorListener, hasEditor, getEditingPath, editFile, finishEditing } from './index';
+
+describe('Editor Service', () => {
+  afterEach(() => {
+    finishEditing();
+    setEditorListener(null);
+  });
+
+  it('cannot edit without an editor attached', async () => {
+    expect(hasEditor()).toBe(false);
+    await expect(editFile('/repo/.git/COMMIT_EDITMSG')).rejects.toThrow('no editor attached');
+  });
+
+  it('waits for the edit to finish', async () => {
+    const seen: (string | null)[] = [];
+    setEditorListener((path) => seen.push(path));
+
+    let finished = false;
+    const edit = editFile('/repo/.git/COMMIT_EDITMSG').then(() => {
+      finished = true;
+    });
+
+    expect(seen).toEqual(['/repo/.git/COMMIT_EDITMSG']);
+    expect(getEditingPath()).toBe('/repo/.git/COMMIT_EDITMSG');
+    await Promise.resolve();
+    expect(finished).toBe(false);
+
+    finishEditing();
+    await edit;
+
+    expect(finished).toBe(true);
+    expect(seen).toEqual(['/repo/.git/COMMIT_EDITMSG', null]);
+    expect(getEditingPath()).toBeNull();
+  });
+
+  it('edits one file at a time', async () => {
+    setEditorListener(() => {});
+    const first = editFile('/repo/a.txt');
+
+    await expect(editFile('/repo/b.txt')).rejects.toThrow('already editing /repo/a.txt');
+
+    finishEditing();
+    await first;
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Editor service.
+ * Lets a command open a file in the app's editor and wait until the
+ * learner is done with it, the way git runs $EDITOR for a commit message.
+ */
+
+// Module state: the file being edited, and how to let its command continue
+let editing: { path: string; done: () => void } | null = null;
+
+// Module state: the UI that shows files for editing, if one is attached
+let editorListener: ((path: string | null) => void) | null = null;
+
+/**
+ * Attach the UI that opens files for editing. It's told the path when an
+ * edit starts and null when it ends. Without one, nothing can be edited.
+ */
+export function setEditorListener(listener: ((path: string | null) => void) | null): void {
+  editorListener = listener;
+}
+
+export function hasEditor(): boolean {
+  return editorListener !== null;
+}
+
+export function getEditingPath(): string | null {
+  return editing?.path ?? null;
+}
+
+/**
+ * Open a file in the editor. Resolves once the learner finishes editing,
+ * whether or not they saved. Throws when no editor is attached or another
+ * file is already being edited.
+ */
+export function editFile(path: string): Promise<void> {
+  if (!editorListener) {
+    return Promise.reject(new Error('no editor attached'));
+  }
+  if (editing) {
+    return Promise.reject(new Error(`already editing ${editing.path}`));
+  }
+  const listener = editorListener;
+  return new Promise((resolve) => {
+    editing = { path, done: resolve };
+    listener(path);
+  });
+}
+
+/**
+ * Finish the edit in progress, letting the command that started it continue.
+ */
+export function finishEditing(): void {
+  const finished = editing;
+  if (!finished) return;
+  editing = null;
+  editorListener?.(null);
+  finished.done();
+}
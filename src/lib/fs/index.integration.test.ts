@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { resetFs, readFile, writeFile, readdir } from '.';
+import { resetFs, initializeFs, flushFs, readFile, writeFile, readdir } from '.';
 import { CWD } from '../config';
 
 describe('Filesystem Integration', () => {
@@ -104,4 +104,23 @@ describe('Filesystem Integration', () => {
       expect(content).toBe('Version 3');
     });
   });
+
+  describe('initializeFs', () => {
+    it('keeps files from an earlier session when persisting', async () => {
+      await writeFile(`${CWD}/notes.txt`, 'left here last time');
+      await flushFs();
+
+      await initializeFs(true);
+
+      expect(await readFile(`${CWD}/notes.txt`)).toBe('left here last time');
+    });
+
+    it('starts from an empty repository directory when not persisting', async () => {
+      await writeFile(`${CWD}/notes.txt`, 'left here last time');
+
+      await initializeFs(false);
+
+      expect(await readdir(CWD)).toEqual([]);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import LightningFS from '@isomorphic-git/lightning-fs';
-import { CWD } from '../config';
+import { CWD, PERSIST_SANDBOX } from '../config';
 
 const DB_NAME = 'git-learning-fs';
 
@@ -42,9 +42,36 @@ export async function resetFs(): Promise<void> {
   }
 }
 
-export async function initializeFs(): Promise<void> {
-  // Always start fresh for consistent learning experience
-  await resetFs();
+// Shared by every caller, so views initializing together don't race
+let persistentInit: Promise<void> | null = null;
+
+async function ensureRepoDir(): Promise<void> {
+  try {
+    await fs.promises.mkdir(CWD);
+  } catch (err) {
+    if ((err as { code?: string }).code !== 'EEXIST') {
+      throw err;
+    }
+  }
+}
+
+export async function initializeFs(persist = PERSIST_SANDBOX): Promise<void> {
+  if (!persist) {
+    // Start fresh for a consistent learning experience
+    await resetFs();
+    return;
+  }
+  // Keep whatever the learner left in the database from the last visit
+  persistentInit ??= ensureRepoDir();
+  await persistentInit;
+}
+
+/**
+ * Write pending filesystem metadata to IndexedDB now rather than on
+ * LightningFS's debounce, e.g. when the page is about to unload.
+ */
+export async function flushFs(): Promise<void> {
+  await fs.promises.flush();
 }
 
 export async function readFile(path: string): Promise<string> {
@@ -60,9 +87,9 @@ export async function readdir(path: string): Promise<string[]> {
   return await fs.promises.readdir(path);
 }
 
-export async function stat(path: string): Promise<{ type: 'file' | 'dir' }> {
+export async function stat(path: string): Promise<{ type: 'file' | 'dir'; size: number }> {
   const stats = await fs.promises.stat(path);
-  return { type: stats.isDirectory() ? 'dir' : 'file' };
+  return { type: stats.isDirectory() ? 'dir' : 'file', size: stats.size };
 }
 
 export async function mkdir(path: string): Promise<void> {
@@ -76,3 +103,7 @@ export async function unlink(path: string): Promise<void> {
 export async function rmdir(path: string): Promise<void> {
   await fs.promises.rmdir(path);
 }
+
+export async function rename(oldPath: string, newPath: string): Promise<void> {
+  await fs.promises.rename(oldPath, newPath);
+}
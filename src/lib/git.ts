@@ -1,8 +1,43 @@
-import git from 'isomorphic-git';
+import git, { Errors, type CommitObject, type TagObject, type TreeEntry } from 'isomorphic-git';
 import * as fsModule from './fs';
-import { CWD } from './config';
+import { getRepoDir } from './workingDirectory';
+import type { FileDiff } from './diff/diff-utils';
+import { sortCommits, type GraphCommit } from './commitGraph/graph-utils';
+import { mergeText } from './diff/merge-utils';
+import { parseReflog, type ReflogEntry } from './reflog/reflog-utils';
+import { parseRevision, parseRevisionRange, isObjectIdPrefix, previousCheckout, type RevisionBase } from './revisions/revision-utils';
+import {
+  parseIndex,
+  serializeIndex,
+  getUnmergedPaths,
+  buildTreeHierarchy,
+  matchesPathspec,
+  type IndexEntry,
+  type TreeNode,
+} from './gitIndex/index-utils';
 
-const dir = CWD;
+
+const AUTHOR = {
+  name: 'Git Learner',
+  email: 'learner@example.com',
+};
+
+/**
+ * The author, committer or tagger of a new object (or the mover of a
+ * ref, in its reflog), signed now.
+ */
+export function gitSignature() {
+  return {
+    ...AUTHOR,
+    timestamp: Math.floor(Date.now() / 1000),
+    timezoneOffset: new Date().getTimezoneOffset(),
+  };
+}
+
+// Operations act on the repository found from the terminal's working directory
+function repoPath(path: string): string {
+  return `${getRepoDir()}/${path}`;
+}
 
 // Get fs dynamically since it can be reassigned on reset
 function getFs() {
@@ -10,51 +45,1327 @@ function getFs() {
 }
 
 export async function gitInit(): Promise<void> {
-  await git.init({ fs: getFs(), dir });
+  await git.init({ fs: getFs(), dir: getRepoDir() });
 }
 
 export async function gitAdd(filepath: string): Promise<void> {
-  await git.add({ fs: getFs(), dir, filepath });
+  await git.add({ fs: getFs(), dir: getRepoDir(), filepath });
 }
 
-export async function gitCommit(message: string): Promise<string> {
+/**
+ * Create a commit from the index.
+ * While a merge is in progress, the commit gets MERGE_HEAD as a second
+ * parent and concludes the merge. With `amend`, the commit replaces HEAD,
+ * keeping HEAD's parents. `author` keeps another commit's author, as
+ * replaying a commit does.
+ */
+export async function gitCommit(
+  message: string,
+  options: { amend?: boolean; author?: CommitObject['author'] } = {},
+): Promise<string> {
+  const { amend = false } = options;
+  const mergeHead = amend ? null : await gitMergeHead();
+  const parent = mergeHead
+    ? [await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref: 'HEAD' }), mergeHead]
+    : undefined;
   const sha = await git.commit({
     fs: getFs(),
-    dir,
+    dir: getRepoDir(),
     message,
-    author: {
-      name: 'Git Learner',
-      email: 'learner@example.com',
-    },
+    // A detached HEAD moves itself rather than a branch
+    ref: (await git.currentBranch({ fs: getFs(), dir: getRepoDir(), fullname: true })) || 'HEAD',
+    // An amended commit keeps its author date; the committer is always now
+    author: options.author ?? AUTHOR,
+    committer: gitSignature(),
+    parent,
+    amend,
   });
+  if (mergeHead) {
+    await clearMergeState();
+  }
   return sha;
 }
 
+/**
+ * Stage every change to tracked files, modifications and deletions,
+ * the way `git commit -a` does. Untracked files are left alone.
+ */
+export async function gitStageTrackedChanges(): Promise<void> {
+  for (const [filepath, head, workdir, stage] of await gitStatus()) {
+    if (head === 0 && stage === 0) continue;
+    if (workdir === 0 && stage !== 0) {
+      await git.remove({ fs: getFs(), dir: getRepoDir(), filepath });
+    } else if (workdir !== 0 && workdir !== stage) {
+      await git.add({ fs: getFs(), dir: getRepoDir(), filepath });
+    }
+  }
+}
+
+/**
+ * Each file's [path, HEAD, workdir, stage] status, as statusMatrix codes.
+ *
+ * statusMatrix trusts the index's stat cache, which only has seconds
+ * resolution, so a same-size edit in the same second as `git add` looks
+ * unchanged. Files it finds unchanged since they were staged are checked
+ * against their content instead, as gitDiff does, so status, `commit -a`
+ * and diff agree.
+ */
 export async function gitStatus(): Promise<Array<[string, number, number, number]>> {
-  return await git.statusMatrix({ fs: getFs(), dir });
+  const matrix = await git.statusMatrix({ fs: getFs(), dir: getRepoDir() });
+  const statClean = matrix.filter(([, , workdir, stage]) => workdir !== 0 && workdir === stage).map(([path]) => path);
+  if (statClean.length === 0) return matrix;
+
+  const [head, index, workdir] = await Promise.all([
+    readTreeSnapshot('HEAD'),
+    readIndexSnapshot(),
+    readWorkdirSnapshot(statClean),
+  ]);
+  const checked = new Set(statClean);
+  return matrix.map((row) => {
+    const [path] = row;
+    if (!checked.has(path)) return row;
+    const [headOid, stageOid, workdirOid] = [head.get(path)?.oid, index.get(path)?.oid, workdir.get(path)?.oid];
+    if (workdirOid === undefined || stageOid === undefined || workdirOid === stageOid) return row;
+    // 1 is the same as HEAD; 2 differs from HEAD (and, for the stage, matches the working tree); 3 differs from both
+    return [path, row[1], workdirOid === headOid ? 1 : 2, stageOid === headOid ? 1 : 3];
+  });
 }
 
-export async function gitLog(depth = 10): Promise<Array<{ oid: string; message: string; author: string }>> {
-  const commits = await git.log({ fs: getFs(), dir, depth });
+export async function gitLog(depth = 10): Promise<Array<{ oid: string; message: string; author: string; parents: string[] }>> {
+  const commits = await git.log({ fs: getFs(), dir: getRepoDir(), depth });
   return commits.map((commit) => ({
     oid: commit.oid.slice(0, 7),
     message: commit.commit.message,
     author: commit.commit.author.name,
+    parents: commit.commit.parent,
   }));
 }
 
-export async function gitBranch(name: string): Promise<void> {
-  await git.branch({ fs: getFs(), dir, ref: name });
+export interface LogEntry extends GraphCommit {
+  commit: CommitObject;
+}
+
+/**
+ * Walk the history reachable from some revisions (HEAD by default), or
+ * from every ref with `all`, like `git log`. Revisions can be ranges,
+ * like `main..feature`, `main...feature` or `^main`, which leave out the
+ * commits they exclude. Newest first, with children always before their
+ * parents.
+ */
+export async function gitLogEntries(revisions: string[] = [], all = false): Promise<LogEntry[]> {
+  const ranges = revisions.map(parseRevisionRange);
+  const tips: string[] = revisions.length > 0 ? ranges.flatMap((range) => range.include) : all ? [] : ['HEAD'];
+  if (all) {
+    const refs = await git.listRefs({ fs: getFs(), dir: getRepoDir(), filepath: 'refs' });
+    tips.push(...refs.map((ref) => `refs/${ref}`));
+    if (await gitResolveRevision('HEAD').then(() => true, () => false)) tips.push('HEAD');
+  }
+
+  const excluded = new Set<string>();
+  for (const range of ranges) {
+    const exclude = [...range.exclude];
+    // What both sides of A...B share is left out
+    if (range.symmetric) {
+      const base = await gitMergeBase(range.include[0], range.include[1]);
+      if (base) exclude.push(base);
+    }
+    for (const revision of exclude) {
+      for (const oid of await ancestors(await gitResolveCommit(revision))) excluded.add(oid);
+    }
+  }
+
+  const entries = new Map<string, LogEntry>();
+  const queue: string[] = [];
+  for (const tip of tips) {
+    // readCommit peels annotated tags to the commit they point at
+    const { oid } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid: await gitResolveRevision(tip) });
+    queue.push(oid);
+  }
+  while (queue.length > 0) {
+    const oid = queue.shift() as string;
+    if (entries.has(oid) || excluded.has(oid)) continue;
+    const { commit } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid });
+    entries.set(oid, {
+      oid,
+      parents: commit.parent,
+      message: commit.message,
+      author: commit.author.name,
+      timestamp: commit.committer.timestamp,
+      commit,
+    });
+    queue.push(...commit.parent);
+  }
+  return sortCommits([...entries.values()]);
+}
+
+/**
+ * Find the best common ancestor of two revisions, where their histories
+ * last met, or null when they never did.
+ */
+export async function gitMergeBase(a: string, b: string): Promise<string | null> {
+  const oids = [await gitResolveCommit(a), await gitResolveCommit(b)];
+  const [base] = await git.findMergeBase({ fs: getFs(), dir: getRepoDir(), oids });
+  return base ?? null;
+}
+
+/**
+ * The commits on `revision` that `upstream` lacks, oldest first, like
+ * `git rev-list --reverse <upstream>..<revision>`.
+ */
+export async function gitCommitsBetween(upstream: string, revision: string): Promise<LogEntry[]> {
+  const excluded = await ancestors(await gitResolveCommit(upstream));
+  return (await gitLogEntries([revision])).filter((entry) => !excluded.has(entry.oid)).reverse();
+}
+
+/**
+ * Create a branch at a start point (HEAD by default). With `force`,
+ * an existing branch of that name is moved there instead.
+ */
+export async function gitBranch(name: string, startPoint = 'HEAD', force = false): Promise<void> {
+  const object = await gitResolveCommit(startPoint);
+  await git.branch({ fs: getFs(), dir: getRepoDir(), ref: name, object, force });
+}
+
+/**
+ * Sort staged changes for a checkout of `oid`: those to paths the target
+ * commit changes would be thrown away (conflicts), the rest must be
+ * carried over. isomorphic-git only protects changes in the working tree,
+ * and resets staged files to the target's version.
+ */
+async function sortStagedChanges(oid: string): Promise<{ conflicts: string[]; carried: string[] }> {
+  const staged = (await gitStatus())
+    .filter(([, head, , stage]) => (head === 1 ? stage !== 1 : stage !== 0))
+    .map(([filepath]) => filepath);
+  if (staged.length === 0) return { conflicts: [], carried: [] };
+
+  const [current, target] = await Promise.all([readTreeSnapshot('HEAD'), readTreeSnapshot(oid)]);
+  const changed = (path: string) => current.get(path)?.oid !== target.get(path)?.oid;
+  return {
+    conflicts: staged.filter(changed),
+    carried: staged.filter((path) => !changed(path)),
+  };
+}
+
+/**
+ * Check out a branch, or any other revision as a detached HEAD (always
+ * detached with `detach`). Local changes carry over when the target
+ * doesn't touch them; otherwise throws CheckoutConflictError.
+ */
+export async function gitCheckout(ref: string, options: { detach?: boolean } = {}): Promise<void> {
+  const isBranch = !options.detach && (await gitListBranches()).includes(ref);
+  const oid = await gitResolveCommit(ref);
+  const { conflicts, carried } = await sortStagedChanges(oid);
+  if (conflicts.length > 0) {
+    throw new Errors.CheckoutConflictError(conflicts);
+  }
+
+  // Remember the carried changes as staged and as in the working tree
+  const entries = await gitIndexEntries();
+  const saved = await Promise.all(carried.map(async (path) => ({
+    path,
+    entry: entries.find((entry) => entry.path === path && entry.stage === 0),
+    content: await fsModule.readFile(repoPath(path)).catch(() => null),
+  })));
+
+  await git.checkout({ fs: getFs(), dir: getRepoDir(), ref: isBranch ? ref : oid });
+
+  for (const { path, entry, content } of saved) {
+    if (entry) {
+      await git.updateIndex({ fs: getFs(), dir: getRepoDir(), filepath: path, oid: entry.oid, mode: entry.mode, add: true });
+    } else {
+      await git.remove({ fs: getFs(), dir: getRepoDir(), filepath: path });
+    }
+    if (content === null) {
+      await removeWorkdirFile(path);
+    } else {
+      await writeWorkdirFile(path, content);
+    }
+  }
+}
+
+/**
+ * Point a branch at the commit HEAD is on and put HEAD back on the
+ * branch, as at the end of a rebase. The index and working tree stay as they are.
+ */
+export async function gitAttachHead(branch: string): Promise<void> {
+  const oid = await gitResolveRevision('HEAD');
+  await git.writeRef({ fs: getFs(), dir: getRepoDir(), ref: `refs/heads/${branch}`, value: oid, force: true });
+  await git.writeRef({ fs: getFs(), dir: getRepoDir(), ref: 'HEAD', value: `refs/heads/${branch}`, symbolic: true, force: true });
+}
+
+export async function gitDeleteBranch(name: string): Promise<void> {
+  await git.deleteBranch({ fs: getFs(), dir: getRepoDir(), ref: name });
 }
 
-export async function gitCheckout(ref: string): Promise<void> {
-  await git.checkout({ fs: getFs(), dir, ref });
+/**
+ * Rename a branch, taking its branch.<name>.* config (its upstream) along.
+ * With `force`, an existing branch of the new name is replaced.
+ */
+export async function gitRenameBranch(oldName: string, newName: string, force = false): Promise<void> {
+  const fs = getFs();
+  const dir = getRepoDir();
+  if (force && oldName !== newName && (await gitListBranches()).includes(newName)) {
+    await git.deleteBranch({ fs, dir, ref: newName });
+  }
+  const remote = await git.getConfig({ fs, dir, path: `branch.${oldName}.remote` });
+  const merge = await git.getConfig({ fs, dir, path: `branch.${oldName}.merge` });
+  await git.renameBranch({ fs, dir, oldref: oldName, ref: newName });
+  if (remote && merge) {
+    await git.setConfig({ fs, dir, path: `branch.${oldName}.remote`, value: undefined });
+    await git.setConfig({ fs, dir, path: `branch.${oldName}.merge`, value: undefined });
+    await git.setConfig({ fs, dir, path: `branch.${newName}.remote`, value: remote });
+    await git.setConfig({ fs, dir, path: `branch.${newName}.merge`, value: merge });
+  }
 }
 
-export async function gitListBranches(): Promise<string[]> {
-  return await git.listBranches({ fs: getFs(), dir });
+/**
+ * Check whether every commit of `revision` is already in `into`
+ * (HEAD by default), as `git branch -d` requires before deleting.
+ */
+export async function gitIsMerged(revision: string, into = 'HEAD'): Promise<boolean> {
+  const oid = await gitResolveRevision(revision);
+  const base = await gitResolveRevision(into);
+  return oid === base || await git.isDescendent({ fs: getFs(), dir: getRepoDir(), oid: base, ancestor: oid, depth: -1 });
+}
+
+/**
+ * Count the commits on `revision` that `upstream` lacks (ahead) and
+ * the commits on `upstream` that `revision` lacks (behind).
+ */
+export async function gitAheadBehind(revision: string, upstream: string): Promise<{ ahead: number; behind: number }> {
+  const ours = await ancestors(await gitResolveRevision(revision));
+  const theirs = await ancestors(await gitResolveRevision(upstream));
+  return {
+    ahead: [...ours].filter((oid) => !theirs.has(oid)).length,
+    behind: [...theirs].filter((oid) => !ours.has(oid)).length,
+  };
+}
+
+export async function gitListBranches(options: { remote?: string } = {}): Promise<string[]> {
+  return await git.listBranches({ fs: getFs(), dir: getRepoDir(), remote: options.remote });
 }
 
 export async function gitCurrentBranch(): Promise<string | undefined> {
-  return await git.currentBranch({ fs: getFs(), dir }) || undefined;
+  return await git.currentBranch({ fs: getFs(), dir: getRepoDir() }) || undefined;
+}
+
+/**
+ * A file's blob as seen in one snapshot (a commit tree, the index or the
+ * working tree). Working tree blobs aren't in the object database yet,
+ * so they carry their content directly.
+ */
+interface SnapshotEntry {
+  oid: string;
+  content?: string;
+}
+
+type Snapshot = Map<string, SnapshotEntry>;
+
+export interface GitDiffOptions {
+  staged?: boolean;   // Compare a commit (default HEAD) against the index
+  from?: string;      // Commit to compare from
+  to?: string;        // Commit to compare to (default: index or working tree)
+  filepaths?: string[];
+}
+
+/**
+ * Read a ref's reflog (HEAD, or a full ref name like refs/heads/main),
+ * newest first. A ref that was never logged has an empty one.
+ */
+export async function gitReadReflog(ref: string): Promise<ReflogEntry[]> {
+  try {
+    return parseReflog(await fsModule.readFile(repoPath(`.git/logs/${ref}`))).reverse();
+  } catch {
+    return [];
+  }
+}
+
+// The commit a ref pointed at `index` moves ago, from its reflog
+async function resolveReflogEntry(name: string, index: number): Promise<string> {
+  const ref = name === 'HEAD' ? name : await git.expandRef({ fs: getFs(), dir: getRepoDir(), ref: name });
+  const entries = await gitReadReflog(ref);
+  if (index >= entries.length) {
+    throw new Error(`log for '${name}' only has ${entries.length} entries`);
+  }
+  return entries[index].newOid;
+}
+
+/**
+ * The branch (or, if HEAD was detached, the commit) checked out `n`
+ * checkouts ago, from HEAD's reflog. Null when there weren't that many.
+ */
+export async function gitPreviousCheckout(n: number): Promise<string | null> {
+  return previousCheckout((await gitReadReflog('HEAD')).map((entry) => entry.message), n);
+}
+
+// The commit a branch's upstream (the current branch's for '') points at
+async function resolveUpstream(branch: string): Promise<string> {
+  const name = branch || await gitCurrentBranch();
+  if (!name) {
+    throw new Error('HEAD does not point to a branch');
+  }
+  const remote = await git.getConfig({ fs: getFs(), dir: getRepoDir(), path: `branch.${name}.remote` });
+  const merge = await git.getConfig({ fs: getFs(), dir: getRepoDir(), path: `branch.${name}.merge` });
+  if (!remote || !merge) {
+    throw new Error(`no upstream configured for branch '${name}'`);
+  }
+  const ref = `refs/remotes/${remote}/${(merge as string).replace(/^refs\/heads\//, '')}`;
+  return await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref });
+}
+
+// The newest commit reachable from any ref whose message matches, like git's `:/<pattern>`
+async function searchCommitMessages(pattern: string): Promise<string> {
+  const regex = new RegExp(pattern);
+  const entry = (await gitLogEntries([], true)).find((candidate) => regex.test(candidate.message));
+  if (!entry) {
+    throw new Error(`no commit message matches '${pattern}'`);
+  }
+  return entry.oid;
+}
+
+// A ref name, or failing that a full or abbreviated object id
+async function resolveName(name: string): Promise<string> {
+  try {
+    return await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref: name });
+  } catch (err) {
+    if (!isObjectIdPrefix(name)) throw err;
+  }
+  try {
+    return await git.expandOid({ fs: getFs(), dir: getRepoDir(), oid: name });
+  } catch (err) {
+    if (err instanceof Errors.AmbiguousError) {
+      throw new Error(`short object ID ${name} is ambiguous`);
+    }
+    throw err;
+  }
+}
+
+async function resolveBase(base: RevisionBase): Promise<string> {
+  switch (base.kind) {
+    case 'name':
+      return resolveName(base.name);
+    case 'reflog':
+      return resolveReflogEntry(base.ref || (await gitCurrentBranch()) || 'HEAD', base.index);
+    case 'upstream':
+      return resolveUpstream(base.branch);
+    case 'previous': {
+      const name = await gitPreviousCheckout(base.n);
+      if (name === null) {
+        throw new Error(`no branch was checked out ${base.n} checkouts ago`);
+      }
+      return resolveName(name);
+    }
+    case 'search':
+      return searchCommitMessages(base.pattern);
+  }
+}
+
+/**
+ * Resolve a revision to a full object id: a ref name (HEAD, a branch,
+ * a tag, refs/...), a full or abbreviated object id, or any of the forms
+ * parseRevision reads, like HEAD~2, main^2, HEAD@{1}, @{-1}, @{u} or :/fix.
+ */
+export async function gitResolveRevision(revision: string): Promise<string> {
+  const parsed = parseRevision(revision);
+  if (!parsed) {
+    throw new Error(`bad revision '${revision}'`);
+  }
+  let oid = await resolveBase(parsed.base);
+  for (const step of parsed.steps) {
+    // readCommit peels annotated tags to the commit they point at
+    const { oid: commit, commit: { parent } } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid });
+    if (step.kind === 'parent') {
+      oid = step.n === 0 ? commit : parent[step.n - 1];
+    } else {
+      oid = commit;
+      for (let i = 0; i < step.n && oid; i++) {
+        oid = (await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid })).commit.parent[0];
+      }
+    }
+    if (!oid) {
+      throw new Error(`bad revision '${revision}'`);
+    }
+  }
+  return oid;
+}
+
+/**
+ * Resolve a revision to the commit it names, peeling annotated tags.
+ */
+export async function gitResolveCommit(ref: string): Promise<string> {
+  const { oid } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid: await gitResolveRevision(ref) });
+  return oid;
+}
+
+async function readTreeSnapshot(ref: string): Promise<Snapshot> {
+  const snapshot: Snapshot = new Map();
+  let oid: string;
+  try {
+    oid = await gitResolveRevision(ref);
+  } catch (err) {
+    // An unborn HEAD is an empty tree, anything else is a bad revision
+    if (ref === 'HEAD') return snapshot;
+    throw err;
+  }
+  const { commit } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid });
+
+  async function collect(treeOid: string, prefix: string): Promise<void> {
+    const { tree } = await git.readTree({ fs: getFs(), dir: getRepoDir(), oid: treeOid });
+    for (const entry of tree) {
+      const path = prefix ? `${prefix}/${entry.path}` : entry.path;
+      if (entry.type === 'tree') {
+        await collect(entry.oid, path);
+      } else if (entry.type === 'blob') {
+        snapshot.set(path, { oid: entry.oid });
+      }
+    }
+  }
+  await collect(commit.tree, '');
+  return snapshot;
+}
+
+async function readIndexSnapshot(): Promise<Snapshot> {
+  const entries: Array<[string, string]> = await git.walk({
+    fs: getFs(),
+    dir: getRepoDir(),
+    trees: [git.STAGE()],
+    map: async (filepath, [entry]) => {
+      if (!entry || (await entry.type()) !== 'blob') return undefined;
+      return [filepath, await entry.oid()];
+    },
+  });
+  return new Map(entries.map(([path, oid]) => [path, { oid }]));
+}
+
+async function readWorkdirSnapshot(paths: Iterable<string>): Promise<Snapshot> {
+  const snapshot: Snapshot = new Map();
+  for (const path of paths) {
+    try {
+      const content = await fsModule.readFile(repoPath(path));
+      const { oid } = await git.hashBlob({ object: content });
+      snapshot.set(path, { oid, content });
+    } catch {
+      // Deleted from the working tree
+    }
+  }
+  return snapshot;
+}
+
+async function readSnapshotContent(entry: SnapshotEntry | undefined): Promise<string | null> {
+  if (!entry) return null;
+  if (entry.content !== undefined) return entry.content;
+  const { blob } = await git.readBlob({ fs: getFs(), dir: getRepoDir(), oid: entry.oid });
+  return new TextDecoder().decode(blob);
+}
+
+export interface GitFileVersions {
+  filepath: string;
+  head: string | null;
+  index: string | null;
+  workdir: string | null;
+}
+
+/**
+ * Read each file's content in HEAD, the index and the working tree.
+ * A null content means the file doesn't exist in that area.
+ */
+export async function gitFileVersions(filepaths: string[]): Promise<GitFileVersions[]> {
+  const head = await readTreeSnapshot('HEAD');
+  const index = await readIndexSnapshot();
+  const workdir = await readWorkdirSnapshot(filepaths);
+  return Promise.all(filepaths.map(async (filepath) => ({
+    filepath,
+    head: await readSnapshotContent(head.get(filepath)),
+    index: await readSnapshotContent(index.get(filepath)),
+    workdir: await readSnapshotContent(workdir.get(filepath)),
+  })));
+}
+
+/**
+ * Compute the changed files between two snapshots, like `git diff`:
+ * - no options: index vs working tree
+ * - staged: commit (default HEAD) vs index
+ * - from: commit vs working tree
+ * - from + to: commit vs commit
+ * - to alone: nothing vs commit (what a root commit adds)
+ */
+export async function gitDiff(options: GitDiffOptions = {}): Promise<FileDiff[]> {
+  const { staged = false, from, to, filepaths } = options;
+
+  let oldSide: Snapshot;
+  let newSide: Snapshot;
+  if (staged) {
+    oldSide = await readTreeSnapshot(from ?? 'HEAD');
+    newSide = await readIndexSnapshot();
+  } else if (from && to) {
+    oldSide = await readTreeSnapshot(from);
+    newSide = await readTreeSnapshot(to);
+  } else if (from) {
+    oldSide = await readTreeSnapshot(from);
+    const index = await readIndexSnapshot();
+    newSide = await readWorkdirSnapshot(new Set([...oldSide.keys(), ...index.keys()]));
+  } else if (to) {
+    oldSide = new Map();
+    newSide = await readTreeSnapshot(to);
+  } else {
+    oldSide = await readIndexSnapshot();
+    newSide = await readWorkdirSnapshot(oldSide.keys());
+  }
+
+  const allPaths = [...new Set([...oldSide.keys(), ...newSide.keys()])].sort();
+  const matchesFilter = (path: string) =>
+    !filepaths || filepaths.length === 0 || filepaths.some((spec) => matchesPathspec(path, spec));
+
+  const diffs: FileDiff[] = [];
+  for (const filepath of allPaths) {
+    if (!matchesFilter(filepath)) continue;
+    const oldEntry = oldSide.get(filepath);
+    const newEntry = newSide.get(filepath);
+    if (oldEntry?.oid === newEntry?.oid) continue;
+    diffs.push({
+      filepath,
+      oldOid: oldEntry?.oid ?? null,
+      newOid: newEntry?.oid ?? null,
+      oldContent: await readSnapshotContent(oldEntry),
+      newContent: await readSnapshotContent(newEntry),
+    });
+  }
+  return diffs;
+}
+
+/**
+ * Paths left conflicted by a merge: all of them, and those where one
+ * side deleted the file the other side changed.
+ */
+export interface GitConflicts {
+  conflicts: string[];
+  deletedByUs: string[];
+  deletedByThem: string[];
+}
+
+export type GitMergeResult =
+  | { kind: 'up-to-date' }
+  | { kind: 'fast-forward'; from: string; to: string }
+  | { kind: 'merge'; oid: string }
+  | ({ kind: 'conflict' } & GitConflicts);
+
+async function removeIfExists(path: string): Promise<void> {
+  try {
+    await getFs().promises.unlink(path);
+  } catch {
+    // Already gone
+  }
+}
+
+async function clearMergeState(): Promise<void> {
+  await removeIfExists(repoPath('.git/MERGE_HEAD'));
+  await removeIfExists(repoPath('.git/MERGE_MSG'));
+}
+
+/**
+ * Get the commit being merged, or null when no merge is in progress.
+ */
+export async function gitMergeHead(): Promise<string | null> {
+  try {
+    const content = await fsModule.readFile(repoPath('.git/MERGE_HEAD'));
+    return content.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the prepared message for the merge in progress, if any.
+ */
+export async function gitMergeMessage(): Promise<string | null> {
+  try {
+    return (await fsModule.readFile(repoPath('.git/MERGE_MSG'))).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read every entry of .git/index, including merge conflict stages.
+ * Returns an empty list when there's no index yet.
+ */
+export async function gitIndexEntries(): Promise<IndexEntry[]> {
+  try {
+    const buffer = await getFs().promises.readFile(repoPath('.git/index'));
+    return parseIndex(buffer as Uint8Array);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write .git/index from a list of entries, for the merge stages
+ * isomorphic-git can't record itself.
+ */
+async function writeIndexEntries(entries: IndexEntry[]): Promise<void> {
+  const content = serializeIndex(entries);
+  // The file ends with the SHA-1 checksum of everything before it
+  const buffer = new Uint8Array(content.length + 20);
+  buffer.set(content);
+  buffer.set(new Uint8Array(await crypto.subtle.digest('SHA-1', buffer.subarray(0, content.length))), content.length);
+  await getFs().promises.writeFile(repoPath('.git/index'), buffer);
+}
+
+/**
+ * Get paths with unresolved conflicts, read from the index merge stages.
+ */
+export async function gitUnmergedPaths(): Promise<string[]> {
+  return getUnmergedPaths(await gitIndexEntries());
+}
+
+/**
+ * Check for staged or unstaged changes to tracked files
+ * (i.e. anything that a merge or checkout could overwrite).
+ */
+export async function gitHasTrackedChanges(): Promise<boolean> {
+  const status = await gitStatus();
+  return status.some(([, head, workdir, stage]) =>
+    !(head === 1 && workdir === 1 && stage === 1) &&
+    !(head === 0 && stage === 0)
+  );
+}
+
+function defaultMergeMessage(theirs: string, ours: string | undefined): string {
+  const into = ours && ours !== 'main' && ours !== 'master' ? ` into ${ours}` : '';
+  return `Merge branch '${theirs}'${into}`;
+}
+
+/**
+ * Merge a branch (or remote-tracking branch, or any revision) into the
+ * current branch.
+ *
+ * Wraps isomorphic-git's merge, which only moves the branch ref: the
+ * working tree is checked out afterwards, and on conflict we record
+ * MERGE_HEAD/MERGE_MSG and stage the cleanly merged files ourselves.
+ * Callers should refuse to merge over local changes (gitHasTrackedChanges).
+ */
+export async function gitMerge(theirs: string, message?: string): Promise<GitMergeResult> {
+  const ours = await gitCurrentBranch();
+  const oursRef = ours ?? 'HEAD';
+  const theirsOid = await gitResolveCommit(theirs);
+  const before = await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref: 'HEAD' });
+  const untrackedBefore = new Set(
+    (await gitStatus()).filter(([, head, , stage]) => head === 0 && stage === 0).map(([path]) => path)
+  );
+  const mergeMessage = message ?? defaultMergeMessage(theirs, ours);
+
+  try {
+    const result = await git.merge({
+      fs: getFs(),
+      dir: getRepoDir(),
+      ours: oursRef,
+      theirs: theirsOid,
+      message: mergeMessage,
+      author: AUTHOR,
+      abortOnConflict: false,
+      // isomorphic-git would label their side with the commit id, since that's what it's given,
+      // and glue markers onto last lines without a newline
+      mergeDriver: ({ contents: [base, oursText, theirsText] }) => {
+        const merged = mergeText(base, oursText, theirsText, { ours: 'HEAD', theirs });
+        return { mergedText: merged.content, cleanMerge: !merged.conflicted };
+      },
+    });
+
+    if (result.alreadyMerged) {
+      return { kind: 'up-to-date' };
+    }
+    await git.checkout({ fs: getFs(), dir: getRepoDir(), ref: oursRef });
+    if (result.fastForward) {
+      return { kind: 'fast-forward', from: before, to: theirsOid };
+    }
+    return { kind: 'merge', oid: result.oid as string };
+  } catch (err) {
+    if (!(err instanceof Errors.MergeConflictError)) {
+      throw err;
+    }
+
+    // Stage everything that merged cleanly, like git does
+    const { filepaths, deleteByUs, deleteByTheirs } = err.data;
+    const conflicted = new Set(filepaths);
+    for (const [path, , workdir, stage] of await gitStatus()) {
+      if (conflicted.has(path) || untrackedBefore.has(path) || workdir === stage) continue;
+      if (workdir === 0) {
+        await git.remove({ fs: getFs(), dir: getRepoDir(), filepath: path });
+      } else {
+        await git.add({ fs: getFs(), dir: getRepoDir(), filepath: path });
+      }
+    }
+
+    await fsModule.writeFile(repoPath('.git/MERGE_HEAD'), `${theirsOid}\n`);
+    await fsModule.writeFile(repoPath('.git/MERGE_MSG'), `${mergeMessage}\n`);
+    return {
+      kind: 'conflict',
+      conflicts: filepaths,
+      deletedByUs: deleteByUs,
+      deletedByThem: deleteByTheirs,
+    };
+  }
+}
+
+/**
+ * Apply the changes from `base` to `theirs` on top of HEAD, in the index
+ * and working tree, with a three-way merge of each file (a null base
+ * means `theirs` adds everything, a null `theirs` deletes it). This is
+ * how commits are replayed: cherry-picking a commit applies its
+ * parent -> commit changes, reverting it the commit -> parent ones.
+ *
+ * Files both sides changed are merged line by line; where the changes
+ * overlap, the file gets conflict markers (`label` names their side)
+ * and the index records the base, ours and theirs stages. Callers
+ * should refuse to apply over local changes (gitHasTrackedChanges).
+ */
+export async function gitApplyChanges(base: string | null, theirs: string | null, label: string): Promise<GitConflicts> {
+  const [baseTree, oursTree, theirsTree] = await Promise.all([
+    base ? readTreeSnapshot(base) : new Map<string, SnapshotEntry>(),
+    readTreeSnapshot('HEAD'),
+    theirs ? readTreeSnapshot(theirs) : new Map<string, SnapshotEntry>(),
+  ]);
+  const result: GitConflicts = { conflicts: [], deletedByUs: [], deletedByThem: [] };
+  const stages: IndexEntry[] = [];
+  const stage = (path: string, entry: SnapshotEntry | undefined, number: number) => {
+    if (entry) stages.push({ path, oid: entry.oid, mode: 0o100644, stage: number });
+  };
+
+  const paths = [...new Set([...baseTree.keys(), ...oursTree.keys(), ...theirsTree.keys()])].sort();
+  for (const path of paths) {
+    const [b, o, t] = [baseTree.get(path), oursTree.get(path), theirsTree.get(path)];
+    // Nothing to take when they didn't change the file, or we already made their change
+    if (b?.oid === t?.oid || o?.oid === t?.oid) continue;
+
+    if (b?.oid === o?.oid) {
+      // Only their side changed the file
+      if (t) {
+        await writeWorkdirFile(path, await readSnapshotContent(t) as string);
+        await git.add({ fs: getFs(), dir: getRepoDir(), filepath: path });
+      } else {
+        await git.remove({ fs: getFs(), dir: getRepoDir(), filepath: path });
+        await removeWorkdirFile(path);
+      }
+      continue;
+    }
+
+    if (o && t) {
+      const merged = mergeText(
+        await readSnapshotContent(b) ?? '',
+        await readSnapshotContent(o) as string,
+        await readSnapshotContent(t) as string,
+        { ours: 'HEAD', theirs: label },
+      );
+      await writeWorkdirFile(path, merged.content);
+      if (!merged.conflicted) {
+        await git.add({ fs: getFs(), dir: getRepoDir(), filepath: path });
+        continue;
+      }
+    } else {
+      // One side deleted the file the other changed; leave the changed version to decide on
+      await writeWorkdirFile(path, await readSnapshotContent(o ?? t) as string);
+      (o ? result.deletedByThem : result.deletedByUs).push(path);
+    }
+    stage(path, b, 1);
+    stage(path, o, 2);
+    stage(path, t, 3);
+    result.conflicts.push(path);
+  }
+
+  if (result.conflicts.length > 0) {
+    const conflicted = new Set(result.conflicts);
+    const entries = (await gitIndexEntries()).filter((entry) => !conflicted.has(entry.path));
+    await writeIndexEntries([...entries, ...stages]);
+  }
+  return result;
+}
+
+/**
+ * Abort the merge in progress, restoring the pre-merge state.
+ */
+export async function gitAbortMerge(): Promise<void> {
+  await git.abortMerge({ fs: getFs(), dir: getRepoDir() });
+  await clearMergeState();
+}
+
+/**
+ * Hash content as a blob, optionally writing it to the object database
+ * (`git hash-object [-w]`).
+ */
+export async function gitHashObject(content: string, write = false): Promise<string> {
+  if (write) {
+    return await git.writeBlob({ fs: getFs(), dir: getRepoDir(), blob: new TextEncoder().encode(content) });
+  }
+  const { oid } = await git.hashBlob({ object: content });
+  return oid;
+}
+
+/**
+ * List a tree's entries (`git ls-tree`). A commit lists its root tree.
+ * With recursive, subtrees are expanded and only blobs are listed,
+ * each with its full path.
+ */
+export async function gitListTree(oid: string, recursive = false): Promise<TreeEntry[]> {
+  const { tree } = await git.readTree({ fs: getFs(), dir: getRepoDir(), oid });
+  if (!recursive) {
+    return tree;
+  }
+  const entries: TreeEntry[] = [];
+  for (const entry of tree) {
+    if (entry.type === 'tree') {
+      const children = await gitListTree(entry.oid, true);
+      entries.push(...children.map((child) => ({ ...child, path: `${entry.path}/${child.path}` })));
+    } else {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Write the index as tree objects and return the root tree's id
+ * (`git write-tree`). Fails while the index has unresolved conflicts.
+ */
+export async function gitWriteTree(): Promise<string> {
+  const entries = await gitIndexEntries();
+  const unmerged = getUnmergedPaths(entries);
+  if (unmerged.length > 0) {
+    throw new Error(`${unmerged[0]}: unmerged`);
+  }
+
+  async function write(node: TreeNode): Promise<string> {
+    const tree: TreeEntry[] = node.blobs.map(({ name, mode, oid }) => ({ mode, path: name, oid, type: 'blob' }));
+    for (const [name, child] of node.trees) {
+      tree.push({ mode: '040000', path: name, oid: await write(child), type: 'tree' });
+    }
+    return await git.writeTree({ fs: getFs(), dir: getRepoDir(), tree });
+  }
+  return await write(buildTreeHierarchy(entries));
+}
+
+/**
+ * Create a commit object for a tree without moving any ref
+ * (`git commit-tree`).
+ */
+export async function gitCommitTree(tree: string, parents: string[], message: string): Promise<string> {
+  const person = gitSignature();
+  const body = message.endsWith('\n') ? message : `${message}\n`;
+  return await git.writeCommit({
+    fs: getFs(),
+    dir: getRepoDir(),
+    commit: { tree, parent: parents, author: person, committer: person, message: body },
+  });
+}
+
+/**
+ * Point a ref at an object (`git update-ref`). HEAD updates the branch
+ * it points at. With oldOid, the ref must currently have that value.
+ */
+export async function gitUpdateRef(ref: string, oid: string, oldOid?: string): Promise<void> {
+  const target = ref === 'HEAD'
+    ? (await git.currentBranch({ fs: getFs(), dir: getRepoDir(), fullname: true })) || 'HEAD'
+    : ref;
+  if (oldOid !== undefined) {
+    const current = await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref: target }).catch(() => null);
+    if (current !== oldOid) {
+      throw new Error(`cannot lock ref '${ref}': is at ${current ?? 'nothing'} but expected ${oldOid}`);
+    }
+  }
+  await git.writeRef({ fs: getFs(), dir: getRepoDir(), ref: target, value: oid, force: true });
+}
+
+/**
+ * Delete a ref (`git update-ref -d`).
+ */
+export async function gitDeleteRef(ref: string): Promise<void> {
+  await git.deleteRef({ fs: getFs(), dir: getRepoDir(), ref });
+}
+
+/**
+ * List the tracked paths (in the index) covered by a pathspec.
+ */
+export async function gitTrackedPaths(pathspec: string): Promise<string[]> {
+  const paths = new Set((await gitIndexEntries()).map((entry) => entry.path));
+  return [...paths].filter((path) => matchesPathspec(path, pathspec));
+}
+
+// Create the directories a working tree file lives in
+async function makeParentDirs(path: string): Promise<void> {
+  const segments = path.split('/').slice(0, -1);
+  for (let i = 1; i <= segments.length; i++) {
+    await getFs().promises.mkdir(repoPath(segments.slice(0, i).join('/'))).catch(() => {
+      // Already exists
+    });
+  }
+}
+
+async function writeWorkdirFile(path: string, content: string): Promise<void> {
+  await makeParentDirs(path);
+  await fsModule.writeFile(repoPath(path), content);
+}
+
+/**
+ * Delete a file from the working tree, then any directories it leaves empty.
+ */
+async function removeWorkdirFile(path: string): Promise<void> {
+  await removeIfExists(repoPath(path));
+  const segments = path.split('/').slice(0, -1);
+  for (let i = segments.length; i > 0; i--) {
+    try {
+      await fsModule.rmdir(repoPath(segments.slice(0, i).join('/')));
+    } catch {
+      return; // Not empty (or already gone)
+    }
+  }
+}
+
+export interface GitRestoreOptions {
+  staged?: boolean;     // Restore the index (from HEAD, or source)
+  worktree?: boolean;   // Restore the working tree (from the index, or source); default unless staged
+  source?: string;      // Commit to restore from
+}
+
+/**
+ * Restore files in the index and/or working tree (`git restore`).
+ * Files missing from the source are removed. Throws when a pathspec
+ * matches no file known to git.
+ */
+export async function gitRestore(pathspecs: string[], options: GitRestoreOptions = {}): Promise<string[]> {
+  const { staged = false, worktree = !staged, source } = options;
+  const index = await readIndexSnapshot();
+  const tree = await readTreeSnapshot(source ?? 'HEAD');
+  // resetIndex only knows ref names, not revisions like HEAD~1
+  const sourceOid = source === undefined ? undefined : await gitResolveCommit(source);
+  // Restoring both areas, or from a given commit, takes the commit's version
+  const fromTree = staged || source !== undefined;
+  const known = new Set([...index.keys(), ...(fromTree ? tree.keys() : [])]);
+
+  const paths = new Set<string>();
+  for (const spec of pathspecs) {
+    const matched = [...known].filter((path) => matchesPathspec(path, spec));
+    if (matched.length === 0) {
+      throw new Error(`pathspec '${spec}' did not match any file(s) known to git`);
+    }
+    matched.forEach((path) => paths.add(path));
+  }
+
+  for (const path of [...paths].sort()) {
+    if (staged) {
+      await git.resetIndex({ fs: getFs(), dir: getRepoDir(), filepath: path, ref: sourceOid });
+    }
+    if (worktree) {
+      const content = await readSnapshotContent(fromTree ? tree.get(path) : index.get(path));
+      if (content === null) {
+        await removeWorkdirFile(path);
+      } else {
+        await writeWorkdirFile(path, content);
+      }
+    }
+  }
+  return [...paths].sort();
+}
+
+export type GitResetMode = 'soft' | 'mixed' | 'hard';
+
+/**
+ * Move the current branch (or a detached HEAD) to a commit (`git reset`):
+ * - soft: only the branch moves
+ * - mixed: the index is reset to the commit too
+ * - hard: the index and working tree are reset to the commit
+ * The previous HEAD is saved as ORIG_HEAD. Returns the new HEAD.
+ */
+export async function gitReset(revision: string, mode: GitResetMode): Promise<string> {
+  if (mode === 'soft' && await gitMergeHead()) {
+    throw new Error('Cannot do a soft reset in the middle of a merge.');
+  }
+  const oid = await gitResolveRevision(revision);
+  const { type } = await git.readObject({ fs: getFs(), dir: getRepoDir(), oid });
+  if (type !== 'commit') {
+    throw new Error(`Could not parse object '${revision}'.`);
+  }
+
+  const before = await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref: 'HEAD' }).catch(() => null);
+  const indexBefore = await readIndexSnapshot();
+  const branch = await git.currentBranch({ fs: getFs(), dir: getRepoDir(), fullname: true });
+  if (before) {
+    await fsModule.writeFile(repoPath('.git/ORIG_HEAD'), `${before}\n`);
+  }
+  await git.writeRef({ fs: getFs(), dir: getRepoDir(), ref: branch || 'HEAD', value: oid, force: true });
+  if (mode === 'soft') {
+    return oid;
+  }
+
+  await clearMergeState();
+  const tree = await readTreeSnapshot(oid);
+  const paths = [...new Set([...indexBefore.keys(), ...tree.keys(), ...await gitUnmergedPaths()])].sort();
+  if (mode === 'hard') {
+    for (const path of paths) {
+      const content = await readSnapshotContent(tree.get(path));
+      if (content === null) {
+        await removeWorkdirFile(path);
+      } else {
+        await writeWorkdirFile(path, content);
+      }
+    }
+  }
+  // Reset the index after the working tree, so unchanged files keep their stats
+  for (const path of paths) {
+    await git.resetIndex({ fs: getFs(), dir: getRepoDir(), filepath: path, ref: oid });
+  }
+  return oid;
+}
+
+/**
+ * Stop tracking files (`git rm`), deleting them from the working
+ * tree too unless cached. Callers check for local changes first.
+ */
+export async function gitRemove(paths: string[], cached = false): Promise<void> {
+  for (const path of paths) {
+    await git.remove({ fs: getFs(), dir: getRepoDir(), filepath: path });
+    if (!cached) {
+      await removeWorkdirFile(path);
+    }
+  }
+}
+
+/**
+ * Move or rename a tracked file or directory (`git mv`). Index entries
+ * move with it, keeping whatever was staged for them.
+ */
+export async function gitMove(from: string, to: string): Promise<void> {
+  const moved = (await gitIndexEntries()).filter((entry) => entry.stage === 0 && matchesPathspec(entry.path, from));
+  await makeParentDirs(to);
+  await fsModule.rename(repoPath(from), repoPath(to));
+
+  for (const entry of moved) {
+    const filepath = to + entry.path.slice(from.length);
+    await git.remove({ fs: getFs(), dir: getRepoDir(), filepath: entry.path });
+    await git.updateIndex({ fs: getFs(), dir: getRepoDir(), filepath, oid: entry.oid, mode: entry.mode, add: true });
+  }
+}
+
+export interface StashEntry {
+  oid: string;
+  message: string;
+}
+
+/**
+ * List stash entries, newest first, as `stash@{0}`, `stash@{1}`, ...
+ * They're read from the stash reflog, where each push is recorded.
+ */
+export async function gitStashList(): Promise<StashEntry[]> {
+  return (await gitReadReflog('refs/stash')).map((entry) => ({ oid: entry.newOid, message: entry.message }));
+}
+
+/**
+ * isomorphic-git signs stash commits with the identity from the repository
+ * config, so make sure there is one.
+ */
+async function ensureIdentity(): Promise<void> {
+  const dir = getRepoDir();
+  if (!(await git.getConfig({ fs: getFs(), dir, path: 'user.name' }))) {
+    await git.setConfig({ fs: getFs(), dir, path: 'user.name', value: AUTHOR.name });
+  }
+  if (!(await git.getConfig({ fs: getFs(), dir, path: 'user.email' }))) {
+    await git.setConfig({ fs: getFs(), dir, path: 'user.email', value: AUTHOR.email });
+  }
+}
+
+/**
+ * Save staged and unstaged changes to tracked files as a new stash entry
+ * and reset the working tree to HEAD (`git stash push`).
+ */
+export async function gitStashPush(message?: string): Promise<StashEntry> {
+  await ensureIdentity();
+  await git.stash({ fs: getFs(), dir: getRepoDir(), op: 'push', message });
+  return (await gitStashList())[0];
+}
+
+/**
+ * Reapply a stash entry's changes to the working tree (and the index,
+ * for changes that were staged), optionally dropping it afterwards.
+ */
+export async function gitStashApply(index: number, drop = false): Promise<void> {
+  await git.stash({ fs: getFs(), dir: getRepoDir(), op: drop ? 'pop' : 'apply', refIdx: index });
+}
+
+export async function gitStashDrop(index: number): Promise<void> {
+  await git.stash({ fs: getFs(), dir: getRepoDir(), op: 'drop', refIdx: index });
+}
+
+export async function gitStashClear(): Promise<void> {
+  await git.stash({ fs: getFs(), dir: getRepoDir(), op: 'clear' });
+}
+
+/**
+ * The changes a stash entry holds, relative to the commit it was made on.
+ */
+export async function gitStashDiff(index: number): Promise<FileDiff[]> {
+  const { oid } = (await gitStashList())[index];
+  return gitCommitDiff(oid);
+}
+
+/**
+ * The changes a commit made, relative to its first parent.
+ */
+export async function gitCommitDiff(oid: string): Promise<FileDiff[]> {
+  const { commit } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid });
+  return gitDiff({ from: commit.parent[0], to: oid });
+}
+
+export type GitObject =
+  | { type: 'commit'; oid: string; commit: CommitObject }
+  | { type: 'tag'; oid: string; tag: TagObject }
+  | { type: 'tree'; oid: string; tree: TreeEntry[] }
+  | { type: 'blob'; oid: string; content: string };
+
+/**
+ * Read and parse any object from the object database.
+ */
+export async function gitReadObject(oid: string): Promise<GitObject> {
+  const { type, object } = await git.readObject({ fs: getFs(), dir: getRepoDir(), oid, format: 'parsed' });
+  switch (type) {
+    case 'commit':
+      return { type, oid, commit: object as CommitObject };
+    case 'tag':
+      return { type, oid, tag: object as TagObject };
+    case 'tree':
+      return { type, oid, tree: object as TreeEntry[] };
+    default:
+      return { type: 'blob', oid, content: new TextDecoder().decode(object as Uint8Array) };
+  }
+}
+
+export async function gitListTags(): Promise<string[]> {
+  return await git.listTags({ fs: getFs(), dir: getRepoDir() });
+}
+
+export interface TagInfo {
+  oid: string;         // What the tag ref points at: a tag object or, for a lightweight tag, a commit
+  annotated: boolean;
+  commit: string;      // The commit it tags
+}
+
+/**
+ * Look up a tag by name. Returns null when there's no such tag.
+ */
+export async function gitReadTag(name: string): Promise<TagInfo | null> {
+  let oid: string;
+  try {
+    oid = await git.resolveRef({ fs: getFs(), dir: getRepoDir(), ref: `refs/tags/${name}` });
+  } catch {
+    return null;
+  }
+  const { type } = await git.readObject({ fs: getFs(), dir: getRepoDir(), oid, format: 'content' });
+  // readCommit peels annotated tags to the commit they point at
+  const { oid: commit } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid });
+  return { oid, annotated: type === 'tag', commit };
+}
+
+/**
+ * The names `git log` decorates commits with, by commit: HEAD (as
+ * `HEAD -> <branch>` when on a branch), then tags, remote-tracking
+ * branches and local branches.
+ */
+export async function gitRefDecorations(): Promise<Map<string, string[]>> {
+  const fs = getFs();
+  const dir = getRepoDir();
+  const decorations = new Map<string, string[]>();
+  const add = (oid: string, name: string) => decorations.set(oid, [...(decorations.get(oid) ?? []), name]);
+
+  const branch = await gitCurrentBranch();
+  try {
+    add(await git.resolveRef({ fs, dir, ref: 'HEAD' }), branch ? `HEAD -> ${branch}` : 'HEAD');
+  } catch {
+    // No commits yet
+  }
+  for (const name of await gitListTags()) {
+    const tag = await gitReadTag(name);
+    if (tag) add(tag.commit, `tag: ${name}`);
+  }
+  for (const { remote } of await git.listRemotes({ fs, dir })) {
+    for (const name of await gitListBranches({ remote })) {
+      add(await git.resolveRef({ fs, dir, ref: `refs/remotes/${remote}/${name}` }), `${remote}/${name}`);
+    }
+  }
+  for (const name of await gitListBranches()) {
+    if (name !== branch) add(await git.resolveRef({ fs, dir, ref: `refs/heads/${name}` }), name);
+  }
+  return decorations;
+}
+
+/**
+ * Tag a revision (`git tag`). With a message, an annotated tag object is
+ * written; without one, the tag is a lightweight ref to the commit.
+ */
+export async function gitTag(name: string, revision = 'HEAD', message?: string): Promise<void> {
+  const object = await gitResolveRevision(revision);
+  if (message === undefined) {
+    await git.tag({ fs: getFs(), dir: getRepoDir(), ref: name, object });
+    return;
+  }
+  await git.annotatedTag({
+    fs: getFs(),
+    dir: getRepoDir(),
+    ref: name,
+    object,
+    message: message.endsWith('\n') ? message : `${message}\n`,
+    tagger: gitSignature(),
+  });
+}
+
+export async function gitDeleteTag(name: string): Promise<void> {
+  await git.deleteTag({ fs: getFs(), dir: getRepoDir(), ref: name });
+}
+
+async function ancestors(oid: string): Promise<Set<string>> {
+  const commits = await git.log({ fs: getFs(), dir: getRepoDir(), ref: oid });
+  return new Set(commits.map((commit) => commit.oid));
+}
+
+/**
+ * Name a commit after the nearest tag it was built on (`git describe`):
+ * the tag alone when it tags the commit itself, otherwise
+ * `<tag>-<commits since the tag>-g<short id>`. Only annotated tags
+ * count unless `includeLightweight` is set.
+ */
+export async function gitDescribe(revision = 'HEAD', includeLightweight = false): Promise<string> {
+  const { oid } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid: await gitResolveRevision(revision) });
+
+  const tagged = new Map<string, string>();
+  let skippedLightweight = false;
+  for (const name of await gitListTags()) {
+    const tag = await gitReadTag(name);
+    if (!tag) continue;
+    if (!tag.annotated && !includeLightweight) {
+      skippedLightweight = true;
+    } else if (!tagged.has(tag.commit)) {
+      tagged.set(tag.commit, name);
+    }
+  }
+
+  // Search back from the commit, nearest commits first
+  const queue = [oid];
+  const seen = new Set(queue);
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    const name = tagged.get(current);
+    if (name !== undefined) {
+      if (current === oid) return name;
+      const since = await ancestors(current);
+      const distance = [...(await ancestors(oid))].filter((commit) => !since.has(commit)).length;
+      return `${name}-${distance}-g${oid.slice(0, 7)}`;
+    }
+    const { commit } = await git.readCommit({ fs: getFs(), dir: getRepoDir(), oid: current });
+    for (const parent of commit.parent) {
+      if (!seen.has(parent)) {
+        seen.add(parent);
+        queue.push(parent);
+      }
+    }
+  }
+
+  throw new Error(skippedLightweight
+    ? `No annotated tags can describe '${oid}'.\nHowever, there were unannotated tags: try --tags.`
+    : 'No names found, cannot describe anything.');
 }
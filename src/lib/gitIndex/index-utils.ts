@@ -0,0 +1,147 @@
+/**
+ * Pure functions for reading and writing the git index (.git/index) file format.
+ * No I/O, no side effects - fully unit testable.
+ *
+ * isomorphic-git doesn't expose merge stages, so we read and write them directly.
+ * Only index version 2 (what isomorphic-git writes) is supported.
+ */
+
+export interface IndexEntry {
+  path: string;
+  oid: string;
+  mode: number;
+  stage: number;  // 0 = normal, 1 = base, 2 = ours, 3 = theirs
+}
+
+const HEADER_SIZE = 12;
+const ENTRY_FIXED_SIZE = 62;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parse the entries of a version 2 index file.
+ * Returns an empty array for missing or unrecognized content.
+ */
+export function parseIndex(buffer: Uint8Array): IndexEntry[] {
+  if (buffer.length < HEADER_SIZE) {
+    return [];
+  }
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const signature = String.fromCharCode(...buffer.subarray(0, 4));
+  const version = view.getUint32(4);
+  if (signature !== 'DIRC' || version !== 2) {
+    return [];
+  }
+
+  const count = view.getUint32(8);
+  const entries: IndexEntry[] = [];
+  let offset = HEADER_SIZE;
+
+  for (let i = 0; i < count; i++) {
+    const mode = view.getUint32(offset + 24);
+    const oid = toHex(buffer.subarray(offset + 40, offset + 60));
+    const flags = view.getUint16(offset + 60);
+    const stage = (flags >> 12) & 0x3;
+
+    const pathStart = offset + ENTRY_FIXED_SIZE;
+    let pathEnd = pathStart;
+    while (pathEnd < buffer.length && buffer[pathEnd] !== 0) {
+      pathEnd++;
+    }
+    const path = new TextDecoder().decode(buffer.subarray(pathStart, pathEnd));
+    entries.push({ path, oid, mode, stage });
+
+    // Entries are NUL-padded to a multiple of 8 bytes (at least one NUL)
+    const entryLength = ENTRY_FIXED_SIZE + (pathEnd - pathStart) + 1;
+    offset += Math.ceil(entryLength / 8) * 8;
+  }
+
+  return entries;
+}
+
+/**
+ * Encode entries as a version 2 index file, sorted by path and stage.
+ * Stat fields are left zero, so git rehashes those files the next time
+ * it compares them with the working tree. The file must still end with
+ * the SHA-1 checksum of these bytes, which the caller appends.
+ */
+export function serializeIndex(entries: IndexEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const sorted = [...entries].sort((a, b) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : a.stage - b.stage);
+  const paths = sorted.map((entry) => encoder.encode(entry.path));
+  const sizes = paths.map((path) => Math.ceil((ENTRY_FIXED_SIZE + path.length + 1) / 8) * 8);
+  const buffer = new Uint8Array(HEADER_SIZE + sizes.reduce((sum, size) => sum + size, 0));
+  const view = new DataView(buffer.buffer);
+
+  buffer.set(encoder.encode('DIRC'), 0);
+  view.setUint32(4, 2);
+  view.setUint32(8, sorted.length);
+  let offset = HEADER_SIZE;
+  sorted.forEach((entry, i) => {
+    view.setUint32(offset + 24, entry.mode);
+    for (let byte = 0; byte < 20; byte++) {
+      buffer[offset + 40 + byte] = parseInt(entry.oid.slice(byte * 2, byte * 2 + 2), 16);
+    }
+    view.setUint16(offset + 60, (entry.stage << 12) | Math.min(paths[i].length, 0xfff));
+    buffer.set(paths[i], offset + ENTRY_FIXED_SIZE);
+    offset += sizes[i];
+  });
+  return buffer;
+}
+
+/**
+ * Get the paths with unresolved merge conflicts (entries at stage > 0).
+ */
+export function getUnmergedPaths(entries: IndexEntry[]): string[] {
+  const paths = entries.filter((e) => e.stage > 0).map((e) => e.path);
+  return [...new Set(paths)];
+}
+
+/**
+ * Check whether a repository path is covered by a pathspec:
+ * the path itself, a directory containing it, or '.' for everything.
+ */
+export function matchesPathspec(path: string, pathspec: string): boolean {
+  const spec = pathspec.replace(/\/$/, '');
+  return spec === '.' || path === spec || path.startsWith(`${spec}/`);
+}
+
+/**
+ * Format an entry like `git ls-files --stage`: "<mode> <oid> <stage>\t<path>".
+ */
+export function formatIndexEntry(entry: IndexEntry): string {
+  return `${entry.mode.toString(8)} ${entry.oid} ${entry.stage}\t${entry.path}`;
+}
+
+export interface TreeNode {
+  blobs: Array<{ name: string; mode: string; oid: string }>;
+  trees: Map<string, TreeNode>;
+}
+
+/**
+ * Nest index entries into directories, the shape `git write-tree` writes.
+ * Only stage 0 entries belong in a tree, so callers should refuse
+ * to build one while conflicts remain.
+ */
+export function buildTreeHierarchy(entries: IndexEntry[]): TreeNode {
+  const root: TreeNode = { blobs: [], trees: new Map() };
+  for (const entry of entries) {
+    if (entry.stage !== 0) continue;
+    const segments = entry.path.split('/');
+    const name = segments.pop() as string;
+    let node = root;
+    for (const segment of segments) {
+      let child = node.trees.get(segment);
+      if (!child) {
+        child = { blobs: [], trees: new Map() };
+        node.trees.set(segment, child);
+      }
+      node = child;
+    }
+    node.blobs.push({ name, mode: entry.mode.toString(8), oid: entry.oid });
+  }
+  return root;
+}
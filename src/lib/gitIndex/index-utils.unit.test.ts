@@ -0,0 +1,172 @@
+/**
+ * Unit tests for pure index parsing functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  parseIndex,
+  serializeIndex,
+  getUnmergedPaths,
+  formatIndexEntry,
+  buildTreeHierarchy,
+  matchesPathspec,
+  type IndexEntry,
+} from './index-utils';
+
+// Build a version 2 index buffer from entries (stat fields zeroed)
+function buildIndex(entries: Omit<IndexEntry, 'mode'>[], version = 2): Uint8Array {
+  const chunks: number[] = [];
+  const pushUint32 = (n: number) => chunks.push((n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff);
+
+  chunks.push(...'DIRC'.split('').map((c) => c.charCodeAt(0)));
+  pushUint32(version);
+  pushUint32(entries.length);
+
+  for (const entry of entries) {
+    const start = chunks.length;
+    for (let i = 0; i < 6; i++) pushUint32(0);  // ctime, mtime, dev, ino
+    pushUint32(0o100644);                       // mode
+    for (let i = 0; i < 3; i++) pushUint32(0);  // uid, gid, size
+    for (let i = 0; i < 40; i += 2) chunks.push(parseInt(entry.oid.slice(i, i + 2), 16));
+    const flags = (entry.stage << 12) | Math.min(entry.path.length, 0xfff);
+    chunks.push((flags >> 8) & 0xff, flags & 0xff);
+    chunks.push(...new TextEncoder().encode(entry.path));
+    const length = chunks.length - start + 1;
+    const padded = Math.ceil(length / 8) * 8;
+    for (let i = chunks.length - start; i < padded; i++) chunks.push(0);
+  }
+
+  return new Uint8Array(chunks);
+}
+
+const OID_A = 'a'.repeat(40);
+const OID_B = 'b'.repeat(40);
+const OID_C = 'c'.repeat(40);
+
+describe('parseIndex', () => {
+  it('parses entries with path, oid and stage', () => {
+    const buffer = buildIndex([
+      { path: 'README.md', oid: OID_A, stage: 0 },
+      { path: 'src/index.ts', oid: OID_B, stage: 0 },
+    ]);
+
+    expect(parseIndex(buffer)).toEqual([
+      { path: 'README.md', oid: OID_A, mode: 0o100644, stage: 0 },
+      { path: 'src/index.ts', oid: OID_B, mode: 0o100644, stage: 0 },
+    ]);
+  });
+
+  it('handles paths whose entry length is already a multiple of 8', () => {
+    // 62 fixed bytes + 9 path bytes + 1 NUL = 72
+    const buffer = buildIndex([
+      { path: 'abcdefghi', oid: OID_A, stage: 0 },
+      { path: 'next', oid: OID_B, stage: 0 },
+    ]);
+
+    expect(parseIndex(buffer).map((e) => e.path)).toEqual(['abcdefghi', 'next']);
+  });
+
+  it('reads conflict stages', () => {
+    const buffer = buildIndex([
+      { path: 'file.txt', oid: OID_A, stage: 1 },
+      { path: 'file.txt', oid: OID_B, stage: 2 },
+      { path: 'file.txt', oid: OID_C, stage: 3 },
+    ]);
+
+    expect(parseIndex(buffer).map((e) => e.stage)).toEqual([1, 2, 3]);
+  });
+
+  it('returns empty array for an empty buffer', () => {
+    expect(parseIndex(new Uint8Array())).toEqual([]);
+  });
+
+  it('returns empty array for an unsupported version', () => {
+    const buffer = buildIndex([{ path: 'a', oid: OID_A, stage: 0 }], 4);
+    expect(parseIndex(buffer)).toEqual([]);
+  });
+});
+
+describe('serializeIndex', () => {
+  it('writes entries parseIndex reads back, sorted by path and stage', () => {
+    const entries: IndexEntry[] = [
+      { path: 'src/index.ts', oid: OID_C, mode: 0o100755, stage: 0 },
+      { path: 'file.txt', oid: OID_B, mode: 0o100644, stage: 3 },
+      { path: 'file.txt', oid: OID_A, mode: 0o100644, stage: 2 },
+    ];
+
+    expect(parseIndex(serializeIndex(entries))).toEqual([entries[2], entries[1], entries[0]]);
+  });
+
+  it('matches the layout of an index git writes', () => {
+    const entries = [{ path: 'abcdefghi', oid: OID_A, stage: 0 }, { path: 'b', oid: OID_B, stage: 1 }];
+
+    expect(serializeIndex(entries.map((entry) => ({ ...entry, mode: 0o100644 })))).toEqual(buildIndex(entries));
+  });
+});
+
+describe('getUnmergedPaths', () => {
+  it('returns paths with entries above stage 0, once each', () => {
+    const entries: IndexEntry[] = [
+      { path: 'clean.txt', oid: OID_A, mode: 0o100644, stage: 0 },
+      { path: 'conflict.txt', oid: OID_A, mode: 0o100644, stage: 1 },
+      { path: 'conflict.txt', oid: OID_B, mode: 0o100644, stage: 2 },
+      { path: 'conflict.txt', oid: OID_C, mode: 0o100644, stage: 3 },
+    ];
+
+    expect(getUnmergedPaths(entries)).toEqual(['conflict.txt']);
+  });
+
+  it('returns empty array when nothing is unmerged', () => {
+    expect(getUnmergedPaths([])).toEqual([]);
+  });
+});
+
+describe('matchesPathspec', () => {
+  it('matches the path itself and paths in a directory', () => {
+    expect(matchesPathspec('src/a.txt', 'src/a.txt')).toBe(true);
+    expect(matchesPathspec('src/a.txt', 'src')).toBe(true);
+    expect(matchesPathspec('src/a.txt', 'src/')).toBe(true);
+  });
+
+  it('matches everything with .', () => {
+    expect(matchesPathspec('src/a.txt', '.')).toBe(true);
+  });
+
+  it('does not match paths that only share a prefix', () => {
+    expect(matchesPathspec('src2/a.txt', 'src')).toBe(false);
+    expect(matchesPathspec('src', 'src/a.txt')).toBe(false);
+  });
+});
+
+describe('formatIndexEntry', () => {
+  it('formats mode, oid, stage and path like ls-files --stage', () => {
+    const entry = { path: 'src/a.txt', oid: OID_A, mode: 0o100644, stage: 0 };
+
+    expect(formatIndexEntry(entry)).toBe(`100644 ${OID_A} 0\tsrc/a.txt`);
+  });
+});
+
+describe('buildTreeHierarchy', () => {
+  const entry = (path: string, oid: string, stage = 0): IndexEntry => ({ path, oid, mode: 0o100644, stage });
+
+  it('keeps top-level files as blobs of the root', () => {
+    const root = buildTreeHierarchy([entry('a.txt', OID_A)]);
+
+    expect(root.blobs).toEqual([{ name: 'a.txt', mode: '100644', oid: OID_A }]);
+    expect(root.trees.size).toBe(0);
+  });
+
+  it('nests files into directory trees', () => {
+    const root = buildTreeHierarchy([entry('src/lib/a.ts', OID_A), entry('src/b.ts', OID_B)]);
+
+    const src = root.trees.get('src');
+    expect(src?.blobs).toEqual([{ name: 'b.ts', mode: '100644', oid: OID_B }]);
+    expect(src?.trees.get('lib')?.blobs).toEqual([{ name: 'a.ts', mode: '100644', oid: OID_A }]);
+  });
+
+  it('skips conflict stages', () => {
+    const root = buildTreeHierarchy([entry('a.txt', OID_A, 2), entry('a.txt', OID_B, 3)]);
+
+    expect(root.blobs).toEqual([]);
+  });
+});
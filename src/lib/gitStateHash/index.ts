@@ -24,6 +24,13 @@ const GIT_DIR = `${CWD}/.git`;
 
 // Module state: the last known valid hash of .git directory
 let lastKnownHash: string | null = null;
+let hashListener: ((hash: string | null) => void) | null = null;
+
+function setLastKnownHash(hash: string | null): void {
+  if (hash === lastKnownHash) return;
+  lastKnownHash = hash;
+  hashListener?.(hash);
+}
 
 /**
  * Recursively collect all files in a directory with their contents.
@@ -74,7 +81,7 @@ async function computeGitHash(): Promise<string> {
  * Call this after git init, add, commit, branch, checkout, etc.
  */
 export async function updateGitStateHash(): Promise<void> {
-  lastKnownHash = await computeGitHash();
+  setLastKnownHash(await computeGitHash());
 }
 
 /**
@@ -90,7 +97,7 @@ export async function withHashUpdate<T>(operation: () => Promise<T>): Promise<T>
   const hashAfter = await computeGitHash();
 
   if (shouldUpdateStoredHash(hashBefore, hashAfter)) {
-    lastKnownHash = hashAfter;
+    setLastKnownHash(hashAfter);
   }
   return result;
 }
@@ -99,7 +106,28 @@ export async function withHashUpdate<T>(operation: () => Promise<T>): Promise<T>
  * Clear the stored hash. Call this on environment reset.
  */
 export function clearGitStateHash(): void {
-  lastKnownHash = null;
+  setLastKnownHash(null);
+}
+
+/**
+ * Get the stored hash, so it can be saved alongside a sandbox snapshot.
+ */
+export function getGitStateHash(): string | null {
+  return lastKnownHash;
+}
+
+/**
+ * Put back a previously saved hash when a sandbox snapshot is restored.
+ */
+export function restoreGitStateHash(hash: string | null): void {
+  setLastKnownHash(hash);
+}
+
+/**
+ * Be told whenever the stored hash changes, e.g. to persist it between visits.
+ */
+export function setGitStateHashListener(listener: ((hash: string | null) => void) | null): void {
+  hashListener = listener;
 }
 
 /**
@@ -79,7 +79,7 @@ describe('Lesson Flow E2E Tests', () => {
       await gitInit();
 
       const result = await executeCommand('git status');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-1', '1-2');
       const valid = await exercise?.validate();
@@ -102,7 +102,7 @@ describe('Lesson Flow E2E Tests', () => {
 
     it('step 2-1: touch creates file and validator passes', async () => {
       const result = await executeCommand('touch README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-2', '2-1');
       const valid = await exercise?.validate();
@@ -113,7 +113,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('touch README.md');
 
       const result = await executeCommand('git status');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('README.md');
 
       const exercise = getExercise('lesson-2', '2-2');
@@ -125,7 +125,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('touch README.md');
 
       const result = await executeCommand('git add README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-2', '2-3');
       const valid = await exercise?.validate();
@@ -137,7 +137,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('git add README.md');
 
       const result = await executeCommand('git status');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-2', '2-4');
       const valid = await exercise?.validate();
@@ -162,7 +162,7 @@ describe('Lesson Flow E2E Tests', () => {
 
     it('step 3-1: git commit creates commit and validator passes', async () => {
       const result = await executeCommand('git commit -m "Add README"');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-3', '3-1');
       const valid = await exercise?.validate();
@@ -173,7 +173,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('git commit -m "Add README"');
 
       const result = await executeCommand('git log');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('Add README');
 
       const exercise = getExercise('lesson-3', '3-2');
@@ -197,7 +197,7 @@ describe('Lesson Flow E2E Tests', () => {
 
       // Now lesson 2-1 should work
       const result = await executeCommand('touch README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(await getExercise('lesson-2', '2-1')?.validate()).toBe(true);
     });
   });
@@ -212,7 +212,7 @@ describe('Lesson Flow E2E Tests', () => {
 
       // Now lesson 3-1 should work
       const result = await executeCommand('git commit -m "Add README"');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(await getExercise('lesson-3', '3-1')?.validate()).toBe(true);
     });
 
@@ -257,7 +257,7 @@ describe('Lesson Flow E2E Tests', () => {
 
     it('step 4-1: echo writes content and validator passes', async () => {
       const result = await executeCommand('echo "# My Project" > README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-4', '4-1');
       const valid = await exercise?.validate();
@@ -270,7 +270,7 @@ describe('Lesson Flow E2E Tests', () => {
 
       // Now do 4-2
       const result = await executeCommand('git add README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-4', '4-2');
       const valid = await exercise?.validate();
@@ -286,7 +286,7 @@ describe('Lesson Flow E2E Tests', () => {
       const result = await executeCommand(
         'git commit -m "Update README with title"'
       );
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-4', '4-3');
       const valid = await exercise?.validate();
@@ -296,19 +296,19 @@ describe('Lesson Flow E2E Tests', () => {
     it('completes full lesson 4 flow', async () => {
       // 4-1
       let result = await executeCommand('echo "# My Project" > README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       let valid = await getExercise('lesson-4', '4-1')?.validate();
       expect(valid).toBe(true);
 
       // 4-2
       result = await executeCommand('git add README.md');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       valid = await getExercise('lesson-4', '4-2')?.validate();
       expect(valid).toBe(true);
 
       // 4-3
       result = await executeCommand('git commit -m "Update README with title"');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       valid = await getExercise('lesson-4', '4-3')?.validate();
       expect(valid).toBe(true);
     });
@@ -345,7 +345,7 @@ describe('Lesson Flow E2E Tests', () => {
 
     it('step 5-1: touch creates files and validator passes with 3 files', async () => {
       const result = await executeCommand('touch index.html style.css');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-5', '5-1');
       const valid = await exercise?.validate();
@@ -357,7 +357,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('touch index.html style.css');
 
       const result = await executeCommand('git add .');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-5', '5-2');
       const valid = await exercise?.validate();
@@ -372,7 +372,7 @@ describe('Lesson Flow E2E Tests', () => {
       const result = await executeCommand(
         'git commit -m "Add HTML and CSS files"'
       );
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-5', '5-3');
       const valid = await exercise?.validate();
@@ -413,7 +413,7 @@ describe('Lesson Flow E2E Tests', () => {
 
       // Now do lesson 5-1
       const result = await executeCommand('touch index.html style.css');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       // This validator checks for 3 files - README.md must exist from lesson 4
       const ex51 = getExercise('lesson-5', '5-1');
@@ -452,7 +452,7 @@ describe('Lesson Flow E2E Tests', () => {
 
     it('step 6-1: git branch lists current branch', async () => {
       const result = await executeCommand('git branch');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('master');
 
       const exercise = getExercise('lesson-6', '6-1');
@@ -462,7 +462,7 @@ describe('Lesson Flow E2E Tests', () => {
 
     it('step 6-2: git branch feature creates new branch', async () => {
       const result = await executeCommand('git branch feature');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-6', '6-2');
       const valid = await exercise?.validate();
@@ -473,7 +473,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('git branch feature');
 
       const result = await executeCommand('git branch');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
       expect(result.output).toContain('feature');
       expect(result.output).toContain('master');
 
@@ -486,7 +486,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('git branch feature');
 
       const result = await executeCommand('git checkout feature');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-6', '6-4');
       const valid = await exercise?.validate();
@@ -498,7 +498,7 @@ describe('Lesson Flow E2E Tests', () => {
       await executeCommand('git checkout feature');
 
       const result = await executeCommand('git branch');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const exercise = getExercise('lesson-6', '6-5');
       const valid = await exercise?.validate();
@@ -537,7 +537,7 @@ describe('Lesson Flow E2E Tests', () => {
 
       // Now lesson 6-1 should work
       const result = await executeCommand('git branch');
-      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
 
       const ex61 = getExercise('lesson-6', '6-1');
       const valid = await ex61?.validate();
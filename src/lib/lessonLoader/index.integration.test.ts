@@ -0,0 +1,43 @@
+/**
+ * Integration tests for the lesson loader.
+ * Loads the shipped lesson file and runs its validators on the real filesystem.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadLessons } from './index';
+import lessonFile from '../../data/lessons.json';
+import { getAllLessonIds } from '../lessonSetup/setup-scripts';
+import { executeCommand } from '../commands';
+import * as fsLib from '../fs';
+
+describe('Lesson Loader', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+  });
+
+  it('loads every lesson in the shipped lesson file', () => {
+    const lessons = loadLessons(lessonFile);
+    expect(lessons.map((lesson) => lesson.id)).toEqual(getAllLessonIds());
+  });
+
+  it('wires parameterized validators to the filesystem', async () => {
+    const lessons = loadLessons(lessonFile);
+    const createReadme = lessons.find((lesson) => lesson.id === 'lesson-2')!.exercises[0];
+
+    expect(await createReadme.validate()).toBe(false);
+    await executeCommand('touch README.md');
+    expect(await createReadme.validate()).toBe(true);
+  });
+
+  it('rejects a lesson that names a validator that does not exist', () => {
+    const data = {
+      lessons: [{
+        id: 'lesson-x',
+        title: 'Broken',
+        description: 'Refers to a missing validator',
+        exercises: [{ id: 'x-1', instruction: 'Do it', validate: 'notAValidator', successMessage: 'Done' }],
+      }],
+    };
+    expect(() => loadLessons(data)).toThrow('Unknown validator "notAValidator" in exercise x-1');
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Lesson loader.
+ * Validates a declarative lesson file and turns it into runnable lessons,
+ * wiring each exercise to its named validator.
+ */
+
+import type { Lesson } from '../../types/lesson';
+import type { RepoSnapshot } from '../repoSnapshot';
+import { namedValidators } from '../validators';
+import { parseLessonFile, createLessons } from './loader-utils';
+
+// Re-export pure functions for convenience
+export { parseLessonFile, buildSetupScripts, createLessons } from './loader-utils';
+export type {
+  LessonDefinition,
+  ExerciseDefinition,
+  ValidatorSpec,
+  ValidatorParam,
+  ValidatorArg,
+  NamedValidator,
+} from './loader-utils';
+
+/**
+ * Load lessons from a parsed lesson file. Throws when the file is
+ * malformed or refers to a validator that doesn't exist.
+ */
+export function loadLessons(data: unknown, snapshots: Record<string, RepoSnapshot> = {}): Lesson[] {
+  return createLessons(parseLessonFile(data), namedValidators, snapshots);
+}
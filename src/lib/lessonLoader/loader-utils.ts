@@ -0,0 +1,218 @@
+/**
+ * Pure functions for the declarative lesson file format.
+ * No I/O, no side effects - fully unit testable.
+ *
+ * A lesson file is JSON: `{ "lessons": [...] }`. Each lesson lists the
+ * setup commands that take the previous lesson's starting state to its own,
+ * and each exercise names its validator instead of referencing code:
+ *
+ *   "validate": "hasCommits"
+ *   "validate": { "name": "fileExists", "args": ["README.md"] }
+ *
+ * `commandPattern` is a regular expression source, always matched
+ * case-insensitively. Keys starting with "$" (like "$comment") are ignored.
+ */
+
+import type { Exercise, Lesson } from '../../types/lesson';
+import type { RepoSnapshot } from '../repoSnapshot/snapshot-utils';
+
+export type ValidatorParam = 'string' | 'number';
+export type ValidatorArg = string | number;
+export type ValidatorSpec = string | { name: string; args?: ValidatorArg[] };
+
+export interface ExerciseDefinition {
+  id: string;
+  instruction: string;
+  hint?: string;
+  validate: ValidatorSpec;
+  successMessage: string;
+  commandPattern?: string;
+  allowEditing?: boolean;
+}
+
+export interface LessonDefinition {
+  id: string;
+  title: string;
+  description: string;
+  setup: string[];  // Commands run on top of the previous lesson's starting state
+  exercises: ExerciseDefinition[];
+}
+
+/**
+ * A validator that lesson files can refer to by name.
+ */
+export interface NamedValidator {
+  params: ValidatorParam[];
+  create: (args: ValidatorArg[]) => () => Promise<boolean>;
+}
+
+type Json = Record<string, unknown>;
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid lesson file: ${path} ${message}`);
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(data: Json, key: string, path: string): string {
+  const value = data[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    fail(`${path}.${key}`, 'must be a non-empty string');
+  }
+  return value;
+}
+
+function readOptionalString(data: Json, key: string, path: string): string | undefined {
+  return data[key] === undefined ? undefined : readString(data, key, path);
+}
+
+function readStringList(data: Json, key: string, path: string): string[] {
+  const value = data[key] ?? [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    fail(`${path}.${key}`, 'must be a list of strings');
+  }
+  return value;
+}
+
+function readValidatorSpec(data: Json, path: string): ValidatorSpec {
+  const value = data.validate;
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  if (isObject(value)) {
+    const name = readString(value, 'name', `${path}.validate`);
+    const args = value.args ?? [];
+    if (!Array.isArray(args) || !args.every((arg) => typeof arg === 'string' || typeof arg === 'number')) {
+      fail(`${path}.validate.args`, 'must be a list of strings and numbers');
+    }
+    return { name, args };
+  }
+  return fail(`${path}.validate`, 'must be a validator name or { "name", "args" }');
+}
+
+function parseExercise(data: unknown, path: string): ExerciseDefinition {
+  if (!isObject(data)) fail(path, 'must be an object');
+
+  const commandPattern = readOptionalString(data, 'commandPattern', path);
+  if (commandPattern !== undefined) {
+    try {
+      new RegExp(commandPattern);
+    } catch {
+      fail(`${path}.commandPattern`, 'is not a valid regular expression');
+    }
+  }
+  if (data.allowEditing !== undefined && typeof data.allowEditing !== 'boolean') {
+    fail(`${path}.allowEditing`, 'must be true or false');
+  }
+
+  return {
+    id: readString(data, 'id', path),
+    instruction: readString(data, 'instruction', path),
+    hint: readOptionalString(data, 'hint', path),
+    validate: readValidatorSpec(data, path),
+    successMessage: readString(data, 'successMessage', path),
+    commandPattern,
+    allowEditing: data.allowEditing as boolean | undefined,
+  };
+}
+
+function parseLesson(data: unknown, path: string): LessonDefinition {
+  if (!isObject(data)) fail(path, 'must be an object');
+  if (!Array.isArray(data.exercises) || data.exercises.length === 0) {
+    fail(`${path}.exercises`, 'must be a non-empty list');
+  }
+
+  return {
+    id: readString(data, 'id', path),
+    title: readString(data, 'title', path),
+    description: readString(data, 'description', path),
+    setup: readStringList(data, 'setup', path),
+    exercises: data.exercises.map((exercise, i) => parseExercise(exercise, `${path}.exercises[${i}]`)),
+  };
+}
+
+/**
+ * Check the structure of a parsed lesson file and return its lessons.
+ * Throws an error naming the offending field when anything is malformed,
+ * or when a lesson or exercise id is used twice.
+ */
+export function parseLessonFile(data: unknown): LessonDefinition[] {
+  if (!isObject(data) || !Array.isArray(data.lessons)) {
+    fail('lessons', 'must be a list');
+  }
+
+  const lessons = data.lessons.map((lesson, i) => parseLesson(lesson, `lessons[${i}]`));
+
+  const lessonIds = new Set<string>();
+  const exerciseIds = new Set<string>();
+  for (const lesson of lessons) {
+    if (lessonIds.has(lesson.id)) fail(`lesson "${lesson.id}"`, 'is defined twice');
+    lessonIds.add(lesson.id);
+    // Exercise ids must be unique across lessons - progress tracks them all together
+    for (const exercise of lesson.exercises) {
+      if (exerciseIds.has(exercise.id)) fail(`exercise "${exercise.id}"`, 'is defined twice');
+      exerciseIds.add(exercise.id);
+    }
+  }
+  return lessons;
+}
+
+/**
+ * Build each lesson's full setup script by chaining every earlier
+ * lesson's setup steps before its own.
+ */
+export function buildSetupScripts(lessons: LessonDefinition[]): Record<string, string[]> {
+  const scripts: Record<string, string[]> = {};
+  let commands: string[] = [];
+  for (const lesson of lessons) {
+    commands = [...commands, ...lesson.setup];
+    scripts[lesson.id] = commands;
+  }
+  return scripts;
+}
+
+function resolveValidator(
+  spec: ValidatorSpec,
+  validators: Record<string, NamedValidator>,
+  exerciseId: string,
+): () => Promise<boolean> {
+  const { name, args = [] } = typeof spec === 'string' ? { name: spec } : spec;
+  const validator = validators[name];
+  if (!validator) {
+    throw new Error(`Unknown validator "${name}" in exercise ${exerciseId}`);
+  }
+  if (args.length !== validator.params.length || args.some((arg, i) => typeof arg !== validator.params[i])) {
+    throw new Error(
+      `Validator "${name}" in exercise ${exerciseId} expects (${validator.params.join(', ')}), got (${args.map((arg) => typeof arg).join(', ')})`
+    );
+  }
+  return validator.create(args);
+}
+
+/**
+ * Turn lesson definitions into runnable lessons, resolving validator names.
+ * Throws on unknown validators or arguments of the wrong type.
+ */
+export function createLessons(
+  definitions: LessonDefinition[],
+  validators: Record<string, NamedValidator>,
+  snapshots: Record<string, RepoSnapshot> = {},
+): Lesson[] {
+  return definitions.map((definition) => ({
+    id: definition.id,
+    title: definition.title,
+    description: definition.description,
+    startingSnapshot: snapshots[definition.id],
+    exercises: definition.exercises.map((exercise): Exercise => ({
+      id: exercise.id,
+      instruction: exercise.instruction,
+      hint: exercise.hint,
+      validate: resolveValidator(exercise.validate, validators, exercise.id),
+      successMessage: exercise.successMessage,
+      commandPattern: exercise.commandPattern === undefined ? undefined : new RegExp(exercise.commandPattern, 'i'),
+      allowEditing: exercise.allowEditing,
+    })),
+  }));
+}
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the pure lesson file functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  parseLessonFile,
+  buildSetupScripts,
+  createLessons,
+  type NamedValidator,
+} from './loader-utils';
+
+const exercise = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  instruction: `Do ${id}`,
+  validate: 'alwaysTrue',
+  successMessage: 'Done',
+  ...extra,
+});
+
+const lesson = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  title: `Lesson ${id}`,
+  description: 'About',
+  exercises: [exercise(`${id}-1`)],
+  ...extra,
+});
+
+const alwaysTrue = async () => true;
+const validators: Record<string, NamedValidator> = {
+  alwaysTrue: { params: [], create: () => alwaysTrue },
+  fileExists: { params: ['string'], create: ([path]) => async () => path === 'README.md' },
+  atLeast: { params: ['number'], create: ([count]) => async () => Number(count) > 2 },
+};
+
+describe('parseLessonFile', () => {
+  it('parses lessons with defaults for optional fields', () => {
+    const [parsed] = parseLessonFile({ lessons: [lesson('a')] });
+
+    expect(parsed).toEqual({
+      id: 'a',
+      title: 'Lesson a',
+      description: 'About',
+      setup: [],
+      exercises: [{
+        id: 'a-1',
+        instruction: 'Do a-1',
+        hint: undefined,
+        validate: 'alwaysTrue',
+        successMessage: 'Done',
+        commandPattern: undefined,
+        allowEditing: undefined,
+      }],
+    });
+  });
+
+  it('normalizes validator objects and ignores $comment keys', () => {
+    const [parsed] = parseLessonFile({
+      lessons: [lesson('a', {
+        exercises: [exercise('a-1', { validate: { name: 'fileExists', args: ['README.md'] }, $comment: 'why' })],
+      })],
+    });
+
+    expect(parsed.exercises[0].validate).toEqual({ name: 'fileExists', args: ['README.md'] });
+    expect(parsed.exercises[0]).not.toHaveProperty('$comment');
+  });
+
+  it('names the offending field', () => {
+    expect(() => parseLessonFile({ lessons: [lesson('a', { title: 3 })] }))
+      .toThrow('Invalid lesson file: lessons[0].title must be a non-empty string');
+    expect(() => parseLessonFile({ lessons: [lesson('a', { exercises: [exercise('a-1', { validate: 7 })] })] }))
+      .toThrow('lessons[0].exercises[0].validate');
+    expect(() => parseLessonFile({ lessons: [lesson('a', { setup: 'git init' })] }))
+      .toThrow('lessons[0].setup must be a list of strings');
+  });
+
+  it('rejects a missing lesson list and empty exercise lists', () => {
+    expect(() => parseLessonFile({})).toThrow('lessons must be a list');
+    expect(() => parseLessonFile({ lessons: [lesson('a', { exercises: [] })] }))
+      .toThrow('lessons[0].exercises must be a non-empty list');
+  });
+
+  it('rejects invalid command patterns', () => {
+    const data = { lessons: [lesson('a', { exercises: [exercise('a-1', { commandPattern: '(' })] })] };
+    expect(() => parseLessonFile(data)).toThrow('commandPattern is not a valid regular expression');
+  });
+
+  it('rejects duplicate lesson and exercise ids', () => {
+    expect(() => parseLessonFile({ lessons: [lesson('a'), lesson('a')] }))
+      .toThrow('lesson "a" is defined twice');
+    expect(() => parseLessonFile({
+      lessons: [lesson('a'), lesson('b', { exercises: [exercise('a-1')] })],
+    })).toThrow('exercise "a-1" is defined twice');
+  });
+});
+
+describe('buildSetupScripts', () => {
+  it('chains each lesson onto the previous lessons setup', () => {
+    const lessons = parseLessonFile({
+      lessons: [
+        lesson('a'),
+        lesson('b', { setup: ['git init'] }),
+        lesson('c', { setup: ['touch README.md'] }),
+      ],
+    });
+
+    expect(buildSetupScripts(lessons)).toEqual({
+      a: [],
+      b: ['git init'],
+      c: ['git init', 'touch README.md'],
+    });
+  });
+});
+
+describe('createLessons', () => {
+  it('resolves validators and compiles case-insensitive command patterns', async () => {
+    const definitions = parseLessonFile({
+      lessons: [lesson('a', {
+        exercises: [
+          exercise('a-1', { commandPattern: '^git\\s+init$' }),
+          exercise('a-2', { validate: { name: 'fileExists', args: ['README.md'] }, allowEditing: true }),
+        ],
+      })],
+    });
+
+    const [created] = createLessons(definitions, validators);
+
+    expect(created.exercises[0].validate).toBe(alwaysTrue);
+    expect(created.exercises[0].commandPattern?.test('GIT init')).toBe(true);
+    expect(await created.exercises[1].validate()).toBe(true);
+    expect(created.exercises[1].allowEditing).toBe(true);
+  });
+
+  it('attaches starting snapshots by lesson id', () => {
+    const snapshot = { version: 1 as const, directories: ['/repo'], files: {} };
+    const [created] = createLessons(parseLessonFile({ lessons: [lesson('a')] }), validators, { a: snapshot });
+    expect(created.startingSnapshot).toBe(snapshot);
+  });
+
+  it('rejects unknown validators', () => {
+    const definitions = parseLessonFile({ lessons: [lesson('a', { exercises: [exercise('a-1', { validate: 'nope' })] })] });
+    expect(() => createLessons(definitions, validators)).toThrow('Unknown validator "nope" in exercise a-1');
+  });
+
+  it('rejects arguments of the wrong number or type', () => {
+    const wrongType = parseLessonFile({
+      lessons: [lesson('a', { exercises: [exercise('a-1', { validate: { name: 'atLeast', args: ['3'] } })] })],
+    });
+    expect(() => createLessons(wrongType, validators))
+      .toThrow('Validator "atLeast" in exercise a-1 expects (number), got (string)');
+
+    const missing = parseLessonFile({
+      lessons: [lesson('a', { exercises: [exercise('a-1', { validate: 'fileExists' })] })],
+    });
+    expect(() => createLessons(missing, validators)).toThrow('expects (string), got ()');
+  });
+});
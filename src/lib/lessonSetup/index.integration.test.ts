@@ -8,7 +8,10 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { resetFs, readdir, readFile } from '../fs';
 import { clearGitStateHash, repoIntact } from '../gitStateHash';
 import { skipToLesson } from './index';
+import { generateLessonSnapshots } from './snapshot-generator';
 import { lessons } from '../../data/lessons';
+import { LESSON_SNAPSHOTS } from '../../data/lesson-snapshots';
+import { executeCommand } from '../commands';
 import git from 'isomorphic-git';
 import { fs } from '../fs';
 import { CWD } from '../config';
@@ -220,4 +223,47 @@ describe('lessonSetup Integration', () => {
       expect(await exercise2_1?.validate()).toBe(false);
     });
   });
+
+  describe('skipToLesson with a starting snapshot', () => {
+    it('restores the snapshot without running commands', async () => {
+      const result = await skipToLesson('lesson-6', LESSON_SNAPSHOTS['lesson-6']);
+      expect(result).toEqual({ success: true, commandsExecuted: 0 });
+
+      const commits = await git.log({ fs, dir: CWD });
+      expect(commits.map((c) => c.commit.message.trim())).toEqual([
+        'Add HTML and CSS files',
+        'Update README with title',
+        'Initial commit',
+      ]);
+      expect(await readFile(`${CWD}/README.md`)).toContain('# My Project');
+    });
+
+    it('keeps the repository intact after running git status', async () => {
+      await skipToLesson('lesson-5', LESSON_SNAPSHOTS['lesson-5']);
+      expect(await repoIntact()).toBe(true);
+
+      await executeCommand('git status');
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('reaches the same state as replaying the setup script', async () => {
+      await skipToLesson('lesson-3', LESSON_SNAPSHOTS['lesson-3']);
+      const fromSnapshot = await git.statusMatrix({ fs, dir: CWD });
+
+      await skipToLesson('lesson-3');
+      expect(await git.statusMatrix({ fs, dir: CWD })).toEqual(fromSnapshot);
+    });
+
+    it('every lesson declares its generated snapshot', () => {
+      for (const lesson of lessons) {
+        expect(lesson.startingSnapshot).toBe(LESSON_SNAPSHOTS[lesson.id]);
+      }
+    });
+  });
+
+  describe('generated lesson snapshots', () => {
+    it('are up to date with the setup scripts (run pnpm generate:snapshots)', async () => {
+      expect(await generateLessonSnapshots()).toEqual(LESSON_SNAPSHOTS);
+    });
+  });
 });
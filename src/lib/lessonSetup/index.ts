@@ -1,13 +1,16 @@
 /**
  * Lesson setup service.
  *
- * Provides skipToLesson() which resets the environment and executes
- * command sequences to reach a specific lesson's starting state.
+ * Provides skipToLesson() which resets the environment to a specific
+ * lesson's starting state - restoring the lesson's snapshot in one bulk
+ * write when it declares one, or replaying its setup commands otherwise.
  */
 
 import { resetFs } from '../fs';
 import { clearGitStateHash } from '../gitStateHash';
 import { executeCommand } from '../commands';
+import { resetWorkingDirectory } from '../workingDirectory';
+import { restoreRepoSnapshot, type RepoSnapshot } from '../repoSnapshot';
 import { getSetupScript, isValidLessonId } from './setup-scripts';
 
 export interface SetupResult {
@@ -17,10 +20,10 @@ export interface SetupResult {
 }
 
 /**
- * Skip to a specific lesson by resetting the environment and
- * executing the command sequence to reach that lesson's starting state.
+ * Skip to a specific lesson by resetting the environment to that
+ * lesson's starting state.
  */
-export async function skipToLesson(lessonId: string): Promise<SetupResult> {
+export async function skipToLesson(lessonId: string, startingSnapshot?: RepoSnapshot): Promise<SetupResult> {
   // Validate lesson ID
   if (!isValidLessonId(lessonId)) {
     return {
@@ -29,24 +32,43 @@ export async function skipToLesson(lessonId: string): Promise<SetupResult> {
     };
   }
 
+  // Every lesson starts in the home directory
+  resetWorkingDirectory();
+
+  if (startingSnapshot) {
+    await restoreRepoSnapshot(startingSnapshot);
+    return { success: true, commandsExecuted: 0 };
+  }
+
+  return replaySetupScript(lessonId);
+}
+
+/**
+ * Reset the environment and execute the command sequence that reaches
+ * a lesson's starting state.
+ */
+export async function replaySetupScript(lessonId: string): Promise<SetupResult> {
   // Reset environment to clean state
   await resetFs();
   clearGitStateHash();
+  resetWorkingDirectory();
 
   // Get and execute the setup commands
   const commands = getSetupScript(lessonId);
 
   for (const command of commands) {
     const result = await executeCommand(command);
-    if (!result.success) {
+    if (result.exitCode !== 0) {
       return {
         success: false,
-        error: `Command failed: ${command} - ${result.output}`,
+        error: `Command failed: ${command} - ${result.stderr || result.stdout}`,
         commandsExecuted: commands.indexOf(command),
       };
     }
   }
 
+  // Setup scripts may `cd` around; the learner starts back at home
+  resetWorkingDirectory();
   return {
     success: true,
     commandsExecuted: commands.length,
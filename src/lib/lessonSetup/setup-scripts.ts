@@ -3,37 +3,14 @@
  *
  * Each lesson's setup script contains the commands needed to reach
  * the starting state for that lesson (what previous lessons would have done).
+ * The steps come from the lesson file, so scripts and lesson ids can't
+ * drift apart from the lessons themselves.
  */
 
-// Base command sequences for building up lesson states
-const LESSON_1_COMMANDS: readonly string[] = [];
+import lessonFile from '../../data/lessons.json';
+import { parseLessonFile, buildSetupScripts } from '../lessonLoader/loader-utils';
 
-const LESSON_2_COMMANDS: readonly string[] = ['git init'];
-
-const LESSON_3_COMMANDS: readonly string[] = [
-  ...LESSON_2_COMMANDS,
-  'touch README.md',
-  'git add README.md',
-];
-
-const LESSON_4_COMMANDS: readonly string[] = [
-  ...LESSON_3_COMMANDS,
-  'git commit -m "Initial commit"',
-];
-
-const LESSON_5_COMMANDS: readonly string[] = [
-  ...LESSON_4_COMMANDS,
-  'echo "# My Project" > README.md',
-  'git add README.md',
-  'git commit -m "Update README with title"',
-];
-
-const LESSON_6_COMMANDS: readonly string[] = [
-  ...LESSON_5_COMMANDS,
-  'touch index.html style.css',
-  'git add .',
-  'git commit -m "Add HTML and CSS files"',
-];
+const LESSON_DEFINITIONS = parseLessonFile(lessonFile);
 
 /**
  * Command sequences to set up the starting state for each lesson.
@@ -44,24 +21,10 @@ const LESSON_6_COMMANDS: readonly string[] = [
  * lesson-5: Repo with two commits
  * lesson-6: Repo with three commits and multiple files
  */
-export const LESSON_SETUP_SCRIPTS: Record<string, readonly string[]> = {
-  'lesson-1': LESSON_1_COMMANDS,
-  'lesson-2': LESSON_2_COMMANDS,
-  'lesson-3': LESSON_3_COMMANDS,
-  'lesson-4': LESSON_4_COMMANDS,
-  'lesson-5': LESSON_5_COMMANDS,
-  'lesson-6': LESSON_6_COMMANDS,
-};
+export const LESSON_SETUP_SCRIPTS: Record<string, readonly string[]> = buildSetupScripts(LESSON_DEFINITIONS);
 
 // Ordered list of lesson IDs
-const LESSON_IDS = [
-  'lesson-1',
-  'lesson-2',
-  'lesson-3',
-  'lesson-4',
-  'lesson-5',
-  'lesson-6',
-] as const;
+const LESSON_IDS = LESSON_DEFINITIONS.map((lesson) => lesson.id);
 
 /**
  * Get the setup script for a given lesson ID.
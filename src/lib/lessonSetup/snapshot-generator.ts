@@ -0,0 +1,48 @@
+/**
+ * Build-time generator for lesson starting snapshots.
+ *
+ * Replays each lesson's setup script and captures the result. The clock
+ * and timezone are pinned while it runs, so commit ids and the timestamps
+ * in git's index come out identical on every run.
+ */
+
+import { captureRepoSnapshot, type RepoSnapshot } from '../repoSnapshot';
+import { clearHistory } from '../sandboxHistory';
+import { replaySetupScript } from './index';
+import { getAllLessonIds } from './setup-scripts';
+
+// 2024-01-01T00:00:00Z
+export const SNAPSHOT_CLOCK_MS = 1704067200000;
+
+async function withPinnedClock<T>(operation: () => Promise<T>): Promise<T> {
+  const realNow = Date.now;
+  const realTimezoneOffset = Date.prototype.getTimezoneOffset;
+  Date.now = () => SNAPSHOT_CLOCK_MS;
+  Date.prototype.getTimezoneOffset = () => 0;
+  try {
+    return await operation();
+  } finally {
+    Date.now = realNow;
+    Date.prototype.getTimezoneOffset = realTimezoneOffset;
+  }
+}
+
+/**
+ * Generate the starting snapshot of every lesson from its setup script.
+ * Throws if any setup script fails.
+ */
+export async function generateLessonSnapshots(): Promise<Record<string, RepoSnapshot>> {
+  const snapshots: Record<string, RepoSnapshot> = {};
+  await withPinnedClock(async () => {
+    for (const lessonId of getAllLessonIds()) {
+      const result = await replaySetupScript(lessonId);
+      if (!result.success) {
+        throw new Error(`Setup for ${lessonId} failed: ${result.error}`);
+      }
+      snapshots[lessonId] = await captureRepoSnapshot();
+    }
+  });
+  // Replaying commands recorded undo steps that belong to no one
+  clearHistory();
+  return snapshots;
+}
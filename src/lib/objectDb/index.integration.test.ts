@@ -0,0 +1,73 @@
+/**
+ * Integration tests for the object database service.
+ * Creates real objects with executeCommand and reads them back.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { listLooseObjects, listRefs, readObjectDetails } from './index';
+import { executeCommand } from '../commands';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+describe('Object Database Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+  });
+
+  it('returns nothing before git init', async () => {
+    expect(await listLooseObjects()).toEqual([]);
+    expect(await listRefs()).toEqual([]);
+  });
+
+  it('lists HEAD as a symbolic ref to an unborn branch', async () => {
+    await executeCommand('git init');
+
+    expect(await listRefs()).toEqual([
+      { name: 'HEAD', oid: null, symbolic: 'refs/heads/master' },
+    ]);
+  });
+
+  describe('after a commit', () => {
+    beforeEach(async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/README.md`, 'hello\n');
+      await executeCommand('git add README.md');
+      await executeCommand('git commit -m "Initial commit"');
+    });
+
+    it('lists the blob, tree and commit objects', async () => {
+      const objects = await listLooseObjects();
+
+      expect(objects.map((o) => o.type).sort()).toEqual(['blob', 'commit', 'tree']);
+    });
+
+    it('lists branches with HEAD pointing at them', async () => {
+      await executeCommand('git branch feature');
+
+      const refs = await listRefs();
+
+      expect(refs.map((r) => r.name)).toEqual(['HEAD', 'refs/heads/feature', 'refs/heads/master']);
+      expect(refs[0].symbolic).toBe('refs/heads/master');
+      expect(refs[0].oid).toBe(refs[2].oid);
+    });
+
+    it('decodes a commit, its tree and the blob', async () => {
+      const head = (await listRefs())[0].oid as string;
+
+      const commit = await readObjectDetails(head);
+      const treeOid = commit.content.match(/^tree ([0-9a-f]{40})/)?.[1] as string;
+      const tree = await readObjectDetails(treeOid);
+      const blobOid = tree.content.match(/blob ([0-9a-f]{40})\tREADME\.md/)?.[1] as string;
+      const blob = await readObjectDetails(blobOid);
+
+      expect(commit.type).toBe('commit');
+      expect(commit.content).toContain('\n\nInitial commit');
+      expect(tree.type).toBe('tree');
+      expect(blob).toEqual({ oid: blobOid, type: 'blob', size: 6, content: 'hello\n' });
+    });
+
+    it('throws for a missing object', async () => {
+      await expect(readObjectDetails('0'.repeat(40))).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Object database service.
+ * Reads what's inside .git - loose objects, refs and the index -
+ * for the object explorer and the plumbing commands.
+ */
+
+import git from 'isomorphic-git';
+import type { CommitObject, TagObject, TreeEntry } from 'isomorphic-git';
+import * as fsModule from '../fs';
+import { getRepoDir } from '../workingDirectory';
+import {
+  oidFromLoosePath,
+  formatTree,
+  formatCommit,
+  formatTag,
+  type ObjectType,
+} from './object-utils';
+
+// Re-export pure functions for convenience
+export {
+  isObjectId,
+  splitObjectIds,
+  oidFromLoosePath,
+  formatTimezone,
+  formatPerson,
+  formatTree,
+  formatCommit,
+  formatTag,
+  formatDate,
+  formatCommitHeader,
+  formatTagHeader,
+  formatPretty,
+} from './object-utils';
+export type { ObjectType, GitPerson } from './object-utils';
+
+// Get fs dynamically since it can be reassigned on reset
+function getFs() {
+  return fsModule.fs;
+}
+
+// The .git directory of the repository git operations currently act on
+function gitDir(): string {
+  return `${getRepoDir()}/.git`;
+}
+
+export interface ObjectSummary {
+  oid: string;
+  type: ObjectType;
+}
+
+export interface ObjectDetails {
+  oid: string;
+  type: ObjectType;
+  size: number;      // Size in bytes of the object's content
+  content: string;   // Decoded like `git cat-file -p`
+}
+
+export interface RefSummary {
+  name: string;      // e.g. "HEAD" or "refs/heads/main"
+  oid: string | null;  // null for a branch with no commits yet
+  symbolic?: string;   // Target ref when this is a symbolic ref like HEAD
+}
+
+/**
+ * Read an object and decode it like `git cat-file -p`.
+ * Throws when the object doesn't exist.
+ */
+export async function readObjectDetails(oid: string): Promise<ObjectDetails> {
+  const fs = getFs();
+  const raw = await git.readObject({ fs, gitdir: gitDir(), oid, format: 'content' });
+  const type = raw.type as ObjectType;
+  const size = (raw.object as Uint8Array).length;
+
+  const parsed = await git.readObject({ fs, gitdir: gitDir(), oid, format: 'parsed' });
+  let content: string;
+  switch (type) {
+    case 'blob':
+      content = new TextDecoder().decode(raw.object as Uint8Array);
+      break;
+    case 'tree':
+      content = formatTree(parsed.object as TreeEntry[]);
+      break;
+    case 'commit':
+      content = formatCommit(parsed.object as CommitObject);
+      break;
+    case 'tag':
+      content = formatTag(parsed.object as TagObject);
+      break;
+  }
+  return { oid, type, size, content };
+}
+
+/**
+ * List the loose objects in .git/objects with their types, sorted by id.
+ * Returns an empty list when there's no repository.
+ */
+export async function listLooseObjects(): Promise<ObjectSummary[]> {
+  const fs = getFs();
+  let dirs: string[];
+  try {
+    dirs = await fs.promises.readdir(`${gitDir()}/objects`);
+  } catch {
+    return [];
+  }
+
+  const oids: string[] = [];
+  for (const dirName of dirs) {
+    if (!/^[0-9a-f]{2}$/.test(dirName)) continue;
+    for (const fileName of await fs.promises.readdir(`${gitDir()}/objects/${dirName}`)) {
+      const oid = oidFromLoosePath(dirName, fileName);
+      if (oid) oids.push(oid);
+    }
+  }
+
+  return Promise.all(oids.sort().map(async (oid) => {
+    const { type } = await git.readObject({ fs, gitdir: gitDir(), oid, format: 'content' });
+    return { oid, type: type as ObjectType };
+  }));
+}
+
+/**
+ * List HEAD and every ref under refs/, with what each points at.
+ * Returns an empty list when there's no repository.
+ */
+export async function listRefs(): Promise<RefSummary[]> {
+  const fs = getFs();
+  let head: string;
+  try {
+    head = (await fs.promises.readFile(`${gitDir()}/HEAD`, 'utf8') as string).trim();
+  } catch {
+    return [];
+  }
+
+  const resolve = (ref: string) => git.resolveRef({ fs, gitdir: gitDir(), ref }).catch(() => null);
+  const refs: RefSummary[] = [];
+  if (head.startsWith('ref: ')) {
+    const target = head.slice('ref: '.length);
+    refs.push({ name: 'HEAD', oid: await resolve(target), symbolic: target });
+  } else {
+    refs.push({ name: 'HEAD', oid: head });
+  }
+
+  const names = await git.listRefs({ fs, gitdir: gitDir(), filepath: 'refs' });
+  for (const name of names.sort()) {
+    const ref = `refs/${name}`;
+    refs.push({ name: ref, oid: await resolve(ref) });
+  }
+  return refs;
+}
@@ -0,0 +1,191 @@
+/**
+ * Pure functions for decoding and displaying git objects.
+ * No I/O, no side effects - fully unit testable.
+ *
+ * Output matches `git cat-file -p` so the explorer and the plumbing
+ * commands show objects the same way.
+ */
+
+import type { CommitObject, TagObject, TreeEntry } from 'isomorphic-git';
+
+export type ObjectType = 'blob' | 'tree' | 'commit' | 'tag';
+
+export interface GitPerson {
+  name: string;
+  email: string;
+  timestamp: number;
+  timezoneOffset: number;
+}
+
+const OID_PATTERN = /\b[0-9a-f]{40}\b/g;
+
+/**
+ * Check whether a string is a full 40-character object id.
+ */
+export function isObjectId(text: string): boolean {
+  return /^[0-9a-f]{40}$/.test(text);
+}
+
+/**
+ * Split text into plain and object-id segments, so ids can be made clickable.
+ */
+export function splitObjectIds(text: string): Array<{ text: string; oid: boolean }> {
+  const segments: Array<{ text: string; oid: boolean }> = [];
+  let last = 0;
+  for (const match of text.matchAll(OID_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), oid: false });
+    }
+    segments.push({ text: match[0], oid: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), oid: false });
+  }
+  return segments;
+}
+
+/**
+ * Get the object id stored at a loose object path, e.g.
+ * "objects/ab/cdef..." -> "abcdef...". Returns null for other paths.
+ */
+export function oidFromLoosePath(dirName: string, fileName: string): string | null {
+  const oid = `${dirName}${fileName}`;
+  return /^[0-9a-f]{2}$/.test(dirName) && isObjectId(oid) ? oid : null;
+}
+
+/**
+ * Format a git timezone offset. isomorphic-git stores it like
+ * Date.getTimezoneOffset(): minutes behind UTC, so -120 is "+0200".
+ */
+export function formatTimezone(offset: number): string {
+  const sign = offset <= 0 ? '+' : '-';
+  const minutes = Math.abs(offset);
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+  return `${sign}${hours}${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format an author/committer/tagger line value, e.g.
+ * "Alice <alice@example.com> 1700000000 +0000".
+ */
+export function formatPerson(person: GitPerson): string {
+  return `${person.name} <${person.email}> ${person.timestamp} ${formatTimezone(person.timezoneOffset)}`;
+}
+
+/**
+ * Format tree entries as `git cat-file -p` / `git ls-tree` lines.
+ */
+export function formatTree(entries: TreeEntry[]): string {
+  return entries
+    .map((entry) => `${entry.mode.padStart(6, '0')} ${entry.type} ${entry.oid}\t${entry.path}`)
+    .join('\n');
+}
+
+/**
+ * Format a commit the way git stores it (headers, blank line, message).
+ */
+export function formatCommit(commit: CommitObject): string {
+  const headers = [
+    `tree ${commit.tree}`,
+    ...commit.parent.map((parent) => `parent ${parent}`),
+    `author ${formatPerson(commit.author)}`,
+    `committer ${formatPerson(commit.committer)}`,
+  ];
+  return `${headers.join('\n')}\n\n${commit.message}`;
+}
+
+/**
+ * Format an annotated tag the way git stores it.
+ */
+export function formatTag(tag: TagObject): string {
+  const headers = [
+    `object ${tag.object}`,
+    `type ${tag.type}`,
+    `tag ${tag.tag}`,
+    `tagger ${formatPerson(tag.tagger)}`,
+  ];
+  return `${headers.join('\n')}\n\n${tag.message}`;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Format when a person signed an object, in their own timezone,
+ * like git's default date format: "Tue Nov 14 22:13:20 2023 +0000".
+ */
+export function formatDate(person: GitPerson): string {
+  const local = new Date((person.timestamp - person.timezoneOffset * 60) * 1000);
+  const time = [local.getUTCHours(), local.getUTCMinutes(), local.getUTCSeconds()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+  return `${DAYS[local.getUTCDay()]} ${MONTHS[local.getUTCMonth()]} ${local.getUTCDate()} ${time} `
+    + `${local.getUTCFullYear()} ${formatTimezone(person.timezoneOffset)}`;
+}
+
+/**
+ * Format a commit the way `git show` and `git log` present it:
+ * id, parents of a merge, author, date, then the indented message.
+ */
+export function formatCommitHeader(oid: string, commit: CommitObject): string[] {
+  const lines = [`commit ${oid}`];
+  if (commit.parent.length > 1) {
+    lines.push(`Merge: ${commit.parent.map((parent) => parent.slice(0, 7)).join(' ')}`);
+  }
+  lines.push(
+    `Author: ${commit.author.name} <${commit.author.email}>`,
+    `Date:   ${formatDate(commit.author)}`,
+    '',
+    ...commit.message.trimEnd().split('\n').map((line) => `    ${line}`),
+  );
+  return lines;
+}
+
+/**
+ * Format an annotated tag the way `git show` presents it, before the tagged object.
+ */
+export function formatTagHeader(tag: TagObject): string[] {
+  return [
+    `tag ${tag.tag}`,
+    `Tagger: ${tag.tagger.name} <${tag.tagger.email}>`,
+    `Date:   ${formatDate(tag.tagger)}`,
+    '',
+    ...tag.message.trimEnd().split('\n'),
+  ];
+}
+
+/**
+ * Expand a `git log --format` template for a commit. Supports the common
+ * placeholders (%H %h %T %t %P %p %an %ae %ad %at %cn %ce %cd %ct %s %b %B
+ * %d %D %n %%); anything else is left as it is, like git does. `refs` are
+ * the names pointing at the commit, for %d and %D.
+ */
+export function formatPretty(format: string, oid: string, commit: CommitObject, refs: string[] = []): string {
+  const [subject, ...body] = commit.message.trimEnd().split('\n');
+  const values: Record<string, string> = {
+    H: oid,
+    h: oid.slice(0, 7),
+    T: commit.tree,
+    t: commit.tree.slice(0, 7),
+    P: commit.parent.join(' '),
+    p: commit.parent.map((parent) => parent.slice(0, 7)).join(' '),
+    an: commit.author.name,
+    ae: commit.author.email,
+    ad: formatDate(commit.author),
+    at: String(commit.author.timestamp),
+    cn: commit.committer.name,
+    ce: commit.committer.email,
+    cd: formatDate(commit.committer),
+    ct: String(commit.committer.timestamp),
+    s: subject,
+    b: body.join('\n').replace(/^\n+/, ''),
+    B: commit.message.trimEnd(),
+    d: refs.length > 0 ? ` (${refs.join(', ')})` : '',
+    D: refs.join(', '),
+    n: '\n',
+    '%': '%',
+  };
+  return format.replace(/%(an|ae|ad|at|cn|ce|cd|ct|[HhTtPpsbBdDn%])/g, (_, key: string) => values[key]);
+}
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for pure git object functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  isObjectId,
+  splitObjectIds,
+  oidFromLoosePath,
+  formatTimezone,
+  formatPerson,
+  formatTree,
+  formatCommit,
+  formatTag,
+  formatDate,
+  formatCommitHeader,
+  formatTagHeader,
+  formatPretty,
+} from './object-utils';
+
+const OID_A = 'a'.repeat(40);
+const OID_B = 'b'.repeat(40);
+const PERSON = { name: 'Alice', email: 'alice@example.com', timestamp: 1700000000, timezoneOffset: 0 };
+
+describe('isObjectId', () => {
+  it('accepts a 40-character hex id', () => {
+    expect(isObjectId(OID_A)).toBe(true);
+  });
+
+  it('rejects short ids and other text', () => {
+    expect(isObjectId('abc1234')).toBe(false);
+    expect(isObjectId('z'.repeat(40))).toBe(false);
+  });
+});
+
+describe('splitObjectIds', () => {
+  it('splits ids out of surrounding text', () => {
+    expect(splitObjectIds(`tree ${OID_A}`)).toEqual([
+      { text: 'tree ', oid: false },
+      { text: OID_A, oid: true },
+    ]);
+  });
+
+  it('handles several ids on one line', () => {
+    const segments = splitObjectIds(`${OID_A} ${OID_B}`);
+    expect(segments.filter((s) => s.oid).map((s) => s.text)).toEqual([OID_A, OID_B]);
+  });
+
+  it('returns text without ids as a single segment', () => {
+    expect(splitObjectIds('hello')).toEqual([{ text: 'hello', oid: false }]);
+  });
+});
+
+describe('oidFromLoosePath', () => {
+  it('joins the directory and file name', () => {
+    expect(oidFromLoosePath('aa', 'a'.repeat(38))).toBe(OID_A);
+  });
+
+  it('ignores pack and info directories', () => {
+    expect(oidFromLoosePath('pack', 'pack-123.idx')).toBeNull();
+    expect(oidFromLoosePath('info', 'packs')).toBeNull();
+  });
+});
+
+describe('formatTimezone', () => {
+  it('formats UTC', () => {
+    expect(formatTimezone(0)).toBe('+0000');
+  });
+
+  it('formats zones ahead of UTC (negative offsets)', () => {
+    expect(formatTimezone(-120)).toBe('+0200');
+  });
+
+  it('formats zones behind UTC with minutes', () => {
+    expect(formatTimezone(210)).toBe('-0330');
+  });
+});
+
+describe('formatPerson', () => {
+  it('formats name, email, timestamp and zone', () => {
+    expect(formatPerson(PERSON)).toBe('Alice <alice@example.com> 1700000000 +0000');
+  });
+});
+
+describe('formatTree', () => {
+  it('formats entries like git ls-tree', () => {
+    const output = formatTree([
+      { mode: '100644', path: 'README.md', oid: OID_A, type: 'blob' },
+      { mode: '40000', path: 'src', oid: OID_B, type: 'tree' },
+    ]);
+
+    expect(output).toBe(`100644 blob ${OID_A}\tREADME.md\n040000 tree ${OID_B}\tsrc`);
+  });
+});
+
+describe('formatCommit', () => {
+  it('formats headers, a blank line and the message', () => {
+    const output = formatCommit({
+      tree: OID_A,
+      parent: [OID_B],
+      author: PERSON,
+      committer: PERSON,
+      message: 'Initial commit\n',
+    });
+
+    expect(output).toBe([
+      `tree ${OID_A}`,
+      `parent ${OID_B}`,
+      'author Alice <alice@example.com> 1700000000 +0000',
+      'committer Alice <alice@example.com> 1700000000 +0000',
+      '',
+      'Initial commit\n',
+    ].join('\n'));
+  });
+
+  it('omits parent lines for a root commit', () => {
+    const output = formatCommit({ tree: OID_A, parent: [], author: PERSON, committer: PERSON, message: 'Root\n' });
+
+    expect(output).not.toContain('parent');
+  });
+});
+
+describe('formatTag', () => {
+  it('formats an annotated tag', () => {
+    const output = formatTag({ object: OID_A, type: 'commit', tag: 'v1.0', tagger: PERSON, message: 'Release\n' });
+
+    expect(output).toBe([
+      `object ${OID_A}`,
+      'type commit',
+      'tag v1.0',
+      'tagger Alice <alice@example.com> 1700000000 +0000',
+      '',
+      'Release\n',
+    ].join('\n'));
+  });
+});
+
+describe('formatDate', () => {
+  it('formats a UTC timestamp like git', () => {
+    expect(formatDate(PERSON)).toBe('Tue Nov 14 22:13:20 2023 +0000');
+  });
+
+  it('shows the time in the signer\'s timezone', () => {
+    expect(formatDate({ ...PERSON, timezoneOffset: -120 })).toBe('Wed Nov 15 00:13:20 2023 +0200');
+  });
+});
+
+describe('formatCommitHeader', () => {
+  it('shows the author, date and indented message', () => {
+    const commit = { tree: OID_A, parent: [OID_B], author: PERSON, committer: PERSON, message: 'Add\n\nDetails\n' };
+    expect(formatCommitHeader(OID_A, commit)).toEqual([
+      `commit ${OID_A}`,
+      'Author: Alice <alice@example.com>',
+      'Date:   Tue Nov 14 22:13:20 2023 +0000',
+      '',
+      '    Add',
+      '    ',
+      '    Details',
+    ]);
+  });
+
+  it('lists the parents of a merge', () => {
+    const commit = { tree: OID_A, parent: [OID_A, OID_B], author: PERSON, committer: PERSON, message: 'Merge\n' };
+    expect(formatCommitHeader(OID_A, commit)[1]).toBe('Merge: aaaaaaa bbbbbbb');
+  });
+});
+
+describe('formatTagHeader', () => {
+  it('shows the tag name, tagger and message', () => {
+    const tag = { object: OID_A, type: 'commit' as const, tag: 'v1.0', tagger: PERSON, message: 'First release\n' };
+    expect(formatTagHeader(tag)).toEqual([
+      'tag v1.0',
+      'Tagger: Alice <alice@example.com>',
+      'Date:   Tue Nov 14 22:13:20 2023 +0000',
+      '',
+      'First release',
+    ]);
+  });
+});
+
+describe('formatPretty', () => {
+  const commit = { tree: OID_B, parent: [OID_B], author: PERSON, committer: PERSON, message: 'Subject\n\nBody text\n' };
+
+  it('expands placeholders', () => {
+    expect(formatPretty('%h %s (%an <%ae>, %ad)', OID_A, commit))
+      .toBe('aaaaaaa Subject (Alice <alice@example.com>, Tue Nov 14 22:13:20 2023 +0000)');
+  });
+
+  it('expands ids, the body and newlines', () => {
+    expect(formatPretty('%H%n%t %p%n%b', OID_A, commit)).toBe(`${OID_A}\nbbbbbbb bbbbbbb\nBody text`);
+  });
+
+  it('keeps unknown placeholders and escaped percent signs', () => {
+    expect(formatPretty('%x 100%%', OID_A, commit)).toBe('%x 100%');
+  });
+
+  it('decorates with the refs pointing at the commit', () => {
+    expect(formatPretty('%h%d', OID_A, commit, ['HEAD -> main', 'tag: v1'])).toBe('aaaaaaa (HEAD -> main, tag: v1)');
+    expect(formatPretty('[%D]', OID_A, commit, ['main'])).toBe('[main]');
+    expect(formatPretty('%h%d', OID_A, commit)).toBe('aaaaaaa');
+  });
+});
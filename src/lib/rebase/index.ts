@@ -0,0 +1,290 @@
+/**
+ * Rebase service.
+ * Replays commits onto a new base one at a time, the way git's sequencer
+ * does, keeping its progress in .git/rebase-merge so a rebase can stop on
+ * a conflict and be continued, skipped or aborted by later commands.
+ */
+
+import * as fsModule from '../fs';
+import * as gitLib from '../git';
+import * as editor from '../editor';
+import { getRepoDir } from '../workingDirectory';
+import { parseTodo, formatTodo, formatSquashMessage, type TodoStep } from './rebase-utils';
+
+// Re-export pure functions for convenience
+export { parseTodo, formatTodo, formatSquashMessage } from './rebase-utils';
+export type { TodoAction, TodoStep } from './rebase-utils';
+
+export interface RebaseState {
+  headName: string | null;  // The branch being rebased, null for a detached HEAD
+  onto: string;
+  origHead: string;
+  interactive: boolean;
+  done: TodoStep[];         // The last one is the step a stopped rebase stopped at
+  todo: TodoStep[];
+}
+
+export type RebaseResult =
+  | { kind: 'up-to-date' }
+  | { kind: 'nothing-to-do' }
+  | { kind: 'invalid-todo'; error: string }
+  | { kind: 'done'; headName: string | null }
+  | { kind: 'stopped'; step: TodoStep; conflicts: gitLib.GitConflicts };
+
+/**
+ * Lets the learner edit a commit message (for reword and squash),
+ * returning it with the `#` comment lines cleaned up.
+ */
+export type MessageEditor = (prepared: string) => Promise<string>;
+
+function statePath(name: string): string {
+  return `${getRepoDir()}/.git/rebase-merge/${name}`;
+}
+
+function rebaseHeadPath(): string {
+  return `${getRepoDir()}/.git/REBASE_HEAD`;
+}
+
+async function readStateFile(name: string): Promise<string | null> {
+  try {
+    return await fsModule.readFile(statePath(name));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the rebase in progress, or null when there is none.
+ */
+export async function getRebaseState(): Promise<RebaseState | null> {
+  const headName = await readStateFile('head-name');
+  if (headName === null) return null;
+  const steps = async (name: string) => parseTodo(await readStateFile(name) ?? '').steps;
+  return {
+    headName: headName.startsWith('refs/heads/') ? headName.trim().slice('refs/heads/'.length) : null,
+    onto: (await readStateFile('onto') ?? '').trim(),
+    origHead: (await readStateFile('orig-head') ?? '').trim(),
+    interactive: await readStateFile('interactive') !== null,
+    done: await steps('done'),
+    todo: await steps('git-rebase-todo'),
+  };
+}
+
+/**
+ * Get the commit a stopped rebase couldn't apply, or null.
+ */
+export async function getRebaseHead(): Promise<string | null> {
+  try {
+    return (await fsModule.readFile(rebaseHeadPath())).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeState(state: RebaseState): Promise<void> {
+  await fsModule.mkdir(`${getRepoDir()}/.git/rebase-merge`).catch(() => {
+    // Already exists
+  });
+  await fsModule.writeFile(statePath('head-name'), `${state.headName ? `refs/heads/${state.headName}` : 'detached HEAD'}\n`);
+  await fsModule.writeFile(statePath('onto'), `${state.onto}\n`);
+  await fsModule.writeFile(statePath('orig-head'), `${state.origHead}\n`);
+  if (state.interactive) {
+    await fsModule.writeFile(statePath('interactive'), '');
+  }
+  await fsModule.writeFile(statePath('done'), formatTodo(state.done));
+  await fsModule.writeFile(statePath('git-rebase-todo'), formatTodo(state.todo));
+  await fsModule.writeFile(statePath('msgnum'), `${state.done.length}\n`);
+  await fsModule.writeFile(statePath('end'), `${state.done.length + state.todo.length}\n`);
+}
+
+async function clearState(): Promise<void> {
+  const dir = `${getRepoDir()}/.git/rebase-merge`;
+  for (const name of await fsModule.readdir(dir).catch(() => [])) {
+    await fsModule.unlink(`${dir}/${name}`);
+  }
+  await fsModule.rmdir(dir).catch(() => {
+    // Never created
+  });
+  await fsModule.unlink(rebaseHeadPath()).catch(() => {
+    // Not stopped
+  });
+}
+
+async function readCommit(oid: string) {
+  const object = await gitLib.gitReadObject(oid);
+  if (object.type !== 'commit') {
+    throw new Error(`${oid} is not a commit`);
+  }
+  return object.commit;
+}
+
+/**
+ * Commit the changes a step applied to the index. Squash and fixup meld
+ * them into the commit before; a pick that changes nothing (its changes
+ * are already upstream) is dropped.
+ */
+async function commitStep(step: TodoStep, next: TodoStep | undefined, editMessage: MessageEditor): Promise<void> {
+  const commit = await readCommit(step.commit);
+  if (step.action === 'squash' || step.action === 'fixup') {
+    const head = await readCommit(await gitLib.gitResolveRevision('HEAD'));
+    let message = head.message.trim();
+    if (step.action === 'squash') {
+      // The message is edited once, after the last commit of a run of squashes
+      const lastOfRun = next?.action !== 'squash' && next?.action !== 'fixup';
+      const combined = `${message}\n\n${commit.message.trim()}`;
+      // An emptied message keeps the messages as they were
+      message = lastOfRun
+        ? await editMessage(formatSquashMessage([head.message, commit.message])) || combined
+        : combined;
+    }
+    await gitLib.gitCommit(message, { amend: true, author: head.author });
+    return;
+  }
+
+  if ((await gitLib.gitDiff({ staged: true })).length === 0) return;
+  const message = step.action === 'reword'
+    ? await editMessage(commit.message.trim()) || commit.message
+    : commit.message;
+  await gitLib.gitCommit(message, { author: commit.author });
+}
+
+/**
+ * Work through the todo list until it's done or a step conflicts.
+ */
+async function run(editMessage: MessageEditor): Promise<RebaseResult> {
+  const state = await getRebaseState() as RebaseState;
+  while (state.todo.length > 0) {
+    const step = state.todo.shift() as TodoStep;
+    state.done.push(step);
+    await writeState(state);
+    if (step.action === 'drop') continue;
+
+    const commit = await readCommit(step.commit);
+    const head = await gitLib.gitResolveRevision('HEAD');
+    // A commit already on top of HEAD needs no replaying, HEAD just moves to it
+    if (step.action === 'pick' && commit.parent[0] === head) {
+      await gitLib.gitCheckout(step.commit, { detach: true });
+      continue;
+    }
+
+    const label = `${step.commit.slice(0, 7)} (${commit.message.split('\n')[0]})`;
+    const conflicts = await gitLib.gitApplyChanges(commit.parent[0] ?? null, step.commit, label);
+    if (conflicts.conflicts.length > 0) {
+      await fsModule.writeFile(rebaseHeadPath(), `${step.commit}\n`);
+      return { kind: 'stopped', step, conflicts };
+    }
+    await commitStep(step, state.todo[0], editMessage);
+  }
+
+  if (state.headName) {
+    await gitLib.gitAttachHead(state.headName);
+  }
+  await clearState();
+  return { kind: 'done', headName: state.headName };
+}
+
+/**
+ * Let the learner edit the todo list in the editor, then read it back
+ * with each commit resolved to its full id.
+ */
+async function editTodo(state: RebaseState, upstream: string): Promise<{ steps: TodoStep[]; error: string | null }> {
+  const short = (oid: string) => oid.slice(0, 7);
+  await fsModule.writeFile(statePath('git-rebase-todo'), formatTodo(
+    state.todo.map((step) => ({ ...step, commit: short(step.commit) })),
+    { upstream: short(upstream), head: short(state.origHead), onto: short(state.onto) },
+  ));
+  await editor.editFile(statePath('git-rebase-todo'));
+
+  const { steps, error } = parseTodo(await fsModule.readFile(statePath('git-rebase-todo')));
+  if (error) return { steps, error };
+  for (const step of steps) {
+    try {
+      step.commit = await gitLib.gitResolveRevision(step.commit);
+    } catch {
+      return { steps: [], error: `error: invalid line: ${step.action} ${step.commit}: not a commit` };
+    }
+  }
+  return { steps, error: null };
+}
+
+/**
+ * Rebase HEAD: replay the commits `upstream` lacks onto `onto`
+ * (normally `upstream` itself), then move the branch to the result.
+ * Merge commits are left out, making the history linear. `interactive`
+ * first lets the learner edit the todo list in the editor.
+ * Callers check there are no local changes and no rebase in progress.
+ */
+export async function startRebase(
+  upstream: string,
+  onto: string,
+  interactive: boolean,
+  editMessage: MessageEditor,
+): Promise<RebaseResult> {
+  const origHead = await gitLib.gitResolveRevision('HEAD');
+  const commits = await gitLib.gitCommitsBetween(upstream, 'HEAD');
+  const picks = commits.filter((entry) => entry.parents.length <= 1);
+  if (!interactive && picks.length === commits.length
+      && (picks.length === 0 ? origHead === onto : picks[0].parents[0] === onto)) {
+    return { kind: 'up-to-date' };
+  }
+
+  const state: RebaseState = {
+    headName: await gitLib.gitCurrentBranch() ?? null,
+    onto,
+    origHead,
+    interactive,
+    done: [],
+    todo: picks.map((entry) => ({ action: 'pick', commit: entry.oid, subject: entry.message.split('\n')[0] })),
+  };
+  await writeState(state);
+
+  if (interactive) {
+    const { steps, error } = await editTodo(state, await gitLib.gitResolveRevision(upstream));
+    if (error || steps.length === 0) {
+      await clearState();
+      return error ? { kind: 'invalid-todo', error } : { kind: 'nothing-to-do' };
+    }
+    await writeState({ ...state, todo: steps });
+  }
+
+  await gitLib.gitCheckout(onto, { detach: true });
+  return run(editMessage);
+}
+
+/**
+ * Continue a stopped rebase once its conflicts are resolved: commit the
+ * stopped step with what's staged, then carry on with the rest.
+ * Callers check the rebase has no unmerged paths left.
+ */
+export async function continueRebase(editMessage: MessageEditor): Promise<RebaseResult> {
+  const state = await getRebaseState() as RebaseState;
+  if (await getRebaseHead()) {
+    await commitStep(state.done[state.done.length - 1], state.todo[0], editMessage);
+    await fsModule.unlink(rebaseHeadPath());
+  }
+  return run(editMessage);
+}
+
+/**
+ * Skip the step a rebase stopped at, throwing away its changes.
+ */
+export async function skipRebase(editMessage: MessageEditor): Promise<RebaseResult> {
+  await gitLib.gitReset('HEAD', 'hard');
+  await fsModule.unlink(rebaseHeadPath()).catch(() => {
+    // Not stopped
+  });
+  return run(editMessage);
+}
+
+/**
+ * Abort the rebase in progress, putting HEAD, the branch, the index and
+ * the working tree back as they were before it started.
+ */
+export async function abortRebase(): Promise<void> {
+  const state = await getRebaseState() as RebaseState;
+  await gitLib.gitReset(state.origHead, 'hard');
+  if (state.headName) {
+    await gitLib.gitAttachHead(state.headName);
+  }
+  await clearState();
+}
@@ -0,0 +1,101 @@
+/**
+ * Pure functions for rebase todo lists (git-rebase-todo) and squash messages.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+export type TodoAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop';
+
+export interface TodoStep {
+  action: TodoAction;
+  commit: string;
+  subject: string;
+}
+
+const ACTIONS: Record<string, TodoAction> = {
+  p: 'pick',
+  pick: 'pick',
+  r: 'reword',
+  reword: 'reword',
+  s: 'squash',
+  squash: 'squash',
+  f: 'fixup',
+  fixup: 'fixup',
+  d: 'drop',
+  drop: 'drop',
+};
+
+/**
+ * Parse a todo list as edited by the learner. Blank lines and `#`
+ * comments are ignored; commands may be abbreviated (`p`, `s`, ...).
+ * The commits are returned as written, for the caller to resolve.
+ */
+export function parseTodo(text: string): { steps: TodoStep[]; error: string | null } {
+  const steps: TodoStep[] = [];
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+    const [word, commit, ...subject] = line.split(/\s+/);
+    const action = ACTIONS[word];
+    if (!action || !commit) {
+      return { steps: [], error: `error: invalid line ${i + 1}: ${line}` };
+    }
+    steps.push({ action, commit, subject: subject.join(' ') });
+  }
+
+  // Squashing melds into the commit before, so something must come first
+  const first = steps.find((step) => step.action !== 'drop');
+  if (first && (first.action === 'squash' || first.action === 'fixup')) {
+    return { steps: [], error: `error: cannot '${first.action}' without a previous commit` };
+  }
+  return { steps, error: null };
+}
+
+/**
+ * Format todo steps one per line, as `<action> <commit> <subject>`.
+ * With `help`, the comment block git shows in the editor follows,
+ * describing the range being rebased (short ids) and the commands.
+ */
+export function formatTodo(steps: TodoStep[], help?: { upstream: string; head: string; onto: string }): string {
+  const lines = steps.map((step) => `${step.action} ${step.commit} ${step.subject}`);
+  if (help) {
+    const count = `${steps.length} command${steps.length === 1 ? '' : 's'}`;
+    lines.push(
+      '',
+      `# Rebase ${help.upstream}..${help.head} onto ${help.onto} (${count})`,
+      '#',
+      '# Commands:',
+      '# p, pick <commit> = use commit',
+      '# r, reword <commit> = use commit, but edit the commit message',
+      '# s, squash <commit> = use commit, but meld into previous commit',
+      '# f, fixup <commit> = like "squash" but keep only the previous',
+      "#                    commit's log message",
+      '# d, drop <commit> = remove commit',
+      '#',
+      '# These lines can be re-ordered; they are executed from top to bottom.',
+      '#',
+      '# If you remove a line here THAT COMMIT WILL BE LOST.',
+      '#',
+      '# However, if you remove everything, the rebase will be aborted.',
+      '#',
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Combine the messages of squashed commits the way git prepares them
+ * for editing, each under a comment saying which commit it came from.
+ */
+export function formatSquashMessage(messages: string[]): string {
+  const lines = [`# This is a combination of ${messages.length} commits.`];
+  messages.forEach((message, i) => {
+    lines.push(
+      i === 0 ? '# This is the 1st commit message:' : `# This is the commit message #${i + 1}:`,
+      '',
+      message.trim(),
+      '',
+    );
+  });
+  return lines.join('\n');
+}
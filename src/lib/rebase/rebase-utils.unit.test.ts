@@ -0,0 +1,62 @@
+/**
+ * Unit tests for rebase todo lists and squash messages.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseTodo, formatTodo, formatSquashMessage } from './rebase-utils';
+
+describe('parseTodo', () => {
+  it('reads commands, skipping blank lines and comments', () => {
+    expect(parseTodo('pick abc1234 First commit\n\n# comment\nr def5678 Second\n')).toEqual({
+      steps: [
+        { action: 'pick', commit: 'abc1234', subject: 'First commit' },
+        { action: 'reword', commit: 'def5678', subject: 'Second' },
+      ],
+      error: null,
+    });
+  });
+
+  it('expands abbreviated commands', () => {
+    const { steps } = parseTodo('p a\ns b\nf c\nd d');
+    expect(steps.map((step) => step.action)).toEqual(['pick', 'squash', 'fixup', 'drop']);
+  });
+
+  it('rejects unknown commands and missing commits', () => {
+    expect(parseTodo('pick a\nedit b').error).toBe('error: invalid line 2: edit b');
+    expect(parseTodo('pick').error).toBe('error: invalid line 1: pick');
+  });
+
+  it('rejects squashing without a commit before it', () => {
+    expect(parseTodo('drop a\nfixup b').error).toBe("error: cannot 'fixup' without a previous commit");
+  });
+});
+
+describe('formatTodo', () => {
+  const steps = [{ action: 'pick' as const, commit: 'abc1234', subject: 'First' }];
+
+  it('writes one step per line', () => {
+    expect(formatTodo(steps)).toBe('pick abc1234 First\n');
+  });
+
+  it('adds help describing the range', () => {
+    const text = formatTodo(steps, { upstream: '1111111', head: '2222222', onto: '3333333' });
+    expect(text).toContain('# Rebase 1111111..2222222 onto 3333333 (1 command)');
+    expect(parseTodo(text).steps).toEqual(steps);
+  });
+});
+
+describe('formatSquashMessage', () => {
+  it('labels each message under a comment', () => {
+    expect(formatSquashMessage(['First\n', 'Second\n']).split('\n')).toEqual([
+      '# This is a combination of 2 commits.',
+      '# This is the 1st commit message:',
+      '',
+      'First',
+      '',
+      '# This is the commit message #2:',
+      '',
+      'Second',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Reflog service.
+ * isomorphic-git doesn't keep reflogs, so commands record the moves they
+ * make to HEAD and the branches here, in .git/logs like git does. That
+ * is what lets `git reflog` and `HEAD@{n}` find commits nothing else
+ * points at any more, like the ones a bad reset left behind.
+ */
+
+import * as fsModule from '../fs';
+import * as gitLib from '../git';
+import { getRepoDir } from '../workingDirectory';
+import {
+  ZERO_OID,
+  formatReflogLine,
+  type RefSnapshot,
+  type RefUpdate,
+} from './reflog-utils';
+
+// Re-export pure functions for convenience
+export { ZERO_OID, formatReflogLine, parseReflog, diffRefSnapshots, formatReflog } from './reflog-utils';
+export type { ReflogEntry, RefSnapshot, RefUpdate } from './reflog-utils';
+
+function logPath(ref: string): string {
+  return `${getRepoDir()}/.git/logs/${ref}`;
+}
+
+// Create the directories a log file goes in, as branch names can have slashes
+async function makeLogDirs(ref: string): Promise<void> {
+  let dir = `${getRepoDir()}/.git`;
+  for (const part of `logs/${ref}`.split('/').slice(0, -1)) {
+    dir = `${dir}/${part}`;
+    await fsModule.mkdir(dir).catch(() => {
+      // Already exists
+    });
+  }
+}
+
+/**
+ * Note where HEAD and every branch point, to compare against after a
+ * command runs.
+ */
+export async function snapshotRefs(): Promise<RefSnapshot> {
+  const branches: Record<string, string> = {};
+  for (const branch of await gitLib.gitListBranches()) {
+    branches[branch] = await gitLib.gitResolveRevision(`refs/heads/${branch}`);
+  }
+  return {
+    head: await gitLib.gitResolveRevision('HEAD').catch(() => null),
+    headBranch: await gitLib.gitCurrentBranch() ?? null,
+    branches,
+  };
+}
+
+/**
+ * Record ref moves in their reflogs, each with the message `messageFor`
+ * gives it. A deleted branch's reflog goes with it.
+ */
+export async function recordRefUpdates(
+  updates: RefUpdate[],
+  messageFor: (update: RefUpdate) => string,
+): Promise<void> {
+  const committer = gitLib.gitSignature();
+  for (const update of updates) {
+    if (update.newOid === null) {
+      await fsModule.unlink(logPath(update.ref)).catch(() => {
+        // Never logged
+      });
+      continue;
+    }
+    const line = formatReflogLine({
+      oldOid: update.oldOid ?? ZERO_OID,
+      newOid: update.newOid,
+      committer,
+      message: messageFor(update),
+    });
+    await makeLogDirs(update.ref);
+    let log = '';
+    try {
+      log = await fsModule.readFile(logPath(update.ref));
+    } catch {
+      // The first entry
+    }
+    await fsModule.writeFile(logPath(update.ref), log + line);
+  }
+}
+
+/**
+ * Move a branch's reflog along with the branch when it's renamed.
+ */
+export async function renameReflog(oldName: string, newName: string): Promise<void> {
+  await makeLogDirs(`refs/heads/${newName}`);
+  await fsModule.rename(logPath(`refs/heads/${oldName}`), logPath(`refs/heads/${newName}`)).catch(() => {
+    // Never logged
+  });
+}
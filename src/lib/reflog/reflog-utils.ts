@@ -0,0 +1,106 @@
+/**
+ * Pure functions for reflogs: the files under .git/logs recording each
+ * position a ref has had, one line per move.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+import { formatPerson, type GitPerson } from '../objectDb/object-utils';
+
+export const ZERO_OID = '0'.repeat(40);
+
+export interface ReflogEntry {
+  oldOid: string;
+  newOid: string;
+  committer: GitPerson;
+  message: string;
+}
+
+/**
+ * Format an entry as a reflog line:
+ * `<old> <new> Name <email> <timestamp> <timezone>\t<message>`.
+ */
+export function formatReflogLine(entry: ReflogEntry): string {
+  // The message is a single line, whatever the command was given
+  const message = entry.message.replace(/\n/g, ' ').trim();
+  return `${entry.oldOid} ${entry.newOid} ${formatPerson(entry.committer)}\t${message}\n`;
+}
+
+function parseTimezone(text: string): number {
+  const minutes = Number(text.slice(1, 3)) * 60 + Number(text.slice(3, 5));
+  return text.startsWith('-') ? minutes : -minutes;
+}
+
+/**
+ * Parse a reflog file into its entries, oldest first as they're stored.
+ * Lines that aren't reflog entries are skipped.
+ */
+export function parseReflog(text: string): ReflogEntry[] {
+  const entries: ReflogEntry[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([0-9a-f]{40}) ([0-9a-f]{40}) (.*) (\d+) ([+-]\d{4})(?:\t(.*))?$/);
+    if (!match) continue;
+    const [, oldOid, newOid, person, timestamp, timezone, message = ''] = match;
+    // isomorphic-git writes the stash reflog's email without its brackets
+    const [, name, email] = person.match(/^(.*) <(.*)>$/) ?? person.match(/^(.*) (\S+)$/) ?? ['', person, ''];
+    entries.push({
+      oldOid,
+      newOid,
+      committer: { name, email, timestamp: Number(timestamp), timezoneOffset: parseTimezone(timezone) },
+      message,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Where HEAD and the branches point: what a command's ref moves are
+ * worked out from, by comparing before and after it runs.
+ */
+export interface RefSnapshot {
+  head: string | null;        // null on an unborn branch
+  headBranch: string | null;  // null for a detached HEAD
+  branches: Record<string, string>;
+}
+
+/**
+ * A ref that moved, from `oldOid` (null when it was created) to
+ * `newOid` (null when it was deleted).
+ */
+export interface RefUpdate {
+  ref: string;
+  oldOid: string | null;
+  newOid: string | null;
+}
+
+/**
+ * Work out which refs a command moved. Branches are logged when they're
+ * created, moved or deleted; HEAD when it moves to another commit or
+ * another branch, but not when its branch was only renamed.
+ */
+export function diffRefSnapshots(before: RefSnapshot, after: RefSnapshot): RefUpdate[] {
+  const updates: RefUpdate[] = [];
+  // Renaming HEAD's branch takes HEAD along; only a real switch is logged
+  const renamed = before.headBranch !== null && !(before.headBranch in after.branches);
+  const switched = before.headBranch !== after.headBranch && !renamed;
+  if (after.head && (after.head !== before.head || switched)) {
+    updates.push({ ref: 'HEAD', oldOid: before.head, newOid: after.head });
+  }
+
+  const names = [...new Set([...Object.keys(before.branches), ...Object.keys(after.branches)])].sort();
+  for (const name of names) {
+    const oldOid = before.branches[name] ?? null;
+    const newOid = after.branches[name] ?? null;
+    if (oldOid !== newOid) {
+      updates.push({ ref: `refs/heads/${name}`, oldOid, newOid });
+    }
+  }
+  return updates;
+}
+
+/**
+ * Format reflog entries (newest first) the way `git reflog` shows them:
+ * `<short id> <name>@{<n>}: <message>`.
+ */
+export function formatReflog(name: string, entries: ReflogEntry[]): string[] {
+  return entries.map((entry, n) => `${entry.newOid.slice(0, 7)} ${name}@{${n}}: ${entry.message}`);
+}
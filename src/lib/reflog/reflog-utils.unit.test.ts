@@ -0,0 +1,101 @@
+/**
+ * Unit tests for reflog lines and working out ref moves.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  ZERO_OID,
+  formatReflogLine,
+  parseReflog,
+  diffRefSnapshots,
+  formatReflog,
+  type ReflogEntry,
+} from './reflog-utils';
+
+const A = 'a'.repeat(40);
+const B = 'b'.repeat(40);
+const committer = { name: 'Git Learner', email: 'learner@example.com', timestamp: 1700000000, timezoneOffset: -60 };
+
+describe('formatReflogLine', () => {
+  it('writes the old and new ids, who moved the ref, when, and why', () => {
+    expect(formatReflogLine({ oldOid: A, newOid: B, committer, message: 'commit: Add notes' })).toBe(
+      `${A} ${B} Git Learner <learner@example.com> 1700000000 +0100\tcommit: Add notes\n`,
+    );
+  });
+
+  it('keeps the message on one line', () => {
+    expect(formatReflogLine({ oldOid: A, newOid: B, committer, message: 'commit: Two\nlines\n' }))
+      .toMatch(/\tcommit: Two lines\n$/);
+  });
+});
+
+describe('parseReflog', () => {
+  it('reads back what formatReflogLine writes', () => {
+    const entries: ReflogEntry[] = [
+      { oldOid: ZERO_OID, newOid: A, committer, message: 'commit (initial): Initial' },
+      { oldOid: A, newOid: B, committer: { ...committer, timezoneOffset: 300 }, message: 'reset: moving to HEAD~1' },
+    ];
+    expect(parseReflog(entries.map(formatReflogLine).join(''))).toEqual(entries);
+  });
+
+  it('reads the stash reflog isomorphic-git writes, without brackets around the email', () => {
+    const [entry] = parseReflog(`${ZERO_OID} ${A} GitLearner learner@example.com 1700000000 -0500\tWIP on main: abc1234 First\n`);
+    expect(entry.newOid).toBe(A);
+    expect(entry.committer).toEqual({ name: 'GitLearner', email: 'learner@example.com', timestamp: 1700000000, timezoneOffset: 300 });
+    expect(entry.message).toBe('WIP on main: abc1234 First');
+  });
+
+  it('skips lines that are not entries', () => {
+    expect(parseReflog('\nnot a reflog line\n')).toEqual([]);
+  });
+});
+
+describe('diffRefSnapshots', () => {
+  const before = { head: A, headBranch: 'main', branches: { main: A } };
+
+  it('logs HEAD and its branch moving to a new commit', () => {
+    expect(diffRefSnapshots(before, { head: B, headBranch: 'main', branches: { main: B } })).toEqual([
+      { ref: 'HEAD', oldOid: A, newOid: B },
+      { ref: 'refs/heads/main', oldOid: A, newOid: B },
+    ]);
+  });
+
+  it('logs HEAD switching branches even at the same commit', () => {
+    expect(diffRefSnapshots(before, { head: A, headBranch: 'feature', branches: { main: A, feature: A } })).toEqual([
+      { ref: 'HEAD', oldOid: A, newOid: A },
+      { ref: 'refs/heads/feature', oldOid: null, newOid: A },
+    ]);
+  });
+
+  it('logs a rename as a deleted and a created branch, without moving HEAD', () => {
+    expect(diffRefSnapshots(before, { head: A, headBranch: 'trunk', branches: { trunk: A } })).toEqual([
+      { ref: 'refs/heads/main', oldOid: A, newOid: null },
+      { ref: 'refs/heads/trunk', oldOid: null, newOid: A },
+    ]);
+  });
+
+  it('logs the first commit on an unborn branch', () => {
+    const unborn = { head: null, headBranch: 'main', branches: {} };
+    expect(diffRefSnapshots(unborn, before)).toEqual([
+      { ref: 'HEAD', oldOid: null, newOid: A },
+      { ref: 'refs/heads/main', oldOid: null, newOid: A },
+    ]);
+  });
+
+  it('finds nothing when nothing moved', () => {
+    expect(diffRefSnapshots(before, before)).toEqual([]);
+  });
+});
+
+describe('formatReflog', () => {
+  it('numbers the entries from the newest', () => {
+    const entries = [
+      { oldOid: A, newOid: B, committer, message: 'reset: moving to HEAD~1' },
+      { oldOid: ZERO_OID, newOid: A, committer, message: 'commit (initial): Initial' },
+    ];
+    expect(formatReflog('HEAD', entries)).toEqual([
+      'bbbbbbb HEAD@{0}: reset: moving to HEAD~1',
+      'aaaaaaa HEAD@{1}: commit (initial): Initial',
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Integration tests for the simulated remotes service.
+ * Uses a bare repository at /remotes/origin and a second clone
+ * to play the part of another collaborator.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import git from 'isomorphic-git';
+import {
+  initRepository,
+  addRemote,
+  listRemoteBranches,
+  getUpstream,
+  fetchRemote,
+  pushBranch,
+  cloneRepository,
+} from './index';
+import { executeCommand } from '../commands';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+const ORIGIN = '/remotes/origin';
+const OTHER = '/home/other';
+
+async function commitIn(dir: string, path: string, content: string, message: string): Promise<string> {
+  await fsLib.writeFile(`${dir}/${path}`, content);
+  await git.add({ fs: fsLib.fs, dir, filepath: path });
+  return await git.commit({
+    fs: fsLib.fs,
+    dir,
+    message,
+    author: { name: 'Other', email: 'other@example.com' },
+  });
+}
+
+describe('Remotes Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+    await initRepository(ORIGIN, true);
+    await executeCommand('git init');
+    await commitIn(CWD, 'README.md', 'hello\n', 'Initial');
+    await addRemote('origin', ORIGIN);
+  });
+
+  describe('pushBranch', () => {
+    it('creates the branch on the remote and the tracking ref locally', async () => {
+      const { update } = await pushBranch('origin', 'master', { setUpstream: true });
+
+      expect(update.kind).toBe('new-branch');
+      const local = await git.resolveRef({ fs: fsLib.fs, dir: CWD, ref: 'master' });
+      const remote = await git.resolveRef({ fs: fsLib.fs, gitdir: ORIGIN, ref: 'refs/heads/master' });
+      expect(remote).toBe(local);
+      expect(await listRemoteBranches()).toEqual(['origin/master']);
+      expect(await getUpstream('master')).toEqual({ remote: 'origin', branch: 'master' });
+    });
+
+    it('reports up-to-date when nothing changed', async () => {
+      await pushBranch('origin', 'master');
+
+      const { update } = await pushBranch('origin', 'master');
+
+      expect(update.kind).toBe('up-to-date');
+    });
+
+    it('rejects when the remote has commits we have not fetched', async () => {
+      await pushBranch('origin', 'master');
+      await cloneRepository(ORIGIN, OTHER);
+      await commitIn(OTHER, 'other.txt', 'other\n', 'Other work');
+      await pushBranch('origin', 'master', {}, OTHER);
+      await commitIn(CWD, 'mine.txt', 'mine\n', 'My work');
+
+      const { update } = await pushBranch('origin', 'master');
+
+      expect(update.kind).toBe('rejected');
+      expect(update.reason).toBe('fetch first');
+    });
+
+    it('rejects a non-fast-forward after fetching, unless forced', async () => {
+      await pushBranch('origin', 'master');
+      await cloneRepository(ORIGIN, OTHER);
+      await commitIn(OTHER, 'other.txt', 'other\n', 'Other work');
+      await pushBranch('origin', 'master', {}, OTHER);
+      await commitIn(CWD, 'mine.txt', 'mine\n', 'My work');
+      await fetchRemote('origin');
+
+      const rejected = await pushBranch('origin', 'master');
+      const forced = await pushBranch('origin', 'master', { force: true });
+
+      expect(rejected.update.reason).toBe('non-fast-forward');
+      expect(forced.update.kind).toBe('forced');
+    });
+
+    it('throws for a branch that does not exist', async () => {
+      await expect(pushBranch('origin', 'nope')).rejects.toThrow('src refspec nope does not match any');
+    });
+  });
+
+  describe('fetchRemote', () => {
+    it('reports new and fast-forwarded remote branches', async () => {
+      await pushBranch('origin', 'master');
+      await cloneRepository(ORIGIN, OTHER);
+      const oid = await commitIn(OTHER, 'other.txt', 'other\n', 'Other work');
+      await pushBranch('origin', 'master', {}, OTHER);
+
+      const { updates } = await fetchRemote('origin');
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).toMatchObject({ kind: 'fast-forward', src: 'master', dst: 'origin/master', to: oid });
+    });
+
+    it('reports nothing when already up to date', async () => {
+      await pushBranch('origin', 'master');
+
+      const { updates } = await fetchRemote('origin');
+
+      expect(updates).toEqual([]);
+    });
+
+    it('throws for an unknown remote', async () => {
+      await expect(fetchRemote('upstream')).rejects.toThrow("'upstream' does not appear to be a git repository");
+    });
+  });
+
+  describe('cloneRepository', () => {
+    it('checks out the default branch and tracks it', async () => {
+      await pushBranch('origin', 'master');
+
+      const result = await cloneRepository(ORIGIN, OTHER);
+
+      expect(result.empty).toBe(false);
+      expect(await fsLib.readFile(`${OTHER}/README.md`)).toBe('hello\n');
+      expect(await getUpstream('master', OTHER)).toEqual({ remote: 'origin', branch: 'master' });
+    });
+
+    it('reports an empty repository', async () => {
+      const result = await cloneRepository(ORIGIN, OTHER);
+
+      expect(result.empty).toBe(true);
+    });
+
+    it('refuses a non-empty destination', async () => {
+      await expect(cloneRepository(ORIGIN, CWD)).rejects.toThrow("destination path '.' already exists");
+    });
+  });
+});
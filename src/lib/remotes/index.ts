@@ -0,0 +1,374 @@
+/**
+ * Simulated remotes service.
+ *
+ * isomorphic-git only speaks HTTP to remotes, so remotes here are other
+ * repositories in the same virtual filesystem (e.g. /remotes/origin).
+ * Fetch and push copy the missing objects between the two object databases
+ * directly, then update refs the way git's local transport would.
+ */
+
+import git from 'isomorphic-git';
+import * as fsModule from '../fs';
+import { getCurrentDir, getRepoDir } from '../workingDirectory';
+import {
+  remoteUrlToPath,
+  remoteTrackingRef,
+  shortRefName,
+  type RefUpdate,
+} from './remote-utils';
+
+// Re-export pure functions for convenience
+export {
+  remoteUrlToPath,
+  defaultCloneDirName,
+  remoteTrackingRef,
+  shortRefName,
+  formatRefUpdates,
+  formatTrackingStatus,
+  formatTrackingBrief,
+} from './remote-utils';
+export type { RefUpdate, RefUpdateKind, TrackingInfo } from './remote-utils';
+
+// Get fs dynamically since it can be reassigned on reset
+function getFs() {
+  return fsModule.fs;
+}
+
+export interface PushOptions {
+  force?: boolean;
+  setUpstream?: boolean;
+}
+
+export interface PushResult {
+  url: string;
+  update: RefUpdate;
+}
+
+export interface FetchResult {
+  url: string;
+  updates: RefUpdate[];
+}
+
+export interface CloneResult {
+  dir: string;
+  empty: boolean;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await getFs().promises.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a directory and any missing parents.
+ */
+async function mkdirp(path: string): Promise<void> {
+  const segments = path.split('/').filter(Boolean);
+  let current = '';
+  for (const segment of segments) {
+    current += `/${segment}`;
+    if (!(await exists(current))) {
+      await getFs().promises.mkdir(current);
+    }
+  }
+}
+
+/**
+ * Find the git directory of the repository at a path (bare or not).
+ * Returns null when the path isn't a repository.
+ */
+async function findGitdir(path: string): Promise<string | null> {
+  if (await exists(`${path}/.git/HEAD`)) return `${path}/.git`;
+  if (await exists(`${path}/HEAD`) && await exists(`${path}/objects`)) return path;
+  return null;
+}
+
+async function hasObject(gitdir: string, oid: string): Promise<boolean> {
+  try {
+    await git.readObject({ fs: getFs(), gitdir, oid, format: 'deflated' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function tryResolveRef(gitdir: string, ref: string): Promise<string | null> {
+  try {
+    return await git.resolveRef({ fs: getFs(), gitdir, ref });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the branch ref HEAD points at, e.g. "refs/heads/main".
+ * Resolving one level returns the raw "ref: ..." content, so strip that.
+ */
+async function readHeadRef(gitdir: string): Promise<string | null> {
+  try {
+    const head = await git.resolveRef({ fs: getFs(), gitdir, ref: 'HEAD', depth: 1 });
+    return head.replace(/^ref: /, '').trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy every object reachable from the given tips that the destination
+ * doesn't have yet. Objects already present are assumed to be complete
+ * (their history is there too), which is what git assumes as well.
+ */
+async function copyObjects(fromGitdir: string, toGitdir: string, tips: string[]): Promise<number> {
+  const fs = getFs();
+  const queue = [...tips];
+  const seen = new Set<string>();
+  let copied = 0;
+
+  while (queue.length > 0) {
+    const oid = queue.pop() as string;
+    if (seen.has(oid)) continue;
+    seen.add(oid);
+    if (await hasObject(toGitdir, oid)) continue;
+
+    const { type, object } = await git.readObject({ fs, gitdir: fromGitdir, oid, format: 'content' });
+    await git.writeObject({
+      fs,
+      gitdir: toGitdir,
+      type: type as 'blob' | 'tree' | 'commit' | 'tag',
+      object: object as Uint8Array,
+      format: 'content',
+    });
+    copied++;
+
+    if (type === 'commit') {
+      const { commit } = await git.readCommit({ fs, gitdir: fromGitdir, oid });
+      queue.push(commit.tree, ...commit.parent);
+    } else if (type === 'tree') {
+      const { tree } = await git.readTree({ fs, gitdir: fromGitdir, oid });
+      queue.push(...tree.filter((entry) => entry.type !== 'commit').map((entry) => entry.oid));
+    } else if (type === 'tag') {
+      const { tag } = await git.readTag({ fs, gitdir: fromGitdir, oid });
+      queue.push(tag.object);
+    }
+  }
+
+  return copied;
+}
+
+/**
+ * Create a new repository at a path, creating parent directories.
+ * Used for `git init [--bare] <dir>`, e.g. to set up /remotes/origin.
+ */
+export async function initRepository(path: string, bare = false): Promise<void> {
+  await mkdirp(path);
+  await git.init({ fs: getFs(), dir: path, bare });
+}
+
+export async function listRemotes(dir = getRepoDir()): Promise<Array<{ remote: string; url: string }>> {
+  return await git.listRemotes({ fs: getFs(), dir });
+}
+
+export async function addRemote(name: string, url: string, dir = getRepoDir()): Promise<void> {
+  await git.addRemote({ fs: getFs(), dir, remote: name, url });
+}
+
+export async function removeRemote(name: string, dir = getRepoDir()): Promise<void> {
+  await git.deleteRemote({ fs: getFs(), dir, remote: name });
+}
+
+async function getRemoteUrl(remote: string, dir: string): Promise<string> {
+  const url = await git.getConfig({ fs: getFs(), dir, path: `remote.${remote}.url` });
+  if (!url) {
+    throw new Error(`'${remote}' does not appear to be a git repository`);
+  }
+  return url as string;
+}
+
+async function getRemoteGitdir(url: string, dir: string): Promise<string> {
+  const gitdir = await findGitdir(remoteUrlToPath(url, dir));
+  if (!gitdir) {
+    throw new Error(`'${url}' does not appear to be a git repository`);
+  }
+  return gitdir;
+}
+
+/**
+ * List remote-tracking branches, e.g. ["origin/main"].
+ */
+export async function listRemoteBranches(dir = getRepoDir()): Promise<string[]> {
+  const result: string[] = [];
+  for (const { remote } of await listRemotes(dir)) {
+    const branches = await git.listBranches({ fs: getFs(), dir, remote });
+    result.push(...branches.filter((b) => b !== 'HEAD').map((b) => `${remote}/${b}`));
+  }
+  return result.sort();
+}
+
+/**
+ * Get the upstream of a branch from its branch.<name>.* config.
+ */
+export async function getUpstream(branch: string, dir = getRepoDir()): Promise<{ remote: string; branch: string } | null> {
+  const fs = getFs();
+  const remote = await git.getConfig({ fs, dir, path: `branch.${branch}.remote` });
+  const merge = await git.getConfig({ fs, dir, path: `branch.${branch}.merge` });
+  if (!remote || !merge) return null;
+  return { remote: remote as string, branch: shortRefName(merge as string) };
+}
+
+export async function setUpstream(branch: string, remote: string, remoteBranch: string, dir = getRepoDir()): Promise<void> {
+  const fs = getFs();
+  await git.setConfig({ fs, dir, path: `branch.${branch}.remote`, value: remote });
+  await git.setConfig({ fs, dir, path: `branch.${branch}.merge`, value: `refs/heads/${remoteBranch}` });
+}
+
+export async function unsetUpstream(branch: string, dir = getRepoDir()): Promise<void> {
+  const fs = getFs();
+  await git.setConfig({ fs, dir, path: `branch.${branch}.remote`, value: undefined });
+  await git.setConfig({ fs, dir, path: `branch.${branch}.merge`, value: undefined });
+}
+
+/**
+ * Fetch all branches and tags from a remote, updating refs/remotes/<remote>/*.
+ */
+export async function fetchRemote(remote: string, dir = getRepoDir()): Promise<FetchResult> {
+  const fs = getFs();
+  const url = await getRemoteUrl(remote, dir);
+  const remoteGitdir = await getRemoteGitdir(url, dir);
+  const localGitdir = `${dir}/.git`;
+
+  const branches = await git.listBranches({ fs, gitdir: remoteGitdir });
+  const tags = await git.listTags({ fs, gitdir: remoteGitdir });
+  const branchTips = await Promise.all(
+    branches.map(async (b) => [b, await git.resolveRef({ fs, gitdir: remoteGitdir, ref: `refs/heads/${b}` })] as const)
+  );
+  const tagTips = await Promise.all(
+    tags.map(async (t) => [t, await git.resolveRef({ fs, gitdir: remoteGitdir, ref: `refs/tags/${t}` })] as const)
+  );
+
+  await copyObjects(remoteGitdir, localGitdir, [...branchTips, ...tagTips].map(([, oid]) => oid));
+
+  const updates: RefUpdate[] = [];
+  for (const [branch, oid] of branchTips) {
+    const ref = remoteTrackingRef(remote, branch);
+    const previous = await tryResolveRef(localGitdir, ref);
+    if (previous === oid) continue;
+
+    await git.writeRef({ fs, dir, ref, value: oid, force: true });
+    const dst = `${remote}/${branch}`;
+    if (!previous) {
+      updates.push({ kind: 'new-branch', src: branch, dst, to: oid });
+    } else {
+      const fastForward = await git.isDescendent({ fs, dir, oid, ancestor: previous, depth: -1 });
+      updates.push({ kind: fastForward ? 'fast-forward' : 'forced', src: branch, dst, from: previous, to: oid });
+    }
+  }
+  for (const [tag, oid] of tagTips) {
+    const ref = `refs/tags/${tag}`;
+    if (await tryResolveRef(localGitdir, ref)) continue;
+    await git.writeRef({ fs, dir, ref, value: oid });
+    updates.push({ kind: 'new-tag', src: tag, dst: tag, to: oid });
+  }
+
+  return { url, updates };
+}
+
+/**
+ * Push a local branch to a branch of the same name on a remote.
+ * Non-fast-forward updates are rejected unless forced.
+ */
+export async function pushBranch(
+  remote: string,
+  branch: string,
+  options: PushOptions = {},
+  dir = getRepoDir(),
+): Promise<PushResult> {
+  const fs = getFs();
+  const url = await getRemoteUrl(remote, dir);
+  const remoteGitdir = await getRemoteGitdir(url, dir);
+  const localGitdir = `${dir}/.git`;
+  const ref = `refs/heads/${branch}`;
+
+  const localOid = await tryResolveRef(localGitdir, ref);
+  if (!localOid) {
+    throw new Error(`src refspec ${branch} does not match any`);
+  }
+  const remoteOid = await tryResolveRef(remoteGitdir, ref);
+
+  const base = { src: branch, dst: branch, from: remoteOid ?? undefined, to: localOid };
+  let update: RefUpdate;
+  if (remoteOid === localOid) {
+    update = { ...base, kind: 'up-to-date' };
+  } else {
+    if (remoteOid && !options.force) {
+      // We can only tell it's a fast-forward if we have the remote's commit
+      if (!(await hasObject(localGitdir, remoteOid))) {
+        return { url, update: { ...base, kind: 'rejected', reason: 'fetch first' } };
+      }
+      const fastForward = await git.isDescendent({ fs, dir, oid: localOid, ancestor: remoteOid, depth: -1 });
+      if (!fastForward) {
+        return { url, update: { ...base, kind: 'rejected', reason: 'non-fast-forward' } };
+      }
+    }
+
+    // Like git, refuse to move the branch checked out in a non-bare remote
+    const remoteIsBare = !remoteGitdir.endsWith('/.git');
+    const remoteHead = await readHeadRef(remoteGitdir);
+    if (!remoteIsBare && remoteHead === ref) {
+      return { url, update: { ...base, kind: 'rejected', reason: 'branch is currently checked out' } };
+    }
+
+    await copyObjects(localGitdir, remoteGitdir, [localOid]);
+    await git.writeRef({ fs, gitdir: remoteGitdir, ref, value: localOid, force: true });
+    update = {
+      ...base,
+      kind: !remoteOid ? 'new-branch' : options.force ? 'forced' : 'fast-forward',
+    };
+  }
+
+  await git.writeRef({ fs, dir, ref: remoteTrackingRef(remote, branch), value: localOid, force: true });
+  if (options.setUpstream) {
+    await setUpstream(branch, remote, branch, dir);
+  }
+  return { url, update };
+}
+
+/**
+ * Clone the repository at a URL into a new directory, checking out
+ * the remote's HEAD branch and tracking it.
+ */
+export async function cloneRepository(url: string, targetDir: string): Promise<CloneResult> {
+  const fs = getFs();
+  const cloneFrom = getCurrentDir();
+  const remoteGitdir = await getRemoteGitdir(url, cloneFrom);
+
+  if (await exists(targetDir)) {
+    const entries = await fs.promises.readdir(targetDir);
+    if (entries.length > 0) {
+      const name = targetDir === cloneFrom ? '.' : targetDir.slice(targetDir.lastIndexOf('/') + 1);
+      throw new Error(`destination path '${name}' already exists and is not an empty directory.`);
+    }
+  }
+
+  // Remote HEAD is a symbolic ref such as refs/heads/main
+  const branch = shortRefName((await readHeadRef(remoteGitdir)) ?? 'refs/heads/master');
+
+  await mkdirp(targetDir);
+  await git.init({ fs, dir: targetDir, defaultBranch: branch });
+  // Store the URL as given, but resolve relative paths from where we cloned
+  const storedUrl = url.startsWith('/') || url.startsWith('file://') ? url : remoteUrlToPath(url, cloneFrom);
+  await addRemote('origin', storedUrl, targetDir);
+  await fetchRemote('origin', targetDir);
+
+  const oid = await tryResolveRef(`${targetDir}/.git`, remoteTrackingRef('origin', branch));
+  if (!oid) {
+    return { dir: targetDir, empty: true };
+  }
+  await git.writeRef({ fs, dir: targetDir, ref: `refs/heads/${branch}`, value: oid });
+  await setUpstream(branch, 'origin', branch, targetDir);
+  await git.checkout({ fs, dir: targetDir, ref: branch });
+  return { dir: targetDir, empty: false };
+}
@@ -0,0 +1,142 @@
+/**
+ * Pure functions for simulated remotes.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+export type RefUpdateKind =
+  | 'new-branch'
+  | 'new-tag'
+  | 'fast-forward'
+  | 'forced'
+  | 'up-to-date'
+  | 'rejected';
+
+export interface RefUpdate {
+  kind: RefUpdateKind;
+  src: string;      // Short name on the sending side, e.g. "main"
+  dst: string;      // Short name on the receiving side, e.g. "origin/main"
+  from?: string;    // Previous oid of the destination ref
+  to?: string;      // New oid of the destination ref
+  reason?: string;  // Why an update was rejected, e.g. "non-fast-forward"
+}
+
+/**
+ * Convert a remote URL to a path in the virtual filesystem.
+ * Supports absolute paths, file:// URLs and paths relative to cwd.
+ */
+export function remoteUrlToPath(url: string, cwd: string): string {
+  const path = url.startsWith('file://') ? url.slice('file://'.length) : url;
+  const absolute = path.startsWith('/') ? path : `${cwd}/${path}`;
+  return absolute.length > 1 ? absolute.replace(/\/+$/, '') : absolute;
+}
+
+/**
+ * Get the directory name git clone uses when none is given,
+ * e.g. "/remotes/origin.git" -> "origin".
+ */
+export function defaultCloneDirName(url: string): string {
+  const trimmed = url.replace(/\/+$/, '').replace(/\/\.git$/, '');
+  const base = trimmed.slice(trimmed.lastIndexOf('/') + 1);
+  return base.replace(/\.git$/, '');
+}
+
+/**
+ * Get the remote-tracking ref for a branch, e.g. refs/remotes/origin/main.
+ */
+export function remoteTrackingRef(remote: string, branch: string): string {
+  return `refs/remotes/${remote}/${branch}`;
+}
+
+/**
+ * Strip the refs/heads/, refs/tags/ or refs/remotes/ prefix from a ref.
+ */
+export function shortRefName(ref: string): string {
+  return ref.replace(/^refs\/(heads|tags|remotes)\//, '');
+}
+
+function formatSummary(update: RefUpdate): { flag: string; summary: string; suffix: string } {
+  const short = (oid?: string) => (oid ?? '').slice(0, 7);
+  switch (update.kind) {
+    case 'new-branch':
+      return { flag: '*', summary: '[new branch]', suffix: '' };
+    case 'new-tag':
+      return { flag: '*', summary: '[new tag]', suffix: '' };
+    case 'fast-forward':
+      return { flag: ' ', summary: `${short(update.from)}..${short(update.to)}`, suffix: '' };
+    case 'forced':
+      return { flag: '+', summary: `${short(update.from)}...${short(update.to)}`, suffix: ' (forced update)' };
+    case 'up-to-date':
+      return { flag: '=', summary: '[up to date]', suffix: '' };
+    case 'rejected':
+      return { flag: '!', summary: '[rejected]', suffix: ` (${update.reason ?? 'non-fast-forward'})` };
+  }
+}
+
+/**
+ * Format ref updates as git prints them after fetch or push, e.g.
+ * " * [new branch]      main       -> origin/main".
+ */
+export function formatRefUpdates(updates: RefUpdate[]): string[] {
+  const srcWidth = Math.max(0, ...updates.map((u) => u.src.length));
+  return updates.map((update) => {
+    const { flag, summary, suffix } = formatSummary(update);
+    return ` ${flag} ${summary.padEnd(17)} ${update.src.padEnd(srcWidth)} -> ${update.dst}${suffix}`;
+  });
+}
+
+/**
+ * How a branch compares to its upstream, e.g. "origin/main".
+ * `gone` means the remote-tracking branch no longer exists.
+ */
+export interface TrackingInfo {
+  upstream: string;
+  ahead: number;
+  behind: number;
+  gone: boolean;
+}
+
+function commits(count: number): string {
+  return `${count} ${count === 1 ? 'commit' : 'commits'}`;
+}
+
+/**
+ * Describe a branch's upstream the way `git status` does.
+ */
+export function formatTrackingStatus({ upstream, ahead, behind, gone }: TrackingInfo): string[] {
+  if (gone) {
+    return [
+      `Your branch is based on '${upstream}', but the upstream is gone.`,
+      '  (use "git branch --unset-upstream" to fixup)',
+    ];
+  }
+  if (ahead > 0 && behind > 0) {
+    return [
+      `Your branch and '${upstream}' have diverged,`,
+      `and have ${ahead} and ${behind} different commits each, respectively.`,
+      '  (use "git pull" if you want to integrate the remote branch with yours)',
+    ];
+  }
+  if (ahead > 0) {
+    return [
+      `Your branch is ahead of '${upstream}' by ${commits(ahead)}.`,
+      '  (use "git push" to publish your local commits)',
+    ];
+  }
+  if (behind > 0) {
+    return [
+      `Your branch is behind '${upstream}' by ${commits(behind)}, and can be fast-forwarded.`,
+      '  (use "git pull" to update your local branch)',
+    ];
+  }
+  return [`Your branch is up to date with '${upstream}'.`];
+}
+
+/**
+ * Describe a branch's upstream briefly, as `git branch -vv` does,
+ * e.g. "[origin/main: ahead 1, behind 2]".
+ */
+export function formatTrackingBrief({ upstream, ahead, behind, gone }: TrackingInfo): string {
+  const counts = [ahead > 0 && `ahead ${ahead}`, behind > 0 && `behind ${behind}`].filter(Boolean);
+  if (gone) return `[${upstream}: gone]`;
+  return counts.length > 0 ? `[${upstream}: ${counts.join(', ')}]` : `[${upstream}]`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for pure remote functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  remoteUrlToPath,
+  defaultCloneDirName,
+  remoteTrackingRef,
+  shortRefName,
+  formatRefUpdates,
+  formatTrackingStatus,
+  formatTrackingBrief,
+} from './remote-utils';
+
+describe('remoteUrlToPath', () => {
+  it('returns absolute paths unchanged', () => {
+    expect(remoteUrlToPath('/remotes/origin', '/repo')).toBe('/remotes/origin');
+  });
+
+  it('strips the file:// scheme', () => {
+    expect(remoteUrlToPath('file:///remotes/origin', '/repo')).toBe('/remotes/origin');
+  });
+
+  it('resolves relative paths against cwd', () => {
+    expect(remoteUrlToPath('other', '/repo')).toBe('/repo/other');
+  });
+
+  it('strips trailing slashes', () => {
+    expect(remoteUrlToPath('/remotes/origin/', '/repo')).toBe('/remotes/origin');
+  });
+});
+
+describe('defaultCloneDirName', () => {
+  it('uses the last path segment', () => {
+    expect(defaultCloneDirName('/remotes/origin')).toBe('origin');
+  });
+
+  it('strips a .git suffix', () => {
+    expect(defaultCloneDirName('/remotes/project.git')).toBe('project');
+  });
+
+  it('uses the parent of a .git directory', () => {
+    expect(defaultCloneDirName('/home/alice/project/.git')).toBe('project');
+  });
+
+  it('ignores trailing slashes', () => {
+    expect(defaultCloneDirName('file:///remotes/origin/')).toBe('origin');
+  });
+});
+
+describe('remoteTrackingRef', () => {
+  it('builds a refs/remotes ref', () => {
+    expect(remoteTrackingRef('origin', 'main')).toBe('refs/remotes/origin/main');
+  });
+});
+
+describe('shortRefName', () => {
+  it('strips refs/heads/', () => {
+    expect(shortRefName('refs/heads/main')).toBe('main');
+  });
+
+  it('strips refs/tags/', () => {
+    expect(shortRefName('refs/tags/v1.0')).toBe('v1.0');
+  });
+
+  it('strips refs/remotes/', () => {
+    expect(shortRefName('refs/remotes/origin/main')).toBe('origin/main');
+  });
+
+  it('leaves short names unchanged', () => {
+    expect(shortRefName('main')).toBe('main');
+  });
+});
+
+describe('formatRefUpdates', () => {
+  it('formats a new branch', () => {
+    expect(formatRefUpdates([{ kind: 'new-branch', src: 'main', dst: 'origin/main' }]))
+      .toEqual([' * [new branch]      main -> origin/main']);
+  });
+
+  it('formats a fast-forward with abbreviated oids', () => {
+    const [line] = formatRefUpdates([{
+      kind: 'fast-forward',
+      src: 'main',
+      dst: 'main',
+      from: 'aaaaaaa1111111',
+      to: 'bbbbbbb2222222',
+    }]);
+    expect(line).toBe('   aaaaaaa..bbbbbbb  main -> main');
+  });
+
+  it('formats a forced update', () => {
+    const [line] = formatRefUpdates([{
+      kind: 'forced',
+      src: 'main',
+      dst: 'main',
+      from: 'aaaaaaa',
+      to: 'bbbbbbb',
+    }]);
+    expect(line).toBe(' + aaaaaaa...bbbbbbb main -> main (forced update)');
+  });
+
+  it('formats a rejected update with its reason', () => {
+    const [line] = formatRefUpdates([{ kind: 'rejected', src: 'main', dst: 'main', reason: 'fetch first' }]);
+    expect(line).toBe(' ! [rejected]        main -> main (fetch first)');
+  });
+
+  it('aligns the arrows across updates', () => {
+    const lines = formatRefUpdates([
+      { kind: 'new-branch', src: 'main', dst: 'origin/main' },
+      { kind: 'new-branch', src: 'feature', dst: 'origin/feature' },
+    ]);
+    expect(lines[0].indexOf('->')).toBe(lines[1].indexOf('->'));
+  });
+});
+
+describe('formatTrackingStatus', () => {
+  const info = { upstream: 'origin/main', ahead: 0, behind: 0, gone: false };
+
+  it('reports a branch up to date with its upstream', () => {
+    expect(formatTrackingStatus(info)).toEqual(["Your branch is up to date with 'origin/main'."]);
+  });
+
+  it('counts commits ahead or behind', () => {
+    expect(formatTrackingStatus({ ...info, ahead: 1 })[0]).toBe("Your branch is ahead of 'origin/main' by 1 commit.");
+    expect(formatTrackingStatus({ ...info, behind: 2 })[0])
+      .toBe("Your branch is behind 'origin/main' by 2 commits, and can be fast-forwarded.");
+  });
+
+  it('reports diverged and gone upstreams', () => {
+    expect(formatTrackingStatus({ ...info, ahead: 1, behind: 2 }).slice(0, 2)).toEqual([
+      "Your branch and 'origin/main' have diverged,",
+      'and have 1 and 2 different commits each, respectively.',
+    ]);
+    expect(formatTrackingStatus({ ...info, gone: true })[0])
+      .toBe("Your branch is based on 'origin/main', but the upstream is gone.");
+  });
+});
+
+describe('formatTrackingBrief', () => {
+  const info = { upstream: 'origin/main', ahead: 0, behind: 0, gone: false };
+
+  it('names the upstream with any counts', () => {
+    expect(formatTrackingBrief(info)).toBe('[origin/main]');
+    expect(formatTrackingBrief({ ...info, ahead: 1, behind: 2 })).toBe('[origin/main: ahead 1, behind 2]');
+    expect(formatTrackingBrief({ ...info, behind: 3 })).toBe('[origin/main: behind 3]');
+    expect(formatTrackingBrief({ ...info, gone: true })).toBe('[origin/main: gone]');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Integration tests for the repository snapshot service.
+ * Captures real repositories and restores them on the real filesystem.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { captureRepoSnapshot, restoreRepoSnapshot, parseSnapshot, serializeSnapshot } from './index';
+import { executeCommand } from '../commands';
+import { clearGitStateHash, repoIntact } from '../gitStateHash';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+describe('Repository Snapshot Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+    clearGitStateHash();
+  });
+
+  it('captures the working tree and .git', async () => {
+    await executeCommand('git init');
+    await executeCommand('echo hello > README.md');
+
+    const snapshot = await captureRepoSnapshot();
+
+    expect(snapshot.directories).toContain(`${CWD}/.git/objects`);
+    expect(snapshot.files[`${CWD}/.git/HEAD`]).toBeDefined();
+    expect(atob(snapshot.files[`${CWD}/README.md`])).toBe('hello');
+  });
+
+  it('restores a repository from its serialized form', async () => {
+    await executeCommand('git init');
+    await executeCommand('echo hello > README.md');
+    await executeCommand('git add README.md');
+    await executeCommand('git commit -m "Initial commit"');
+    const json = serializeSnapshot(await captureRepoSnapshot());
+
+    await executeCommand('reset');
+    await restoreRepoSnapshot(parseSnapshot(json));
+
+    expect(await fsLib.readFile(`${CWD}/README.md`)).toBe('hello');
+    expect((await executeCommand('git log')).output).toContain('Initial commit');
+    expect((await executeCommand('git status')).output).toContain('nothing to commit');
+    expect(await repoIntact()).toBe(true);
+  });
+
+  it('replaces files that are not in the snapshot', async () => {
+    const snapshot = await captureRepoSnapshot();
+    await executeCommand('touch stray.txt');
+
+    await restoreRepoSnapshot(snapshot);
+
+    expect(await fsLib.readdir(CWD)).toEqual([]);
+  });
+
+  it('leaves no integrity hash when the snapshot has no repository', async () => {
+    await restoreRepoSnapshot(await captureRepoSnapshot());
+    await executeCommand('mkdir .git');
+
+    // Pre-init state: nothing to compare against yet
+    expect(await repoIntact()).toBe(true);
+  });
+});
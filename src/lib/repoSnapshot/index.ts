@@ -0,0 +1,116 @@
+/**
+ * Repository snapshot service.
+ * Reads and writes the whole sandbox filesystem in one go, for undo/redo
+ * and for restoring a lesson's starting state without replaying commands.
+ */
+
+import * as fsModule from '../fs';
+import { gitStatus } from '../git';
+import { clearGitStateHash, updateGitStateHash } from '../gitStateHash';
+import { CWD } from '../config';
+import { toRepoSnapshot, fromRepoSnapshot, type RepoSnapshot, type SnapshotEntry } from './snapshot-utils';
+
+// Re-export pure functions for convenience
+export {
+  SNAPSHOT_VERSION,
+  encodeBase64,
+  decodeBase64,
+  toRepoSnapshot,
+  fromRepoSnapshot,
+  serializeSnapshot,
+  parseSnapshot,
+  formatSnapshotModule,
+} from './snapshot-utils';
+export type { RepoSnapshot, SnapshotEntry } from './snapshot-utils';
+
+// Get fs dynamically since it can be reassigned on reset
+function getFs() {
+  return fsModule.fs;
+}
+
+function childPath(dir: string, entry: string): string {
+  return dir === '/' ? `/${entry}` : `${dir}/${entry}`;
+}
+
+async function collectEntries(dir: string, entries: SnapshotEntry[]): Promise<void> {
+  const fs = getFs();
+  const names = (await fs.promises.readdir(dir)).sort();
+  for (const name of names) {
+    const path = childPath(dir, name);
+    const stats = await fs.promises.stat(path);
+    if (stats.isDirectory()) {
+      entries.push({ path, type: 'dir' });
+      await collectEntries(path, entries);
+    } else {
+      entries.push({ path, type: 'file', content: await fs.promises.readFile(path) as Uint8Array });
+    }
+  }
+}
+
+async function removeEntry(path: string): Promise<void> {
+  const fs = getFs();
+  const stats = await fs.promises.stat(path);
+  if (stats.isDirectory()) {
+    for (const name of await fs.promises.readdir(path)) {
+      await removeEntry(childPath(path, name));
+    }
+    await fs.promises.rmdir(path);
+  } else {
+    await fs.promises.unlink(path);
+  }
+}
+
+/**
+ * Read every directory and file in the sandbox, in sorted walk order.
+ */
+export async function readSandboxEntries(): Promise<SnapshotEntry[]> {
+  const entries: SnapshotEntry[] = [];
+  await collectEntries('/', entries);
+  return entries;
+}
+
+/**
+ * Replace everything in the sandbox with the given entries.
+ * Parents must come before their children.
+ */
+export async function writeSandboxEntries(entries: SnapshotEntry[]): Promise<void> {
+  const fs = getFs();
+  for (const name of await fs.promises.readdir('/')) {
+    await removeEntry(childPath('/', name));
+  }
+  for (const entry of entries) {
+    if (entry.type === 'dir') {
+      await fs.promises.mkdir(entry.path);
+    } else {
+      await fs.promises.writeFile(entry.path, entry.content);
+    }
+  }
+}
+
+/**
+ * Refresh the stat cache in git's index. Restored files get fresh timestamps,
+ * and git would otherwise rewrite the index on the next status - which the
+ * integrity check can't tell apart from tampering.
+ */
+export async function refreshIndexStats(): Promise<void> {
+  await gitStatus().catch(() => []);
+}
+
+export async function captureRepoSnapshot(): Promise<RepoSnapshot> {
+  return toRepoSnapshot(await readSandboxEntries());
+}
+
+/**
+ * Replace the sandbox with a snapshot in a single bulk write.
+ * The restored repository is trusted, so its state becomes the known-good hash.
+ */
+export async function restoreRepoSnapshot(snapshot: RepoSnapshot): Promise<void> {
+  await fsModule.resetFs();
+  clearGitStateHash();
+  await writeSandboxEntries(fromRepoSnapshot(snapshot));
+
+  if (snapshot.directories.includes(`${CWD}/.git`)) {
+    await refreshIndexStats();
+    await updateGitStateHash();
+  }
+}
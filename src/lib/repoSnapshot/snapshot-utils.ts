@@ -0,0 +1,106 @@
+/**
+ * Pure functions for the serializable repository snapshot format.
+ * No I/O, no side effects - fully unit testable.
+ *
+ * A snapshot is plain JSON: every directory, and every file's bytes as
+ * base64, keyed by absolute path. It covers the working tree and .git alike,
+ * so restoring one needs no git commands at all.
+ */
+
+export const SNAPSHOT_VERSION = 1;
+
+export type SnapshotEntry =
+  | { path: string; type: 'dir' }
+  | { path: string; type: 'file'; content: Uint8Array };
+
+export interface RepoSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  directories: string[];           // Absolute paths, sorted so parents come first
+  files: Record<string, string>;   // Absolute path -> base64 contents
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Convert filesystem entries into a serializable snapshot.
+ * Paths are sorted so the same state always produces the same JSON.
+ */
+export function toRepoSnapshot(entries: SnapshotEntry[]): RepoSnapshot {
+  const directories: string[] = [];
+  const files: Record<string, string> = {};
+  const sorted = [...entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  for (const entry of sorted) {
+    if (entry.type === 'dir') {
+      directories.push(entry.path);
+    } else {
+      files[entry.path] = encodeBase64(entry.content);
+    }
+  }
+  return { version: SNAPSHOT_VERSION, directories, files };
+}
+
+/**
+ * Convert a snapshot back into entries, directories first so they can be
+ * written in order.
+ */
+export function fromRepoSnapshot(snapshot: RepoSnapshot): SnapshotEntry[] {
+  return [
+    ...snapshot.directories.map((path): SnapshotEntry => ({ path, type: 'dir' })),
+    ...Object.entries(snapshot.files).map(([path, content]): SnapshotEntry => ({
+      path,
+      type: 'file',
+      content: decodeBase64(content),
+    })),
+  ];
+}
+
+export function serializeSnapshot(snapshot: RepoSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Parse a serialized snapshot. Throws when the JSON isn't a snapshot
+ * in the current format.
+ */
+export function parseSnapshot(json: string): RepoSnapshot {
+  const data = JSON.parse(json) as Partial<RepoSnapshot>;
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.directories) || typeof data.files !== 'object' || data.files === null) {
+    throw new Error('Invalid snapshot: missing directories or files');
+  }
+  return { version: data.version, directories: data.directories, files: data.files };
+}
+
+/**
+ * Format snapshots as the source of a generated TypeScript module.
+ */
+export function formatSnapshotModule(exportName: string, snapshots: Record<string, RepoSnapshot>, generator: string): string {
+  const lines = [
+    `// Generated by ${generator} - do not edit by hand.`,
+    `import type { RepoSnapshot } from '../lib/repoSnapshot';`,
+    '',
+    `export const ${exportName}: Record<string, RepoSnapshot> = {`,
+  ];
+  for (const [key, snapshot] of Object.entries(snapshots)) {
+    lines.push(`  '${key}': ${serializeSnapshot(snapshot)},`);
+  }
+  lines.push('};', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the pure repository snapshot format functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  SNAPSHOT_VERSION,
+  encodeBase64,
+  decodeBase64,
+  toRepoSnapshot,
+  fromRepoSnapshot,
+  serializeSnapshot,
+  parseSnapshot,
+  formatSnapshotModule,
+  type SnapshotEntry,
+} from './snapshot-utils';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('base64', () => {
+  it('round-trips binary content', () => {
+    const content = new Uint8Array([0, 120, 156, 255, 10]);
+    expect(decodeBase64(encodeBase64(content))).toEqual(content);
+  });
+
+  it('encodes text like btoa', () => {
+    expect(encodeBase64(bytes('hello'))).toBe('aGVsbG8=');
+  });
+});
+
+describe('toRepoSnapshot', () => {
+  it('splits entries into sorted directories and encoded files', () => {
+    const entries: SnapshotEntry[] = [
+      { path: '/repo/b.txt', type: 'file', content: bytes('b') },
+      { path: '/repo/.git', type: 'dir' },
+      { path: '/repo', type: 'dir' },
+      { path: '/repo/a.txt', type: 'file', content: bytes('a') },
+    ];
+
+    const snapshot = toRepoSnapshot(entries);
+
+    expect(snapshot.version).toBe(SNAPSHOT_VERSION);
+    expect(snapshot.directories).toEqual(['/repo', '/repo/.git']);
+    expect(Object.keys(snapshot.files)).toEqual(['/repo/a.txt', '/repo/b.txt']);
+    expect(snapshot.files['/repo/a.txt']).toBe('YQ==');
+  });
+
+  it('produces the same JSON regardless of entry order', () => {
+    const a: SnapshotEntry = { path: '/repo/a.txt', type: 'file', content: bytes('a') };
+    const b: SnapshotEntry = { path: '/repo/b.txt', type: 'file', content: bytes('b') };
+    expect(serializeSnapshot(toRepoSnapshot([a, b]))).toBe(serializeSnapshot(toRepoSnapshot([b, a])));
+  });
+});
+
+describe('fromRepoSnapshot', () => {
+  it('lists directories before files', () => {
+    const entries = fromRepoSnapshot({
+      version: SNAPSHOT_VERSION,
+      directories: ['/repo', '/repo/src'],
+      files: { '/repo/src/a.txt': 'YQ==' },
+    });
+
+    expect(entries).toEqual([
+      { path: '/repo', type: 'dir' },
+      { path: '/repo/src', type: 'dir' },
+      { path: '/repo/src/a.txt', type: 'file', content: bytes('a') },
+    ]);
+  });
+});
+
+describe('parseSnapshot', () => {
+  it('round-trips a serialized snapshot', () => {
+    const snapshot = toRepoSnapshot([{ path: '/repo', type: 'dir' }]);
+    expect(parseSnapshot(serializeSnapshot(snapshot))).toEqual(snapshot);
+  });
+
+  it('rejects other versions', () => {
+    expect(() => parseSnapshot('{"version":2,"directories":[],"files":{}}')).toThrow('Unsupported snapshot version: 2');
+  });
+
+  it('rejects missing fields', () => {
+    expect(() => parseSnapshot('{"version":1}')).toThrow('Invalid snapshot');
+  });
+});
+
+describe('formatSnapshotModule', () => {
+  it('formats snapshots as a typed TypeScript export', () => {
+    const source = formatSnapshotModule(
+      'LESSON_SNAPSHOTS',
+      { 'lesson-1': toRepoSnapshot([{ path: '/repo', type: 'dir' }]) },
+      'scripts/generate.mjs',
+    );
+
+    expect(source).toBe([
+      '// Generated by scripts/generate.mjs - do not edit by hand.',
+      `import type { RepoSnapshot } from '../lib/repoSnapshot';`,
+      '',
+      'export const LESSON_SNAPSHOTS: Record<string, RepoSnapshot> = {',
+      `  'lesson-1': {"version":1,"directories":["/repo"],"files":{}},`,
+      '};',
+      '',
+    ].join('\n'));
+  });
+});
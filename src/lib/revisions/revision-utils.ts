@@ -0,0 +1,123 @@
+/**
+ * Pure parsing of revision syntax (see `git help revisions`), shared by
+ * every command that takes a commit.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+/**
+ * Where a revision starts from, before any `~` or `^` steps.
+ */
+export type RevisionBase =
+  | { kind: 'name'; name: string }                 // HEAD, a branch, a tag, refs/... or a (short) object id
+  | { kind: 'reflog'; ref: string; index: number }  // `<ref>@{<n>}`; '' is the current branch
+  | { kind: 'upstream'; branch: string }            // `<branch>@{upstream}`; '' is the current branch
+  | { kind: 'previous'; n: number }                 // `@{-<n>}`: the branch or commit checked out n checkouts ago
+  | { kind: 'search'; pattern: string };            // `:/<pattern>`: the newest commit whose message matches
+
+export type RevisionStep =
+  | { kind: 'parent'; n: number }    // `^<n>`: the nth parent, `^0` the commit itself
+  | { kind: 'ancestor'; n: number }; // `~<n>`: n generations back, following first parents
+
+export interface Revision {
+  base: RevisionBase;
+  steps: RevisionStep[];
+}
+
+function parseBase(text: string): RevisionBase | null {
+  if (text === '') return null;
+  if (text === '@') return { kind: 'name', name: 'HEAD' };
+  const at = text.match(/^(.*)@\{([^}]*)\}$/);
+  if (!at) {
+    return text.includes('@{') ? null : { kind: 'name', name: text };
+  }
+  // Only checkouts of HEAD are counted, so nothing can come before `@{-<n>}`
+  if (/^-\d+$/.test(at[2])) {
+    return at[1] === '' && at[2] !== '-0' ? { kind: 'previous', n: -Number(at[2]) } : null;
+  }
+  const ref = at[1] === '@' ? 'HEAD' : at[1];
+  if (/^\d+$/.test(at[2])) {
+    return { kind: 'reflog', ref, index: Number(at[2]) };
+  }
+  // Only a branch has an upstream, so HEAD means the current branch
+  if (/^(u|upstream)$/i.test(at[2])) {
+    return { kind: 'upstream', branch: ref === 'HEAD' ? '' : ref };
+  }
+  return null;
+}
+
+/**
+ * Parse a revision: a name (`HEAD`, a branch, a tag, a full or short
+ * object id), `@` for HEAD, `<ref>@{<n>}` for an earlier position of a
+ * ref from its reflog, `@{-<n>}` for what was checked out before,
+ * `<branch>@{u}` for a branch's upstream or `:/<text>` to search commit
+ * messages. Any of them but the search can
+ * be followed by `~<n>` and `^<n>` steps, like `main~2^2`. Returns null
+ * when the syntax is invalid.
+ */
+export function parseRevision(text: string): Revision | null {
+  if (text.startsWith(':/')) {
+    return text.length > 2 ? { base: { kind: 'search', pattern: text.slice(2) }, steps: [] } : null;
+  }
+  // Ref names can't contain ~ or ^, so the steps are everything after the first
+  const [, name, suffix] = text.match(/^([^~^]*)(.*)$/) as RegExpMatchArray;
+  const base = parseBase(name);
+  // Anything else after them, like `HEAD~x`, isn't a step
+  if (!base || !/^([~^]\d*)*$/.test(suffix)) return null;
+
+  const steps = (suffix.match(/[~^]\d*/g) ?? []).map((step): RevisionStep => ({
+    kind: step[0] === '~' ? 'ancestor' : 'parent',
+    n: step.length > 1 ? Number(step.slice(1)) : 1,
+  }));
+  return { base, steps };
+}
+
+/**
+ * What was checked out `n` checkouts ago (`@{-<n>}`): a branch name, or
+ * an object id for a detached HEAD. Read from HEAD's reflog messages,
+ * newest first. Returns null when there weren't that many checkouts.
+ */
+export function previousCheckout(messages: string[], n: number): string | null {
+  const moves = messages.flatMap((message) => message.match(/^checkout: moving from (\S+) to \S+$/)?.[1] ?? []);
+  return moves[n - 1] ?? null;
+}
+
+/**
+ * Whether a name could be an abbreviated object id. Like git, at least
+ * four hex digits are needed.
+ */
+export function isObjectIdPrefix(text: string): boolean {
+  return /^[0-9a-f]{4,40}$/.test(text);
+}
+
+/**
+ * The commits a `git log` argument selects: those reachable from
+ * `include` that aren't reachable from `exclude`. `symmetric` ranges
+ * also leave out what both sides share.
+ */
+export interface RevisionRange {
+  include: string[];
+  exclude: string[];
+  symmetric: boolean;
+}
+
+/**
+ * Parse a revision range: `A..B` (on B but not A), `A...B` (on either
+ * but not both), `^A` (not on A) or a single revision. An empty side of
+ * `..` or `...` means HEAD.
+ */
+export function parseRevisionRange(text: string): RevisionRange {
+  // A message search can contain dots of its own
+  if (text.startsWith(':/')) return { include: [text], exclude: [], symmetric: false };
+  if (text.startsWith('^') && text.length > 1) {
+    return { include: [], exclude: [text.slice(1)], symmetric: false };
+  }
+  const match = text.match(/^(.*?)(\.{2,3})(.*)$/);
+  if (!match || (match[1] === '' && match[3] === '')) {
+    return { include: [text], exclude: [], symmetric: false };
+  }
+  const from = match[1] || 'HEAD';
+  const to = match[3] || 'HEAD';
+  return match[2] === '...'
+    ? { include: [from, to], exclude: [], symmetric: true }
+    : { include: [to], exclude: [from], symmetric: false };
+}
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for parsing revision syntax.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseRevision, isObjectIdPrefix, parseRevisionRange, previousCheckout } from './revision-utils';
+
+describe('parseRevision', () => {
+  const name = (text: string) => ({ kind: 'name', name: text });
+
+  it('reads names and object ids as they are', () => {
+    expect(parseRevision('main')).toEqual({ base: name('main'), steps: [] });
+    expect(parseRevision('refs/heads/feature/login')).toEqual({ base: name('refs/heads/feature/login'), steps: [] });
+    expect(parseRevision('abc1234')).toEqual({ base: name('abc1234'), steps: [] });
+  });
+
+  it('reads @ as HEAD', () => {
+    expect(parseRevision('@')).toEqual({ base: name('HEAD'), steps: [] });
+  });
+
+  it('reads reflog positions', () => {
+    expect(parseRevision('HEAD@{2}')?.base).toEqual({ kind: 'reflog', ref: 'HEAD', index: 2 });
+    expect(parseRevision('feature/login@{0}')?.base).toEqual({ kind: 'reflog', ref: 'feature/login', index: 0 });
+    expect(parseRevision('@{1}')?.base).toEqual({ kind: 'reflog', ref: '', index: 1 });
+    expect(parseRevision('@@{1}')?.base).toEqual({ kind: 'reflog', ref: 'HEAD', index: 1 });
+  });
+
+  it('reads upstreams, of a branch or the current one', () => {
+    expect(parseRevision('main@{u}')?.base).toEqual({ kind: 'upstream', branch: 'main' });
+    expect(parseRevision('main@{upstream}')?.base).toEqual({ kind: 'upstream', branch: 'main' });
+    expect(parseRevision('@{u}')?.base).toEqual({ kind: 'upstream', branch: '' });
+    expect(parseRevision('HEAD@{U}')?.base).toEqual({ kind: 'upstream', branch: '' });
+  });
+
+  it('reads ancestor and parent steps, defaulting to 1', () => {
+    expect(parseRevision('HEAD~2')).toEqual({ base: name('HEAD'), steps: [{ kind: 'ancestor', n: 2 }] });
+    expect(parseRevision('main^2')?.steps).toEqual([{ kind: 'parent', n: 2 }]);
+    expect(parseRevision('HEAD^^')?.steps).toEqual([{ kind: 'parent', n: 1 }, { kind: 'parent', n: 1 }]);
+    expect(parseRevision('HEAD~')?.steps).toEqual([{ kind: 'ancestor', n: 1 }]);
+    expect(parseRevision('v1.0^0')?.steps).toEqual([{ kind: 'parent', n: 0 }]);
+  });
+
+  it('reads steps after reflog positions and upstreams', () => {
+    expect(parseRevision('HEAD@{1}~3')).toEqual({
+      base: { kind: 'reflog', ref: 'HEAD', index: 1 },
+      steps: [{ kind: 'ancestor', n: 3 }],
+    });
+    expect(parseRevision('@{u}^2~1')?.steps).toEqual([{ kind: 'parent', n: 2 }, { kind: 'ancestor', n: 1 }]);
+  });
+
+  it('reads earlier checkouts, with steps after them', () => {
+    expect(parseRevision('@{-1}')).toEqual({ base: { kind: 'previous', n: 1 }, steps: [] });
+    expect(parseRevision('@{-3}~2')).toEqual({ base: { kind: 'previous', n: 3 }, steps: [{ kind: 'ancestor', n: 2 }] });
+  });
+
+  it('reads message searches whole, steps and all', () => {
+    expect(parseRevision(':/fix typo')).toEqual({ base: { kind: 'search', pattern: 'fix typo' }, steps: [] });
+    expect(parseRevision(':/Add ^notes~')).toEqual({ base: { kind: 'search', pattern: 'Add ^notes~' }, steps: [] });
+  });
+
+  it('rejects invalid syntax', () => {
+    expect(parseRevision('')).toBeNull();
+    expect(parseRevision('HEAD@{yesterday}')).toBeNull();
+    expect(parseRevision('~2')).toBeNull();
+    expect(parseRevision('HEAD~x')).toBeNull();
+    expect(parseRevision(':/')).toBeNull();
+    expect(parseRevision('main@{-1}')).toBeNull();
+    expect(parseRevision('@{-0}')).toBeNull();
+  });
+});
+
+describe('previousCheckout', () => {
+  const messages = [
+    'commit: Fix typo',
+    'checkout: moving from feature to main',
+    'reset: moving to HEAD~1',
+    'checkout: moving from 1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b to feature',
+    'checkout: moving from main to 1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b',
+  ];
+
+  it('counts back through checkouts only, newest first', () => {
+    expect(previousCheckout(messages, 1)).toBe('feature');
+    expect(previousCheckout(messages, 2)).toBe('1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b');
+    expect(previousCheckout(messages, 3)).toBe('main');
+  });
+
+  it('returns null past the oldest checkout', () => {
+    expect(previousCheckout(messages, 4)).toBeNull();
+    expect(previousCheckout([], 1)).toBeNull();
+  });
+});
+
+describe('isObjectIdPrefix', () => {
+  it('accepts four to forty hex digits', () => {
+    expect(isObjectIdPrefix('abcd')).toBe(true);
+    expect(isObjectIdPrefix('a'.repeat(40))).toBe(true);
+  });
+
+  it('rejects anything shorter, longer or not hex', () => {
+    expect(isObjectIdPrefix('abc')).toBe(false);
+    expect(isObjectIdPrefix('a'.repeat(41))).toBe(false);
+    expect(isObjectIdPrefix('main')).toBe(false);
+    expect(isObjectIdPrefix('ABCD')).toBe(false);
+  });
+});
+
+describe('parseRevisionRange', () => {
+  it('reads a single revision as including it', () => {
+    expect(parseRevisionRange('main')).toEqual({ include: ['main'], exclude: [], symmetric: false });
+  });
+
+  it('reads ^ as excluding a revision', () => {
+    expect(parseRevisionRange('^main')).toEqual({ include: [], exclude: ['main'], symmetric: false });
+  });
+
+  it('reads A..B as what B has and A lacks', () => {
+    expect(parseRevisionRange('abc123..def456')).toEqual({ include: ['def456'], exclude: ['abc123'], symmetric: false });
+    expect(parseRevisionRange('main~2..')).toEqual({ include: ['HEAD'], exclude: ['main~2'], symmetric: false });
+    expect(parseRevisionRange('..feature')).toEqual({ include: ['feature'], exclude: ['HEAD'], symmetric: false });
+  });
+
+  it('reads A...B as what either side has that the other lacks', () => {
+    expect(parseRevisionRange('main...feature')).toEqual({ include: ['main', 'feature'], exclude: [], symmetric: true });
+    expect(parseRevisionRange('...feature')).toEqual({ include: ['HEAD', 'feature'], exclude: [], symmetric: true });
+  });
+
+  it('leaves message searches alone', () => {
+    expect(parseRevisionRange(':/wip...')).toEqual({ include: [':/wip...'], exclude: [], symmetric: false });
+  });
+});
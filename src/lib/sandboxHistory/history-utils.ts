@@ -0,0 +1,77 @@
+/**
+ * Pure functions for undo/redo time travel through sandbox snapshots.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+import type { SnapshotEntry } from '../repoSnapshot/snapshot-utils';
+
+// Shell commands that move through history rather than adding to it
+export const HISTORY_COMMANDS = ['undo', 'redo'];
+
+// Oldest snapshots are dropped beyond this many undo steps
+export const MAX_UNDO_STEPS = 50;
+
+export interface HistoryStacks<T> {
+  undo: T[];  // Oldest first; the last item is restored by the next undo
+  redo: T[];  // The last item is restored by the next redo
+}
+
+export function emptyHistory<T>(): HistoryStacks<T> {
+  return { undo: [], redo: [] };
+}
+
+/**
+ * Check whether a command line moves through history (undo/redo).
+ */
+export function isHistoryCommand(cmd: string | undefined): boolean {
+  return cmd !== undefined && HISTORY_COMMANDS.includes(cmd);
+}
+
+/**
+ * Check whether two filesystem snapshots hold the same paths and contents.
+ * Entries are expected in the same deterministic (sorted) order.
+ */
+export function entriesEqual(a: SnapshotEntry[], b: SnapshotEntry[]): boolean {
+  if (a.length !== b.length) return false;
+  return a.every((entry, i) => {
+    const other = b[i];
+    if (entry.path !== other.path || entry.type !== other.type) return false;
+    if (entry.type === 'dir' || other.type === 'dir') return true;
+    if (entry.content.length !== other.content.length) return false;
+    return entry.content.every((byte, j) => byte === other.content[j]);
+  });
+}
+
+/**
+ * Record the state from before a change. Any redo steps are discarded,
+ * since they branch off a timeline that no longer exists.
+ */
+export function pushUndo<T>(history: HistoryStacks<T>, snapshot: T, limit = MAX_UNDO_STEPS): HistoryStacks<T> {
+  return { undo: [...history.undo, snapshot].slice(-limit), redo: [] };
+}
+
+/**
+ * Step back one change. `current` is kept so the step can be redone.
+ * Returns null when there's nothing to undo.
+ */
+export function stepBack<T>(history: HistoryStacks<T>, current: T): { history: HistoryStacks<T>; snapshot: T } | null {
+  const snapshot = history.undo[history.undo.length - 1];
+  if (snapshot === undefined) return null;
+  return {
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, current] },
+    snapshot,
+  };
+}
+
+/**
+ * Step forward again after an undo. `current` is kept so the step can be undone.
+ * Returns null when there's nothing to redo.
+ */
+export function stepForward<T>(history: HistoryStacks<T>, current: T): { history: HistoryStacks<T>; snapshot: T } | null {
+  const snapshot = history.redo[history.redo.length - 1];
+  if (snapshot === undefined) return null;
+  return {
+    history: { undo: [...history.undo, current], redo: history.redo.slice(0, -1) },
+    snapshot,
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for pure undo/redo history functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  emptyHistory,
+  isHistoryCommand,
+  entriesEqual,
+  pushUndo,
+  stepBack,
+  stepForward,
+} from './history-utils';
+import type { SnapshotEntry } from '../repoSnapshot/snapshot-utils';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('isHistoryCommand', () => {
+  it('matches undo and redo', () => {
+    expect(isHistoryCommand('undo')).toBe(true);
+    expect(isHistoryCommand('redo')).toBe(true);
+  });
+
+  it('rejects other commands and empty input', () => {
+    expect(isHistoryCommand('git')).toBe(false);
+    expect(isHistoryCommand(undefined)).toBe(false);
+  });
+});
+
+describe('entriesEqual', () => {
+  const entries: SnapshotEntry[] = [
+    { path: '/repo', type: 'dir' },
+    { path: '/repo/a.txt', type: 'file', content: bytes('hello') },
+  ];
+
+  it('treats identical paths and contents as equal', () => {
+    const copy: SnapshotEntry[] = [
+      { path: '/repo', type: 'dir' },
+      { path: '/repo/a.txt', type: 'file', content: bytes('hello') },
+    ];
+    expect(entriesEqual(entries, copy)).toBe(true);
+  });
+
+  it('detects changed contents of the same length', () => {
+    const changed: SnapshotEntry[] = [
+      { path: '/repo', type: 'dir' },
+      { path: '/repo/a.txt', type: 'file', content: bytes('world') },
+    ];
+    expect(entriesEqual(entries, changed)).toBe(false);
+  });
+
+  it('detects added and renamed entries', () => {
+    expect(entriesEqual(entries, entries.slice(0, 1))).toBe(false);
+    expect(entriesEqual(entries, [entries[0], { ...entries[1], path: '/repo/b.txt' }])).toBe(false);
+  });
+});
+
+describe('history stacks', () => {
+  it('steps back to the last recorded state and forward again', () => {
+    const history = pushUndo(pushUndo(emptyHistory<string>(), 'v1'), 'v2');
+
+    const back = stepBack(history, 'v3');
+    expect(back?.snapshot).toBe('v2');
+    expect(back?.history).toEqual({ undo: ['v1'], redo: ['v3'] });
+
+    const forward = stepForward(back!.history, 'v2');
+    expect(forward?.snapshot).toBe('v3');
+    expect(forward?.history).toEqual({ undo: ['v1', 'v2'], redo: [] });
+  });
+
+  it('returns null when there is nothing to step to', () => {
+    expect(stepBack(emptyHistory<string>(), 'v1')).toBeNull();
+    expect(stepForward(emptyHistory<string>(), 'v1')).toBeNull();
+  });
+
+  it('discards redo steps when a new change is recorded', () => {
+    const history = { undo: ['v1'], redo: ['v3'] };
+    expect(pushUndo(history, 'v2')).toEqual({ undo: ['v1', 'v2'], redo: [] });
+  });
+
+  it('drops the oldest steps beyond the limit', () => {
+    const history = pushUndo({ undo: ['v1', 'v2'], redo: [] }, 'v3', 2);
+    expect(history.undo).toEqual(['v2', 'v3']);
+  });
+});
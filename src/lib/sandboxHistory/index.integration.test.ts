@@ -0,0 +1,145 @@
+/**
+ * Integration tests for the sandbox history service.
+ * Runs real commands and undoes/redoes them on the real filesystem.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { canUndo, canRedo, clearHistory, setLessonProgressTracker } from './index';
+import { executeCommand } from '../commands';
+import { clearGitStateHash, repoIntact } from '../gitStateHash';
+import { createStoredProgress, type StoredProgress } from '../storage';
+import { getCurrentDir, resetWorkingDirectory } from '../workingDirectory';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fsLib.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('Sandbox History Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+    clearGitStateHash();
+    clearHistory();
+    resetWorkingDirectory();
+  });
+
+  afterEach(() => {
+    setLessonProgressTracker(null);
+  });
+
+  it('has nothing to undo or redo at first', async () => {
+    expect(canUndo()).toBe(false);
+    expect((await executeCommand('undo')).stderr).toBe('Nothing to undo');
+    expect((await executeCommand('redo')).stderr).toBe('Nothing to redo');
+  });
+
+  it('only records commands that change the sandbox', async () => {
+    await executeCommand('ls');
+    await executeCommand('git status');
+    expect(canUndo()).toBe(false);
+
+    await executeCommand('touch a.txt');
+    expect(canUndo()).toBe(true);
+  });
+
+  it('undoes and redoes a working tree change', async () => {
+    await executeCommand('echo one > a.txt');
+    await executeCommand('echo two > a.txt');
+
+    expect((await executeCommand('undo')).exitCode).toBe(0);
+    expect(await fsLib.readFile(`${CWD}/a.txt`)).toBe('one');
+    expect(canRedo()).toBe(true);
+
+    await executeCommand('redo');
+    expect(await fsLib.readFile(`${CWD}/a.txt`)).toBe('two');
+    expect(canRedo()).toBe(false);
+  });
+
+  it('goes back to the directory the undone command ran in', async () => {
+    await executeCommand('mkdir d');
+    await executeCommand('cd d');
+
+    await executeCommand('undo');
+    expect(getCurrentDir()).toBe(CWD);
+
+    await executeCommand('redo');
+    expect(getCurrentDir()).toBe(`${CWD}/d`);
+  });
+
+  it('falls back to the nearest parent when the directory is gone', async () => {
+    await executeCommand('mkdir a && mkdir a/b');
+    await executeCommand('cd a/b');
+    await executeCommand('rm -r ../b');
+
+    await executeCommand('undo');
+    expect(getCurrentDir()).toBe(`${CWD}/a/b`);
+
+    await executeCommand('redo');
+    expect(getCurrentDir()).toBe(`${CWD}/a`);
+    expect((await executeCommand('pwd')).stdout).toBe(`${CWD}/a`);
+  });
+
+  it('undoes git init along with the integrity hash', async () => {
+    await executeCommand('git init');
+    await executeCommand('undo');
+
+    expect(await exists(`${CWD}/.git`)).toBe(false);
+    expect(await repoIntact()).toBe(true);
+  });
+
+  it('keeps the repository intact when undoing a commit', async () => {
+    await executeCommand('git init');
+    await executeCommand('echo hello > README.md');
+    await executeCommand('git add README.md');
+    await executeCommand('git commit -m "Initial commit"');
+
+    await executeCommand('undo');
+    expect(await repoIntact()).toBe(true);
+    expect((await executeCommand('git status')).output).toContain('A  README.md');
+
+    await executeCommand('redo');
+    expect(await repoIntact()).toBe(true);
+    expect((await executeCommand('git log')).output).toContain('Initial commit');
+  });
+
+  it('undoes an environment reset, including simulated remotes', async () => {
+    await executeCommand('git init --bare /remotes/origin');
+    await executeCommand('echo hello > a.txt');
+    await executeCommand('reset');
+
+    await executeCommand('undo');
+    expect(await fsLib.readFile(`${CWD}/a.txt`)).toBe('hello');
+    expect(await exists('/remotes/origin/HEAD')).toBe(true);
+  });
+
+  it('discards redo steps when a new command changes the sandbox', async () => {
+    await executeCommand('touch a.txt');
+    await executeCommand('undo');
+    await executeCommand('touch b.txt');
+
+    expect(canRedo()).toBe(false);
+  });
+
+  it('restores lesson progress through the registered tracker', async () => {
+    let progress = createStoredProgress('lesson-1', 0, [], 0);
+    setLessonProgressTracker({
+      capture: () => progress,
+      restore: (saved: StoredProgress) => { progress = saved; },
+    });
+
+    await executeCommand('git init');
+    progress = createStoredProgress('lesson-1', 0, ['init-repo'], 1);
+
+    await executeCommand('undo');
+    expect(progress.completedExercises).toEqual([]);
+
+    await executeCommand('redo');
+    expect(progress.completedExercises).toEqual(['init-repo']);
+  });
+});
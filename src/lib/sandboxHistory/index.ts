@@ -0,0 +1,148 @@
+/**
+ * Sandbox history service.
+ * Snapshots the whole filesystem (working tree, .git and simulated remotes)
+ * before each command so it can be undone and redone.
+ */
+
+import { readSandboxEntries, writeSandboxEntries, refreshIndexStats, type SnapshotEntry } from '../repoSnapshot';
+import {
+  getGitStateHash,
+  restoreGitStateHash,
+  repoIntact,
+  withHashUpdate,
+} from '../gitStateHash';
+import {
+  getWorkingDirectoryState,
+  restoreWorkingDirectoryState,
+  type WorkingDirectoryState,
+} from '../workingDirectory';
+import type { StoredProgress } from '../storage/types';
+import {
+  emptyHistory,
+  entriesEqual,
+  pushUndo,
+  stepBack,
+  stepForward,
+  type HistoryStacks,
+} from './history-utils';
+
+// Re-export pure functions for convenience
+export {
+  HISTORY_COMMANDS,
+  MAX_UNDO_STEPS,
+  emptyHistory,
+  isHistoryCommand,
+  entriesEqual,
+  pushUndo,
+  stepBack,
+  stepForward,
+} from './history-utils';
+export type { HistoryStacks } from './history-utils';
+
+export interface SandboxSnapshot {
+  entries: SnapshotEntry[];
+  gitStateHash: string | null;
+  workingDirectory: WorkingDirectoryState;
+  lessonProgress: StoredProgress | null;
+}
+
+/**
+ * Lesson progress lives in React state, so the lesson hook registers
+ * how to read and put it back.
+ */
+export interface LessonProgressTracker {
+  capture: () => StoredProgress;
+  restore: (progress: StoredProgress) => void;
+}
+
+// Module state
+let history: HistoryStacks<SandboxSnapshot> = emptyHistory();
+let lessonTracker: LessonProgressTracker | null = null;
+
+export function setLessonProgressTracker(tracker: LessonProgressTracker | null): void {
+  lessonTracker = tracker;
+}
+
+/**
+ * Capture the full sandbox: every file and directory, the stored
+ * .git integrity hash, the terminal's current directory and the lesson
+ * progress.
+ */
+export async function captureSnapshot(): Promise<SandboxSnapshot> {
+  return {
+    entries: await readSandboxEntries(),
+    gitStateHash: getGitStateHash(),
+    workingDirectory: getWorkingDirectoryState(),
+    lessonProgress: lessonTracker?.capture() ?? null,
+  };
+}
+
+/**
+ * Replace the whole sandbox with a snapshot.
+ */
+export async function restoreSnapshot(snapshot: SandboxSnapshot): Promise<void> {
+  await writeSandboxEntries(snapshot.entries);
+  // The directory may only exist in the snapshot that was replaced
+  await restoreWorkingDirectoryState(snapshot.workingDirectory);
+
+  restoreGitStateHash(snapshot.gitStateHash);
+  // Unless the snapshot was already tampered with, bless the index refresh
+  if (await repoIntact()) {
+    await withHashUpdate(refreshIndexStats);
+  }
+  if (snapshot.lessonProgress) {
+    lessonTracker?.restore(snapshot.lessonProgress);
+  }
+}
+
+/**
+ * Record `before` as an undo step if the sandbox has changed since it was taken.
+ * Returns whether a step was recorded.
+ */
+export async function recordUndoPoint(before: SandboxSnapshot): Promise<boolean> {
+  const after = await captureSnapshot();
+  if (entriesEqual(before.entries, after.entries)) {
+    return false;
+  }
+  history = pushUndo(history, before);
+  return true;
+}
+
+/**
+ * Restore the sandbox to how it was before the last change.
+ * Returns false when there's nothing to undo.
+ */
+export async function undo(): Promise<boolean> {
+  const step = stepBack(history, await captureSnapshot());
+  if (!step) return false;
+  history = step.history;
+  await restoreSnapshot(step.snapshot);
+  return true;
+}
+
+/**
+ * Re-apply the last undone change.
+ * Returns false when there's nothing to redo.
+ */
+export async function redo(): Promise<boolean> {
+  const step = stepForward(history, await captureSnapshot());
+  if (!step) return false;
+  history = step.history;
+  await restoreSnapshot(step.snapshot);
+  return true;
+}
+
+export function canUndo(): boolean {
+  return history.undo.length > 0;
+}
+
+export function canRedo(): boolean {
+  return history.redo.length > 0;
+}
+
+/**
+ * Forget all undo and redo steps.
+ */
+export function clearHistory(): void {
+  history = emptyHistory();
+}
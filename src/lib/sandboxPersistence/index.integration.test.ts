@@ -0,0 +1,94 @@
+/**
+ * Integration tests for the sandbox persistence service.
+ * Uses the real filesystem, git state hash and localStorage.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { restoreGitStateBaseline, checkSandboxAgainstProgress, getBaselineKey } from './index';
+import { executeCommand } from '../commands';
+import {
+  clearGitStateHash,
+  getGitStateHash,
+  restoreGitStateHash,
+  repoIntact,
+  setGitStateHashListener,
+} from '../gitStateHash';
+import { createStoredProgress } from '../storage';
+import { lessons } from '../../data/lessons';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+describe('Sandbox Persistence Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+    clearGitStateHash();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setGitStateHashListener(null);
+  });
+
+  describe('restoreGitStateBaseline', () => {
+    it('saves the baseline as git commands change it', async () => {
+      restoreGitStateBaseline();
+      await executeCommand('git init');
+
+      expect(localStorage.getItem(getBaselineKey())).toContain(getGitStateHash()!);
+    });
+
+    it('restores the saved baseline on the next visit', async () => {
+      restoreGitStateBaseline();
+      await executeCommand('git init');
+      const saved = getGitStateHash();
+
+      // A reload loses module state but keeps IndexedDB and localStorage
+      setGitStateHashListener(null);
+      restoreGitStateHash(null);
+      restoreGitStateBaseline();
+
+      expect(getGitStateHash()).toBe(saved);
+      expect(await repoIntact()).toBe(true);
+    });
+
+    it('still detects tampering that happened between visits', async () => {
+      restoreGitStateBaseline();
+      await executeCommand('git init');
+
+      await fsLib.writeFile(`${CWD}/.git/HEAD`, 'ref: refs/heads/other\n');
+      restoreGitStateBaseline();
+
+      expect(await repoIntact()).toBe(false);
+    });
+  });
+
+  describe('checkSandboxAgainstProgress', () => {
+    it('matches the repository the learner left', async () => {
+      await executeCommand('git init');
+      await executeCommand('touch README.md');
+      const saved = createStoredProgress('lesson-2', 1, ['1-1', '1-2', '2-1'], 1);
+
+      expect(await checkSandboxAgainstProgress(saved, lessons)).toBe('match');
+    });
+
+    it('reports a missing repository', async () => {
+      const saved = createStoredProgress('lesson-3', 2, ['1-1'], 0);
+      expect(await checkSandboxAgainstProgress(saved, lessons)).toBe('missing');
+    });
+
+    it('reports a .git folder changed outside of git', async () => {
+      await executeCommand('git init');
+      await fsLib.writeFile(`${CWD}/.git/description`, 'edited by hand');
+      const saved = createStoredProgress('lesson-2', 1, ['1-1'], 0);
+
+      expect(await checkSandboxAgainstProgress(saved, lessons)).toBe('tampered');
+    });
+
+    it('reports files that no longer satisfy completed exercises', async () => {
+      await executeCommand('git init');
+      const saved = createStoredProgress('lesson-2', 1, ['1-1', '2-1'], 1);
+
+      expect(await checkSandboxAgainstProgress(saved, lessons)).toBe('diverged');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Sandbox persistence service.
+ * Keeps the .git integrity baseline between page loads, alongside the
+ * LightningFS database, and checks the repository found on disk against
+ * the learner's saved progress.
+ */
+
+import { stat } from '../fs';
+import { CWD } from '../config';
+import { repoIntact, restoreGitStateHash, setGitStateHashListener } from '../gitStateHash';
+import type { StoredProgress } from '../storage';
+import type { Lesson } from '../../types/lesson';
+import {
+  getBaselineKey,
+  serializeBaseline,
+  deserializeBaseline,
+  classifySandbox,
+  type SandboxCheck,
+} from './persistence-utils';
+
+// Re-export pure functions for convenience
+export {
+  getBaselineKey,
+  serializeBaseline,
+  deserializeBaseline,
+  classifySandbox,
+  describeSandboxCheck,
+} from './persistence-utils';
+export type { SandboxCheck, SandboxState } from './persistence-utils';
+
+/**
+ * Restore the saved .git baseline and keep saving it whenever it changes.
+ *
+ * The baseline lives in localStorage rather than the progress storage
+ * adapter: it describes this browser's IndexedDB, wherever progress is kept.
+ */
+export function restoreGitStateBaseline(): void {
+  setGitStateHashListener(null);
+  restoreGitStateHash(deserializeBaseline(localStorage.getItem(getBaselineKey())));
+  setGitStateHashListener((hash) => {
+    localStorage.setItem(getBaselineKey(), serializeBaseline(hash));
+  });
+}
+
+/**
+ * Compare the repository on disk with what the saved progress expects.
+ */
+export async function checkSandboxAgainstProgress(saved: StoredProgress, lessons: Lesson[]): Promise<SandboxCheck> {
+  const hasRepo = await stat(`${CWD}/.git`).then(() => true, () => false);
+  const startingSnapshot = lessons.find((lesson) => lesson.id === saved.lessonId)?.startingSnapshot;
+  const expectsRepo = saved.completedExercises.length > 0
+    || (startingSnapshot?.directories.includes(`${CWD}/.git`) ?? false);
+
+  const exercises = lessons.flatMap((lesson) => lesson.exercises);
+  const failedExercises: string[] = [];
+  for (const exerciseId of saved.completedExercises) {
+    const exercise = exercises.find((e) => e.id === exerciseId);
+    if (exercise && !await exercise.validate()) {
+      failedExercises.push(exerciseId);
+    }
+  }
+
+  return classifySandbox({ hasRepo, expectsRepo, intact: await repoIntact(), failedExercises });
+}
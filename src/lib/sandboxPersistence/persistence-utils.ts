@@ -0,0 +1,64 @@
+/**
+ * Pure functions for keeping the sandbox between page loads.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+const BASELINE_KEY = 'sandbox:git-state-hash';
+
+/**
+ * How the repository found on disk compares with the saved lesson progress.
+ * - match:    everything the saved progress expects is there
+ * - missing:  the lesson expects a repository but there is none
+ * - tampered: .git changed outside of the app's git commands
+ * - diverged: files no longer satisfy exercises marked as completed
+ */
+export type SandboxCheck = 'match' | 'missing' | 'tampered' | 'diverged';
+
+export interface SandboxState {
+  hasRepo: boolean;
+  expectsRepo: boolean;
+  intact: boolean;
+  failedExercises: string[];
+}
+
+export function getBaselineKey(): string {
+  return BASELINE_KEY;
+}
+
+export function serializeBaseline(hash: string | null): string {
+  return JSON.stringify({ gitStateHash: hash });
+}
+
+/**
+ * Parse a stored baseline. Returns null for anything unreadable,
+ * which callers treat like a fresh sandbox.
+ */
+export function deserializeBaseline(json: string | null): string | null {
+  if (!json) return null;
+  try {
+    const data = JSON.parse(json) as { gitStateHash?: unknown };
+    return typeof data.gitStateHash === 'string' ? data.gitStateHash : null;
+  } catch {
+    return null;
+  }
+}
+
+export function classifySandbox(state: SandboxState): SandboxCheck {
+  if (state.expectsRepo && !state.hasRepo) return 'missing';
+  if (!state.intact) return 'tampered';
+  if (state.failedExercises.length > 0) return 'diverged';
+  return 'match';
+}
+
+export function describeSandboxCheck(check: SandboxCheck): string {
+  switch (check) {
+    case 'match':
+      return 'Your repository is just as you left it.';
+    case 'missing':
+      return 'Your repository from last time is gone.';
+    case 'tampered':
+      return 'Your .git folder changed outside of git since your last visit.';
+    case 'diverged':
+      return 'Your files no longer match the exercises you completed.';
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for pure sandbox persistence functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  serializeBaseline,
+  deserializeBaseline,
+  classifySandbox,
+  describeSandboxCheck,
+  type SandboxState,
+} from './persistence-utils';
+
+const state = (overrides: Partial<SandboxState> = {}): SandboxState => ({
+  hasRepo: true,
+  expectsRepo: true,
+  intact: true,
+  failedExercises: [],
+  ...overrides,
+});
+
+describe('baseline serialization', () => {
+  it('round-trips a hash and an empty baseline', () => {
+    expect(deserializeBaseline(serializeBaseline('abc123'))).toBe('abc123');
+    expect(deserializeBaseline(serializeBaseline(null))).toBeNull();
+  });
+
+  it('treats missing or unreadable data as no baseline', () => {
+    expect(deserializeBaseline(null)).toBeNull();
+    expect(deserializeBaseline('not json')).toBeNull();
+    expect(deserializeBaseline('{"gitStateHash":42}')).toBeNull();
+  });
+});
+
+describe('classifySandbox', () => {
+  it('matches when the repository is intact and exercises still pass', () => {
+    expect(classifySandbox(state())).toBe('match');
+  });
+
+  it('matches before git init when no repository is expected', () => {
+    expect(classifySandbox(state({ hasRepo: false, expectsRepo: false }))).toBe('match');
+  });
+
+  it('reports a missing repository first', () => {
+    expect(classifySandbox(state({ hasRepo: false, intact: false, failedExercises: ['1-1'] }))).toBe('missing');
+  });
+
+  it('reports tampering before failed exercises', () => {
+    expect(classifySandbox(state({ intact: false, failedExercises: ['2-1'] }))).toBe('tampered');
+  });
+
+  it('reports failed exercises as diverged', () => {
+    expect(classifySandbox(state({ failedExercises: ['2-1'] }))).toBe('diverged');
+  });
+});
+
+describe('describeSandboxCheck', () => {
+  it('describes every outcome', () => {
+    expect(describeSandboxCheck('match')).toContain('as you left it');
+    expect(describeSandboxCheck('missing')).toContain('gone');
+    expect(describeSandboxCheck('tampered')).toContain('.git');
+    expect(describeSandboxCheck('diverged')).toContain('no longer match');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Sequencer service.
+ * Cherry-picks or reverts commits one at a time, the way git's sequencer
+ * does, keeping the steps left in .git/sequencer so a conflict can stop
+ * it to be continued, skipped or aborted by later commands.
+ */
+
+import * as fsModule from '../fs';
+import * as gitLib from '../git';
+import { getRepoDir } from '../workingDirectory';
+import type { MessageEditor } from '../rebase';
+import {
+  parseSequencerTodo,
+  formatSequencerTodo,
+  formatRevertMessage,
+  type SequencerAction,
+  type SequencerStep,
+} from './sequencer-utils';
+
+// Re-export pure functions for convenience
+export { parseSequencerTodo, formatSequencerTodo, formatRevertMessage } from './sequencer-utils';
+export type { SequencerAction, SequencerStep } from './sequencer-utils';
+
+export interface SequencerState {
+  action: SequencerAction;
+  origHead: string;
+  todo: SequencerStep[];   // The first is the step in progress
+  stopped: string | null;  // The commit the step in progress stopped at, if it did
+}
+
+export type SequencerResult =
+  | { kind: 'done'; commits: string[] }
+  | { kind: 'stopped'; step: SequencerStep; conflicts: gitLib.GitConflicts; commits: string[] }
+  | { kind: 'empty'; step: SequencerStep; commits: string[] };
+
+function repoPath(name: string): string {
+  return `${getRepoDir()}/.git/${name}`;
+}
+
+// Where a stopped step records its commit, as git does
+function stoppedHeadName(action: SequencerAction): string {
+  return action === 'pick' ? 'CHERRY_PICK_HEAD' : 'REVERT_HEAD';
+}
+
+async function readFileOrNull(path: string): Promise<string | null> {
+  try {
+    return await fsModule.readFile(path);
+  } catch {
+    return null;
+  }
+}
+
+async function removeFile(path: string): Promise<void> {
+  await fsModule.unlink(path).catch(() => {
+    // Already gone
+  });
+}
+
+/**
+ * Read the cherry-pick or revert in progress, or null when there is none.
+ */
+export async function getSequencerState(): Promise<SequencerState | null> {
+  const todo = parseSequencerTodo(await readFileOrNull(repoPath('sequencer/todo')) ?? '');
+  if (todo.length === 0) return null;
+  const action = todo[0].action;
+  return {
+    action,
+    origHead: (await readFileOrNull(repoPath('sequencer/head')) ?? '').trim(),
+    todo,
+    stopped: (await readFileOrNull(repoPath(stoppedHeadName(action))))?.trim() || null,
+  };
+}
+
+async function writeTodo(todo: SequencerStep[]): Promise<void> {
+  await fsModule.writeFile(repoPath('sequencer/todo'), formatSequencerTodo(todo));
+}
+
+async function clearState(): Promise<void> {
+  await removeFile(repoPath('sequencer/todo'));
+  await removeFile(repoPath('sequencer/head'));
+  await fsModule.rmdir(repoPath('sequencer')).catch(() => {
+    // Never created
+  });
+  await removeFile(repoPath('CHERRY_PICK_HEAD'));
+  await removeFile(repoPath('REVERT_HEAD'));
+  await removeFile(repoPath('MERGE_MSG'));
+}
+
+async function readCommit(oid: string) {
+  const object = await gitLib.gitReadObject(oid);
+  if (object.type !== 'commit') {
+    throw new Error(`${oid} is not a commit`);
+  }
+  return object.commit;
+}
+
+/**
+ * Apply a step's changes to the index and working tree: a commit's
+ * changes for a pick, the reverse of them for a revert.
+ */
+async function applyStep(step: SequencerStep): Promise<gitLib.GitConflicts> {
+  const commit = await readCommit(step.commit);
+  const parent = commit.parent[0] ?? null;
+  const label = `${step.commit.slice(0, 7)} (${step.subject})`;
+  await fsModule.writeFile(repoPath('MERGE_MSG'), step.action === 'pick'
+    ? commit.message
+    : formatRevertMessage(commit.message, step.commit));
+  return step.action === 'pick'
+    ? gitLib.gitApplyChanges(parent, step.commit, label)
+    : gitLib.gitApplyChanges(step.commit, parent, `parent of ${label}`);
+}
+
+/**
+ * Commit what a step staged, with the message prepared in MERGE_MSG.
+ * A picked commit keeps its author. Returns null, committing nothing,
+ * when the step changed nothing (its changes were already there).
+ */
+async function commitStep(step: SequencerStep, editMessage: MessageEditor): Promise<string | null> {
+  if ((await gitLib.gitDiff({ staged: true })).length === 0) return null;
+  const commit = await readCommit(step.commit);
+  const prepared = await readFileOrNull(repoPath('MERGE_MSG')) ?? commit.message;
+  // An emptied message keeps the prepared one
+  const message = await editMessage(prepared) || prepared;
+  const sha = await gitLib.gitCommit(message, { author: step.action === 'pick' ? commit.author : undefined });
+  await removeFile(repoPath('MERGE_MSG'));
+  return sha;
+}
+
+/**
+ * Work through the todo list until it's done or a step stops, either on
+ * a conflict or because it has nothing to commit.
+ */
+async function run(editMessage: MessageEditor, commits: string[] = []): Promise<SequencerResult> {
+  const todo = (await getSequencerState())?.todo ?? [];
+  while (todo.length > 0) {
+    const step = todo[0];
+    const conflicts = await applyStep(step);
+    const sha = conflicts.conflicts.length > 0 ? null : await commitStep(step, editMessage);
+    if (!sha) {
+      await fsModule.writeFile(repoPath(stoppedHeadName(step.action)), `${step.commit}\n`);
+      return conflicts.conflicts.length > 0
+        ? { kind: 'stopped', step, conflicts, commits }
+        : { kind: 'empty', step, commits };
+    }
+    commits.push(sha);
+    todo.shift();
+    await writeTodo(todo);
+  }
+  await clearState();
+  return { kind: 'done', commits };
+}
+
+/**
+ * Cherry-pick (`pick`) or revert commits onto HEAD, oldest first, each
+ * becoming a new commit. Callers check the commits aren't merges, that
+ * there are no local changes and that no sequence is in progress.
+ */
+export async function startSequence(
+  action: SequencerAction,
+  commits: string[],
+  editMessage: MessageEditor,
+): Promise<SequencerResult> {
+  const todo: SequencerStep[] = [];
+  for (const commit of commits) {
+    todo.push({ action, commit, subject: (await readCommit(commit)).message.split('\n')[0] });
+  }
+  await fsModule.mkdir(repoPath('sequencer')).catch(() => {
+    // Already exists
+  });
+  await fsModule.writeFile(repoPath('sequencer/head'), `${await gitLib.gitResolveRevision('HEAD')}\n`);
+  await writeTodo(todo);
+  return run(editMessage);
+}
+
+/**
+ * Mark the step a sequence stopped at as done, once its commit has been
+ * made, whether by --continue or by the learner running `git commit`.
+ * The sequence ends with its last step.
+ */
+export async function concludeStep(): Promise<void> {
+  const state = await getSequencerState();
+  if (!state?.stopped) return;
+  const todo = state.todo.slice(1);
+  if (todo.length === 0) {
+    await clearState();
+    return;
+  }
+  await removeFile(repoPath(stoppedHeadName(state.action)));
+  await removeFile(repoPath('MERGE_MSG'));
+  await writeTodo(todo);
+}
+
+/**
+ * Continue a stopped sequence once its conflicts are resolved: commit
+ * the stopped step with what's staged, then carry on with the rest.
+ * Callers check there are no unmerged paths left.
+ */
+export async function continueSequence(editMessage: MessageEditor): Promise<SequencerResult> {
+  const state = await getSequencerState() as SequencerState;
+  if (!state.stopped) return run(editMessage);
+  const sha = await commitStep(state.todo[0], editMessage);
+  if (!sha) return { kind: 'empty', step: state.todo[0], commits: [] };
+  await concludeStep();
+  return run(editMessage, [sha]);
+}
+
+/**
+ * Skip the step a sequence stopped at, throwing away its changes.
+ */
+export async function skipSequence(editMessage: MessageEditor): Promise<SequencerResult> {
+  const state = await getSequencerState() as SequencerState;
+  await gitLib.gitReset('HEAD', 'hard');
+  if (state.stopped) {
+    await removeFile(repoPath(stoppedHeadName(state.action)));
+    await removeFile(repoPath('MERGE_MSG'));
+    await writeTodo(state.todo.slice(1));
+  }
+  return run(editMessage);
+}
+
+/**
+ * Abort the sequence in progress, putting HEAD, the index and the
+ * working tree back as they were before it started.
+ */
+export async function abortSequence(): Promise<void> {
+  const state = await getSequencerState() as SequencerState;
+  await gitLib.gitReset(state.origHead, 'hard');
+  await clearState();
+}
@@ -0,0 +1,43 @@
+/**
+ * Pure functions for the cherry-pick and revert sequencer: its todo list
+ * (.git/sequencer/todo) and the messages of revert commits.
+ * No I/O, no side effects - fully unit testable.
+ */
+
+export type SequencerAction = 'pick' | 'revert';
+
+export interface SequencerStep {
+  action: SequencerAction;
+  commit: string;
+  subject: string;
+}
+
+/**
+ * Parse a todo list of `<action> <commit> <subject>` lines,
+ * skipping any that aren't a pick or revert.
+ */
+export function parseSequencerTodo(text: string): SequencerStep[] {
+  const steps: SequencerStep[] = [];
+  for (const line of text.split('\n')) {
+    const [action, commit, ...subject] = line.trim().split(/\s+/);
+    if ((action === 'pick' || action === 'revert') && commit) {
+      steps.push({ action, commit, subject: subject.join(' ') });
+    }
+  }
+  return steps;
+}
+
+export function formatSequencerTodo(steps: SequencerStep[]): string {
+  return steps.map((step) => `${step.action} ${step.commit} ${step.subject}\n`).join('');
+}
+
+/**
+ * The message git prepares for reverting a commit. Reverting a revert
+ * reapplies the original change, and is named that way.
+ */
+export function formatRevertMessage(message: string, oid: string): string {
+  const subject = message.split('\n')[0];
+  const reverted = subject.match(/^Revert "(.*)"$/);
+  const title = reverted ? `Reapply "${reverted[1]}"` : `Revert "${subject}"`;
+  return `${title}\n\nThis reverts commit ${oid}.\n`;
+}
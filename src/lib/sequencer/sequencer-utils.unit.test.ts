@@ -0,0 +1,36 @@
+/**
+ * Unit tests for the sequencer todo list and revert messages.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseSequencerTodo, formatSequencerTodo, formatRevertMessage } from './sequencer-utils';
+
+describe('parseSequencerTodo', () => {
+  it('reads back what formatSequencerTodo writes', () => {
+    const steps = [
+      { action: 'pick' as const, commit: 'abc1234', subject: 'Add feature' },
+      { action: 'revert' as const, commit: 'def5678', subject: 'Fix typo in README' },
+    ];
+    expect(formatSequencerTodo(steps)).toBe('pick abc1234 Add feature\nrevert def5678 Fix typo in README\n');
+    expect(parseSequencerTodo(formatSequencerTodo(steps))).toEqual(steps);
+  });
+
+  it('skips blank and unknown lines', () => {
+    expect(parseSequencerTodo('\nsquash abc1234 Nope\npick\n')).toEqual([]);
+  });
+});
+
+describe('formatRevertMessage', () => {
+  const oid = 'a'.repeat(40);
+
+  it('names the reverted commit by subject and id', () => {
+    expect(formatRevertMessage('Add notes\n\nWith details\n', oid)).toBe(
+      `Revert "Add notes"\n\nThis reverts commit ${oid}.\n`,
+    );
+  });
+
+  it('calls reverting a revert reapplying', () => {
+    expect(formatRevertMessage(`Revert "Add notes"\n\nThis reverts commit ${oid}.\n`, oid))
+      .toMatch(/^Reapply "Add notes"\n/);
+  });
+});
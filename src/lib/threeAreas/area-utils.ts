@@ -0,0 +1,83 @@
+/**
+ * Pure functions for the three-area view (working tree, index, HEAD).
+ * No I/O, no side effects - fully unit testable.
+ */
+
+export type AreaName = 'workdir' | 'index' | 'head';
+
+export const AREA_NAMES: AreaName[] = ['workdir', 'index', 'head'];
+
+export interface FileAreaState {
+  filepath: string;
+  inHead: boolean;
+  inIndex: boolean;
+  inWorkdir: boolean;
+  staged: boolean;    // Index differs from HEAD: the next commit will change this file
+  unstaged: boolean;  // Working tree differs from index: `git add` would change the index
+}
+
+export interface AreaFile {
+  filepath: string;
+  state: FileAreaState;
+  contents: Record<AreaName, string | null>;  // null when absent from that area
+}
+
+/**
+ * Work out where a file exists and which areas differ from its contents.
+ *
+ * Compares content rather than statusMatrix codes: statusMatrix trusts a
+ * seconds-resolution stat cache, so a same-size edit right after
+ * `git add` can look unchanged.
+ */
+export function describeFileAreas(filepath: string, contents: Record<AreaName, string | null>): FileAreaState {
+  return {
+    filepath,
+    inHead: contents.head !== null,
+    inIndex: contents.index !== null,
+    inWorkdir: contents.workdir !== null,
+    staged: contents.index !== contents.head,
+    unstaged: contents.workdir !== contents.index,
+  };
+}
+
+/**
+ * Summarize a file's state in plain words, e.g. "untracked" or "staged".
+ */
+export function describeChange(state: FileAreaState): string {
+  if (!state.inHead && !state.inIndex) {
+    return state.inWorkdir ? 'untracked' : 'deleted';
+  }
+  if (state.staged && state.unstaged) {
+    return 'staged, then modified again';
+  }
+  if (state.staged) {
+    if (!state.inHead) return 'new file, staged';
+    if (!state.inIndex) return 'deletion staged';
+    return 'modified, staged';
+  }
+  if (state.unstaged) {
+    return state.inWorkdir ? 'modified, not staged' : 'deleted, not staged';
+  }
+  return 'committed';
+}
+
+/**
+ * Find the areas whose content changed between two views, as
+ * "filepath:area" keys. Used to highlight what a command just did.
+ */
+export function findChangedAreas(previous: AreaFile[], next: AreaFile[]): Set<string> {
+  const before = new Map(previous.map((f) => [f.filepath, f.contents]));
+  const after = new Map(next.map((f) => [f.filepath, f.contents]));
+  const changed = new Set<string>();
+
+  for (const filepath of new Set([...before.keys(), ...after.keys()])) {
+    for (const area of AREA_NAMES) {
+      const oldContent = before.get(filepath)?.[area] ?? null;
+      const newContent = after.get(filepath)?.[area] ?? null;
+      if (oldContent !== newContent) {
+        changed.add(`${filepath}:${area}`);
+      }
+    }
+  }
+  return changed;
+}
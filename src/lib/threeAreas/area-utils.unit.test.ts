@@ -0,0 +1,111 @@
+/**
+ * Unit tests for pure three-area view functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  describeFileAreas,
+  describeChange,
+  findChangedAreas,
+  type AreaFile,
+} from './area-utils';
+
+type Contents = [workdir: string | null, index: string | null, head: string | null];
+
+function areasOf([workdir, index, head]: Contents) {
+  return describeFileAreas('a.txt', { workdir, index, head });
+}
+
+describe('describeFileAreas', () => {
+  it('describes an untracked file', () => {
+    expect(areasOf(['new', null, null])).toEqual({
+      filepath: 'a.txt',
+      inHead: false,
+      inIndex: false,
+      inWorkdir: true,
+      staged: false,
+      unstaged: true,
+    });
+  });
+
+  it('describes a newly staged file', () => {
+    expect(areasOf(['new', 'new', null])).toMatchObject({
+      inHead: false,
+      inIndex: true,
+      staged: true,
+      unstaged: false,
+    });
+  });
+
+  it('describes an unmodified committed file', () => {
+    expect(areasOf(['a', 'a', 'a'])).toMatchObject({
+      inHead: true,
+      inIndex: true,
+      inWorkdir: true,
+      staged: false,
+      unstaged: false,
+    });
+  });
+
+  it('describes a file modified again after staging', () => {
+    expect(areasOf(['v3', 'v2', 'v1'])).toMatchObject({ staged: true, unstaged: true });
+  });
+
+  it('describes a staged deletion', () => {
+    expect(areasOf([null, null, 'a'])).toMatchObject({
+      inIndex: false,
+      inWorkdir: false,
+      staged: true,
+      unstaged: false,
+    });
+  });
+});
+
+describe('describeChange', () => {
+  it.each<[Contents, string]>([
+    [['new', null, null], 'untracked'],
+    [['new', 'new', null], 'new file, staged'],
+    [['a', 'a', 'a'], 'committed'],
+    [['b', 'a', 'a'], 'modified, not staged'],
+    [['b', 'b', 'a'], 'modified, staged'],
+    [['c', 'b', 'a'], 'staged, then modified again'],
+    [[null, null, 'a'], 'deletion staged'],
+    [[null, 'a', 'a'], 'deleted, not staged'],
+  ])('describes %j as %s', (contents, expected) => {
+    expect(describeChange(areasOf(contents))).toBe(expected);
+  });
+});
+
+describe('findChangedAreas', () => {
+  function file(filepath: string, workdir: string | null, index: string | null, head: string | null): AreaFile {
+    const contents = { workdir, index, head };
+    return { filepath, state: describeFileAreas(filepath, contents), contents };
+  }
+
+  it('finds nothing when nothing changed', () => {
+    const view = [file('a.txt', 'a', 'a', 'a')];
+
+    expect(findChangedAreas(view, view)).toEqual(new Set());
+  });
+
+  it('finds the index after git add', () => {
+    const before = [file('a.txt', 'new', 'old', 'old')];
+    const after = [file('a.txt', 'new', 'new', 'old')];
+
+    expect(findChangedAreas(before, after)).toEqual(new Set(['a.txt:index']));
+  });
+
+  it('finds HEAD after git commit', () => {
+    const before = [file('a.txt', 'new', 'new', 'old')];
+    const after = [file('a.txt', 'new', 'new', 'new')];
+
+    expect(findChangedAreas(before, after)).toEqual(new Set(['a.txt:head']));
+  });
+
+  it('finds areas of files that appeared or disappeared', () => {
+    const before = [file('a.txt', 'a', null, null)];
+    const after = [file('b.txt', 'b', null, null)];
+
+    expect(findChangedAreas(before, after)).toEqual(new Set(['a.txt:workdir', 'b.txt:workdir']));
+  });
+});
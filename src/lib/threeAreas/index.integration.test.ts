@@ -0,0 +1,62 @@
+/**
+ * Integration tests for the three-area view service.
+ * Runs real git commands and checks each area's content.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getThreeAreaView } from './index';
+import { executeCommand } from '../commands';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+
+describe('Three-Area View Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+  });
+
+  it('returns null before git init', async () => {
+    expect(await getThreeAreaView()).toBeNull();
+  });
+
+  it('shows an untracked file only in the working tree', async () => {
+    await executeCommand('git init');
+    await fsLib.writeFile(`${CWD}/a.txt`, 'hello\n');
+
+    const [file] = await getThreeAreaView() ?? [];
+
+    expect(file.filepath).toBe('a.txt');
+    expect(file.contents).toEqual({ workdir: 'hello\n', index: null, head: null });
+    expect(file.state.unstaged).toBe(true);
+  });
+
+  it('follows a file through git add and git commit', async () => {
+    await executeCommand('git init');
+    await fsLib.writeFile(`${CWD}/a.txt`, 'hello\n');
+
+    await executeCommand('git add a.txt');
+    const [staged] = await getThreeAreaView() ?? [];
+    await executeCommand('git commit -m "Add a"');
+    const [committed] = await getThreeAreaView() ?? [];
+
+    expect(staged.contents).toEqual({ workdir: 'hello\n', index: 'hello\n', head: null });
+    expect(staged.state.staged).toBe(true);
+    expect(committed.contents).toEqual({ workdir: 'hello\n', index: 'hello\n', head: 'hello\n' });
+    expect(committed.state.staged).toBe(false);
+  });
+
+  it('shows different content in each area', async () => {
+    await executeCommand('git init');
+    await fsLib.writeFile(`${CWD}/a.txt`, 'v1\n');
+    await executeCommand('git add a.txt');
+    await executeCommand('git commit -m "v1"');
+    await fsLib.writeFile(`${CWD}/a.txt`, 'v2\n');
+    await executeCommand('git add a.txt');
+    await fsLib.writeFile(`${CWD}/a.txt`, 'v3\n');
+
+    const [file] = await getThreeAreaView() ?? [];
+
+    expect(file.contents).toEqual({ workdir: 'v3\n', index: 'v2\n', head: 'v1\n' });
+    expect(file.state.staged).toBe(true);
+    expect(file.state.unstaged).toBe(true);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Three-area view service.
+ * Reads each file's content in the working tree, the index and HEAD
+ * for the files listed by gitStatus(), the same data the validators check.
+ */
+
+import { gitStatus, gitFileVersions } from '../git';
+import { stat } from '../fs';
+import { CWD } from '../config';
+import { describeFileAreas, type AreaFile } from './area-utils';
+
+// Re-export pure functions for convenience
+export {
+  AREA_NAMES,
+  describeFileAreas,
+  describeChange,
+  findChangedAreas,
+} from './area-utils';
+export type { AreaName, AreaFile, FileAreaState } from './area-utils';
+
+/**
+ * Build the three-area view for every file git knows about or could track.
+ * Returns null when there's no repository.
+ */
+export async function getThreeAreaView(): Promise<AreaFile[] | null> {
+  try {
+    await stat(`${CWD}/.git`);
+  } catch {
+    return null;
+  }
+
+  const status = await gitStatus();
+  const versions = await gitFileVersions(status.map(([filepath]) => filepath));
+  return versions.map(({ filepath, workdir, index, head }) => {
+    const contents = { workdir, index, head };
+    return { filepath, state: describeFileAreas(filepath, contents), contents };
+  });
+}
@@ -1,6 +1,21 @@
-import { gitStatus, gitLog, gitCurrentBranch, gitListBranches } from './git';
+import {
+  gitStatus,
+  gitLog,
+  gitCurrentBranch,
+  gitListBranches,
+  gitUnmergedPaths,
+  gitResolveRevision,
+  gitStashList,
+  gitStashDiff,
+  gitReadTag,
+  gitLogEntries,
+  gitCommitDiff,
+  gitResolveCommit,
+} from './git';
 import { stat, readFile, readdir } from './fs';
+import { patchSignature } from './diff/diff-utils';
 import { CWD } from './config';
+import type { NamedValidator } from './lessonLoader/loader-utils';
 
 /**
  * Validator functions for lesson exercises.
@@ -137,6 +152,27 @@ export function branchExists(branchName: string): () => Promise<boolean> {
   };
 }
 
+export function branchDeleted(branchName: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      const branches = await gitListBranches();
+      return !branches.includes(branchName);
+    } catch {
+      return false;
+    }
+  };
+}
+
+export async function isDetachedHead(): Promise<boolean> {
+  try {
+    // An unborn branch has no commit to detach at
+    await gitResolveRevision('HEAD');
+    return (await gitCurrentBranch()) === undefined;
+  } catch {
+    return false;
+  }
+}
+
 export async function hasMultipleBranches(): Promise<boolean> {
   try {
     const branches = await gitListBranches();
@@ -145,3 +181,171 @@ export async function hasMultipleBranches(): Promise<boolean> {
     return false;
   }
 }
+
+export async function hasMergeConflicts(): Promise<boolean> {
+  try {
+    const unmerged = await gitUnmergedPaths();
+    return unmerged.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export async function hasMergeCommit(): Promise<boolean> {
+  try {
+    // The whole history, however far back the merge was
+    const log = await gitLogEntries();
+    return log.some((commit) => commit.parents.length >= 2);
+  } catch {
+    return false;
+  }
+}
+
+export function fileUnstaged(filename: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      const status = await gitStatus();
+      // Changed in the working tree, but the index still matches HEAD
+      return status.some(([file, head, workdir, stage]) =>
+        file === filename && workdir === 2 && stage === head
+      );
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function headAt(revision: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      const [head, target] = await Promise.all([gitResolveRevision('HEAD'), gitResolveRevision(revision)]);
+      return head === target;
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function fileDeletedFromIndex(filename: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      const status = await gitStatus();
+      // Committed in HEAD, but no longer in the index
+      return status.some(([file, head, , stage]) =>
+        file === filename && head === 1 && stage === 0
+      );
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function stashCount(count: number): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      const entries = await gitStashList();
+      return entries.length === count;
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function stashContainsFile(filename: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      // Any stash entry holding a change to the file counts
+      const entries = await gitStashList();
+      for (let index = 0; index < entries.length; index++) {
+        const diffs = await gitStashDiff(index);
+        if (diffs.some((diff) => diff.filepath === filename)) return true;
+      }
+      return false;
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function tagExists(name: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      return (await gitReadTag(name)) !== null;
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function tagAnnotated(name: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      return (await gitReadTag(name))?.annotated ?? false;
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function commitWithMessage(message: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      // The subject line is enough, or the whole message
+      const log = await gitLogEntries();
+      return log.some((entry) =>
+        entry.message.split('\n')[0] === message || entry.message.trim() === message.trim()
+      );
+    } catch {
+      return false;
+    }
+  };
+}
+
+export function commitWithPatch(revision: string): () => Promise<boolean> {
+  return async (): Promise<boolean> => {
+    try {
+      // Another commit on the current branch making the same change, as cherry-picking it does
+      const oid = await gitResolveCommit(revision);
+      const signature = patchSignature(await gitCommitDiff(oid));
+      for (const entry of await gitLogEntries()) {
+        if (entry.oid !== oid && patchSignature(await gitCommitDiff(entry.oid)) === signature) return true;
+      }
+      return false;
+    } catch {
+      return false;
+    }
+  };
+}
+
+/**
+ * Validators that declarative lesson files can refer to by name,
+ * with the parameters each one takes.
+ */
+export const namedValidators: Record<string, NamedValidator> = {
+  repoInitialized: { params: [], create: () => repoInitialized },
+  fileExists: { params: ['string'], create: ([path]) => fileExists(String(path)) },
+  hasUntrackedFiles: { params: [], create: () => hasUntrackedFiles },
+  fileStaged: { params: ['string'], create: ([filename]) => fileStaged(String(filename)) },
+  hasStagedFiles: { params: [], create: () => hasStagedFiles },
+  hasCommits: { params: [], create: () => hasCommits },
+  hasMultipleCommits: { params: [], create: () => hasMultipleCommits },
+  fileHasContent: { params: ['string'], create: ([path]) => fileHasContent(String(path)) },
+  multipleFilesExist: { params: ['number'], create: ([count]) => multipleFilesExist(Number(count)) },
+  workingTreeClean: { params: [], create: () => workingTreeClean },
+  isOnBranch: { params: ['string'], create: ([branchName]) => isOnBranch(String(branchName)) },
+  branchExists: { params: ['string'], create: ([branchName]) => branchExists(String(branchName)) },
+  branchDeleted: { params: ['string'], create: ([branchName]) => branchDeleted(String(branchName)) },
+  isDetachedHead: { params: [], create: () => isDetachedHead },
+  hasMultipleBranches: { params: [], create: () => hasMultipleBranches },
+  hasMergeConflicts: { params: [], create: () => hasMergeConflicts },
+  hasMergeCommit: { params: [], create: () => hasMergeCommit },
+  fileUnstaged: { params: ['string'], create: ([filename]) => fileUnstaged(String(filename)) },
+  headAt: { params: ['string'], create: ([revision]) => headAt(String(revision)) },
+  fileDeletedFromIndex: { params: ['string'], create: ([filename]) => fileDeletedFromIndex(String(filename)) },
+  stashCount: { params: ['number'], create: ([count]) => stashCount(Number(count)) },
+  stashContainsFile: { params: ['string'], create: ([filename]) => stashContainsFile(String(filename)) },
+  tagExists: { params: ['string'], create: ([name]) => tagExists(String(name)) },
+  tagAnnotated: { params: ['string'], create: ([name]) => tagAnnotated(String(name)) },
+  commitWithMessage: { params: ['string'], create: ([message]) => commitWithMessage(String(message)) },
+  commitWithPatch: { params: ['string'], create: ([revision]) => commitWithPatch(String(revision)) },
+};
@@ -0,0 +1,118 @@
+/**
+ * Integration tests for the working directory service.
+ * Tests directory changes and repository discovery against the real filesystem.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getCurrentDir,
+  changeDir,
+  pushDir,
+  popDir,
+  getDirStack,
+  resetWorkingDirectory,
+  findRepoRoot,
+  getRepoDir,
+  withRepoDir,
+} from './index';
+import * as fsLib from '../fs';
+import { CWD } from '../config';
+import { gitInit } from '../git';
+
+describe('Working Directory Service', () => {
+  beforeEach(async () => {
+    await fsLib.resetFs();
+    resetWorkingDirectory();
+    await fsLib.mkdir(`${CWD}/src`);
+    await fsLib.mkdir(`${CWD}/src/lib`);
+  });
+
+  describe('changeDir', () => {
+    it('starts in the home directory', () => {
+      expect(getCurrentDir()).toBe(CWD);
+    });
+
+    it('changes to relative and absolute directories', async () => {
+      expect(await changeDir('src/lib')).toBe(`${CWD}/src/lib`);
+      expect(await changeDir('..')).toBe(`${CWD}/src`);
+      expect(await changeDir('/')).toBe('/');
+      expect(await changeDir('~')).toBe(CWD);
+    });
+
+    it('goes back to the previous directory with -', async () => {
+      await expect(changeDir('-')).rejects.toThrow('OLDPWD not set');
+
+      await changeDir('src');
+      expect(await changeDir('-')).toBe(CWD);
+      expect(await changeDir('-')).toBe(`${CWD}/src`);
+    });
+
+    it('rejects missing directories and files', async () => {
+      await fsLib.writeFile(`${CWD}/file.txt`, 'content');
+
+      await expect(changeDir('missing')).rejects.toThrow('missing: No such file or directory');
+      await expect(changeDir('file.txt')).rejects.toThrow('file.txt: Not a directory');
+      expect(getCurrentDir()).toBe(CWD);
+    });
+  });
+
+  describe('directory stack', () => {
+    it('pushes and pops directories', async () => {
+      expect(await pushDir('src')).toEqual([`${CWD}/src`, CWD]);
+      expect(await pushDir('lib')).toEqual([`${CWD}/src/lib`, `${CWD}/src`, CWD]);
+
+      expect(await popDir()).toEqual([`${CWD}/src`, CWD]);
+      expect(await popDir()).toEqual([CWD]);
+      expect(getCurrentDir()).toBe(CWD);
+    });
+
+    it('fails to pop an empty stack', async () => {
+      await expect(popDir()).rejects.toThrow('directory stack empty');
+    });
+
+    it('is forgotten on reset', async () => {
+      await pushDir('src');
+      resetWorkingDirectory();
+
+      expect(getCurrentDir()).toBe(CWD);
+      expect(getDirStack()).toEqual([CWD]);
+    });
+  });
+
+  describe('findRepoRoot', () => {
+    it('returns null outside any repository', async () => {
+      expect(await findRepoRoot(`${CWD}/src`)).toBeNull();
+    });
+
+    it('walks up to the directory containing .git', async () => {
+      await gitInit();
+
+      expect(await findRepoRoot(`${CWD}/src/lib`)).toBe(CWD);
+      expect(await findRepoRoot(CWD)).toBe(CWD);
+    });
+
+    it('finds the nearest of nested repositories', async () => {
+      await gitInit();
+      await withRepoDir(`${CWD}/src`, () => gitInit());
+
+      expect(await findRepoRoot(`${CWD}/src/lib`)).toBe(`${CWD}/src`);
+    });
+  });
+
+  describe('withRepoDir', () => {
+    it('points git at another repository while the operation runs', async () => {
+      const seen = await withRepoDir('/remotes/origin', async () => getRepoDir());
+
+      expect(seen).toBe('/remotes/origin');
+      expect(getRepoDir()).toBe(CWD);
+    });
+
+    it('restores the repository when the operation throws', async () => {
+      await expect(withRepoDir('/elsewhere', async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(getRepoDir()).toBe(CWD);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Working directory service.
+ * Tracks the terminal session's current directory and directory stack,
+ * and finds the repository git commands act on by walking up from it.
+ */
+
+import * as fsModule from '../fs';
+import { CWD } from '../config';
+import { resolvePathFrom, parentDirectories } from './path-utils';
+
+// Re-export pure functions for convenience
+export {
+  normalizePath,
+  resolvePathFrom,
+  parentDirectories,
+  relativePath,
+  formatPrompt,
+} from './path-utils';
+
+// Module state: the terminal session's directories
+let currentDir = CWD;
+let previousDir: string | null = null;
+let dirStack: string[] = [];
+
+// Module state: the repository git operations act on, the learner's by default
+let repoDir = CWD;
+
+export function getCurrentDir(): string {
+  return currentDir;
+}
+
+/**
+ * Resolve a path typed in the terminal against the current directory.
+ */
+export function resolveFromCurrentDir(path: string): string {
+  return resolvePathFrom(currentDir, path, CWD);
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await fsModule.stat(path)).type === 'dir';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Change the current directory, like `cd`. `-` goes back to the previous
+ * directory. Throws with a shell-style message when the target isn't a directory.
+ */
+export async function changeDir(path: string): Promise<string> {
+  if (path === '-' && !previousDir) {
+    throw new Error('OLDPWD not set');
+  }
+  const target = path === '-' ? previousDir as string : resolveFromCurrentDir(path);
+  if (!(await isDirectory(target))) {
+    const exists = await fsModule.stat(target).then(() => true, () => false);
+    throw new Error(`${path}: ${exists ? 'Not a directory' : 'No such file or directory'}`);
+  }
+  previousDir = currentDir;
+  currentDir = target;
+  return currentDir;
+}
+
+/**
+ * Change directory and remember where we were, like `pushd`.
+ * Returns the directory stack, current directory first.
+ */
+export async function pushDir(path: string): Promise<string[]> {
+  const from = currentDir;
+  await changeDir(path);
+  dirStack = [from, ...dirStack];
+  return getDirStack();
+}
+
+/**
+ * Go back to the most recently pushed directory, like `popd`.
+ * Returns the directory stack, current directory first.
+ */
+export async function popDir(): Promise<string[]> {
+  const [target, ...rest] = dirStack;
+  if (target === undefined) {
+    throw new Error('directory stack empty');
+  }
+  await changeDir(target);
+  dirStack = rest;
+  return getDirStack();
+}
+
+export function getDirStack(): string[] {
+  return [currentDir, ...dirStack];
+}
+
+/**
+ * The terminal session's directories, to put back after undo or redo.
+ */
+export interface WorkingDirectoryState {
+  currentDir: string;
+  previousDir: string | null;
+  dirStack: string[];
+}
+
+export function getWorkingDirectoryState(): WorkingDirectoryState {
+  return { currentDir, previousDir, dirStack: [...dirStack] };
+}
+
+/**
+ * Put the session's directories back as they were. When the current
+ * directory no longer exists, the nearest parent that does is used.
+ */
+export async function restoreWorkingDirectoryState(state: WorkingDirectoryState): Promise<void> {
+  let target = CWD;
+  for (const dir of parentDirectories(state.currentDir)) {
+    if (await isDirectory(dir)) {
+      target = dir;
+      break;
+    }
+  }
+  currentDir = target;
+  previousDir = state.previousDir;
+  dirStack = [...state.dirStack];
+}
+
+/**
+ * Go back to the home directory and forget the directory stack.
+ * Call this on environment reset.
+ */
+export function resetWorkingDirectory(): void {
+  currentDir = CWD;
+  previousDir = null;
+  dirStack = [];
+}
+
+/**
+ * Find the top of the repository containing a directory, by walking up
+ * until a directory with `.git` is found. Returns null outside any repository.
+ */
+export async function findRepoRoot(start = currentDir): Promise<string | null> {
+  for (const dir of parentDirectories(start)) {
+    const gitPath = dir === '/' ? '/.git' : `${dir}/.git`;
+    if (await fsModule.stat(gitPath).then(() => true, () => false)) {
+      return dir;
+    }
+  }
+  return null;
+}
+
+export function getRepoDir(): string {
+  return repoDir;
+}
+
+/**
+ * Point git operations at another repository while an operation runs.
+ * Afterwards they act on the learner's repository again.
+ */
+export async function withRepoDir<T>(dir: string, operation: () => Promise<T>): Promise<T> {
+  const previous = repoDir;
+  repoDir = dir;
+  try {
+    return await operation();
+  } finally {
+    repoDir = previous;
+  }
+}
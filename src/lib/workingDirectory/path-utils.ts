@@ -0,0 +1,70 @@
+/**
+ * Pure path functions for the terminal's working directory.
+ * No I/O, no side effects - fully unit testable.
+ *
+ * Paths are POSIX-style. Absolute paths are always normalized: no `.` or
+ * `..` segments, no repeated or trailing slashes (except for `/` itself).
+ */
+
+/**
+ * Normalize an absolute path, resolving `.` and `..` segments.
+ * `..` at the root stays at the root, as in a shell.
+ */
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Resolve a path typed in the terminal against the current directory.
+ * `~` stands for the home directory.
+ */
+export function resolvePathFrom(cwd: string, path: string, home: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return normalizePath(`${home}/${path.slice(1)}`);
+  }
+  if (path.startsWith('/')) {
+    return normalizePath(path);
+  }
+  return normalizePath(`${cwd}/${path}`);
+}
+
+/**
+ * List a directory and each of its parents up to the root, nearest first.
+ */
+export function parentDirectories(path: string): string[] {
+  const dirs = [normalizePath(path)];
+  while (dirs[dirs.length - 1] !== '/') {
+    const dir = dirs[dirs.length - 1];
+    dirs.push(dir.slice(0, dir.lastIndexOf('/')) || '/');
+  }
+  return dirs;
+}
+
+/**
+ * Express `path` relative to the directory `from`, e.g. for turning an
+ * absolute path into a path inside a repository. Returns '.' for `from`
+ * itself, and null when `path` is outside `from`.
+ */
+export function relativePath(from: string, path: string): string | null {
+  const base = normalizePath(from);
+  const target = normalizePath(path);
+  if (target === base) return '.';
+  const prefix = base === '/' ? '/' : `${base}/`;
+  return target.startsWith(prefix) ? target.slice(prefix.length) : null;
+}
+
+/**
+ * Format the terminal prompt for the current directory.
+ */
+export function formatPrompt(cwd: string): string {
+  return `\x1b[34m${cwd}\x1b[0m $ `;
+}
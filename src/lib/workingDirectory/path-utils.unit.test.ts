@@ -0,0 +1,78 @@
+/**
+ * Unit tests for working directory path functions.
+ * These test calculations and local logic only - no I/O, no mocks.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  normalizePath,
+  resolvePathFrom,
+  parentDirectories,
+  relativePath,
+  formatPrompt,
+} from './path-utils';
+
+describe('normalizePath', () => {
+  it('resolves . and .. segments', () => {
+    expect(normalizePath('/repo/./src/../README.md')).toBe('/repo/README.md');
+  });
+
+  it('drops repeated and trailing slashes', () => {
+    expect(normalizePath('/repo//src/')).toBe('/repo/src');
+  });
+
+  it('stays at the root when going above it', () => {
+    expect(normalizePath('/..')).toBe('/');
+    expect(normalizePath('/repo/../../etc')).toBe('/etc');
+  });
+});
+
+describe('resolvePathFrom', () => {
+  it('resolves relative paths against the current directory', () => {
+    expect(resolvePathFrom('/repo/src', 'lib/a.ts', '/repo')).toBe('/repo/src/lib/a.ts');
+    expect(resolvePathFrom('/repo/src', '..', '/repo')).toBe('/repo');
+  });
+
+  it('keeps absolute paths', () => {
+    expect(resolvePathFrom('/repo/src', '/remotes/origin', '/repo')).toBe('/remotes/origin');
+  });
+
+  it('expands ~ to the home directory', () => {
+    expect(resolvePathFrom('/remotes', '~', '/repo')).toBe('/repo');
+    expect(resolvePathFrom('/remotes', '~/src', '/repo')).toBe('/repo/src');
+  });
+});
+
+describe('parentDirectories', () => {
+  it('lists a directory and its parents, nearest first', () => {
+    expect(parentDirectories('/repo/src/lib')).toEqual(['/repo/src/lib', '/repo/src', '/repo', '/']);
+  });
+
+  it('returns just the root for the root', () => {
+    expect(parentDirectories('/')).toEqual(['/']);
+  });
+});
+
+describe('relativePath', () => {
+  it('expresses a path inside a directory relative to it', () => {
+    expect(relativePath('/repo', '/repo/src/a.ts')).toBe('src/a.ts');
+  });
+
+  it('returns . for the directory itself', () => {
+    expect(relativePath('/repo', '/repo/')).toBe('.');
+  });
+
+  it('returns null outside the directory', () => {
+    expect(relativePath('/repo', '/repository/a.ts')).toBeNull();
+    expect(relativePath('/repo/src', '/repo')).toBeNull();
+  });
+
+  it('works from the root', () => {
+    expect(relativePath('/', '/repo/a.ts')).toBe('repo/a.ts');
+  });
+});
+
+describe('formatPrompt', () => {
+  it('shows the current directory before the $', () => {
+    expect(formatPrompt('/repo/src')).toBe('\x1b[34m/repo/src\x1b[0m $ ');
+  });
+});
@@ -1,3 +1,5 @@
+import type { RepoSnapshot } from '../lib/repoSnapshot';
+
 export interface Exercise {
   id: string;
   instruction: string;
@@ -13,6 +15,7 @@ export interface Lesson {
   title: string;
   description: string;
   exercises: Exercise[];
+  startingSnapshot?: RepoSnapshot;  // Optional: state restored when skipping straight to this lesson
 }
 
 export interface LessonProgress {